@@ -0,0 +1,4 @@
+// Runtime configuration, loaded before the app bundle.
+// Left empty for local development; the Docker image rewrites this file on
+// container start from the API_BASE_URL and APP_ENV environment variables.
+window.__CONFIG__ = {};
@@ -0,0 +1,16 @@
+#!/bin/sh
+# Writes the runtime config read by the app (see src/config.ts).
+# Runs from /docker-entrypoint.d/ before nginx starts.
+set -e
+
+CONFIG_FILE=/usr/share/nginx/html/config.js
+
+cat > "$CONFIG_FILE" <<CONFIG
+window.__CONFIG__ = {
+  apiBaseUrl: "${API_BASE_URL:-/api}",
+  environment: "${APP_ENV:-production}",
+  mockApi: ${MOCK_API:-false}
+};
+CONFIG
+
+echo "Runtime config: apiBaseUrl=${API_BASE_URL:-/api} environment=${APP_ENV:-production} mockApi=${MOCK_API:-false}"
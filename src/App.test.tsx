@@ -2,8 +2,11 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import App from './App';
 
-test('renders learn react link', () => {
+// lottie-web draws on a canvas as soon as it loads, which jsdom lacks
+jest.mock('lottie-react', () => () => null);
+
+test('shows the login screen when there is no session', async () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  expect(await screen.findByRole('button', { name: /sign in/i })).toBeInTheDocument();
+  expect(screen.getByPlaceholderText(/enter your email/i)).toBeInTheDocument();
 });
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { BrowserRouter as Router, Route, Routes, Navigate } from 'react-router-dom';
 import Dashboard from './components/Dashboard';
 import Login from './components/Login';
@@ -10,86 +10,126 @@ import ProfileSettings from './components/ProfileSettings';
 import TeamManagement from './components/TeamManagement';
 import ProjectDetails from './components/ProjectDetails';
 import ProjectAssignments from './components/ProjectAssignments';
+import DigestTemplates from './components/DigestTemplates';
+import CommandPalette from './components/CommandPalette';
+import Timesheets from './components/Timesheets';
+import TimesheetExport from './components/TimesheetExport';
+import ProjectProgress from './components/ProjectProgress';
+import Timeline from './components/Timeline';
+import { authAPI, LoginResponse } from './services/api';
+import { queryCache } from './services/queryCache';
+import { realtime } from './services/realtime';
+import {
+  SessionUser,
+  clearSession,
+  getAccessToken,
+  getRefreshToken,
+  getUserFromToken,
+  isTokenExpired,
+  onSessionExpired,
+  saveSession,
+} from './services/session';
+import { applyDarkTheme, isDarkThemeSaved } from './utils/theme';
 import './App.css';
 
-interface User {
-  id: number;
-  username: string;
-  role: 'super_admin' | 'manager' | 'team_lead' | 'employee';
-}
+// Initialize user-specific dark theme
+const applyUserTheme = (userId: number) => applyDarkTheme(isDarkThemeSaved(userId));
 
 function App() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Check for existing authentication on app load
-  useEffect(() => {
-    const savedUser = localStorage.getItem('user');
-    const savedAuth = localStorage.getItem('isAuthenticated');
+  const endLocalSession = useCallback((userId?: number) => {
+    // Clear user-specific dashboard filters before clearing user data
+    if (userId) {
+      localStorage.removeItem(`dashboard-filters-${userId}`);
+    }
+    // Also clear the old global dashboard-filters key if it exists
+    localStorage.removeItem('dashboard-filters');
 
-    if (savedUser && savedAuth === 'true') {
-      try {
-        const userData = JSON.parse(savedUser);
-        setUser(userData);
-        setIsAuthenticated(true);
+    // Remove dark theme on logout
+    document.documentElement.removeAttribute('data-theme');
+    document.body.removeAttribute('data-theme');
+
+    clearSession();
+    queryCache.clear();
+    setIsAuthenticated(false);
+    setUser(null);
+  }, []);
 
-        // Initialize user-specific dark theme
-        const savedTheme = localStorage.getItem(`dark-theme-${userData.id}`);
-        const isDark = savedTheme === 'true';
-        if (isDark) {
-          document.documentElement.setAttribute('data-theme', 'dark');
-          document.body.setAttribute('data-theme', 'dark');
-        } else {
-          document.documentElement.removeAttribute('data-theme');
-          document.body.removeAttribute('data-theme');
+  // Restore the session from stored tokens on app load
+  useEffect(() => {
+    const restoreSession = async () => {
+      let accessToken = getAccessToken();
+      const refreshToken = getRefreshToken();
+
+      if (accessToken && isTokenExpired(accessToken) && refreshToken) {
+        try {
+          const tokens = await authAPI.refresh(refreshToken);
+          saveSession(tokens);
+          accessToken = tokens.accessToken;
+        } catch (error) {
+          accessToken = null;
         }
-      } catch (error) {
-        console.error('Error parsing saved user data:', error);
-        localStorage.removeItem('user');
-        localStorage.removeItem('isAuthenticated');
       }
-    }
 
-    setIsLoading(false);
+      const sessionUser = accessToken && !isTokenExpired(accessToken)
+        ? getUserFromToken(accessToken)
+        : null;
+
+      if (sessionUser) {
+        setUser(sessionUser);
+        setIsAuthenticated(true);
+        applyUserTheme(sessionUser.id);
+      } else {
+        clearSession();
+      }
+      setIsLoading(false);
+    };
+
+    restoreSession();
   }, []);
 
-  const handleLogin = (userData: User) => {
-    setIsAuthenticated(true);
-    setUser(userData);
-    // Save to localStorage
-    localStorage.setItem('user', JSON.stringify(userData));
-    localStorage.setItem('isAuthenticated', 'true');
-
-    // Initialize user-specific dark theme
-    const savedTheme = localStorage.getItem(`dark-theme-${userData.id}`);
-    const isDark = savedTheme === 'true';
-    if (isDark) {
-      document.documentElement.setAttribute('data-theme', 'dark');
-      document.body.setAttribute('data-theme', 'dark');
-    } else {
-      document.documentElement.removeAttribute('data-theme');
-      document.body.removeAttribute('data-theme');
+  // Any unrecoverable 401 ends the session; the routes then redirect to /login
+  useEffect(() => {
+    return onSessionExpired(() => {
+      endLocalSession(getUserFromToken(getAccessToken() || '')?.id);
+    });
+  }, [endLocalSession]);
+
+  // Live updates from other users for as long as someone is signed in
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    return realtime.connect(userId);
+  }, [userId]);
+
+  const handleLogin = (response: LoginResponse) => {
+    saveSession(response);
+    const sessionUser = getUserFromToken(response.accessToken);
+    if (!sessionUser) {
+      clearSession();
+      throw new Error('Invalid session token received from server');
     }
+    setIsAuthenticated(true);
+    setUser(sessionUser);
+    applyUserTheme(sessionUser.id);
   };
 
   const handleLogout = () => {
-    // Clear user-specific dashboard filters before clearing user data
-    if (user?.id) {
-      localStorage.removeItem(`dashboard-filters-${user.id}`);
+    const refreshToken = getRefreshToken();
+    if (refreshToken) {
+      authAPI.logout(refreshToken).catch((error) => {
+        console.error('Error revoking session:', error);
+      });
     }
-    // Also clear the old global dashboard-filters key if it exists
-    localStorage.removeItem('dashboard-filters');
-
-    // Remove dark theme on logout
-    document.documentElement.removeAttribute('data-theme');
-    document.body.removeAttribute('data-theme');
+    endLocalSession(user?.id);
+  };
 
-    setIsAuthenticated(false);
-    setUser(null);
-    // Clear localStorage
-    localStorage.removeItem('user');
-    localStorage.removeItem('isAuthenticated');
+  // Profile edits may change display fields; the role always stays as issued in the token
+  const handleUserUpdated = (updated: { username: string; email?: string }) => {
+    setUser((prev) => (prev ? { ...prev, username: updated.username, email: updated.email } : prev));
   };
 
   // Super admin only access
@@ -137,6 +177,7 @@ function App() {
     <Router>
       <div className="App sidebar-layout">
         {isAuthenticated && <Sidebar user={user} onLogout={handleLogout} />}
+        {isAuthenticated && user && <CommandPalette user={user} />}
         <main className={isAuthenticated ? "sidebar-content" : "full-width-layout"}>
           <Routes>
             <Route
@@ -179,6 +220,16 @@ function App() {
                 )
               }
             />
+            <Route
+              path="/digest-templates"
+              element={
+                isAuthenticated && user && canAccessSuperAdminPages(user.role) ? (
+                  <DigestTemplates user={user} />
+                ) : (
+                  <Navigate to="/dashboard" replace />
+                )
+              }
+            />
             <Route
               path="/projects"
               element={
@@ -189,6 +240,36 @@ function App() {
                 )
               }
             />
+            <Route
+              path="/projects/:projectId/progress"
+              element={
+                isAuthenticated && user && canAccessProjects(user.role) ? (
+                  <ProjectProgress />
+                ) : (
+                  <Navigate to="/dashboard" replace />
+                )
+              }
+            />
+            <Route
+              path="/projects/:projectId/timeline"
+              element={
+                isAuthenticated && user && canAccessProjects(user.role) ? (
+                  <Timeline user={user} />
+                ) : (
+                  <Navigate to="/dashboard" replace />
+                )
+              }
+            />
+            <Route
+              path="/timeline"
+              element={
+                isAuthenticated && user && canAccessProjects(user.role) ? (
+                  <Timeline user={user} />
+                ) : (
+                  <Navigate to="/dashboard" replace />
+                )
+              }
+            />
             <Route
               path="/tasks"
               element={
@@ -199,11 +280,31 @@ function App() {
                 )
               }
             />
+            <Route
+              path="/timesheets"
+              element={
+                isAuthenticated && user ? (
+                  <Timesheets user={user} />
+                ) : (
+                  <Navigate to="/login" replace />
+                )
+              }
+            />
+            <Route
+              path="/timesheets/export"
+              element={
+                isAuthenticated && user ? (
+                  <TimesheetExport user={user} />
+                ) : (
+                  <Navigate to="/login" replace />
+                )
+              }
+            />
             <Route
               path="/settings"
               element={
                 isAuthenticated && user ? (
-                  <ProfileSettings user={user} onUserUpdated={(u) => setUser(u as any)} />
+                  <ProfileSettings user={user} onUserUpdated={handleUserUpdated} />
                 ) : (
                   <Navigate to="/login" replace />
                 )
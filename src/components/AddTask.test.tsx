@@ -0,0 +1,218 @@
+import React from "react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import AddTask from "./AddTask";
+import { getMockDatabase } from "../mocks/server";
+import { signIn, weekdayFromToday } from "../testUtils";
+
+const renderAddTask = async () => {
+  const user = await signIn("admin@nextrack.dev");
+  const onTaskAdded = jest.fn();
+  render(<AddTask user={user} onTaskAdded={onTaskAdded} onClose={jest.fn()} />);
+  return { onTaskAdded };
+};
+
+const submit = () =>
+  userEvent.click(screen.getByRole("button", { name: /create task$/i }));
+
+const fillValidForm = async (fields: { name: string; hours: number }) => {
+  fireEvent.change(screen.getByLabelText(/task name/i), {
+    target: { value: fields.name },
+  });
+  userEvent.click(screen.getByText("Select Project"));
+  userEvent.click(await screen.findByText("Customer Portal"));
+  userEvent.click(await screen.findByText("Select Assignee from Project Team"));
+  userEvent.click(await screen.findByText("Evan Employee"));
+  fireEvent.change(screen.getByLabelText(/estimated hours/i), {
+    target: { value: String(fields.hours) },
+  });
+  fireEvent.change(screen.getByLabelText(/due date/i), {
+    target: { value: weekdayFromToday(7) },
+  });
+};
+
+describe("AddTask validation", () => {
+  it("requires a task name between 3 and 200 characters", async () => {
+    await renderAddTask();
+    const nameInput = screen.getByLabelText(/task name/i);
+
+    submit();
+    expect(await screen.findByText("Task name is required")).toBeInTheDocument();
+
+    fireEvent.change(nameInput, { target: { value: "ab" } });
+    submit();
+    expect(
+      await screen.findByText("Task name must be at least 3 characters")
+    ).toBeInTheDocument();
+
+    fireEvent.change(nameInput, { target: { value: "a".repeat(201) } });
+    submit();
+    expect(
+      await screen.findByText("Task name must not exceed 200 characters")
+    ).toBeInTheDocument();
+  });
+
+  it("requires estimated hours above 0 and at most 1000", async () => {
+    await renderAddTask();
+    const hoursInput = screen.getByLabelText(/estimated hours/i);
+
+    fireEvent.change(hoursInput, { target: { value: "0" } });
+    submit();
+    expect(
+      await screen.findByText("Estimated hours must be greater than 0")
+    ).toBeInTheDocument();
+
+    fireEvent.change(hoursInput, { target: { value: "1001" } });
+    submit();
+    expect(
+      await screen.findByText("Estimated hours seems too high (max 1000)")
+    ).toBeInTheDocument();
+  });
+
+  it("rejects a due date in the past", async () => {
+    await renderAddTask();
+
+    fireEvent.change(screen.getByLabelText(/due date/i), {
+      target: { value: weekdayFromToday(-14) },
+    });
+    submit();
+    expect(
+      await screen.findByText("Due date cannot be in the past")
+    ).toBeInTheDocument();
+  });
+
+  it("does not create a task while the form is invalid", async () => {
+    const { onTaskAdded } = await renderAddTask();
+    const taskCount = getMockDatabase().tasks.length;
+
+    submit();
+    expect(
+      await screen.findByText("Please fix the validation errors")
+    ).toBeInTheDocument();
+    expect(getMockDatabase().tasks).toHaveLength(taskCount);
+    expect(onTaskAdded).not.toHaveBeenCalled();
+  });
+});
+
+describe("AddTask workload validation", () => {
+  it("creates the task when the workload warning is confirmed", async () => {
+    const { onTaskAdded } = await renderAddTask();
+    await fillValidForm({ name: "Overloaded task", hours: 80 });
+
+    submit();
+    expect(
+      await screen.findByText(/employee workload alert/i)
+    ).toBeInTheDocument();
+
+    userEvent.click(screen.getByRole("button", { name: /create task anyway/i }));
+
+    await waitFor(() => expect(onTaskAdded).toHaveBeenCalled());
+    const created = getMockDatabase().tasks.find(
+      (task) => task.name === "Overloaded task"
+    );
+    expect(created).toMatchObject({
+      assignee_id: 4,
+      project_id: 1,
+      planned_hours: 80,
+      workload_warning_level: "critical",
+    });
+  });
+
+  it("keeps the form open without creating the task when cancelled", async () => {
+    const { onTaskAdded } = await renderAddTask();
+    const taskCount = getMockDatabase().tasks.length;
+    await fillValidForm({ name: "Overloaded task", hours: 80 });
+
+    submit();
+    await screen.findByText(/employee workload alert/i);
+    userEvent.click(screen.getByRole("button", { name: /^cancel$/i }));
+
+    await waitFor(() =>
+      expect(screen.queryByText(/employee workload alert/i)).not.toBeInTheDocument()
+    );
+    expect(screen.getByLabelText(/task name/i)).toHaveValue("Overloaded task");
+    expect(getMockDatabase().tasks).toHaveLength(taskCount);
+    expect(onTaskAdded).not.toHaveBeenCalled();
+  });
+
+  it("creates the task directly when the assignee has capacity", async () => {
+    const { onTaskAdded } = await renderAddTask();
+    await fillValidForm({ name: "Small fix", hours: 2 });
+
+    submit();
+
+    await waitFor(() => expect(onTaskAdded).toHaveBeenCalled());
+    expect(screen.queryByText(/employee workload alert/i)).not.toBeInTheDocument();
+    expect(
+      getMockDatabase().tasks.some((task) => task.name === "Small fix")
+    ).toBe(true);
+  });
+});
+
+describe("AddTask recurrence", () => {
+  it("creates one task per occurrence in the series", async () => {
+    const { onTaskAdded } = await renderAddTask();
+    await fillValidForm({ name: "Weekly sync notes", hours: 1 });
+
+    userEvent.selectOptions(screen.getByLabelText(/^repeat$/i), "weekly");
+    fireEvent.change(screen.getByLabelText(/number of occurrences/i), {
+      target: { value: "3" },
+    });
+    expect(screen.getByText(/creates 3 tasks/i)).toBeInTheDocument();
+
+    submit();
+
+    await waitFor(() => expect(onTaskAdded).toHaveBeenCalled());
+    const series = getMockDatabase().tasks.filter(
+      (task) => task.name === "Weekly sync notes"
+    );
+    expect(series).toHaveLength(3);
+    expect(new Set(series.map((task) => task.recurrence_id)).size).toBe(1);
+    expect(series.map((task) => task.recurrence_index)).toEqual([0, 1, 2]);
+    expect(new Set(series.map((task) => task.due_date)).size).toBe(3);
+  });
+
+  it("repeats every few weekdays, skipping weekends", async () => {
+    const { onTaskAdded } = await renderAddTask();
+    await fillValidForm({ name: "Backup restore drill", hours: 1 });
+
+    userEvent.selectOptions(screen.getByLabelText(/^repeat$/i), "daily");
+    fireEvent.change(screen.getByLabelText(/repeat interval/i), {
+      target: { value: "5" },
+    });
+    fireEvent.change(screen.getByLabelText(/number of occurrences/i), {
+      target: { value: "3" },
+    });
+    submit();
+
+    await waitFor(() => expect(onTaskAdded).toHaveBeenCalled());
+    // Five weekdays on is the same day of the next week
+    const first = new Date(`${weekdayFromToday(7)}T00:00:00Z`);
+    const weeksLater = (weeks: number) =>
+      new Date(first.getTime() + weeks * 7 * 86400000).toISOString().slice(0, 10);
+    const series = getMockDatabase().tasks.filter(
+      (task) => task.name === "Backup restore drill"
+    );
+    expect(series.map((task) => task.due_date?.slice(0, 10))).toEqual([
+      weeksLater(0),
+      weeksLater(1),
+      weeksLater(2),
+    ]);
+  });
+
+  it("validates the workload of every occurrence", async () => {
+    await renderAddTask();
+    await fillValidForm({ name: "Daily support rotation", hours: 12 });
+
+    userEvent.selectOptions(screen.getByLabelText(/^repeat$/i), "daily");
+    fireEvent.change(screen.getByLabelText(/number of occurrences/i), {
+      target: { value: "10" },
+    });
+    submit();
+
+    expect(
+      await screen.findByText(/employee workload alert/i)
+    ).toBeInTheDocument();
+    expect(screen.getByText(/120h \(10 occurrences\)/)).toBeInTheDocument();
+  });
+});
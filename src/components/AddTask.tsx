@@ -7,11 +7,16 @@ import {
   dashboardAPI,
   userAPI,
 } from "../services/api";
-import { Task, Project, TeamMember } from "../types";
+import { Task, Project, TeamMember, RecurrenceRule } from "../types";
 import WorkloadWarningModal from "./WorkloadWarningModal";
 import Toast from "./Toast";
 import { useToast } from "../hooks/useToast";
 import CustomSelect from "./CustomSelect";
+import AttachmentDropzone, { formatFileSize } from "./AttachmentDropzone";
+import AttachmentUploadList from "./AttachmentUploadList";
+import { useAttachmentUploads } from "../hooks/useAttachmentUploads";
+import RecurrenceFields from "./RecurrenceFields";
+import { validateRecurrence } from "../utils/recurrence";
 import "../App.css";
 
 interface AddTaskProps {
@@ -57,9 +62,12 @@ const AddTask: React.FC<AddTaskProps> = ({
       | "other",
     start_date: "",
     due_date: "",
-    attachments: "",
   });
 
+  // null for a one-off task
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  // Uploaded once the task exists
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [projectTeamMembers, setProjectTeamMembers] = useState<
@@ -71,6 +79,7 @@ const AddTask: React.FC<AddTaskProps> = ({
   const [showWorkloadWarning, setShowWorkloadWarning] = useState<any>(null);
   const [formErrors, setFormErrors] = useState<{ [key: string]: string }>({});
   const { toast, showToast, hideToast } = useToast();
+  const { uploads, uploadFiles } = useAttachmentUploads();
 
   useEffect(() => {
     const fetchData = async () => {
@@ -224,7 +233,7 @@ const AddTask: React.FC<AddTaskProps> = ({
     // Handle due_date: prevent selecting weekends (Saturday/Sunday)
     let processedValue = value;
     if (name === "due_date" && value) {
-      const selectedDate = new Date(value);
+      const selectedDate = new Date(`${value}T00:00:00`);
       const dayOfWeek = selectedDate.getDay();
 
       // If Saturday (6) or Sunday (0), adjust to nearest weekday
@@ -314,8 +323,8 @@ const AddTask: React.FC<AddTaskProps> = ({
 
     // Start date validation (optional but if provided, must be before or equal to due date)
     if (formData.start_date && formData.due_date) {
-      const startDate = new Date(formData.start_date);
-      const dueDate = new Date(formData.due_date);
+      const startDate = new Date(`${formData.start_date}T00:00:00`);
+      const dueDate = new Date(`${formData.due_date}T00:00:00`);
       if (startDate > dueDate) {
         errors.start_date = "Start date must be before or equal to due date";
       }
@@ -325,24 +334,37 @@ const AddTask: React.FC<AddTaskProps> = ({
     if (!formData.due_date) {
       errors.due_date = "Due date is required";
     } else {
-      const dueDate = new Date(formData.due_date);
+      // Local midnight: a bare date string parses as UTC, a day early west of it
+      const dueDate = new Date(`${formData.due_date}T00:00:00`);
       const dayOfWeek = dueDate.getDay(); // 0 = Sunday, 6 = Saturday
 
       // Prevent selecting weekends (Saturday or Sunday)
       if (dayOfWeek === 0 || dayOfWeek === 6) {
         errors.due_date =
           "Due date cannot be on a weekend (Saturday or Sunday)";
+      } else {
+        // Compare against local midnight so today is still allowed
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        if (dueDate < today) {
+          errors.due_date = "Due date cannot be in the past";
+        }
       }
 
       // If start date is provided, ensure it's before or equal to due date
       if (formData.start_date) {
-        const startDate = new Date(formData.start_date);
+        const startDate = new Date(`${formData.start_date}T00:00:00`);
         if (startDate > dueDate) {
           errors.start_date = "Start date must be before or equal to due date";
         }
       }
     }
 
+    if (recurrence) {
+      const recurrenceError = validateRecurrence(recurrence, formData.due_date);
+      if (recurrenceError) errors.recurrence = recurrenceError;
+    }
+
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
   };
@@ -389,11 +411,17 @@ const AddTask: React.FC<AddTaskProps> = ({
           project_id: formData.project_id,
           planned_hours: formData.planned_hours,
           due_date: formData.due_date,
+          ...(recurrence && { recurrence }),
         });
 
         // Calculate available hours percentage after adding the new task
-        const { availableHours, totalHours, utilizationPercentage } =
-          validationResult.workload;
+        // newTaskHours covers every occurrence of a recurring task
+        const {
+          availableHours,
+          totalHours,
+          utilizationPercentage,
+          newTaskHours,
+        } = validationResult.workload;
         const totalCapacity = totalHours + availableHours; // Total weekly capacity
         const availableHoursPercentage =
           totalCapacity > 0 ? (availableHours / totalCapacity) * 100 : 0;
@@ -401,14 +429,17 @@ const AddTask: React.FC<AddTaskProps> = ({
         // Calculate available hours BEFORE adding the new task
         // availableHoursAfter = availableHoursBefore - newTaskHours
         // So: availableHoursBefore = availableHoursAfter + newTaskHours
-        const availableHoursBefore = availableHours + formData.planned_hours;
+        const availableHoursBefore = availableHours + newTaskHours;
 
         // Check if estimated hours exceed available hours BEFORE adding the task
-        if (formData.planned_hours > availableHoursBefore) {
-          const violation = formData.planned_hours - availableHoursBefore;
+        if (newTaskHours > availableHoursBefore) {
+          const violation = newTaskHours - availableHoursBefore;
+          const occurrences = validationResult.workload.occurrences || 1;
           setShowWorkloadWarning({
             warnings: [
-              `Estimated hours (${formData.planned_hours}h) exceed available hours (${availableHoursBefore}h) for this week`,
+              occurrences > 1
+                ? `Estimated hours (${newTaskHours}h across ${occurrences} occurrences) exceed available hours (${availableHoursBefore}h) until the last occurrence`
+                : `Estimated hours (${newTaskHours}h) exceed available hours (${availableHoursBefore}h) for this week`,
               `This task requires ${violation}h more than what's available`,
               ...validationResult.warnings,
             ],
@@ -444,6 +475,22 @@ const AddTask: React.FC<AddTaskProps> = ({
     }
   };
 
+  // The task is kept when an upload fails; the modal stays open so the
+  // progress list can show which files did not make it
+  const uploadPendingFiles = async (taskId: number) => {
+    if (pendingFiles.length === 0) return true;
+    const failed = await uploadFiles(taskId, pendingFiles);
+    setPendingFiles([]);
+    if (failed.length > 0) {
+      showToast(
+        `Task created, but ${failed.length} of ${pendingFiles.length} files failed to upload. Add them again from Edit Task.`,
+        "error"
+      );
+      return false;
+    }
+    return true;
+  };
+
   const createTask = async () => {
     try {
       // Set default status to 'todo' for new tasks
@@ -451,6 +498,7 @@ const AddTask: React.FC<AddTaskProps> = ({
       const taskData: any = {
         ...formData,
         status: "todo" as const,
+        ...(recurrence && { recurrence }),
       };
 
       // Remove start_date if it's empty to avoid backend errors
@@ -458,7 +506,8 @@ const AddTask: React.FC<AddTaskProps> = ({
         delete taskData.start_date;
       }
 
-      await taskAPI.create(taskData);
+      const { id } = await taskAPI.create(taskData);
+      const uploaded = await uploadPendingFiles(id);
       setFormData({
         name: "",
         description: "",
@@ -469,11 +518,11 @@ const AddTask: React.FC<AddTaskProps> = ({
         task_type: "development",
         start_date: "",
         due_date: "",
-        attachments: "",
       });
+      setRecurrence(null);
       setFormErrors({});
       onTaskAdded?.();
-      onClose?.();
+      if (uploaded) onClose?.();
     } catch (err: any) {
       const errorMessage =
         err.response?.data?.message || err.message || "Failed to create task";
@@ -500,6 +549,7 @@ const AddTask: React.FC<AddTaskProps> = ({
         total_workload_hours: workloadData.workload.totalHours,
         available_hours: workloadData.workload.availableHours,
         allocated_hours: workloadData.workload.allocatedHours,
+        ...(recurrence && { recurrence }),
       };
 
       // Remove start_date if it's empty to avoid backend errors
@@ -507,7 +557,8 @@ const AddTask: React.FC<AddTaskProps> = ({
         delete taskData.start_date;
       }
 
-      await taskAPI.create(taskData);
+      const { id } = await taskAPI.create(taskData);
+      const uploaded = await uploadPendingFiles(id);
       setFormData({
         name: "",
         description: "",
@@ -518,11 +569,11 @@ const AddTask: React.FC<AddTaskProps> = ({
         task_type: "development",
         start_date: "",
         due_date: "",
-        attachments: "",
       });
+      setRecurrence(null);
       setFormErrors({});
       onTaskAdded?.();
-      onClose?.();
+      if (uploaded) onClose?.();
     } catch (err: any) {
       const errorMessage =
         err.response?.data?.message || err.message || "Failed to create task";
@@ -859,15 +910,61 @@ const AddTask: React.FC<AddTaskProps> = ({
           </div>
 
           <div className="form-group">
-            <label htmlFor="attachments">Attachments</label>
-            <input
-              type="text"
-              id="attachments"
-              name="attachments"
-              value={formData.attachments}
-              onChange={handleInputChange}
-              placeholder="Enter attachment URLs or file names"
+            <label htmlFor="recurrence_frequency">Repeat</label>
+            <RecurrenceFields
+              value={recurrence}
+              onChange={setRecurrence}
+              firstDate={formData.due_date}
+              error={formErrors.recurrence}
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="new-task-attachments">Attachments</label>
+            <AttachmentDropzone
+              id="new-task-attachments"
+              onFiles={(files) => setPendingFiles((prev) => [...prev, ...files])}
+              onRejected={(message) => showToast(message, "error")}
+              disabled={loading}
             />
+            {pendingFiles.length > 0 && (
+              <ul style={{ listStyle: "none", padding: 0, margin: "0.5rem 0 0" }}>
+                {pendingFiles.map((file, index) => (
+                  <li
+                    key={`${file.name}-${index}`}
+                    style={{
+                      display: "flex",
+                      justifyContent: "space-between",
+                      alignItems: "center",
+                      fontSize: "0.85rem",
+                      padding: "0.25rem 0",
+                    }}
+                  >
+                    <span>
+                      {file.name}{" "}
+                      <span style={{ color: "#6b7280" }}>({formatFileSize(file.size)})</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setPendingFiles((prev) => prev.filter((_, i) => i !== index))
+                      }
+                      aria-label={`Remove ${file.name}`}
+                      style={{
+                        background: "none",
+                        border: "none",
+                        color: "#ef4444",
+                        cursor: "pointer",
+                        fontSize: "1rem",
+                      }}
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <AttachmentUploadList uploads={uploads} />
           </div>
 
           <div className="form-actions">
@@ -0,0 +1,107 @@
+import React, { useRef, useState } from "react";
+import { Upload } from "lucide-react";
+
+// Matches the backend's upload limit
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+export const formatFileSize = (bytes?: number) => {
+  if (bytes === undefined || bytes === null) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface AttachmentDropzoneProps {
+  id: string;
+  onFiles: (files: File[]) => void;
+  // Called with a message for files that are too large
+  onRejected?: (message: string) => void;
+  disabled?: boolean;
+}
+
+// Drop target and file picker for task attachments; accepts several files at once
+const AttachmentDropzone: React.FC<AttachmentDropzoneProps> = ({
+  id,
+  onFiles,
+  onRejected,
+  disabled = false,
+}) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const accept = (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    const tooLarge = files.filter((file) => file.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge.length > 0) {
+      onRejected?.(
+        `${tooLarge.map((file) => file.name).join(", ")} ${
+          tooLarge.length === 1 ? "is" : "are"
+        } larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`
+      );
+    }
+    const accepted = files.filter((file) => file.size <= MAX_ATTACHMENT_BYTES);
+    if (accepted.length > 0) onFiles(accepted);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!disabled) accept(e.dataTransfer.files);
+  };
+
+  return (
+    <div
+      data-testid={`${id}-dropzone`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        if (!disabled) setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      style={{
+        border: `2px dashed ${isDragging ? "#667eea" : "#d1d5db"}`,
+        background: isDragging ? "#eef2ff" : "#f9fafb",
+        borderRadius: "8px",
+        padding: "1rem",
+        textAlign: "center",
+        color: "#6b7280",
+        fontSize: "0.9rem",
+        opacity: disabled ? 0.6 : 1,
+        transition: "border-color 0.15s, background 0.15s",
+      }}
+    >
+      <Upload size={20} style={{ marginBottom: "0.25rem" }} />
+      <div>
+        Drag and drop files here, or{" "}
+        <label
+          htmlFor={id}
+          style={{
+            color: "#667eea",
+            fontWeight: 600,
+            cursor: disabled ? "not-allowed" : "pointer",
+            display: "inline",
+            margin: 0,
+          }}
+        >
+          browse
+        </label>
+      </div>
+      <small>Up to {formatFileSize(MAX_ATTACHMENT_BYTES)} per file</small>
+      <input
+        ref={inputRef}
+        id={id}
+        type="file"
+        multiple
+        disabled={disabled}
+        onChange={(e) => {
+          accept(e.target.files);
+          // Allow picking the same file again
+          if (inputRef.current) inputRef.current.value = "";
+        }}
+        style={{ display: "none" }}
+      />
+    </div>
+  );
+};
+
+export default AttachmentDropzone;
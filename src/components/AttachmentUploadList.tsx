@@ -0,0 +1,76 @@
+import React from "react";
+import { AttachmentUpload } from "../hooks/useAttachmentUploads";
+import { formatFileSize } from "./AttachmentDropzone";
+
+interface AttachmentUploadListProps {
+  uploads: AttachmentUpload[];
+}
+
+// Progress bar per file while uploads are running; failed uploads keep
+// their error message
+const AttachmentUploadList: React.FC<AttachmentUploadListProps> = ({ uploads }) => {
+  if (uploads.length === 0) return null;
+
+  return (
+    <ul style={{ listStyle: "none", padding: 0, margin: "0.75rem 0 0" }}>
+      {uploads.map((upload) => {
+        const percent = upload.total
+          ? Math.min(100, Math.round((upload.loaded / upload.total) * 100))
+          : upload.status === "done"
+          ? 100
+          : 0;
+        const color =
+          upload.status === "error"
+            ? "#ef4444"
+            : upload.status === "done"
+            ? "#10b981"
+            : "#667eea";
+
+        return (
+          <li key={upload.key} style={{ marginBottom: "0.5rem", fontSize: "0.85rem" }}>
+            <div style={{ display: "flex", justifyContent: "space-between", gap: "0.5rem" }}>
+              <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {upload.fileName}
+              </span>
+              <span style={{ color, whiteSpace: "nowrap" }}>
+                {upload.status === "error"
+                  ? "Failed"
+                  : upload.status === "done"
+                  ? "Uploaded"
+                  : `${percent}% of ${formatFileSize(upload.total)}`}
+              </span>
+            </div>
+            <div
+              role="progressbar"
+              aria-label={`Uploading ${upload.fileName}`}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={percent}
+              style={{
+                height: "6px",
+                background: "#e5e7eb",
+                borderRadius: "3px",
+                overflow: "hidden",
+                marginTop: "0.25rem",
+              }}
+            >
+              <div
+                style={{
+                  width: `${upload.status === "error" ? 100 : percent}%`,
+                  height: "100%",
+                  background: color,
+                  transition: "width 0.2s",
+                }}
+              />
+            </div>
+            {upload.error && (
+              <small style={{ color: "#ef4444" }}>{upload.error}</small>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default AttachmentUploadList;
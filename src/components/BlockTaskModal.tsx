@@ -1,11 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { teamAPI } from '../services/api';
 import { TeamMember } from '../types';
+import BlockerSelect from './BlockerSelect';
+import { useModalFocus } from '../hooks/useModalFocus';
 import '../App.css';
 
 interface BlockTaskModalProps {
   taskId: number;
   taskName: string;
+  // Enables choosing blocking tasks from the same project
+  projectId?: number;
+  // Blockers the task already has
+  blockerIds?: number[];
   onConfirm: (data: BlockTaskData) => void;
   onCancel: () => void;
 }
@@ -14,16 +20,26 @@ export interface BlockTaskData {
   reason: string;
   dependentUserId?: number;
   dependentUserName?: string;
+  blockerIds: number[];
 }
 
-const BlockTaskModal: React.FC<BlockTaskModalProps> = ({ taskId, taskName, onConfirm, onCancel }) => {
+const BlockTaskModal: React.FC<BlockTaskModalProps> = ({
+  taskId,
+  taskName,
+  projectId,
+  blockerIds: initialBlockerIds = [],
+  onConfirm,
+  onCancel
+}) => {
   const [formData, setFormData] = useState({
     reason: '',
     dependentUserId: 0
   });
+  const [blockerIds, setBlockerIds] = useState<number[]>(initialBlockerIds);
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const dialog = useModalFocus(onCancel);
 
   useEffect(() => {
     const fetchTeamMembers = async () => {
@@ -62,7 +78,8 @@ const BlockTaskModal: React.FC<BlockTaskModalProps> = ({ taskId, taskName, onCon
       const blockData: BlockTaskData = {
         reason: formData.reason.trim(),
         dependentUserId: formData.dependentUserId || undefined,
-        dependentUserName: dependentMember?.name
+        dependentUserName: dependentMember?.name,
+        blockerIds
       };
       
       onConfirm(blockData);
@@ -75,7 +92,7 @@ const BlockTaskModal: React.FC<BlockTaskModalProps> = ({ taskId, taskName, onCon
 
   return (
     <div className="modal-overlay">
-      <div className="modal" style={{ maxWidth: "700px", maxHeight: "90vh", overflow: "hidden", display: "flex", flexDirection: "column", padding: 0 }}>
+      <div {...dialog} aria-labelledby="block-task-title" className="modal" style={{ maxWidth: "700px", maxHeight: "90vh", overflow: "hidden", display: "flex", flexDirection: "column", padding: 0 }}>
         <div
           className="modal-header"
           style={{
@@ -89,7 +106,7 @@ const BlockTaskModal: React.FC<BlockTaskModalProps> = ({ taskId, taskName, onCon
             flexShrink: 0,
           }}
         >
-          <h2 style={{ margin: 0, color: "white" }}>Block Task</h2>
+          <h2 id="block-task-title" style={{ margin: 0, color: "white" }}>Block Task</h2>
           <button className="close-btn" onClick={onCancel} style={{ color: "white" }}>
             ×
           </button>
@@ -116,6 +133,21 @@ const BlockTaskModal: React.FC<BlockTaskModalProps> = ({ taskId, taskName, onCon
             />
           </div>
 
+          {projectId ? (
+            <div className="form-group">
+              <label>Blocked by Tasks (Optional)</label>
+              <BlockerSelect
+                taskId={taskId}
+                projectId={projectId}
+                value={blockerIds}
+                onChange={setBlockerIds}
+              />
+              <small className="form-help">
+                The task can't be started until these are completed
+              </small>
+            </div>
+          ) : null}
+
           <div className="form-group">
             <label htmlFor="dependentUserId">Waiting for (Optional)</label>
             <select
@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from "react";
+import { taskAPI, isAbortError } from "../services/api";
+import { Task } from "../types";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import CustomMultiSelect from "./CustomMultiSelect";
+
+interface BlockerSelectProps {
+  taskId: number;
+  projectId: number;
+  value: number[];
+  onChange: (blockerIds: number[]) => void;
+}
+
+const STATUS_LABELS: Record<Task["status"], string> = {
+  todo: "To Do",
+  in_progress: "In Progress",
+  blocked: "Blocked",
+  completed: "Completed",
+};
+
+// Picks the tasks in the same project that block `taskId`. Completed tasks
+// are only offered when already selected.
+const BlockerSelect: React.FC<BlockerSelectProps> = ({
+  taskId,
+  projectId,
+  value,
+  onChange,
+}) => {
+  const [projectTasks, setProjectTasks] = useState<Task[]>([]);
+  const getSignal = useAbortSignal();
+
+  useEffect(() => {
+    if (!projectId) {
+      setProjectTasks([]);
+      return;
+    }
+    taskAPI
+      .getByProject(projectId, { signal: getSignal() })
+      .then(setProjectTasks)
+      .catch((err) => {
+        if (!isAbortError(err)) console.error("Error fetching project tasks:", err);
+      });
+  }, [projectId, getSignal]);
+
+  const options = projectTasks
+    .filter(
+      (task) =>
+        task.id !== taskId &&
+        (task.status !== "completed" || value.includes(task.id))
+    )
+    .map((task) => ({
+      value: task.id,
+      label: `${task.name} (${STATUS_LABELS[task.status] || task.status})`,
+    }));
+
+  return (
+    <CustomMultiSelect
+      value={value}
+      onChange={(selected) => onChange(selected.map(Number))}
+      options={options}
+      placeholder="Not blocked by other tasks"
+    />
+  );
+};
+
+export default BlockerSelect;
@@ -0,0 +1,77 @@
+import React from "react";
+import { render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MemoryRouter, useLocation } from "react-router-dom";
+import CommandPalette from "./CommandPalette";
+import { signIn } from "../testUtils";
+
+const CurrentLocation = () => {
+  const location = useLocation();
+  return <div data-testid="location">{location.pathname + location.search}</div>;
+};
+
+const openPalette = async (email: string) => {
+  const user = await signIn(email);
+  render(
+    <MemoryRouter initialEntries={["/dashboard"]}>
+      <CommandPalette user={user} />
+      <CurrentLocation />
+    </MemoryRouter>
+  );
+  userEvent.keyboard("{Control>}k{/Control}");
+  return screen.getByRole("combobox", { name: "Search tasks, projects, people and actions" });
+};
+
+describe("CommandPalette", () => {
+  afterEach(() => {
+    document.documentElement.removeAttribute("data-theme");
+    document.body.removeAttribute("data-theme");
+  });
+
+  it("finds tasks, projects and people and opens a task", async () => {
+    const input = await openPalette("manager@nextrack.dev");
+    expect(input).toHaveFocus();
+
+    userEvent.type(input, "portal");
+    expect(await screen.findByRole("option", { name: /^Customer Portal/ })).toBeInTheDocument();
+    const results = screen.getByRole("listbox");
+    expect(within(results).getByRole("option", { name: /^Portal regression suite/ })).toBeInTheDocument();
+
+    userEvent.clear(input);
+    userEvent.type(input, "erin");
+    expect(await screen.findByRole("option", { name: /^Erin Engineer/ })).toBeInTheDocument();
+
+    userEvent.clear(input);
+    userEvent.type(input, "billing{enter}");
+    expect(await screen.findByRole("heading", { name: "Task Details" })).toBeInTheDocument();
+    expect(screen.getByText("Waiting on billing API credentials")).toBeInTheDocument();
+    expect(screen.queryByRole("combobox")).not.toBeInTheDocument();
+  });
+
+  it("only searches what an employee can see", async () => {
+    const input = await openPalette("evan@nextrack.dev");
+
+    userEvent.type(input, "account");
+    expect(await screen.findByRole("option", { name: /Account settings API/ })).toBeInTheDocument();
+
+    userEvent.clear(input);
+    userEvent.type(input, "push notifications");
+    expect(screen.getByText('No results for "push notifications"')).toBeInTheDocument();
+
+    userEvent.clear(input);
+    userEvent.type(input, "tina");
+    expect(screen.queryByRole("option", { name: /Tina Lead/ })).not.toBeInTheDocument();
+  });
+
+  it("runs actions", async () => {
+    const input = await openPalette("evan@nextrack.dev");
+
+    userEvent.type(input, "dark{enter}");
+    expect(document.documentElement).toHaveAttribute("data-theme", "dark");
+
+    userEvent.keyboard("{Control>}k{/Control}");
+    userEvent.type(screen.getByRole("combobox"), "new task");
+    userEvent.keyboard("{enter}");
+    expect(screen.getByTestId("location")).toHaveTextContent("/tasks?new=1");
+  });
+});
@@ -0,0 +1,298 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Briefcase, CheckSquare, Search, User, Zap } from "lucide-react";
+import { taskAPI, projectAPI, userAPI, isAbortError } from "../services/api";
+import { Project, Task } from "../types";
+import { useModalFocus } from "../hooks/useModalFocus";
+import { searchRecords } from "../utils/search";
+import { isDarkThemeSaved, setDarkTheme } from "../utils/theme";
+import TaskDetailsModal from "./TaskDetailsModal";
+import "../App.css";
+
+// Dispatch on window to open the palette, e.g. from the sidebar
+export const OPEN_COMMAND_PALETTE = "open-command-palette";
+
+const RESULTS_PER_GROUP = 5;
+
+interface CommandPaletteProps {
+  user: { id: number; username: string; role: string };
+}
+
+type Group = "Actions" | "Tasks" | "Projects" | "Users";
+
+interface PaletteItem {
+  id: string;
+  group: Group;
+  label: string;
+  detail?: string;
+  // Extra words an action is found by
+  keywords?: string;
+  run: () => void;
+}
+
+const GROUP_ICONS: Record<Group, typeof Search> = {
+  Actions: Zap,
+  Tasks: CheckSquare,
+  Projects: Briefcase,
+  Users: User,
+};
+
+interface SearchData {
+  tasks: Task[];
+  projects: Project[];
+  users: { id: number; username: string; email: string; role: string }[];
+}
+
+// Whatever the user could find on the Tasks, Projects and Users pages:
+// employees their own tasks and projects and no user list, managers and team
+// leads their projects' records, super admins everything
+const loadSearchData = async (
+  user: CommandPaletteProps["user"],
+  signal: AbortSignal
+): Promise<SearchData> => {
+  if (user.role === "employee") {
+    const [tasks, projects] = await Promise.all([
+      userAPI.getUserTasks(user.id, { signal }),
+      userAPI.getUserProjects(user.id, { signal }),
+    ]);
+    return { tasks, projects, users: [] };
+  }
+  const scoped = user.role === "manager" || user.role === "team_lead";
+  const [tasks, projects, users] = await Promise.all([
+    taskAPI.getAll(scoped ? user.id : undefined, scoped ? user.role : undefined, { signal }),
+    projectAPI.getAll(scoped ? user.id : undefined, scoped ? user.role : undefined, { signal }),
+    userAPI.getAll(scoped ? user.id : undefined, scoped ? user.role : undefined, { signal }),
+  ]);
+  return { tasks, projects, users };
+};
+
+// Ctrl/Cmd+K search across tasks, projects and people, plus quick actions
+const CommandPalette: React.FC<CommandPaletteProps> = ({ user }) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [data, setData] = useState<SearchData>({ tasks: [], projects: [], users: [] });
+  const [error, setError] = useState("");
+  const [openTask, setOpenTask] = useState<Task | null>(null);
+  const navigate = useNavigate();
+
+  const close = () => {
+    setOpen(false);
+    setQuery("");
+    setActiveIndex(0);
+  };
+  const dialog = useModalFocus(close, open);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    const handleOpen = () => setOpen(true);
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener(OPEN_COMMAND_PALETTE, handleOpen);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener(OPEN_COMMAND_PALETTE, handleOpen);
+    };
+  }, []);
+
+  // Loaded on every open; the query cache makes repeat opens instant
+  useEffect(() => {
+    if (!open) return;
+    const controller = new AbortController();
+    loadSearchData(user, controller.signal)
+      .then((next) => {
+        setData(next);
+        setError("");
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error("Error loading search data:", err);
+        setError(err.message || "Search is unavailable");
+      });
+    return () => controller.abort();
+  }, [open, user]);
+
+  const actions = useMemo<PaletteItem[]>(() => {
+    const go = (path: string) => () => navigate(path);
+    const list: PaletteItem[] = [
+      { id: "new-task", group: "Actions", label: "New task", keywords: "create add", run: go("/tasks?new=1") },
+      { id: "dashboard", group: "Actions", label: "Go to dashboard", keywords: "home", run: go("/dashboard") },
+      { id: "tasks", group: "Actions", label: "Go to tasks", keywords: "kanban board", run: go("/tasks") },
+      { id: "projects", group: "Actions", label: "Go to projects", run: go("/projects") },
+      { id: "timeline", group: "Actions", label: "Go to timeline", keywords: "gantt schedule roadmap", run: go("/timeline") },
+      { id: "timesheets", group: "Actions", label: "Go to timesheets", keywords: "time hours approve", run: go("/timesheets") },
+      { id: "timesheet-export", group: "Actions", label: "Export timesheets", keywords: "csv excel xlsx payroll billing hours", run: go("/timesheets/export") },
+    ];
+    if (user.role !== "employee") {
+      list.push({ id: "users", group: "Actions", label: "Go to users", keywords: "people team", run: go("/users") });
+    }
+    if (user.role === "super_admin") {
+      list.push({ id: "digests", group: "Actions", label: "Edit email digest templates", run: go("/digest-templates") });
+    }
+    list.push(
+      { id: "settings", group: "Actions", label: "Go to settings", keywords: "profile password notifications", run: go("/settings") },
+      {
+        id: "theme",
+        group: "Actions",
+        label: "Toggle dark theme",
+        keywords: "light mode appearance",
+        run: () => setDarkTheme(user.id, !isDarkThemeSaved(user.id)),
+      }
+    );
+    return list;
+  }, [navigate, user.id, user.role]);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    if (!query.trim()) return actions;
+    const matchingActions = searchRecords(actions, query, (a) => [a.label, a.keywords], actions.length);
+    const tasks = searchRecords(
+      data.tasks,
+      query,
+      (t) => [t.name, t.project_name, t.assignee_name],
+      RESULTS_PER_GROUP
+    ).map<PaletteItem>((task) => ({
+      id: `task-${task.id}`,
+      group: "Tasks",
+      label: task.name,
+      detail: [task.project_name, task.assignee_name].filter(Boolean).join(" · "),
+      run: () => setOpenTask(task),
+    }));
+    const projects = searchRecords(
+      data.projects,
+      query,
+      (p) => [p.name, p.description],
+      RESULTS_PER_GROUP
+    ).map<PaletteItem>((project) => ({
+      id: `project-${project.id}`,
+      group: "Projects",
+      label: project.name,
+      detail: project.status,
+      run: () =>
+        user.role === "employee"
+          ? navigate(`/project-details/${project.id}`, {
+              state: { userId: user.id, projectId: project.id },
+            })
+          : navigate(`/team-management/${project.id}`, { state: { projectName: project.name } }),
+    }));
+    const users = searchRecords(
+      data.users,
+      query,
+      (u) => [u.username, u.email],
+      RESULTS_PER_GROUP
+    ).map<PaletteItem>((found) => ({
+      id: `user-${found.id}`,
+      group: "Users",
+      label: found.username,
+      detail: found.email,
+      run: () => navigate("/users", { state: { search: found.email } }),
+    }));
+    return [...tasks, ...projects, ...users, ...matchingActions];
+  }, [query, actions, data, navigate, user.id, user.role]);
+
+  const choose = (item: PaletteItem) => {
+    close();
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (items.length === 0) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((index) => (index + step + items.length) % items.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const item = items[activeIndex];
+      if (item) choose(item);
+    }
+  };
+
+  const activeId = items[activeIndex] ? `palette-item-${items[activeIndex].id}` : undefined;
+
+  return (
+    <>
+      {open && (
+        <div className="modal-overlay command-palette-overlay" onMouseDown={close}>
+          <div
+            {...dialog}
+            aria-label="Command palette"
+            className="command-palette"
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <div className="command-palette-input">
+              <Search size={18} aria-hidden="true" />
+              <input
+                type="text"
+                role="combobox"
+                aria-label="Search tasks, projects, people and actions"
+                aria-expanded={items.length > 0}
+                aria-controls="command-palette-results"
+                aria-activedescendant={activeId}
+                aria-autocomplete="list"
+                placeholder="Search tasks, projects, people or type a command..."
+                value={query}
+                onChange={(e) => {
+                  setQuery(e.target.value);
+                  setActiveIndex(0);
+                }}
+                onKeyDown={handleKeyDown}
+                data-autofocus
+              />
+              <kbd>Esc</kbd>
+            </div>
+
+            {error && <div className="command-palette-empty">{error}</div>}
+            {items.length === 0 ? (
+              <div className="command-palette-empty">No results for "{query}"</div>
+            ) : (
+              <ul id="command-palette-results" role="listbox" className="command-palette-results">
+                {items.map((item, index) => {
+                  const Icon = GROUP_ICONS[item.group];
+                  const showGroup = index === 0 || items[index - 1].group !== item.group;
+                  return (
+                    <React.Fragment key={item.id}>
+                      {showGroup && (
+                        <li role="presentation" className="command-palette-group">
+                          {item.group}
+                        </li>
+                      )}
+                      <li
+                        id={`palette-item-${item.id}`}
+                        role="option"
+                        aria-selected={index === activeIndex}
+                        className={`command-palette-item${index === activeIndex ? " active" : ""}`}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        onClick={() => choose(item)}
+                      >
+                        <Icon size={16} aria-hidden="true" />
+                        <span className="command-palette-label">{item.label}</span>
+                        {item.detail && (
+                          <span className="command-palette-detail">{item.detail}</span>
+                        )}
+                      </li>
+                    </React.Fragment>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
+      {openTask && (
+        <TaskDetailsModal
+          task={openTask}
+          user={user}
+          onClose={() => setOpenTask(null)}
+          onOpenTask={(taskId) => setOpenTask({ id: taskId } as Task)}
+        />
+      )}
+    </>
+  );
+};
+
+export default CommandPalette;
@@ -1,10 +1,16 @@
 import React, { useState } from 'react';
+import { useModalFocus } from '../hooks/useModalFocus';
 import '../App.css';
 
 interface CompleteTaskModalProps {
   taskId: number;
   taskName: string;
   plannedHours: number;
+  // Time already logged on the task; hours entered beyond it are logged for
+  // today
+  loggedHours?: number;
+  // Set when the project workflow requires a comment to complete
+  requireComments?: boolean;
   onConfirm: (data: CompleteTaskData) => void;
   onCancel: () => void;
 }
@@ -12,23 +18,31 @@ interface CompleteTaskModalProps {
 export interface CompleteTaskData {
   actualHours: number;
   comments: string;
-  links: string;
+  // Added to the task's attachments
+  links: string[];
 }
 
+// Splits pasted links on whitespace, commas and new lines
+export const parseLinks = (value: string): string[] =>
+  value.split(/[\s,]+/).filter(Boolean);
+
 const CompleteTaskModal: React.FC<CompleteTaskModalProps> = ({ 
   taskId, 
   taskName, 
   plannedHours, 
+  loggedHours = 0,
+  requireComments = false,
   onConfirm, 
   onCancel 
 }) => {
   const [formData, setFormData] = useState({
-    actualHours: plannedHours,
+    actualHours: loggedHours > 0 ? loggedHours : plannedHours,
     comments: '',
     links: ''
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const dialog = useModalFocus(onCancel);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -48,13 +62,30 @@ const CompleteTaskModal: React.FC<CompleteTaskModalProps> = ({
       return;
     }
 
+    if (formData.actualHours < loggedHours) {
+      setError(`${loggedHours}h is already logged on this task`);
+      return;
+    }
+
+    if (requireComments && !formData.comments.trim()) {
+      setError('Please add a comment describing the work');
+      return;
+    }
+
+    const links = parseLinks(formData.links);
+    const invalidLink = links.find(link => !/^https?:\/\//i.test(link));
+    if (invalidLink) {
+      setError(`"${invalidLink}" is not a valid link (must start with http:// or https://)`);
+      return;
+    }
+
     setLoading(true);
     
     try {
       const completeData: CompleteTaskData = {
         actualHours: formData.actualHours,
         comments: formData.comments.trim(),
-        links: formData.links.trim()
+        links
       };
       
       onConfirm(completeData);
@@ -67,7 +98,7 @@ const CompleteTaskModal: React.FC<CompleteTaskModalProps> = ({
 
   return (
     <div className="modal-overlay">
-      <div className="modal" style={{ maxWidth: "700px", maxHeight: "90vh", overflow: "hidden", display: "flex", flexDirection: "column", padding: 0 }}>
+      <div {...dialog} aria-labelledby="complete-task-title" className="modal" style={{ maxWidth: "700px", maxHeight: "90vh", overflow: "hidden", display: "flex", flexDirection: "column", padding: 0 }}>
         <div
           className="modal-header"
           style={{
@@ -81,7 +112,7 @@ const CompleteTaskModal: React.FC<CompleteTaskModalProps> = ({
             flexShrink: 0,
           }}
         >
-          <h2 style={{ margin: 0, color: "white" }}>Complete Task</h2>
+          <h2 id="complete-task-title" style={{ margin: 0, color: "white" }}>Complete Task</h2>
           <button className="close-btn" onClick={onCancel} style={{ color: "white" }}>
             ×
           </button>
@@ -93,7 +124,10 @@ const CompleteTaskModal: React.FC<CompleteTaskModalProps> = ({
 
           <div className="form-group">
             <label>Task: <strong>{taskName}</strong></label>
-            <small className="form-help">Planned hours: {plannedHours}h</small>
+            <small className="form-help">
+              Planned hours: {plannedHours}h
+              {loggedHours > 0 && ` · Logged so far: ${loggedHours}h`}
+            </small>
           </div>
 
           <div className="form-group">
@@ -109,10 +143,13 @@ const CompleteTaskModal: React.FC<CompleteTaskModalProps> = ({
               required
               placeholder="Enter actual hours"
             />
+            {loggedHours > 0 && (
+              <small className="form-help">Hours above what's logged are logged for today</small>
+            )}
           </div>
 
           <div className="form-group">
-            <label htmlFor="comments">Comments</label>
+            <label htmlFor="comments">Comments{requireComments && ' *'}</label>
             <textarea
               id="comments"
               name="comments"
@@ -125,13 +162,13 @@ const CompleteTaskModal: React.FC<CompleteTaskModalProps> = ({
 
           <div className="form-group">
             <label htmlFor="links">Links & Attachments</label>
-            <input
-              type="text"
+            <textarea
               id="links"
               name="links"
               value={formData.links}
               onChange={handleInputChange}
-              placeholder="Paste links to PRs, documents, or other resources"
+              placeholder="Paste links to PRs, documents, or other resources (one per line)"
+              rows={2}
             />
           </div>
 
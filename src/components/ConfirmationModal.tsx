@@ -1,5 +1,6 @@
 import React from 'react';
 import { AlertTriangle } from 'lucide-react';
+import { useModalFocus } from '../hooks/useModalFocus';
 
 interface ConfirmationModalProps {
   isOpen: boolean;
@@ -22,6 +23,8 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
   onCancel,
   variant = 'danger',
 }) => {
+  const dialog = useModalFocus(onCancel, isOpen);
+
   if (!isOpen) return null;
 
   const getVariantStyles = () => {
@@ -52,6 +55,8 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
   return (
     <div className="modal-overlay" style={{ zIndex: 10000 }}>
       <div
+        {...dialog}
+        aria-labelledby="confirmation-modal-title"
         className="modal"
         style={{
           maxWidth: '500px',
@@ -72,7 +77,9 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
           }}
         >
           <AlertTriangle size={28} />
-          <h2 style={{ margin: 0, color: 'white', flex: 1 }}>{title}</h2>
+          <h2 id="confirmation-modal-title" style={{ margin: 0, color: 'white', flex: 1 }}>
+            {title}
+          </h2>
         </div>
 
         <div style={{ marginBottom: '2rem' }}>
@@ -0,0 +1,82 @@
+import React from "react";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import DailyUpdateThread from "./DailyUpdateThread";
+import { getMockDatabase } from "../mocks/server";
+import { signIn } from "../testUtils";
+
+// "Account settings API" in Customer Portal (team: Tina, Evan, Quinn)
+const TASK_ID = 2;
+const PROJECT_ID = 1;
+
+const setupThread = async (email: string) => {
+  const user = await signIn(email);
+  render(<DailyUpdateThread taskId={TASK_ID} projectId={PROJECT_ID} user={user} />);
+  await screen.findByText("Endpoints scaffolded, starting validation.");
+  return user;
+};
+
+const findUpdate = (comment: string) =>
+  getMockDatabase().dailyUpdates.find((update) => update.comment === comment);
+
+describe("DailyUpdateThread", () => {
+  it("renders replies, markdown and mentions", async () => {
+    await setupThread("evan@nextrack.dev");
+
+    expect(await screen.findByText("test plan")).toContainHTML("<strong>test plan</strong>");
+    expect(await screen.findByText("@Tina Lead")).toHaveClass("comment-mention");
+  });
+
+  it("posts a reply with an @mention picked from the project team", async () => {
+    const user = await setupThread("evan@nextrack.dev");
+
+    // Replying to Evan's reply keeps the answer in Tina's thread (update 2)
+    userEvent.click(screen.getAllByRole("button", { name: "Reply" })[1]);
+    const textarea = screen.getByPlaceholderText(/write a comment/i);
+    userEvent.type(textarea, "Thanks @qu");
+    userEvent.click(await screen.findByRole("option", { name: "@Quinn Tester" }));
+    expect(textarea).toHaveValue("Thanks @Quinn Tester ");
+    userEvent.type(textarea, "can you review?");
+    userEvent.click(screen.getByRole("button", { name: "Post Reply" }));
+
+    expect(await screen.findByText(/can you review\?/)).toBeInTheDocument();
+    expect(findUpdate("Thanks @Quinn Tester can you review?")).toMatchObject({
+      user_id: user.id,
+      parent_id: 2,
+      mentions: [6],
+    });
+  });
+
+  it("lets authors edit only their own comments and marks them edited", async () => {
+    await setupThread("evan@nextrack.dev");
+
+    // Evan wrote update 1 and the reply, not Tina's update 2
+    expect(screen.getAllByRole("button", { name: "Edit" })).toHaveLength(2);
+
+    userEvent.click(screen.getAllByRole("button", { name: "Edit" })[1]);
+    const textarea = screen.getByDisplayValue(
+      "Endpoints scaffolded, starting validation."
+    );
+    userEvent.clear(textarea);
+    userEvent.type(textarea, "Endpoints done, validation in review.");
+    userEvent.click(screen.getByRole("button", { name: "Save" }));
+
+    expect(await screen.findByText("(edited)")).toBeInTheDocument();
+    expect(
+      screen.getByText("Endpoints done, validation in review.")
+    ).toBeInTheDocument();
+    expect(
+      findUpdate("Endpoints done, validation in review.")?.edited_at
+    ).toBeTruthy();
+  });
+
+  it("is read-only without a signed-in user", async () => {
+    await signIn("evan@nextrack.dev");
+    render(<DailyUpdateThread taskId={TASK_ID} projectId={PROJECT_ID} />);
+
+    const update = await screen.findByText("Endpoints scaffolded, starting validation.");
+    expect(update).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Reply" })).not.toBeInTheDocument();
+    expect(screen.queryByTitle("Delete this update")).not.toBeInTheDocument();
+  });
+});
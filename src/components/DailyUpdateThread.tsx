@@ -0,0 +1,432 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { taskAPI, isAbortError } from "../services/api";
+import { DailyUpdate } from "../types";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useMentionableUsers } from "../hooks/useMentionableUsers";
+import { useQueryInvalidation } from "../hooks/useQueryInvalidation";
+import { useToast } from "../hooks/useToast";
+import MentionTextarea, { extractMentions } from "./MentionTextarea";
+import MarkdownText from "./MarkdownText";
+import ConfirmationModal from "./ConfirmationModal";
+import Toast from "./Toast";
+import "../App.css";
+
+interface DailyUpdateThreadProps {
+  taskId: number;
+  // Used for @mention suggestions and highlighting
+  projectId?: number;
+  // Without a user the thread is read-only
+  user?: any;
+  emptyMessage?: string;
+}
+
+const formatDateTime = (dateString: string) => {
+  if (!dateString) return "N/A";
+
+  // Parse the date string - Backend returns IST time (UTC+5:30)
+  // MySQL returns timestamps in format: 'YYYY-MM-DD HH:mm:ss'
+  let date: Date;
+  if (
+    dateString.includes("T") ||
+    dateString.includes("Z") ||
+    dateString.includes("+")
+  ) {
+    // ISO format with timezone
+    date = new Date(dateString);
+  } else {
+    // MySQL datetime format - add IST timezone offset
+    date = new Date(dateString.replace(" ", "T") + "+05:30");
+  }
+
+  if (isNaN(date.getTime())) return "Invalid date";
+
+  const dateStr = date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    timeZone: "Asia/Kolkata",
+  });
+  const timeStr = date.toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: true,
+    timeZone: "Asia/Kolkata",
+  });
+
+  return `${dateStr} at ${timeStr}`;
+};
+
+const linkButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  padding: "0.25rem",
+  cursor: "pointer",
+  color: "#667eea",
+  fontSize: "0.85rem",
+  fontWeight: 500,
+};
+
+// Daily updates for a task as a discussion: top-level updates (newest first)
+// with their replies (oldest first) underneath. Authors can edit their own
+// comments; comments support markdown and @mentions of the project team.
+const DailyUpdateThread: React.FC<DailyUpdateThreadProps> = ({
+  taskId,
+  projectId,
+  user,
+  emptyMessage = "No daily updates recorded.",
+}) => {
+  const [updates, setUpdates] = useState<DailyUpdate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editText, setEditText] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<{
+    isOpen: boolean;
+    updateId: number | null;
+  }>({ isOpen: false, updateId: null });
+  const { toast, showToast, hideToast } = useToast();
+  const getSignal = useAbortSignal();
+  const mentionableUsers = useMentionableUsers(projectId);
+  const mentionNames = mentionableUsers.map((u) => u.username);
+  const canInteract = Boolean(user?.id);
+
+  const fetchUpdates = useCallback(
+    async (showLoading = true) => {
+      if (showLoading) setLoading(true);
+      try {
+        const data = await taskAPI.getDailyUpdates(taskId, {
+          signal: getSignal(),
+        });
+        setUpdates(data);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error("Error fetching daily updates:", err);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [taskId, getSignal]
+  );
+
+  useEffect(() => {
+    fetchUpdates();
+  }, [fetchUpdates]);
+
+  useQueryInvalidation([`/tasks/${taskId}/daily-updates`], () =>
+    fetchUpdates(false)
+  );
+
+  const ids = new Set(updates.map((u) => u.id));
+  const threads = updates.filter((u) => !u.parent_id || !ids.has(u.parent_id));
+  const repliesTo = (id: number) =>
+    updates
+      .filter((u) => u.parent_id === id)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  const startReply = (threadId: number) => {
+    setEditingId(null);
+    setReplyingTo(threadId);
+    setReplyText("");
+  };
+
+  const startEdit = (update: DailyUpdate) => {
+    setReplyingTo(null);
+    setEditingId(update.id);
+    setEditText(update.comment);
+  };
+
+  const submitReply = async () => {
+    if (!replyingTo || !replyText.trim()) return;
+    setSaving(true);
+    try {
+      await taskAPI.createDailyUpdate(taskId, {
+        user_id: user.id,
+        comment: replyText.trim(),
+        parent_id: replyingTo,
+        mentions: extractMentions(replyText, mentionableUsers),
+      });
+      setReplyingTo(null);
+      setReplyText("");
+    } catch (err: any) {
+      showToast(err.message || "Failed to post reply", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const submitEdit = async () => {
+    if (!editingId || !editText.trim()) return;
+    setSaving(true);
+    try {
+      await taskAPI.updateDailyUpdate(taskId, editingId, {
+        comment: editText.trim(),
+        mentions: extractMentions(editText, mentionableUsers),
+      });
+      setEditingId(null);
+      setEditText("");
+    } catch (err: any) {
+      showToast(err.message || "Failed to update comment", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteConfirm.updateId) return;
+
+    const updateId = deleteConfirm.updateId;
+    setDeletingId(updateId);
+    setDeleteConfirm({ isOpen: false, updateId: null });
+
+    try {
+      await taskAPI.deleteDailyUpdate(taskId, updateId);
+      // Replies are removed along with their update
+      setUpdates((prev) =>
+        prev.filter((u) => u.id !== updateId && u.parent_id !== updateId)
+      );
+      showToast("Daily update deleted successfully", "success");
+    } catch (err: any) {
+      showToast(err.message || "Failed to delete daily update", "error");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const renderComposer = (
+    id: string,
+    value: string,
+    onChange: (value: string) => void,
+    onSubmit: () => void,
+    onCancel: () => void,
+    submitLabel: string
+  ) => (
+    <div style={{ marginTop: "0.5rem" }}>
+      <MentionTextarea
+        id={id}
+        value={value}
+        onChange={onChange}
+        users={mentionableUsers}
+        placeholder="Write a comment... Use @ to mention a teammate"
+        rows={2}
+        autoFocus
+      />
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "flex-end",
+          gap: "0.5rem",
+          marginTop: "0.5rem",
+        }}
+      >
+        <button type="button" className="btn-secondary" onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          type="button"
+          className="btn-primary"
+          onClick={onSubmit}
+          disabled={saving || !value.trim()}
+        >
+          {saving ? "Saving..." : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderUpdate = (update: DailyUpdate, threadId: number) => {
+    const isOwn = canInteract && update.user_id === user.id;
+    const isEditing = editingId === update.id;
+
+    return (
+      <div
+        key={update.id}
+        style={{
+          padding: "1rem",
+          marginBottom: "0.75rem",
+          backgroundColor: "#f8f9fa",
+          borderRadius: "6px",
+          border: "1px solid #e1e8ed",
+        }}
+      >
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "flex-start",
+            marginBottom: "0.5rem",
+          }}
+        >
+          <div style={{ flex: 1 }}>
+            <strong className="text-foreground" style={{ fontSize: "0.95rem" }}>
+              {update.user_name || update.username || "Unknown User"}
+            </strong>
+            {update.email && (
+              <span
+                className="text-muted-foreground"
+                style={{ fontSize: "0.85rem", marginLeft: "0.5rem" }}
+              >
+                ({update.email})
+              </span>
+            )}
+          </div>
+          <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+            <span
+              style={{
+                color: "#6b7280",
+                fontSize: "0.85rem",
+                whiteSpace: "nowrap",
+              }}
+            >
+              {formatDateTime(update.created_at)}
+              {update.edited_at && (
+                <span
+                  title={`Edited ${formatDateTime(update.edited_at)}`}
+                  style={{ marginLeft: "0.35rem", fontStyle: "italic" }}
+                >
+                  (edited)
+                </span>
+              )}
+            </span>
+            {canInteract && (
+              <button
+                type="button"
+                onClick={() => setDeleteConfirm({ isOpen: true, updateId: update.id })}
+                disabled={deletingId === update.id}
+                style={{
+                  background: "none",
+                  border: "none",
+                  cursor: deletingId === update.id ? "not-allowed" : "pointer",
+                  padding: "0.25rem",
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  opacity: deletingId === update.id ? 0.5 : 1,
+                  color: "#ef4444",
+                  fontSize: "1rem",
+                }}
+                title="Delete this update"
+              >
+                {deletingId === update.id ? "⏳" : "🗑️"}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {isEditing ? (
+          renderComposer(
+            `edit-update-${update.id}`,
+            editText,
+            setEditText,
+            submitEdit,
+            () => setEditingId(null),
+            "Save"
+          )
+        ) : (
+          <div
+            style={{
+              color: "#444",
+              fontSize: "0.9rem",
+              lineHeight: "1.5",
+              wordBreak: "break-word",
+            }}
+          >
+            <MarkdownText text={update.comment} mentionNames={mentionNames} />
+          </div>
+        )}
+
+        {canInteract && !isEditing && (
+          <div style={{ display: "flex", gap: "0.5rem", marginTop: "0.25rem" }}>
+            <button
+              type="button"
+              style={linkButtonStyle}
+              onClick={() => startReply(threadId)}
+            >
+              Reply
+            </button>
+            {isOwn && (
+              <button
+                type="button"
+                style={linkButtonStyle}
+                onClick={() => startEdit(update)}
+              >
+                Edit
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ marginTop: "1rem" }}>
+      {loading ? (
+        <div
+          className="text-muted-foreground"
+          style={{ padding: "1rem", textAlign: "center" }}
+        >
+          Loading updates...
+        </div>
+      ) : threads.length === 0 ? (
+        <div
+          className="text-muted-foreground bg-gray-50"
+          style={{
+            padding: "1.5rem",
+            textAlign: "center",
+            borderRadius: "4px",
+            border: "1px dashed #e1e8ed",
+          }}
+        >
+          {emptyMessage}
+        </div>
+      ) : (
+        <div style={{ maxHeight: "400px", overflowY: "auto" }}>
+          {threads.map((thread) => (
+            <div key={thread.id}>
+              {renderUpdate(thread, thread.id)}
+              <div
+                style={{
+                  marginLeft: "1.5rem",
+                  paddingLeft: "0.75rem",
+                  borderLeft: "2px solid #e1e8ed",
+                }}
+              >
+                {repliesTo(thread.id).map((reply) => renderUpdate(reply, thread.id))}
+                {replyingTo === thread.id &&
+                  renderComposer(
+                    `reply-${thread.id}`,
+                    replyText,
+                    setReplyText,
+                    submitReply,
+                    () => setReplyingTo(null),
+                    "Post Reply"
+                  )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={deleteConfirm.isOpen}
+        title="Delete Daily Update"
+        message="Are you sure you want to delete this daily update and its replies? This action cannot be undone."
+        confirmText="Delete"
+        cancelText="Cancel"
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleteConfirm({ isOpen: false, updateId: null })}
+        variant="danger"
+      />
+
+      {toast.isVisible && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
+
+export default DailyUpdateThread;
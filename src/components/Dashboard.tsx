@@ -1,6 +1,12 @@
 import React, { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
-import { dashboardAPI, userAPI, taskAPI, API_BASE_URL } from "../services/api";
+import { dashboardAPI, userAPI, taskAPI, isAbortError } from "../services/api";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useQueryInvalidation } from "../hooks/useQueryInvalidation";
+import { useToast } from "../hooks/useToast";
+import { useRealtimeStatus } from "../hooks/useRealtime";
+import { RealtimeStatus } from "../services/realtime";
+import { queryCache } from "../services/queryCache";
 import {
   DashboardFilters as FilterType,
   WeeklyData,
@@ -12,7 +18,9 @@ import ProductivityChart from "./charts/ProductivityChart";
 import AvailabilityChart from "./charts/AvailabilityChart";
 import TaskStatusChart from "./charts/TaskStatusChart";
 import TaskDetailsModal from "./TaskDetailsModal"; // Import the modal
+import Toast from "./Toast";
 import { Task } from "../types"; // Import Task type
+import { WORKFLOW_CATEGORIES } from "../utils/workflow";
 import {
   ClipboardDocumentListIcon,
   CheckCircleIcon,
@@ -22,7 +30,6 @@ import {
   PresentationChartLineIcon,
   StopCircleIcon,
 } from "@heroicons/react/24/solid";
-import axios from "axios";
 
 // Using simple Unicode symbols instead of react-icons to avoid TypeScript issues
 
@@ -51,6 +58,8 @@ interface TaskStats {
     blocked?: number;
     pending?: number;
     in_progress?: number;
+    // Per workflow state; the counts above group these by category
+    states?: Array<{ name: string; category: string; count: number }>;
   };
   final?: {
     productivity?: string | number;
@@ -69,8 +78,17 @@ interface TaskStats {
   available_hours?: number;
 }
 
+const LIVE_LABELS: Record<RealtimeStatus, string> = {
+  live: "Live",
+  connecting: "Connecting...",
+  offline: "Offline",
+};
+
 const Dashboard: React.FC<DashboardProps> = ({ user }) => {
   const navigate = useNavigate();
+  const getSignal = useAbortSignal();
+  const { toast, showToast, hideToast } = useToast();
+  const liveStatus = useRealtimeStatus();
 
   // Get persisted filters from localStorage - user-specific storage
   // Note: This is only used for initial state. Filters are properly reset when user changes via useEffect
@@ -245,9 +263,11 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
       
       // Refresh data to ensure consistency (optional, but good for side effects)
       // fetchInitialData(); 
-    } catch (error) {
+    } catch (error: any) {
       console.error("Failed to update status:", error);
-      // Revert optimization if needed (omitted for brevity, assume success)
+      // The project workflow can refuse the change; reloading puts the row back
+      fetchDashboardData(false);
+      showToast(error.message || "Failed to update status", "error");
     }
   };
 
@@ -258,21 +278,25 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
       // For managers/team leads, fetch only their assigned projects via project_assignments
       // For super admin, fetch all projects
       let projectsPromise;
+      const signal = getSignal();
       if (user?.role === "employee") {
-        projectsPromise = userAPI.getUserProjects(user.id);
+        projectsPromise = userAPI.getUserProjects(user.id, { signal });
       } else if (user?.role === "manager" || user?.role === "team_lead") {
-        projectsPromise = dashboardAPI.getProjects(user.id, user.role);
+        projectsPromise = dashboardAPI.getProjects(user.id, user.role, { signal });
       } else {
-        projectsPromise = dashboardAPI.getProjects();
+        projectsPromise = dashboardAPI.getProjects(undefined, undefined, { signal });
       }
 
       const [projectsRes, employeesRes, taskStatusRes] = await Promise.all([
         projectsPromise,
-        dashboardAPI.getEmployees(undefined, user?.id, user?.role), // Fetch employees based on user role (no project filter = get employees from assigned projects for managers)
-        dashboardAPI.getTaskStatus({
-          userId: user?.id,
-          userRole: user?.role,
-        }),
+        dashboardAPI.getEmployees(undefined, user?.id, user?.role, { signal }), // Fetch employees based on user role (no project filter = get employees from assigned projects for managers)
+        dashboardAPI.getTaskStatus(
+          {
+            userId: user?.id,
+            userRole: user?.role,
+          },
+          { signal }
+        ),
       ]);
 
       setProjects(projectsRes);
@@ -291,13 +315,14 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
               : undefined,
       }));
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Error fetching initial data:", error);
     }
   };
 
-  const fetchDashboardData = useCallback(async () => {
+  const fetchDashboardData = useCallback(async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       // Build effective filters so first load is always scoped and dated
       const now = new Date();
       const dayOfWeek = now.getDay();
@@ -424,14 +449,17 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
         //   userId: user?.id,
         //   userRole: user?.role,
         // }),
-        dashboardAPI.getTasksTimeline({
-          role: user?.role || "employee",
-          userId: user?.id || 0,
-          projectId: projectIdStr,
-          employeeId: timelineEmployeeIdStr,
-          startDate: timelineStartDate,
-          endDate: timelineEndDate,
-        }),
+        dashboardAPI.getTasksTimeline(
+          {
+            role: user?.role || "employee",
+            userId: user?.id || 0,
+            projectId: projectIdStr,
+            employeeId: timelineEmployeeIdStr,
+            startDate: timelineStartDate,
+            endDate: timelineEndDate,
+          },
+          { signal: getSignal() }
+        ),
       ]);
       // setDashboardData(data);
       // Task status data will be updated from fetchData() which calls newData endpoint
@@ -447,11 +475,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
       setCurrentPageThisWeek(1);
       setCurrentPageNextWeek(1);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Error fetching dashboard data:", error);
     } finally {
       setLoading(false);
     }
-  }, [filters]);
+  }, [filters, getSignal]);
 
   // Force refresh data when component mounts or user changes
   useEffect(() => {
@@ -642,33 +671,28 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
     }
 
     try {
-      // const res = await axios.post(
-      //   `${API_BASE_URL}/dashboard/raw-tasks`,
-      //   payload
-      // );
-      const res = await axios.post(
-        `${API_BASE_URL}/dashboard/newData`,
-        payload
-      );
+      const data = await dashboardAPI.getTaskStats(payload, {
+        signal: getSignal(),
+      });
 
       // If no employees are assigned to the selected project, force zeroed stats/availability
       const adjustedData =
         noEmployeesForSelectedProject && activeFilters.projectId !== undefined
           ? {
-            ...res.data,
+            ...data,
             taskStats: { total: 0, completed: 0, blocked: 0, pending: 0, in_progress: 0 },
             tasks: [],
             productivityData: [],
             utilizationData: [],
             availabilityData: [],
             final: {
-              ...(res.data?.final || {}),
+              ...(data?.final || {}),
               available_hours: 0,
               productivity: 0,
               utilization: 0,
             },
           }
-          : res.data;
+          : data;
 
       setTaskStats(adjustedData);
 
@@ -685,6 +709,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
       // Reset pagination when new data is fetched
       setCurrentPageTaskStats(1);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Error fetching task stats:", error);
     }
   };
@@ -701,6 +726,8 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
   };
 
   const handleRefresh = () => {
+    // Drop cached dashboard reads so the refresh always hits the server
+    queryCache.invalidate(["/dashboard"]);
     // Explicitly refetch using the current filters only when refresh is clicked
     fetchDashboardData();
     fetchData();
@@ -714,6 +741,14 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
     }
   }, [forceRefreshKey, user, projects]);
 
+  // Task changes made elsewhere (Kanban, EditTask, ...) refresh the dashboard
+  useQueryInvalidation(["/tasks", "/dashboard"], () => {
+    if (user && projects.length > 0) {
+      fetchDashboardData(false);
+      fetchData();
+    }
+  });
+
   // Fetch employees when project filter changes
   useEffect(() => {
     const fetchEmployeesForProject = async () => {
@@ -731,7 +766,8 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
         const employeesRes = await dashboardAPI.getEmployees(
           projectIdStr,
           user.id,
-          user.role
+          user.role,
+          { signal: getSignal() }
         );
         setEmployees(employeesRes);
 
@@ -757,12 +793,13 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
           }
         }
       } catch (error) {
+        if (isAbortError(error)) return;
         console.error("Error fetching employees for project:", error);
       }
     };
 
     fetchEmployeesForProject();
-  }, [filters.projectId, user]);
+  }, [filters.projectId, user, getSignal]);
 
   // After projects and employees are loaded, scrub the filters state:
   useEffect(() => {
@@ -905,6 +942,45 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
   const completedTasks = taskStatusData.completed;
   const blockedTasks = taskStatusData.blocked;
 
+  // Breakdown by workflow state, shown when a project has columns beyond
+  // the four categories (e.g. In Review inside In Progress)
+  const renderWorkflowStates = () => {
+    const states = taskStats?.taskStats?.states || [];
+    const categoryLabels = WORKFLOW_CATEGORIES.map((c) => c.label);
+    if (!states.some((state) => !categoryLabels.includes(state.name))) return null;
+    return (
+      <ul
+        aria-label="Tasks by workflow state"
+        style={{
+          listStyle: "none",
+          padding: 0,
+          margin: "0.75rem 0 0",
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "0.5rem",
+          fontSize: "0.8rem",
+        }}
+      >
+        {states.map((state) => (
+          <li
+            key={state.name}
+            title={`Counts as ${
+              WORKFLOW_CATEGORIES.find((c) => c.value === state.category)?.label
+            }`}
+            style={{
+              padding: "0.2rem 0.6rem",
+              background: "#f3f4f6",
+              borderRadius: "999px",
+              color: "#374151",
+            }}
+          >
+            {state.name}: <strong>{state.count}</strong>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
   // Calculate productivity: use overall metrics from backend if available, otherwise calculate from weekly data
   // Productivity = (Planned / Actual) × 100 (only for completed tasks)
   const calculateProductivity = () => {
@@ -1171,6 +1247,16 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                 onFilterChange={handleFilterChange}
                 userRole={user?.role}
               />
+              <span
+                className={`live-indicator ${liveStatus}`}
+                title={
+                  liveStatus === "live"
+                    ? "Changes made by others show up as they happen"
+                    : "Use Refresh to see changes made by others"
+                }
+              >
+                {LIVE_LABELS[liveStatus]}
+              </span>
               <button
                 onClick={handleRefresh}
                 className="refresh-button"
@@ -1938,7 +2024,10 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                       <p>No tasks available</p>
                     </div>
                   ) : (
-                    <TaskStatusChart data={taskStatusData} />
+                    <>
+                      <TaskStatusChart data={taskStatusData} />
+                      {renderWorkflowStates()}
+                    </>
                   )}
                 </div>
               </div>
@@ -1976,10 +2065,18 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
       {/* Task Details Modal */}
       {selectedTask && (
         <TaskDetailsModal
+          key={selectedTask.id}
           task={selectedTask}
           onClose={() => setSelectedTask(null)}
+          user={user}
+          // The modal loads the rest of the task itself
+          onOpenTask={(taskId) => setSelectedTask({ id: taskId } as Task)}
         />
       )}
+
+      {toast.isVisible && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
     </div>
   );
 };
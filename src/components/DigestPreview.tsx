@@ -0,0 +1,47 @@
+import React from "react";
+import { DigestSection, DigestTemplate, Task } from "../types";
+import { renderDigest } from "../utils/digest";
+import MarkdownText from "./MarkdownText";
+
+interface DigestPreviewProps {
+  template: Pick<DigestTemplate, "frequency" | "subject" | "body">;
+  recipient: string;
+  tasks: Task[];
+  sections: DigestSection[];
+}
+
+// The digest email as it would be sent today
+const DigestPreview: React.FC<DigestPreviewProps> = ({ template, recipient, tasks, sections }) => {
+  const { subject, body } = renderDigest(template, recipient, tasks, sections);
+
+  return (
+    <div
+      role="region"
+      aria-label="Digest preview"
+      style={{
+        border: "1px solid #e5e7eb",
+        borderRadius: "8px",
+        background: "#fff",
+        color: "#111827",
+        overflow: "hidden",
+      }}
+    >
+      <div
+        style={{
+          padding: "0.6rem 0.9rem",
+          background: "#f9fafb",
+          borderBottom: "1px solid #e5e7eb",
+          fontSize: "0.875rem",
+        }}
+      >
+        <span style={{ color: "#6b7280" }}>Subject: </span>
+        <strong>{subject}</strong>
+      </div>
+      <div style={{ padding: "0.9rem", fontSize: "0.9rem" }}>
+        <MarkdownText text={body} />
+      </div>
+    </div>
+  );
+};
+
+export default DigestPreview;
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from "react";
+import { digestAPI, taskAPI, isAbortError } from "../services/api";
+import { DigestTemplate, Task } from "../types";
+import { DIGEST_PLACEHOLDERS, DIGEST_SECTIONS } from "../utils/digest";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useToast } from "../hooks/useToast";
+import DigestPreview from "./DigestPreview";
+import Toast from "./Toast";
+import "../App.css";
+
+interface DigestTemplatesProps {
+  user: { id: number; username: string; role: string };
+}
+
+const FREQUENCY_LABELS: Record<DigestTemplate["frequency"], string> = {
+  daily: "Daily digest",
+  weekly: "Weekly digest",
+};
+
+const ALL_SECTIONS = DIGEST_SECTIONS.map(({ value }) => value);
+
+// Super admin page for the digest email templates. The preview fills them in
+// with the tasks the admin can see.
+const DigestTemplates: React.FC<DigestTemplatesProps> = ({ user }) => {
+  const [templates, setTemplates] = useState<DigestTemplate[]>([]);
+  const [selected, setSelected] = useState<DigestTemplate["frequency"]>("daily");
+  const [draft, setDraft] = useState({ subject: "", body: "" });
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast, showToast, hideToast } = useToast();
+  const getSignal = useAbortSignal();
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const signal = getSignal();
+        const [allTemplates, visibleTasks] = await Promise.all([
+          digestAPI.getTemplates({ signal }),
+          taskAPI.getAll(user.id, user.role, { signal }),
+        ]);
+        setTemplates(allTemplates);
+        setTasks(visibleTasks);
+      } catch (err: any) {
+        if (isAbortError(err)) return;
+        console.error("Error fetching digest templates:", err);
+        showToast(err.message || "Failed to fetch digest templates", "error");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [user.id, user.role, getSignal, showToast]);
+
+  const template = templates.find((t) => t.frequency === selected);
+
+  // Start editing from the saved version when switching templates
+  useEffect(() => {
+    if (template) setDraft({ subject: template.subject, body: template.body });
+  }, [template]);
+
+  const unchanged = !template || (draft.subject === template.subject && draft.body === template.body);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      const saved = await digestAPI.updateTemplate(selected, draft);
+      setTemplates((prev) => prev.map((t) => (t.frequency === selected ? saved : t)));
+      showToast(`${FREQUENCY_LABELS[selected]} template saved`, "success");
+    } catch (err: any) {
+      showToast(err.message || "Failed to save digest template", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="loading">Loading digest templates...</div>;
+  }
+
+  return (
+    <div className="users-page management-page">
+      <div className="management-page-header">
+        <div>
+          <h1 className="management-page-title">Email Digests</h1>
+          <p className="management-page-subtitle">
+            Templates for the daily and weekly task digests people opt into
+          </p>
+        </div>
+      </div>
+
+      <div className="tasks-nav" role="tablist" style={{ marginBottom: "1rem" }}>
+        {templates.map((t) => (
+          <button
+            key={t.frequency}
+            type="button"
+            role="tab"
+            aria-selected={t.frequency === selected}
+            className={`tasks-tab ${t.frequency === selected ? "active" : ""}`}
+            onClick={() => setSelected(t.frequency)}
+          >
+            {FREQUENCY_LABELS[t.frequency]}
+          </button>
+        ))}
+      </div>
+
+      {template && (
+        <div style={{ display: "grid", gridTemplateColumns: "minmax(0, 1fr) minmax(0, 1fr)", gap: "1.5rem" }}>
+          <form onSubmit={handleSave} className="user-form">
+            <div className="form-group">
+              <label htmlFor="digest-subject">Subject</label>
+              <input
+                id="digest-subject"
+                type="text"
+                value={draft.subject}
+                onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="digest-body">Body</label>
+              <textarea
+                id="digest-body"
+                rows={12}
+                value={draft.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                style={{ fontFamily: "monospace" }}
+              />
+              <small className="form-help">
+                Markdown. Placeholders:{" "}
+                {DIGEST_PLACEHOLDERS.map(({ key, description }, index) => (
+                  <React.Fragment key={key}>
+                    {index > 0 && ", "}
+                    <code title={description}>{`{{${key}}}`}</code>
+                  </React.Fragment>
+                ))}
+                . The body must include <code>{"{{sections}}"}</code>.
+              </small>
+            </div>
+            {template.updated_at && (
+              <p className="text-muted-foreground" style={{ fontSize: "0.8rem", margin: 0 }}>
+                Last saved {new Date(template.updated_at).toLocaleString()}
+                {template.updated_by_name && ` by ${template.updated_by_name}`}
+              </p>
+            )}
+            <div className="form-actions">
+              <button
+                type="button"
+                className="btn-secondary"
+                disabled={unchanged}
+                onClick={() => setDraft({ subject: template.subject, body: template.body })}
+              >
+                Discard Changes
+              </button>
+              <button type="submit" className="btn-primary" disabled={saving || unchanged}>
+                {saving ? "Saving..." : "Save Template"}
+              </button>
+            </div>
+          </form>
+
+          <div>
+            <div style={{ fontWeight: 600, marginBottom: "0.5rem" }}>Preview</div>
+            <DigestPreview
+              template={{ frequency: selected, ...draft }}
+              recipient={user.username}
+              tasks={tasks}
+              sections={ALL_SECTIONS}
+            />
+          </div>
+        </div>
+      )}
+
+      {toast.isVisible && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
+
+export default DigestTemplates;
@@ -3,6 +3,7 @@ import { projectAPI, CreateProjectData } from '../services/api';
 import { Project } from '../types';
 import Toast from './Toast';
 import { useToast } from '../hooks/useToast';
+import WorkflowEditor from './WorkflowEditor';
 import '../App.css';
 
 interface EditProjectProps {
@@ -292,6 +293,14 @@ const EditProject: React.FC<EditProjectProps> = ({ project, onProjectUpdated, on
             )}
           </div>
 
+          <div className="form-group">
+            <label>Board Workflow</label>
+            <small className="form-help" style={{ display: 'block', marginBottom: '0.5rem' }}>
+              Columns of this project's Kanban board. Each column counts toward a status category in reports.
+            </small>
+            <WorkflowEditor projectId={project.id} />
+          </div>
+
           {error && <div className="error-message">{error}</div>}
 
           <div className="form-actions">
@@ -0,0 +1,231 @@
+import React from "react";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import EditTask from "./EditTask";
+import { Task } from "../types";
+import { getMockDatabase } from "../mocks/server";
+import { realtime } from "../services/realtime";
+import { requestAs, signIn } from "../testUtils";
+
+// "Account settings API", seeded with two daily updates
+const TASK_ID = 2;
+
+const renderEditTask = async () => {
+  const user = await signIn("evan@nextrack.dev");
+  const task = getMockDatabase().tasks.find((t) => t.id === TASK_ID) as Task;
+  const onTaskUpdated = jest.fn();
+  render(
+    <EditTask
+      task={{ ...task }}
+      user={user}
+      onTaskUpdated={onTaskUpdated}
+      onClose={jest.fn()}
+    />
+  );
+  await screen.findByText("Endpoints scaffolded, starting validation.");
+  return { user, onTaskUpdated };
+};
+
+const updatesForTask = () =>
+  getMockDatabase().dailyUpdates.filter((update) => update.task_id === TASK_ID);
+
+describe("EditTask daily updates", () => {
+  it("saves the daily update together with the task", async () => {
+    const { user, onTaskUpdated } = await renderEditTask();
+
+    userEvent.type(
+      screen.getByPlaceholderText("Enter your task update here"),
+      "Validation done, writing tests."
+    );
+    userEvent.click(screen.getByRole("button", { name: /update task/i }));
+
+    await waitFor(() => expect(onTaskUpdated).toHaveBeenCalled());
+    expect(updatesForTask()).toContainEqual(
+      expect.objectContaining({
+        user_id: user.id,
+        comment: "Validation done, writing tests.",
+      })
+    );
+  });
+
+  it("requires a daily update when the task is marked completed", async () => {
+    const { onTaskUpdated } = await renderEditTask();
+
+    userEvent.selectOptions(screen.getByLabelText("Status"), "completed");
+    userEvent.click(screen.getByRole("button", { name: /update task/i }));
+
+    expect(
+      await screen.findByText(
+        "Daily update is required when marking task as completed"
+      )
+    ).toBeInTheDocument();
+    expect(onTaskUpdated).not.toHaveBeenCalled();
+    expect(getMockDatabase().tasks.find((t) => t.id === TASK_ID)?.status).toBe(
+      "in_progress"
+    );
+  });
+
+  it("deletes a daily update after confirmation", async () => {
+    await renderEditTask();
+    expect(updatesForTask()).toHaveLength(3);
+
+    // Newest first: "Remember to cover the email change flow.", which has
+    // one reply that is deleted with it
+    userEvent.click(screen.getAllByTitle("Delete this update")[0]);
+    expect(
+      await screen.findByRole("heading", { name: "Delete Daily Update" })
+    ).toBeInTheDocument();
+    userEvent.click(screen.getByRole("button", { name: "Delete" }));
+
+    await waitFor(() =>
+      expect(
+        screen.queryByText("Remember to cover the email change flow.")
+      ).not.toBeInTheDocument()
+    );
+    expect(screen.queryByText(/adding it to the/)).not.toBeInTheDocument();
+    expect(updatesForTask()).toHaveLength(1);
+    expect(
+      screen.getByText("Endpoints scaffolded, starting validation.")
+    ).toBeInTheDocument();
+    expect(
+      screen.queryByRole("heading", { name: "Delete Daily Update" })
+    ).not.toBeInTheDocument();
+  });
+});
+
+describe("EditTask recurring series", () => {
+  // Second of the three "Weekly portal sync" occurrences (tasks 5, 13, 14)
+  const renderOccurrence = async () => {
+    const user = await signIn("lead@nextrack.dev");
+    const task = getMockDatabase().tasks.find((t) => t.id === 13) as Task;
+    const onTaskUpdated = jest.fn();
+    render(
+      <EditTask
+        task={{ ...task }}
+        user={user}
+        onTaskUpdated={onTaskUpdated}
+        onClose={jest.fn()}
+      />
+    );
+    // The assignee is shown once the project team has loaded
+    await screen.findByText("Tina Lead");
+    return { onTaskUpdated };
+  };
+
+  const seriesNames = () =>
+    [5, 13, 14].map((id) => getMockDatabase().tasks.find((t) => t.id === id)?.name);
+
+  const renameTo = (name: string) => {
+    const input = screen.getByLabelText(/task name/i);
+    userEvent.clear(input);
+    userEvent.type(input, name);
+  };
+
+  it("only changes this occurrence by default", async () => {
+    const { onTaskUpdated } = await renderOccurrence();
+
+    renameTo("Portal demo");
+    userEvent.click(screen.getByRole("button", { name: /update task/i }));
+
+    await waitFor(() => expect(onTaskUpdated).toHaveBeenCalled());
+    expect(seriesNames()).toEqual(["Weekly portal sync", "Portal demo", "Weekly portal sync"]);
+    // No start date is made up, so the timeline still starts the bar at creation
+    expect(getMockDatabase().tasks.find((t) => t.id === 13)?.start_date).toBeUndefined();
+  });
+
+  it("applies the change to this and the following occurrences", async () => {
+    const { onTaskUpdated } = await renderOccurrence();
+
+    renameTo("Portal sync (30 min)");
+    userEvent.click(screen.getByLabelText("This and following tasks"));
+    userEvent.click(screen.getByRole("button", { name: /update task/i }));
+
+    await waitFor(() => expect(onTaskUpdated).toHaveBeenCalled());
+    expect(seriesNames()).toEqual([
+      "Weekly portal sync",
+      "Portal sync (30 min)",
+      "Portal sync (30 min)",
+    ]);
+    // Status and due dates stay per occurrence
+    expect(getMockDatabase().tasks.find((t) => t.id === 14)?.due_date).not.toEqual(
+      getMockDatabase().tasks.find((t) => t.id === 13)?.due_date
+    );
+  });
+});
+
+describe("EditTask workflow", () => {
+  it("asks for the reason the project workflow requires to block the task", async () => {
+    const { onTaskUpdated } = await renderEditTask();
+
+    userEvent.selectOptions(screen.getByLabelText("Status"), "blocked");
+    userEvent.click(screen.getByRole("button", { name: /update task/i }));
+
+    expect(
+      await screen.findByText("Moving to Blocked requires a reason in the daily update")
+    ).toBeInTheDocument();
+    expect(onTaskUpdated).not.toHaveBeenCalled();
+
+    userEvent.type(
+      screen.getByPlaceholderText("Enter your task update here"),
+      "Waiting on the billing team"
+    );
+    userEvent.click(screen.getByRole("button", { name: /update task/i }));
+
+    await waitFor(() => expect(onTaskUpdated).toHaveBeenCalled());
+    expect(getMockDatabase().tasks.find((t) => t.id === TASK_ID)).toMatchObject({
+      status: "blocked",
+      work_description: "Waiting on the billing team",
+    });
+  });
+
+  it("refuses status changes the project workflow doesn't allow", async () => {
+    await renderEditTask();
+
+    // Customer Portal tasks reach Done only from Ready for QA
+    userEvent.selectOptions(screen.getByLabelText("Status"), "completed");
+    userEvent.click(screen.getByRole("button", { name: /update task/i }));
+
+    expect(
+      await screen.findByText("Tasks can't move from In Progress to Done")
+    ).toBeInTheDocument();
+    expect(getMockDatabase().tasks.find((t) => t.id === TASK_ID)?.status).toBe("in_progress");
+  });
+});
+
+describe("EditTask changes by others", () => {
+  let disconnect = () => {};
+  afterEach(() => disconnect());
+
+  it("warns when a colleague changes the task and loads their version", async () => {
+    const { user } = await renderEditTask();
+    disconnect = realtime.connect(user.id);
+    await waitFor(() => expect(realtime.getStatus()).toBe("live"));
+
+    await requestAs("manager@nextrack.dev", "PUT", `/tasks/${TASK_ID}`, {
+      status: "blocked",
+      work_description: "Waiting on the design review",
+    });
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Mark Manager changed this task while you were editing it"
+    );
+    userEvent.click(screen.getByRole("button", { name: "Load Their Changes" }));
+    expect(screen.getByLabelText("Status")).toHaveValue("blocked");
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+
+  it("doesn't warn about changes outside the form", async () => {
+    const { user } = await renderEditTask();
+    disconnect = realtime.connect(user.id);
+    await waitFor(() => expect(realtime.getStatus()).toBe("live"));
+
+    await requestAs("manager@nextrack.dev", "PUT", `/tasks/${TASK_ID}`, { rank: 10 });
+    await requestAs("manager@nextrack.dev", "POST", `/tasks/${TASK_ID}/daily-updates`, {
+      user_id: 2,
+      comment: "Looks good so far.",
+    });
+
+    expect(await screen.findByText("Looks good so far.")).toBeInTheDocument();
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+});
@@ -6,12 +6,32 @@ import {
   projectTeamAPI,
   dashboardAPI,
 } from "../services/api";
-import { Task, Project, TeamMember, DailyUpdate } from "../types";
+import {
+  Task,
+  Project,
+  TeamMember,
+  RecurrenceScope,
+  RealtimeEvent,
+  ProjectWorkflow,
+} from "../types";
 import WorkloadWarningModal from "./WorkloadWarningModal";
-import ConfirmationModal from "./ConfirmationModal";
+import DailyUpdateThread from "./DailyUpdateThread";
+import TaskAttachments from "./TaskAttachments";
+import BlockerSelect from "./BlockerSelect";
+import SubtaskList from "./SubtaskList";
+import TaskChecklist from "./TaskChecklist";
+import MentionTextarea, { extractMentions } from "./MentionTextarea";
 import Toast from "./Toast";
 import { useToast } from "../hooks/useToast";
+import { useMentionableUsers } from "../hooks/useMentionableUsers";
+import { useRealtimeEvents } from "../hooks/useRealtime";
 import CustomSelect from "./CustomSelect";
+import {
+  canTransition,
+  REQUIREMENT_LABELS,
+  requirementsFor,
+  stateOf,
+} from "../utils/workflow";
 import "../App.css";
 
 interface EditTaskProps {
@@ -32,6 +52,13 @@ interface ProjectTeamMember {
   email: string;
 }
 
+// Edit scopes offered for occurrences of a recurring task
+const SCOPE_OPTIONS: { value: RecurrenceScope; label: string }[] = [
+  { value: "this", label: "This task" },
+  { value: "following", label: "This and following tasks" },
+  { value: "all", label: "All tasks in the series" },
+];
+
 // Helper function to format date for HTML date input (yyyy-MM-dd)
 const formatDateForInput = (dateValue: string | undefined | null): string => {
   if (!dateValue) return "";
@@ -65,16 +92,6 @@ const formatDateLocal = (date: Date): string => {
   return `${year}-${month}-${day}`;
 };
 
-// Helper function to get the Monday of the previous week
-const getLastWeekMonday = (): string => {
-  const d = new Date();
-  const day = d.getDay();
-  // Go to previous Monday, then back one more week
-  const diff = day === 0 ? -13 : -6 - day;
-  d.setDate(d.getDate() + diff);
-  return formatDateLocal(d);
-};
-
 // Helper function to get the Friday of the current week
 const getThisWeekFriday = (): string => {
   const d = new Date();
@@ -85,6 +102,24 @@ const getThisWeekFriday = (): string => {
   return formatDateLocal(d);
 };
 
+// Form values for a task; the due date defaults to this week's Friday, and
+// the start date stays empty so the timeline starts the bar at creation
+const formDataOf = (task: Task) => ({
+  name: task.name || "",
+  description: task.description || "",
+  assignee_id: task.assignee_id || 0,
+  project_id: task.project_id || 0,
+  planned_hours: task.planned_hours || 0,
+  priority: task.priority || "p2",
+  task_type: task.task_type || "development",
+  start_date: formatDateForInput(task.start_date),
+  due_date: formatDateForInput(task.due_date) || getThisWeekFriday(),
+  status: task.status || "todo",
+});
+
+// Changes by someone else to any of these conflict with the open form
+const FORM_FIELDS = [...Object.keys(formDataOf({} as Task)), "workflow_state"];
+
 const EditTask: React.FC<EditTaskProps> = ({
   task,
   onTaskUpdated,
@@ -94,24 +129,12 @@ const EditTask: React.FC<EditTaskProps> = ({
   // Check if user is an employee (limited access)
   const isEmployee = user?.role === "employee";
 
-  // Set default dates - last week's Monday and this week's Friday
-  const defaultStartDate = getLastWeekMonday();
-  const defaultDueDate = getThisWeekFriday();
-
-  const [formData, setFormData] = useState({
-    name: task.name || "",
-    description: task.description || "",
-    assignee_id: task.assignee_id || 0,
-    project_id: task.project_id || 0,
-    planned_hours: task.planned_hours || 0,
-    priority: task.priority || "p2",
-    task_type: task.task_type || "development",
-    start_date: formatDateForInput((task as any).start_date) || defaultStartDate,
-    due_date: formatDateForInput(task.due_date) || defaultDueDate,
-    attachments: task.attachments || "",
-    status: task.status || "todo",
-  });
+  const [formData, setFormData] = useState(() => formDataOf(task));
 
+  const initialBlockerIds = task.blocked_by_ids || [];
+  const [blockerIds, setBlockerIds] = useState<number[]>(initialBlockerIds);
+  // Which occurrences of a recurring task the edit applies to
+  const [scope, setScope] = useState<RecurrenceScope>("this");
   const [projects, setProjects] = useState<Project[]>([]);
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [projectTeamMembers, setProjectTeamMembers] = useState<
@@ -123,18 +146,39 @@ const EditTask: React.FC<EditTaskProps> = ({
   const [showWorkloadWarning, setShowWorkloadWarning] = useState<any>(null);
   const [formErrors, setFormErrors] = useState<{ [key: string]: string }>({});
   const { toast, showToast, hideToast } = useToast();
-  const [dailyUpdates, setDailyUpdates] = useState<DailyUpdate[]>([]);
   const [updateComment, setUpdateComment] = useState("");
-  const [loadingUpdates, setLoadingUpdates] = useState(false);
-  const [deletingUpdateId, setDeletingUpdateId] = useState<number | null>(null);
-  const [deleteConfirmDialog, setDeleteConfirmDialog] = useState<{
-    isOpen: boolean;
-    updateId: number | null;
-  }>({
-    isOpen: false,
-    updateId: null,
+  const mentionableUsers = useMentionableUsers(
+    formData.project_id || task.project_id
+  );
+  // Someone else's change to this task while the form is open
+  const [remoteChange, setRemoteChange] = useState<RealtimeEvent | null>(null);
+  const [workflow, setWorkflow] = useState<ProjectWorkflow | null>(null);
+  // Asked for when the workflow requires them to change the status
+  const [actualHours, setActualHours] = useState(
+    () => task.actual_hours || task.planned_hours || 0
+  );
+
+  useRealtimeEvents((event) => {
+    if (
+      event.resource !== "task" ||
+      event.id !== task.id ||
+      event.action === "created" ||
+      event.actor.id === user?.id
+    ) {
+      return;
+    }
+    if (event.action === "updated" && !event.changes?.some((f) => FORM_FIELDS.includes(f))) {
+      return;
+    }
+    setRemoteChange(event);
   });
 
+  const loadRemoteChange = () => {
+    if (!remoteChange?.data) return;
+    setFormData(formDataOf(remoteChange.data));
+    setRemoteChange(null);
+  };
+
   useEffect(() => {
     const fetchData = async () => {
       // For employees, we don't need to fetch projects/team members
@@ -186,6 +230,53 @@ const EditTask: React.FC<EditTaskProps> = ({
     fetchData();
   }, [user, isEmployee]);
 
+  useEffect(() => {
+    if (!task.project_id) return;
+    projectAPI
+      .getWorkflow(task.project_id)
+      .then(setWorkflow)
+      .catch((err) => console.error("Error fetching project workflow:", err));
+  }, [task.project_id]);
+
+  // A status change follows the project workflow as a board move does: the
+  // task lands in the first state of that category
+  const statusMove = (() => {
+    if (!workflow || formData.status === task.status) return null;
+    const from = stateOf(task, workflow);
+    const to = workflow.states.find((state) => state.category === formData.status);
+    if (!to) return null;
+    return {
+      from,
+      to,
+      allowed: canTransition(workflow, from.key, to.key),
+      requires: requirementsFor(workflow, from.key, to.key),
+    };
+  })();
+  const needsNote = !!statusMove?.requires.some((r) => r === "reason" || r === "comment");
+  const needsHours = !!statusMove?.requires.includes("actual_hours");
+
+  // The daily update doubles as the reason or comment a status change needs
+  const statusMoveFields = () => ({
+    ...(needsNote && { work_description: updateComment.trim() }),
+    ...(needsHours && { actual_hours: actualHours }),
+  });
+
+  const validateStatusMove = (errors: { [key: string]: string }) => {
+    if (!statusMove) return;
+    const { from, to, allowed, requires } = statusMove;
+    if (!allowed) {
+      errors.status = `Tasks can't move from ${from.name} to ${to.name}`;
+      return;
+    }
+    if (needsNote && !updateComment.trim()) {
+      const note = requires.includes("reason") ? "reason" : "comment";
+      errors.updateComment = `Moving to ${to.name} requires ${REQUIREMENT_LABELS[note]} in the daily update`;
+    }
+    if (needsHours && !(actualHours > 0)) {
+      errors.actual_hours = `Moving to ${to.name} requires ${REQUIREMENT_LABELS.actual_hours}`;
+    }
+  };
+
   // Update formData when task.id changes (e.g., when editing a different task)
   // Use a ref to track the previous task.id to prevent unnecessary updates
   const prevTaskIdRef = useRef<number | undefined>(task.id);
@@ -194,19 +285,8 @@ const EditTask: React.FC<EditTaskProps> = ({
     // Only update if task.id actually changed (different task being edited)
     if (prevTaskIdRef.current !== task.id) {
       prevTaskIdRef.current = task.id;
-      setFormData({
-        name: task.name || "",
-        description: task.description || "",
-        assignee_id: task.assignee_id || 0,
-        project_id: task.project_id || 0,
-        planned_hours: task.planned_hours || 0,
-        priority: task.priority || "p2",
-        task_type: task.task_type || "development",
-        start_date: formatDateForInput((task as any).start_date) || defaultStartDate,
-        due_date: formatDateForInput(task.due_date) || defaultDueDate,
-        attachments: task.attachments || "",
-        status: task.status || "todo",
-      });
+      setFormData(formDataOf(task));
+      setRemoteChange(null);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [task.id]); // Only depend on task.id to avoid infinite loops
@@ -254,24 +334,6 @@ const EditTask: React.FC<EditTaskProps> = ({
     }
   }, [formData.project_id, teamMembers]);
 
-  // Fetch daily updates when component loads
-  useEffect(() => {
-    const fetchDailyUpdates = async () => {
-      setLoadingUpdates(true);
-      try {
-        const updates = await taskAPI.getDailyUpdates(task.id);
-        setDailyUpdates(updates);
-      } catch (err) {
-        console.error("Error fetching daily updates:", err);
-        // Don't show error toast for this, as it's not critical
-      } finally {
-        setLoadingUpdates(false);
-      }
-    };
-
-    fetchDailyUpdates();
-  }, [task.id]);
-
   const handleInputChange = (
     e: React.ChangeEvent<
       HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
@@ -359,6 +421,7 @@ const EditTask: React.FC<EditTaskProps> = ({
 
   const validateForm = () => {
     const errors: { [key: string]: string } = {};
+    validateStatusMove(errors);
 
     // For employees, validate update comment only if status is completed
     if (isEmployee) {
@@ -454,6 +517,7 @@ const EditTask: React.FC<EditTaskProps> = ({
           project_id: formData.project_id,
           planned_hours: formData.planned_hours,
           due_date: formData.due_date,
+          task_id: task.id,
         });
 
         // Calculate available hours percentage after adding the new task
@@ -510,19 +574,30 @@ const EditTask: React.FC<EditTaskProps> = ({
     }
   };
 
+  // Saved before the task so a rejected dependency (e.g. a cycle) leaves
+  // everything unchanged
+  const saveBlockers = async () => {
+    const changed =
+      [...blockerIds].sort().join(",") !== [...initialBlockerIds].sort().join(",");
+    if (changed) await taskAPI.setBlockers(task.id, blockerIds);
+  };
+
   const updateTask = async () => {
     try {
+      await saveBlockers();
+
       // For employees, update name, status and description (and daily update will be added separately)
       let updateData: any = isEmployee
         ? { name: formData.name, status: formData.status, description: formData.description }
-        : formData;
+        : { ...formData };
+      Object.assign(updateData, statusMoveFields());
 
       // Remove start_date if it's empty to avoid backend errors
       if (!updateData.start_date || updateData.start_date.trim() === "") {
         delete updateData.start_date;
       }
 
-      await taskAPI.update(task.id, updateData);
+      await taskAPI.update(task.id, updateData, { scope });
 
       // Automatically create daily update if comment is provided
       if (updateComment.trim() && user?.id) {
@@ -530,10 +605,8 @@ const EditTask: React.FC<EditTaskProps> = ({
           await taskAPI.createDailyUpdate(task.id, {
             user_id: user.id,
             comment: updateComment.trim(),
+            mentions: extractMentions(updateComment, mentionableUsers),
           });
-          // Refresh daily updates list
-          const updates = await taskAPI.getDailyUpdates(task.id);
-          setDailyUpdates(updates);
           // Clear the comment after saving
           setUpdateComment("");
         } catch (updateErr) {
@@ -556,11 +629,14 @@ const EditTask: React.FC<EditTaskProps> = ({
 
   const updateTaskWithWorkload = async (workloadData: any) => {
     try {
+      await saveBlockers();
+
       // For employees, update status and description (workload validation doesn't apply)
       if (isEmployee) {
         const employeeUpdateData: any = {
           status: formData.status,
           description: formData.description,
+          ...statusMoveFields(),
         };
 
         // Include start_date and due_date if they are provided
@@ -571,10 +647,11 @@ const EditTask: React.FC<EditTaskProps> = ({
           employeeUpdateData.due_date = formData.due_date;
         }
 
-        await taskAPI.update(task.id, employeeUpdateData);
+        await taskAPI.update(task.id, employeeUpdateData, { scope });
       } else {
         const taskData: any = {
           ...formData,
+          ...statusMoveFields(),
           workload_warning_level: workloadData.warningLevel,
           workload_warnings: JSON.stringify(workloadData.warnings),
           utilization_percentage: workloadData.workload.utilizationPercentage,
@@ -591,7 +668,7 @@ const EditTask: React.FC<EditTaskProps> = ({
           delete taskData.start_date;
         }
 
-        await taskAPI.update(task.id, taskData);
+        await taskAPI.update(task.id, taskData, { scope });
       }
 
       // Automatically create daily update if comment is provided
@@ -600,10 +677,8 @@ const EditTask: React.FC<EditTaskProps> = ({
           await taskAPI.createDailyUpdate(task.id, {
             user_id: user.id,
             comment: updateComment.trim(),
+            mentions: extractMentions(updateComment, mentionableUsers),
           });
-          // Refresh daily updates list
-          const updates = await taskAPI.getDailyUpdates(task.id);
-          setDailyUpdates(updates);
           // Clear the comment after saving
           setUpdateComment("");
         } catch (updateErr) {
@@ -643,124 +718,6 @@ const EditTask: React.FC<EditTaskProps> = ({
     setLoading(false);
   };
 
-  const handleSaveDailyUpdate = async () => {
-    // Validate that comment is not empty
-    if (!updateComment.trim()) {
-      setFormErrors((prev) => ({
-        ...prev,
-        updateComment: "Daily update comment is required",
-      }));
-      showToast("Please enter a daily update comment", "error");
-      return;
-    }
-
-    if (!user?.id) {
-      showToast("User information is missing", "error");
-      return;
-    }
-
-    try {
-      setLoadingUpdates(true);
-      // Create daily update
-      await taskAPI.createDailyUpdate(task.id, {
-        user_id: user.id,
-        comment: updateComment.trim(),
-      });
-
-      // Refresh daily updates list
-      const updates = await taskAPI.getDailyUpdates(task.id);
-      setDailyUpdates(updates);
-
-      // Clear the input field
-      setUpdateComment("");
-
-      // Clear any errors
-      setFormErrors((prev) => {
-        const newErrors = { ...prev };
-        delete newErrors.updateComment;
-        return newErrors;
-      });
-
-      showToast("Daily update saved successfully!", "success");
-    } catch (err: any) {
-      console.error("Failed to save daily update:", err);
-      const errorMessage = err.message || "Failed to save daily update";
-      showToast(errorMessage, "error");
-    } finally {
-      setLoadingUpdates(false);
-    }
-  };
-
-  const handleDeleteDailyUpdate = (updateId: number) => {
-    setDeleteConfirmDialog({
-      isOpen: true,
-      updateId: updateId,
-    });
-  };
-
-  const confirmDeleteDailyUpdate = async () => {
-    if (!deleteConfirmDialog.updateId) return;
-
-    const updateId = deleteConfirmDialog.updateId;
-    setDeletingUpdateId(updateId);
-    setDeleteConfirmDialog({ isOpen: false, updateId: null });
-
-    try {
-      await taskAPI.deleteDailyUpdate(task.id, updateId);
-      // Remove the deleted update from the list
-      setDailyUpdates(dailyUpdates.filter((update) => update.id !== updateId));
-      showToast("Daily update deleted successfully", "success");
-    } catch (err: any) {
-      const errorMessage = err.message || "Failed to delete daily update";
-      showToast(errorMessage, "error");
-    } finally {
-      setDeletingUpdateId(null);
-    }
-  };
-
-  const cancelDeleteDailyUpdate = () => {
-    setDeleteConfirmDialog({ isOpen: false, updateId: null });
-  };
-
-  const formatDateTime = (dateString: string) => {
-    if (!dateString) return "N/A";
-
-    // Parse the date string - Backend returns IST time (UTC+5:30)
-    // MySQL returns timestamps in format: 'YYYY-MM-DD HH:mm:ss'
-    let date: Date;
-    if (
-      dateString.includes("T") ||
-      dateString.includes("Z") ||
-      dateString.includes("+")
-    ) {
-      // ISO format with timezone
-      date = new Date(dateString);
-    } else {
-      // MySQL datetime format - backend already converted to IST, so treat as IST
-      // Add IST timezone offset
-      date = new Date(dateString.replace(" ", "T") + "+05:30");
-    }
-
-    if (isNaN(date.getTime())) return "Invalid date";
-
-    // Format the date - backend already converted to IST
-    const dateStr = date.toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "short",
-      day: "numeric",
-      timeZone: "Asia/Kolkata",
-    });
-    const timeStr = date.toLocaleTimeString("en-US", {
-      hour: "2-digit",
-      minute: "2-digit",
-      second: "2-digit",
-      hour12: true,
-      timeZone: "Asia/Kolkata",
-    });
-
-    return `${dateStr} at ${timeStr}`;
-  };
-
   return (
     <div className="modal-overlay">
       <div className="modal" style={{ maxWidth: "700px", maxHeight: "90vh", overflow: "hidden", display: "flex", flexDirection: "column", padding: 0 }}>
@@ -791,6 +748,42 @@ const EditTask: React.FC<EditTaskProps> = ({
           <form onSubmit={handleSubmit} className="user-form">
             {error && <div className="error-message">{error}</div>}
 
+            {remoteChange && (
+              <div
+                role="alert"
+                style={{
+                  background: "#fffbeb",
+                  border: "1px solid #fcd34d",
+                  color: "#92400e",
+                  borderRadius: "10px",
+                  padding: "0.75rem 1rem",
+                  marginBottom: "1rem",
+                  fontSize: "0.9rem",
+                }}
+              >
+                {remoteChange.action === "deleted" ? (
+                  <>{remoteChange.actor.username} deleted this task while you were editing it.</>
+                ) : (
+                  <>
+                    {remoteChange.actor.username} changed this task while you were
+                    editing it. Saving will overwrite their changes.
+                    <div style={{ display: "flex", gap: "0.5rem", marginTop: "0.5rem" }}>
+                      <button type="button" className="btn-secondary" onClick={loadRemoteChange}>
+                        Load Their Changes
+                      </button>
+                      <button
+                        type="button"
+                        className="btn-secondary"
+                        onClick={() => setRemoteChange(null)}
+                      >
+                        Keep Mine
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
             {/* Task Name - visible to all users */}
             <div className="form-group">
               <label htmlFor="name">
@@ -1016,17 +1009,6 @@ const EditTask: React.FC<EditTaskProps> = ({
                   </div>
                 </div>
 
-                <div className="form-group">
-                  <label htmlFor="attachments">Attachments</label>
-                  <input
-                    type="text"
-                    id="attachments"
-                    name="attachments"
-                    value={formData.attachments}
-                    onChange={handleInputChange}
-                    placeholder="Enter attachment URLs or file names"
-                  />
-                </div>
               </>
             )}
 
@@ -1111,18 +1093,80 @@ const EditTask: React.FC<EditTaskProps> = ({
                 <option value="blocked">Blocked</option>
                 <option value="completed">Completed</option>
               </select>
+              {formErrors.status && (
+                <small
+                  style={{
+                    color: "#ef4444",
+                    fontSize: "0.85rem",
+                    marginTop: "0.25rem",
+                    display: "block",
+                  }}
+                >
+                  {formErrors.status}
+                </small>
+              )}
+            </div>
+
+            {needsHours && (
+              <div className="form-group">
+                <label htmlFor="actual_hours">
+                  Actual Hours <span style={{ color: "#ef4444" }}>*</span>
+                </label>
+                <input
+                  type="number"
+                  id="actual_hours"
+                  value={actualHours}
+                  onChange={(e) => {
+                    setActualHours(parseFloat(e.target.value) || 0);
+                    setFormErrors(({ actual_hours, ...rest }) => rest);
+                  }}
+                  style={{ borderColor: formErrors.actual_hours ? "#ef4444" : "#e1e8ed" }}
+                  min="0"
+                  step="0.5"
+                />
+                {formErrors.actual_hours && (
+                  <small
+                    style={{
+                      color: "#ef4444",
+                      fontSize: "0.85rem",
+                      marginTop: "0.25rem",
+                      display: "block",
+                    }}
+                  >
+                    {formErrors.actual_hours}
+                  </small>
+                )}
+              </div>
+            )}
+
+            <div className="form-group">
+              <label>Blocked By</label>
+              <BlockerSelect
+                taskId={task.id}
+                projectId={formData.project_id || task.project_id}
+                value={blockerIds}
+                onChange={setBlockerIds}
+              />
+              <small
+                className="text-muted-foreground"
+                style={{ fontSize: "0.85rem", marginTop: "0.25rem", display: "block" }}
+              >
+                Tasks that must be completed before this one can start.
+              </small>
             </div>
 
             <div className="form-group">
               <label htmlFor="update-comment">
                 Daily Update
-                {formData.status === "completed" && <span style={{ color: "#ef4444" }}>*</span>}
+                {(needsNote || formData.status === "completed") && (
+                  <span style={{ color: "#ef4444" }}>*</span>
+                )}
               </label>
-              <textarea
+              <MentionTextarea
                 id="update-comment"
                 value={updateComment}
-                onChange={(e) => {
-                  setUpdateComment(e.target.value);
+                onChange={(value) => {
+                  setUpdateComment(value);
                   // Clear error when user types
                   if (formErrors.updateComment) {
                     setFormErrors((prev) => {
@@ -1132,6 +1176,7 @@ const EditTask: React.FC<EditTaskProps> = ({
                     });
                   }
                 }}
+                users={mentionableUsers}
                 placeholder="Enter your task update here"
                 rows={3}
                 style={{
@@ -1163,6 +1208,30 @@ const EditTask: React.FC<EditTaskProps> = ({
               </small>
             </div>
 
+            {/* Subtasks and checklist items are saved as they change */}
+            {!task.parent_task_id && (
+              <div className="form-group">
+                <label>Subtasks</label>
+                <SubtaskList
+                  taskId={task.id}
+                  projectId={formData.project_id || task.project_id}
+                  dueDate={formData.due_date}
+                  user={user}
+                />
+              </div>
+            )}
+
+            <div className="form-group">
+              <label>Checklist</label>
+              <TaskChecklist taskId={task.id} user={user} />
+            </div>
+
+            {/* Uploads are saved immediately, independent of Update Task */}
+            <div className="form-group">
+              <label>Attachments</label>
+              <TaskAttachments taskId={task.id} user={user} />
+            </div>
+
             {/* Daily Updates Section */}
             <div
               className="form-group"
@@ -1182,130 +1251,54 @@ const EditTask: React.FC<EditTaskProps> = ({
                 className="text-muted-foreground"
                 style={{ marginBottom: "1rem", fontSize: "0.9rem" }}
               >
-                Previous daily updates with date and time.
+                Previous daily updates with date and time. Reply to an update to
+                discuss it, and use @ to mention a teammate.
               </p>
 
-              {/* Display Existing Daily Updates */}
-              <div style={{ marginTop: "1rem" }}>
-                {loadingUpdates ? (
-                  <div
-                    className="text-muted-foreground"
-                    style={{ padding: "1rem", textAlign: "center" }}
-                  >
-                    Loading updates...
-                  </div>
-                ) : dailyUpdates.length === 0 ? (
-                  <div
-                    className="text-muted-foreground bg-gray-50"
+              {/* Daily update threads with replies and @mentions */}
+              <DailyUpdateThread
+                taskId={task.id}
+                projectId={formData.project_id || task.project_id}
+                user={user}
+                emptyMessage="No daily updates yet. Be the first to add an update!"
+              />
+            </div>
+
+            {task.recurrence_id && (
+              <fieldset className="form-group" style={{ border: "none", padding: 0 }}>
+                <legend style={{ fontWeight: 600, marginBottom: "0.5rem" }}>
+                  Apply Changes To
+                </legend>
+                {SCOPE_OPTIONS.map((option) => (
+                  <label
+                    key={option.value}
                     style={{
-                      padding: "1.5rem",
-                      textAlign: "center",
-                      borderRadius: "4px",
-                      border: "1px dashed #e1e8ed",
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "0.5rem",
+                      fontWeight: 400,
                     }}
                   >
-                    No daily updates yet. Be the first to add an update!
-                  </div>
-                ) : (
-                  <div style={{ maxHeight: "400px", overflowY: "auto" }}>
-                    {dailyUpdates.map((update) => (
-                      <div
-                        key={update.id}
-                        style={{
-                          padding: "1rem",
-                          marginBottom: "0.75rem",
-                          backgroundColor: "#f8f9fa",
-                          borderRadius: "6px",
-                          border: "1px solid #e1e8ed",
-                        }}
-                      >
-                        <div
-                          style={{
-                            display: "flex",
-                            justifyContent: "space-between",
-                            alignItems: "flex-start",
-                            marginBottom: "0.5rem",
-                          }}
-                        >
-                          <div style={{ flex: 1 }}>
-                            <strong
-                              className="text-foreground"
-                              style={{ fontSize: "0.95rem" }}
-                            >
-                              {update.user_name ||
-                                update.username ||
-                                "Unknown User"}
-                            </strong>
-                            {update.email && (
-                              <span
-                                className="text-muted-foreground"
-                                style={{
-                                  fontSize: "0.85rem",
-                                  marginLeft: "0.5rem",
-                                }}
-                              >
-                                ({update.email})
-                              </span>
-                            )}
-                          </div>
-                          <div
-                            style={{
-                              display: "flex",
-                              alignItems: "center",
-                              gap: "0.5rem",
-                            }}
-                          >
-                            <span
-                              style={{
-                                // color handled by text-muted-foreground class
-                                fontSize: "0.85rem",
-                                whiteSpace: "nowrap",
-                              }}
-                            >
-                              {formatDateTime(update.created_at)}
-                            </span>
-                            <button
-                              type="button"
-                              onClick={() => handleDeleteDailyUpdate(update.id)}
-                              disabled={deletingUpdateId === update.id}
-                              style={{
-                                background: "none",
-                                border: "none",
-                                cursor:
-                                  deletingUpdateId === update.id
-                                    ? "not-allowed"
-                                    : "pointer",
-                                padding: "0.25rem",
-                                display: "flex",
-                                alignItems: "center",
-                                justifyContent: "center",
-                                opacity: deletingUpdateId === update.id ? 0.5 : 1,
-                                color: "#ef4444",
-                                fontSize: "1rem",
-                              }}
-                              title="Delete this update"
-                            >
-                              {deletingUpdateId === update.id ? "⏳" : "🗑️"}
-                            </button>
-                          </div>
-                        </div>
-                        <div
-                          style={{
-                            color: "#444",
-                            fontSize: "0.9rem",
-                            lineHeight: "1.5",
-                            whiteSpace: "pre-wrap",
-                            wordBreak: "break-word",
-                          }}
-                        >
-                          {update.comment}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </div>
-            </div>
+                    <input
+                      type="radio"
+                      name="recurrence-scope"
+                      value={option.value}
+                      checked={scope === option.value}
+                      onChange={() => setScope(option.value)}
+                      style={{ width: "auto", margin: 0 }}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+                <small
+                  className="text-muted-foreground"
+                  style={{ fontSize: "0.85rem", marginTop: "0.25rem", display: "block" }}
+                >
+                  Name, description, assignee, hours, priority and type are shared
+                  with the series. Status, due date and hours worked stay per occurrence.
+                </small>
+              </fieldset>
+            )}
 
             <div className="form-actions">
               <button
@@ -1347,18 +1340,6 @@ const EditTask: React.FC<EditTaskProps> = ({
           onCancel={handleWorkloadWarningCancel}
         />
       )}
-
-      {/* Delete Confirmation Modal */}
-      <ConfirmationModal
-        isOpen={deleteConfirmDialog.isOpen}
-        title="Delete Daily Update"
-        message="Are you sure you want to delete this daily update? This action cannot be undone."
-        confirmText="Delete"
-        cancelText="Cancel"
-        onConfirm={confirmDeleteDailyUpdate}
-        onCancel={cancelDeleteDailyUpdate}
-        variant="danger"
-      />
     </div>
   );
 };
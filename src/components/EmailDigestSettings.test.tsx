@@ -0,0 +1,56 @@
+import React from "react";
+import { render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import EmailDigestSettings from "./EmailDigestSettings";
+import { getMockDatabase } from "../mocks/server";
+import { signIn } from "../testUtils";
+
+const renderDigestSettings = async () => {
+  const user = await signIn("evan@nextrack.dev");
+  render(<EmailDigestSettings user={user} />);
+  await screen.findByLabelText("Frequency");
+  return user;
+};
+
+describe("EmailDigestSettings", () => {
+  it("opts into a weekly digest and previews it from the user's tasks", async () => {
+    const { id } = await renderDigestSettings();
+    expect(screen.getByLabelText("Frequency")).toHaveValue("off");
+
+    userEvent.selectOptions(screen.getByLabelText("Frequency"), "weekly");
+    userEvent.selectOptions(screen.getByLabelText("Send on"), "5");
+    userEvent.click(screen.getByRole("checkbox", { name: "Due this week" }));
+
+    const preview = screen.getByRole("region", { name: "Digest preview" });
+    expect(preview).toHaveTextContent("Subject: Your week in NexTrack");
+    expect(preview).toHaveTextContent("Hi Evan Employee");
+    expect(within(preview).getByText("Blocked (1)")).toBeInTheDocument();
+    expect(within(preview).getByText("Billing history view")).toBeInTheDocument();
+    expect(within(preview).getByText("CI pipeline docs")).toBeInTheDocument();
+    expect(preview).not.toHaveTextContent("Due this week");
+    // Completed work is left out
+    expect(within(preview).queryByText("Login page redesign")).not.toBeInTheDocument();
+
+    userEvent.click(screen.getByRole("button", { name: "Save Digest Settings" }));
+
+    expect(await screen.findByText("Email digest settings saved")).toBeInTheDocument();
+    expect(getMockDatabase().digestSettings.get(id)).toEqual({
+      frequency: "weekly",
+      weekday: 5,
+      sections: ["overdue", "blocked", "due_next_week"],
+    });
+  });
+
+  it("needs at least one section", async () => {
+    const { id } = await renderDigestSettings();
+
+    userEvent.selectOptions(screen.getByLabelText("Frequency"), "daily");
+    ["Overdue", "Blocked", "Due this week", "Due next week"].forEach((name) =>
+      userEvent.click(screen.getByRole("checkbox", { name }))
+    );
+    userEvent.click(screen.getByRole("button", { name: "Save Digest Settings" }));
+
+    expect(await screen.findByText("Choose at least one section")).toBeInTheDocument();
+    await waitFor(() => expect(getMockDatabase().digestSettings.has(id)).toBe(false));
+  });
+});
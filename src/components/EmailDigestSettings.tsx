@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from "react";
+import { digestAPI, taskAPI, isAbortError } from "../services/api";
+import { DigestFrequency, DigestSection, DigestSettings, DigestTemplate, Task } from "../types";
+import { DIGEST_SECTIONS, WEEKDAY_OPTIONS } from "../utils/digest";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useToast } from "../hooks/useToast";
+import DigestPreview from "./DigestPreview";
+import Toast from "./Toast";
+
+interface EmailDigestSettingsProps {
+  user: { id: number; username: string };
+}
+
+// Opt-in for daily or weekly digest emails of the user's open tasks, with a
+// preview of the next one. Shown in Profile Settings.
+const EmailDigestSettings: React.FC<EmailDigestSettingsProps> = ({ user }) => {
+  const [settings, setSettings] = useState<DigestSettings | null>(null);
+  const [templates, setTemplates] = useState<DigestTemplate[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast, showToast, hideToast } = useToast();
+  const getSignal = useAbortSignal();
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const signal = getSignal();
+        const [current, allTemplates, myTasks] = await Promise.all([
+          digestAPI.getSettings({ signal }),
+          digestAPI.getTemplates({ signal }),
+          taskAPI.getByAssignee(user.id, { signal }),
+        ]);
+        setSettings(current);
+        setTemplates(allTemplates);
+        setTasks(myTasks);
+      } catch (err: any) {
+        if (isAbortError(err)) return;
+        console.error("Error fetching digest settings:", err);
+        showToast(err.message || "Failed to fetch digest settings", "error");
+      }
+    };
+    load();
+  }, [user.id, getSignal, showToast]);
+
+  if (!settings) {
+    return (
+      <div className="card" style={{ maxWidth: 560, padding: "1.25rem", borderRadius: 8 }}>
+        <h3 style={{ margin: 0 }}>Email Digest</h3>
+      </div>
+    );
+  }
+
+  const toggleSection = (section: DigestSection) =>
+    setSettings({
+      ...settings,
+      sections: settings.sections.includes(section)
+        ? settings.sections.filter((s) => s !== section)
+        : [...settings.sections, section],
+    });
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setSettings(await digestAPI.updateSettings(settings));
+      showToast(
+        settings.frequency === "off" ? "Email digest turned off" : "Email digest settings saved",
+        "success"
+      );
+    } catch (err: any) {
+      showToast(err.message || "Failed to save digest settings", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const template = templates.find((t) => t.frequency === settings.frequency);
+
+  return (
+    <div className="card" style={{ maxWidth: 560, padding: "1.25rem", borderRadius: 8 }}>
+      <h3 style={{ margin: 0, marginBottom: "0.25rem" }}>Email Digest</h3>
+      <div className="text-muted-foreground" style={{ fontSize: "0.875rem", marginBottom: "0.75rem" }}>
+        A summary of your overdue, blocked and upcoming tasks, sent to your email address
+      </div>
+
+      <form onSubmit={handleSave} className="user-form" style={{ padding: 0, boxShadow: "none" }}>
+        <div style={{ display: "flex", gap: "1rem" }}>
+          <div className="form-group" style={{ flex: 1 }}>
+            <label htmlFor="digest-frequency">Frequency</label>
+            <select
+              id="digest-frequency"
+              value={settings.frequency}
+              onChange={(e) =>
+                setSettings({ ...settings, frequency: e.target.value as DigestFrequency })
+              }
+            >
+              <option value="off">Off</option>
+              <option value="daily">Daily (weekday mornings)</option>
+              <option value="weekly">Weekly</option>
+            </select>
+          </div>
+          {settings.frequency === "weekly" && (
+            <div className="form-group" style={{ flex: 1 }}>
+              <label htmlFor="digest-weekday">Send on</label>
+              <select
+                id="digest-weekday"
+                value={settings.weekday}
+                onChange={(e) => setSettings({ ...settings, weekday: Number(e.target.value) })}
+              >
+                {WEEKDAY_OPTIONS.map((day) => (
+                  <option key={day.value} value={day.value}>
+                    {day.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {settings.frequency !== "off" && (
+          <fieldset className="form-group" style={{ border: "none", padding: 0, margin: 0 }}>
+            <legend style={{ fontWeight: 600, marginBottom: "0.5rem" }}>Include</legend>
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem 1.25rem" }}>
+              {DIGEST_SECTIONS.map(({ value, label }) => (
+                <label
+                  key={value}
+                  style={{ display: "flex", alignItems: "center", gap: "0.4rem", fontWeight: 400 }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={settings.sections.includes(value)}
+                    onChange={() => toggleSection(value)}
+                    style={{ width: "auto", margin: 0 }}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
+        {template && (
+          <div style={{ marginTop: "1rem" }}>
+            <div style={{ fontWeight: 600, marginBottom: "0.5rem" }}>Preview</div>
+            <DigestPreview
+              template={template}
+              recipient={user.username}
+              tasks={tasks}
+              sections={settings.sections}
+            />
+          </div>
+        )}
+
+        <div className="form-actions">
+          <button type="submit" className="btn-enterprise btn-primary" disabled={saving}>
+            {saving ? "Saving..." : "Save Digest Settings"}
+          </button>
+        </div>
+      </form>
+
+      {toast.isVisible && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
+
+export default EmailDigestSettings;
@@ -0,0 +1,303 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { Project, Task } from "../types";
+import {
+  DAY_WIDTHS,
+  daysBetween,
+  GanttZoom,
+  shiftSpan,
+  timelineHeader,
+  timelineRange,
+} from "../utils/gantt";
+import { formatDay, localToday } from "../utils/timesheet";
+import "../App.css";
+
+export type GanttSpan = { start: string; end: string };
+
+export interface GanttRow {
+  key: string;
+  label: string;
+  // Indent: subtasks sit under their parent, tasks under their project
+  depth: number;
+  span: GanttSpan | null;
+  project?: Project;
+  task?: Task;
+  // Project rows: where the name links to, and whether its tasks are hidden
+  href?: string;
+  collapsed?: boolean;
+}
+
+interface GanttChartProps {
+  rows: GanttRow[];
+  zoom: GanttZoom;
+  onReschedule: (task: Task, span: GanttSpan, mode: "move" | "resize") => void;
+  onToggleProject?: (projectId: number) => void;
+}
+
+interface Drag {
+  task: Task;
+  span: GanttSpan;
+  mode: "move" | "resize";
+  originX: number;
+  days: number;
+}
+
+const ROW_HEIGHT = 36;
+const LABEL_WIDTH = 260;
+
+// Task bars by day, with arrows from each blocker to the tasks it blocks
+// and a line for today. Bars are dragged to reschedule: the body moves the
+// whole task, the right edge its due date. Arrow keys do the same, a day at
+// a time, with Shift for the due date only.
+const GanttChart: React.FC<GanttChartProps> = ({ rows, zoom, onReschedule, onToggleProject }) => {
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const stopDragRef = useRef<(() => void) | null>(null);
+  const dayWidth = DAY_WIDTHS[zoom];
+
+  useEffect(() => () => stopDragRef.current?.(), []);
+
+  // A dragged bar shows where it would land
+  const spanOf = (row: GanttRow) =>
+    row.span && drag && row.task?.id === drag.task.id
+      ? shiftSpan(row.span, drag.days, drag.mode)
+      : row.span;
+
+  const range = timelineRange(rows.flatMap((row) => (row.span ? [row.span] : [])));
+  const header = timelineHeader(range, zoom);
+  const trackWidth = range.length * dayWidth;
+  const xOf = (day: string) => daysBetween(range.start, day) * dayWidth;
+  const today = localToday();
+
+  const startDrag = (
+    event: React.MouseEvent,
+    task: Task,
+    span: GanttSpan,
+    mode: Drag["mode"]
+  ) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+    dragRef.current = { task, span, mode, originX: event.clientX, days: 0 };
+    setDrag(dragRef.current);
+
+    const move = (e: MouseEvent) => {
+      const current = dragRef.current;
+      const days = Math.round((e.clientX - (current?.originX ?? 0)) / dayWidth);
+      if (!current || days === current.days) return;
+      dragRef.current = { ...current, days };
+      setDrag(dragRef.current);
+    };
+    const stop = () => {
+      window.removeEventListener("mousemove", move);
+      window.removeEventListener("mouseup", drop);
+      stopDragRef.current = null;
+      dragRef.current = null;
+      setDrag(null);
+    };
+    const drop = () => {
+      const current = dragRef.current;
+      stop();
+      if (current?.days) {
+        onReschedule(current.task, shiftSpan(current.span, current.days, current.mode), current.mode);
+      }
+    };
+    window.addEventListener("mousemove", move);
+    window.addEventListener("mouseup", drop);
+    stopDragRef.current = stop;
+  };
+
+  const handleBarKey = (event: React.KeyboardEvent, task: Task, span: GanttSpan) => {
+    if (event.key !== "ArrowLeft" && event.key !== "ArrowRight") return;
+    event.preventDefault();
+    const mode = event.shiftKey ? "resize" : "move";
+    onReschedule(task, shiftSpan(span, event.key === "ArrowLeft" ? -1 : 1, mode), mode);
+  };
+
+  // Elbow from the end of a blocker's bar to the start of the task it blocks;
+  // red when the blocker isn't due before the task starts
+  const rowIndex = new Map(rows.map((row, index) => [row.task?.id ?? -1, index]));
+  const arrows = rows.flatMap((row, index) => {
+    const task = row.task;
+    const to = spanOf(row);
+    if (!task || !to) return [];
+    return (task.blocked_by_ids || []).flatMap((blockerId) => {
+      const blockerIndex = rowIndex.get(blockerId);
+      const from = blockerIndex === undefined ? null : spanOf(rows[blockerIndex]);
+      if (blockerIndex === undefined || !from) return [];
+      const x1 = xOf(from.end) + dayWidth;
+      const y1 = blockerIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+      const x2 = xOf(to.start);
+      const y2 = index * ROW_HEIGHT + ROW_HEIGHT / 2;
+      const path =
+        x2 - 8 >= x1 + 8
+          ? `M ${x1} ${y1} H ${x1 + 8} V ${y2} H ${x2}`
+          : `M ${x1} ${y1} H ${x1 + 8} V ${y2 - (y2 > y1 ? 1 : -1) * (ROW_HEIGHT / 2)} H ${x2 - 8} V ${y2} H ${x2}`;
+      return [{ key: `${blockerId}-${task.id}`, path, late: from.end >= to.start }];
+    });
+  });
+
+  const gridStyle = {
+    backgroundImage: "linear-gradient(to right, #f3f4f6 1px, transparent 1px)",
+    backgroundSize: `${dayWidth * (zoom === "day" ? 1 : 7)}px 100%`,
+    backgroundPositionX: zoom === "day" ? 0 : `${(header.ticks[0]?.offset ?? 0) * dayWidth}px`,
+  };
+
+  return (
+    <div className="gantt">
+      <div className="gantt-scroll">
+        <div className="gantt-header" style={{ width: LABEL_WIDTH + trackWidth }}>
+          <div className="gantt-label-cell gantt-header-label" style={{ width: LABEL_WIDTH }}>
+            Task
+          </div>
+          <div className="gantt-track" style={{ width: trackWidth }}>
+            <div className="gantt-header-months">
+              {header.months.map((month) => (
+                <div
+                  key={month.key}
+                  className="gantt-header-cell"
+                  style={{ left: month.offset * dayWidth, width: month.days * dayWidth }}
+                >
+                  {month.days * dayWidth >= 48 && month.label}
+                </div>
+              ))}
+            </div>
+            <div className="gantt-header-ticks">
+              {header.ticks.map((tick) => (
+                <div
+                  key={tick.key}
+                  className={`gantt-header-cell${tick.key === today ? " today" : ""}`}
+                  style={{ left: tick.offset * dayWidth, width: tick.days * dayWidth }}
+                >
+                  {tick.label}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="gantt-body" style={{ width: LABEL_WIDTH + trackWidth }}>
+          {rows.map((row) => {
+            const span = spanOf(row);
+            const task = row.task;
+            const left = span ? xOf(span.start) : 0;
+            const width = span ? (daysBetween(span.start, span.end) + 1) * dayWidth : 0;
+            return (
+              <div
+                key={row.key}
+                className={`gantt-row${row.project ? " gantt-project-row" : ""}`}
+                style={{ height: ROW_HEIGHT }}
+              >
+                <div
+                  className="gantt-label-cell"
+                  style={{ width: LABEL_WIDTH, paddingLeft: `${0.75 + row.depth * 1.25}rem` }}
+                >
+                  {row.project && onToggleProject && (
+                    <button
+                      type="button"
+                      className="gantt-toggle"
+                      onClick={() => onToggleProject(row.project!.id)}
+                      aria-expanded={!row.collapsed}
+                      aria-label={`${row.collapsed ? "Show" : "Hide"} tasks of ${row.label}`}
+                    >
+                      {row.collapsed ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
+                    </button>
+                  )}
+                  {row.href ? (
+                    <Link to={row.href} className="gantt-label" title={row.label}>
+                      {row.label}
+                    </Link>
+                  ) : (
+                    <span className="gantt-label" title={row.label}>
+                      {row.label}
+                    </span>
+                  )}
+                </div>
+                <div className="gantt-track" style={{ width: trackWidth, ...gridStyle }}>
+                  {span && row.project && (
+                    <div
+                      className="gantt-bar gantt-bar-project"
+                      style={{ left, width }}
+                      title={`${row.label}: ${formatDay(span.start)} to ${formatDay(span.end)}`}
+                    >
+                      <div
+                        className="gantt-bar-progress"
+                        style={{ width: `${row.project.calculated_progress ?? row.project.progress ?? 0}%` }}
+                      />
+                    </div>
+                  )}
+                  {span && task && task.status === "completed" && (
+                    <div
+                      className="gantt-bar gantt-bar-completed"
+                      style={{ left, width }}
+                      title={`${task.name}: ${formatDay(span.start)} to ${formatDay(span.end)}`}
+                    />
+                  )}
+                  {span && task && task.status !== "completed" && (
+                    <button
+                      type="button"
+                      className={`gantt-bar gantt-bar-${task.status}${
+                        drag?.task.id === task.id ? " dragging" : ""
+                      }`}
+                      style={{ left, width }}
+                      aria-label={`${task.name}: ${formatDay(span.start)} to ${formatDay(span.end)}`}
+                      title="Drag or use the arrow keys to move; drag the right edge or hold Shift to change the due date"
+                      onMouseDown={(e) => startDrag(e, task, row.span!, "move")}
+                      onKeyDown={(e) => handleBarKey(e, task, row.span!)}
+                    >
+                      <span
+                        className="gantt-bar-handle"
+                        aria-hidden="true"
+                        onMouseDown={(e) => startDrag(e, task, row.span!, "resize")}
+                      />
+                    </button>
+                  )}
+                  {span && task?.assignee_name && (
+                    <span className="gantt-bar-caption" style={{ left: left + width + 6 }}>
+                      {task.assignee_name}
+                    </span>
+                  )}
+                  {!span && task && <span className="gantt-no-date">No due date</span>}
+                </div>
+              </div>
+            );
+          })}
+
+          <svg
+            className="gantt-arrows"
+            style={{ left: LABEL_WIDTH }}
+            width={trackWidth}
+            height={rows.length * ROW_HEIGHT}
+            aria-hidden="true"
+          >
+            <defs>
+              <marker id="gantt-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M 0 0 L 8 4 L 0 8 z" fill="#6b7280" />
+              </marker>
+              <marker id="gantt-arrow-late" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M 0 0 L 8 4 L 0 8 z" fill="#dc2626" />
+              </marker>
+            </defs>
+            {arrows.map((arrow) => (
+              <path
+                key={arrow.key}
+                d={arrow.path}
+                className={`gantt-arrow${arrow.late ? " late" : ""}`}
+                markerEnd={`url(#${arrow.late ? "gantt-arrow-late" : "gantt-arrow"})`}
+              />
+            ))}
+          </svg>
+
+          <div
+            className="gantt-today"
+            style={{ left: LABEL_WIDTH + xOf(today) + dayWidth / 2 }}
+            title={`Today, ${formatDay(today)}`}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GanttChart;
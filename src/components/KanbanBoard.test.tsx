@@ -0,0 +1,541 @@
+import React from "react";
+import { act, fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import KanbanBoard from "./KanbanBoard";
+import { Task } from "../types";
+import { taskAPI } from "../services/api";
+import { getMockDatabase, setMockLatency } from "../mocks/server";
+import { realtime } from "../services/realtime";
+import { requestAs, signIn } from "../testUtils";
+
+const renderBoard = async () => {
+  const user = await signIn("manager@nextrack.dev");
+  const tasks = getMockDatabase().tasks.map((task) => ({ ...task })) as Task[];
+  render(<KanbanBoard tasks={tasks} user={user} />);
+  return user;
+};
+
+// jsdom has no DataTransfer, so drag events carry a plain stand-in
+const dragTo = (taskName: string, target: HTMLElement) => {
+  const data: Record<string, string> = {};
+  const dataTransfer = {
+    setData: (format: string, value: string) => {
+      data[format] = value;
+    },
+    getData: (format: string) => data[format],
+    effectAllowed: "",
+    dropEffect: "",
+  };
+  fireEvent.dragStart(screen.getByText(taskName), { dataTransfer });
+  fireEvent.drop(target, { dataTransfer });
+};
+
+const dragToColumn = (taskName: string, columnTitle: string) =>
+  dragTo(taskName, screen.getByRole("heading", { name: columnTitle }));
+
+const findTask = (name: string) =>
+  getMockDatabase().tasks.find((task) => task.name === name);
+
+describe("KanbanBoard drag and drop", () => {
+  it("asks for a reason before blocking a task", async () => {
+    await renderBoard();
+
+    dragToColumn("Account settings API", "Blocked");
+    expect(
+      await screen.findByRole("heading", { name: "Block Task" })
+    ).toBeInTheDocument();
+    expect(findTask("Account settings API")?.status).toBe("in_progress");
+
+    userEvent.click(screen.getByRole("button", { name: "Block Task" }));
+    expect(
+      screen.getByText("Please provide a reason for blocking this task")
+    ).toBeInTheDocument();
+
+    userEvent.type(
+      screen.getByLabelText(/reason for blocking/i),
+      "Waiting on API keys"
+    );
+    userEvent.click(screen.getByRole("button", { name: "Block Task" }));
+
+    await waitFor(() =>
+      expect(findTask("Account settings API")).toMatchObject({
+        status: "blocked",
+        work_description: "Waiting on API keys",
+      })
+    );
+    expect(
+      screen.queryByRole("heading", { name: "Block Task" })
+    ).not.toBeInTheDocument();
+  });
+
+  it("records actual hours when a task is completed", async () => {
+    await renderBoard();
+
+    dragToColumn("App store screenshots", "Completed");
+    expect(
+      await screen.findByRole("heading", { name: "Complete Task" })
+    ).toBeInTheDocument();
+
+    const hoursInput = screen.getByLabelText(/hours taken/i);
+    expect(hoursInput).toHaveValue(4);
+    fireEvent.change(hoursInput, { target: { value: "5" } });
+    userEvent.type(
+      screen.getByLabelText(/comments/i),
+      "Screenshots uploaded for both stores"
+    );
+    userEvent.type(
+      screen.getByLabelText(/links/i),
+      "https://ci.example.com/runs/1, https://docs.example.com/report"
+    );
+    userEvent.click(screen.getByRole("button", { name: "Complete Task" }));
+
+    await waitFor(() =>
+      expect(findTask("App store screenshots")).toMatchObject({
+        status: "completed",
+        actual_hours: 5,
+        work_description: "Screenshots uploaded for both stores",
+      })
+    );
+    const taskId = findTask("App store screenshots")!.id;
+    await waitFor(() =>
+      expect(
+        getMockDatabase()
+          .taskAttachments.filter((a) => a.task_id === taskId)
+          .map((a) => a.url)
+      ).toEqual(["https://ci.example.com/runs/1", "https://docs.example.com/report"])
+    );
+  });
+
+  it("rejects links that are not URLs", async () => {
+    await renderBoard();
+
+    dragToColumn("App store screenshots", "Completed");
+    await screen.findByRole("heading", { name: "Complete Task" });
+    userEvent.type(screen.getByLabelText(/links/i), "PR #42");
+    userEvent.click(screen.getByRole("button", { name: "Complete Task" }));
+
+    expect(await screen.findByText(/"PR" is not a valid link/)).toBeInTheDocument();
+    expect(findTask("App store screenshots")?.status).toBe("todo");
+  });
+
+  it("follows the workflow of the task's own project", async () => {
+    await renderBoard();
+
+    // Customer Portal tasks reach Done only from Ready for QA
+    dragToColumn("Portal regression suite", "Completed");
+
+    expect(
+      await screen.findByText("Tasks can't move from To Do to Done")
+    ).toBeInTheDocument();
+    expect(screen.queryByRole("heading", { name: "Complete Task" })).not.toBeInTheDocument();
+    expect(findTask("Portal regression suite")?.status).toBe("todo");
+  });
+
+  it("leaves the task unchanged when the modal is cancelled", async () => {
+    await renderBoard();
+
+    dragToColumn("Portal regression suite", "Blocked");
+    await screen.findByRole("heading", { name: "Block Task" });
+    userEvent.click(screen.getByRole("button", { name: "Cancel" }));
+
+    expect(
+      screen.queryByRole("heading", { name: "Block Task" })
+    ).not.toBeInTheDocument();
+    expect(findTask("Portal regression suite")?.status).toBe("todo");
+  });
+
+  it("moves a task between open columns without a modal", async () => {
+    await renderBoard();
+
+    dragToColumn("Portal regression suite", "In Progress");
+
+    await waitFor(() =>
+      expect(findTask("Portal regression suite")?.status).toBe("in_progress")
+    );
+    expect(screen.queryByRole("heading", { name: /block task|complete task/i }))
+      .not.toBeInTheDocument();
+  });
+});
+
+describe("KanbanBoard task dependencies", () => {
+  // "App store screenshots" is blocked by "Push notifications" (in progress)
+  // and "Offline mode design" (completed)
+  it("asks before starting a task whose blockers are still open", async () => {
+    await renderBoard();
+
+    dragToColumn("App store screenshots", "In Progress");
+    expect(
+      await screen.findByText(/blocked by "Push notifications", which is not completed yet/)
+    ).toBeInTheDocument();
+    expect(findTask("App store screenshots")?.status).toBe("todo");
+
+    userEvent.click(screen.getByRole("button", { name: "Start Anyway" }));
+    await waitFor(() =>
+      expect(findTask("App store screenshots")?.status).toBe("in_progress")
+    );
+  });
+
+  it("notifies the assignee when the last blocker is completed", async () => {
+    await renderBoard();
+
+    dragToColumn("Push notifications", "Completed");
+    await screen.findByRole("heading", { name: "Complete Task" });
+    userEvent.click(screen.getByRole("button", { name: "Complete Task" }));
+
+    expect(
+      await screen.findByText(/Ready to start: App store screenshots/)
+    ).toBeInTheDocument();
+    const blockedTask = findTask("App store screenshots")!;
+    expect(
+      getMockDatabase().dailyUpdates.find((u) => u.task_id === blockedTask.id)
+    ).toMatchObject({
+      mentions: [blockedTask.assignee_id],
+      comment: expect.stringContaining("All blockers are complete"),
+    });
+  });
+});
+
+describe("KanbanBoard project workflow", () => {
+  // Customer Portal reviews and QAs work: To Do, In Progress, In Review,
+  // Ready for QA, Blocked, Done
+  const renderProjectBoard = async () => {
+    const user = await signIn("manager@nextrack.dev");
+    const workflow = getMockDatabase().workflows.find((w) => w.project_id === 1)!;
+    const tasks = getMockDatabase()
+      .tasks.filter((task) => task.project_id === 1 && !task.recurrence_id)
+      .map((task) => ({ ...task })) as Task[];
+    render(<KanbanBoard tasks={tasks} user={user} workflow={workflow} />);
+  };
+
+  it("shows one column per workflow state", async () => {
+    await renderProjectBoard();
+
+    expect(
+      screen.getAllByRole("heading", { level: 3 }).map((heading) => heading.textContent)
+    ).toEqual(["To Do", "In Progress", "In Review", "Ready for QA", "Blocked", "Done"]);
+  });
+
+  it("asks for the comment the workflow requires before moving", async () => {
+    await renderProjectBoard();
+
+    dragToColumn("Account settings API", "In Review");
+    expect(
+      await screen.findByRole("heading", { name: "Move to In Review" })
+    ).toBeInTheDocument();
+    userEvent.click(screen.getByRole("button", { name: "Move Task" }));
+    expect(
+      screen.getByText("Please add a comment before moving to In Review")
+    ).toBeInTheDocument();
+
+    userEvent.type(screen.getByLabelText(/comment/i), "PR #51 is up");
+    userEvent.click(screen.getByRole("button", { name: "Move Task" }));
+
+    await waitFor(() =>
+      expect(findTask("Account settings API")).toMatchObject({
+        workflow_state: "in_review",
+        status: "in_progress",
+        work_description: "PR #51 is up",
+      })
+    );
+  });
+
+  it("asks about open blockers before the comment the workflow requires", async () => {
+    const db = getMockDatabase();
+    const workflow = db.workflows.find((w) => w.project_id === 1)!;
+    workflow.rules.push({ to: "in_progress", requires: ["comment"] });
+    workflow.states.find((state) => state.key === "in_progress")!.wip_limit = undefined;
+    db.tasks.find((task) => task.name === "Portal regression suite")!.blocked_by_ids = [2];
+    await renderProjectBoard();
+
+    dragToColumn("Portal regression suite", "In Progress");
+    expect(
+      await screen.findByText(/blocked by "Account settings API", which is not completed yet/)
+    ).toBeInTheDocument();
+    userEvent.click(screen.getByRole("button", { name: "Start Anyway" }));
+
+    expect(
+      await screen.findByRole("heading", { name: "Move to In Progress" })
+    ).toBeInTheDocument();
+    userEvent.type(screen.getByLabelText(/comment/i), "Starting with the smoke tests");
+    userEvent.click(screen.getByRole("button", { name: "Move Task" }));
+
+    await waitFor(() =>
+      expect(findTask("Portal regression suite")).toMatchObject({
+        status: "in_progress",
+        work_description: "Starting with the smoke tests",
+      })
+    );
+  });
+
+  it("rejects moves the workflow does not allow", async () => {
+    await renderProjectBoard();
+
+    dragToColumn("Portal regression suite", "Done");
+
+    expect(
+      await screen.findByText("Tasks can't move from To Do to Done")
+    ).toBeInTheDocument();
+    expect(
+      screen.queryByRole("heading", { name: "Complete Task" })
+    ).not.toBeInTheDocument();
+    expect(findTask("Portal regression suite")?.status).toBe("todo");
+  });
+
+  it("asks before moving a task into a column at its WIP limit", async () => {
+    await renderProjectBoard();
+    // In Progress allows one task and already holds "Account settings API"
+    expect(screen.getByTitle("WIP limit 1")).toHaveTextContent("1 / 1");
+
+    dragToColumn("Portal regression suite", "In Progress");
+    expect(
+      await screen.findByRole("heading", { name: "WIP Limit Reached" })
+    ).toBeInTheDocument();
+    expect(findTask("Portal regression suite")?.status).toBe("todo");
+
+    userEvent.click(screen.getByRole("button", { name: "Move Anyway" }));
+    await waitFor(() =>
+      expect(findTask("Portal regression suite")?.status).toBe("in_progress")
+    );
+  });
+});
+
+describe("KanbanBoard swimlanes", () => {
+  // Lanes are labelled by name, which task lists include
+  const renderLanes = async (grouping: string) => {
+    const user = await signIn("manager@nextrack.dev");
+    const tasks = await taskAPI.getAll();
+    render(<KanbanBoard tasks={tasks} user={user} />);
+    userEvent.selectOptions(screen.getByLabelText("Swimlanes"), grouping);
+  };
+
+  afterEach(() => localStorage.clear());
+
+  it("reassigns a task dropped into another assignee's lane", async () => {
+    await renderLanes("assignee");
+
+    dragTo(
+      "Portal regression suite",
+      screen.getByRole("group", { name: "To Do, Evan Employee" })
+    );
+    expect(
+      await screen.findByRole("heading", { name: /Employee Workload Alert/ })
+    ).toBeInTheDocument();
+    expect(findTask("Portal regression suite")?.assignee_id).toBe(6);
+
+    userEvent.click(screen.getByRole("button", { name: "Reassign Anyway" }));
+    await waitFor(() =>
+      expect(findTask("Portal regression suite")).toMatchObject({
+        assignee_id: 4,
+        status: "todo",
+      })
+    );
+  });
+
+  it("changes priority and column in one drop", async () => {
+    await renderLanes("priority");
+
+    dragTo(
+      "Portal regression suite",
+      screen.getByRole("group", { name: "In Progress, P1 - Critical" })
+    );
+
+    await waitFor(() =>
+      expect(findTask("Portal regression suite")).toMatchObject({
+        priority: "p1",
+        status: "in_progress",
+      })
+    );
+  });
+
+  it("keeps tasks in their project lane", async () => {
+    await renderLanes("project");
+
+    dragTo(
+      "Portal regression suite",
+      screen.getByRole("group", { name: "To Do, Mobile App" })
+    );
+
+    expect(
+      await screen.findByText("Tasks can't move between projects on the board")
+    ).toBeInTheDocument();
+    expect(findTask("Portal regression suite")?.project_id).toBe(1);
+  });
+});
+
+describe("KanbanBoard card order", () => {
+  afterEach(() => localStorage.clear());
+
+  it("ranks a card dropped onto another card right after it", async () => {
+    await renderBoard();
+
+    // To Do starts "Portal regression suite" (#3), "Weekly portal sync" (#5)
+    dragTo("App store screenshots", screen.getByText("Portal regression suite"));
+
+    await waitFor(() =>
+      expect(findTask("App store screenshots")?.rank).toBe((3 * 1024 + 5 * 1024) / 2)
+    );
+    expect(findTask("App store screenshots")?.status).toBe("todo");
+  });
+
+  it("moves and ranks a card dropped onto a card in another column", async () => {
+    await renderBoard();
+
+    dragTo("Portal regression suite", screen.getByText("Account settings API"));
+
+    await waitFor(() =>
+      expect(findTask("Portal regression suite")).toMatchObject({
+        status: "in_progress",
+        rank: (2 * 1024 + 6 * 1024) / 2,
+      })
+    );
+  });
+
+  it("sorts columns by priority", async () => {
+    await renderBoard();
+    expect(screen.getByText("App store screenshots")).toBeInTheDocument();
+
+    userEvent.selectOptions(screen.getByLabelText("Sort by"), "priority");
+
+    // The p4 task drops below the first three p3 tasks of To Do
+    expect(screen.queryByText("App store screenshots")).not.toBeInTheDocument();
+    expect(screen.getByText("Code review: auth module")).toBeInTheDocument();
+  });
+});
+
+describe("KanbanBoard keyboard access", () => {
+  const cardsIn = (column: string) =>
+    within(screen.getByRole("list", { name: column })).getAllByRole("listitem");
+
+  it("moves focus between cards and columns with the arrow keys", async () => {
+    await renderBoard();
+    const [first, second] = cardsIn("To Do");
+    expect(first).toHaveAttribute("tabindex", "0");
+    expect(second).toHaveAttribute("tabindex", "-1");
+
+    act(() => first.focus());
+    userEvent.keyboard("{arrowdown}");
+    expect(second).toHaveFocus();
+
+    // Same position in the next column, or its last card
+    userEvent.keyboard("{arrowright}");
+    expect(cardsIn("In Progress")[1]).toHaveFocus();
+    userEvent.keyboard("{home}");
+    expect(cardsIn("In Progress")[0]).toHaveFocus();
+  });
+
+  it("moves a task from the move dialog and announces it", async () => {
+    await renderBoard();
+    const card = cardsIn("To Do")[0];
+    act(() => card.focus());
+
+    userEvent.keyboard("m");
+    expect(
+      screen.getByRole("dialog", { name: 'Move "Portal regression suite"' })
+    ).toBeInTheDocument();
+    expect(screen.getByRole("radio", { name: "To Do (current)" })).toHaveFocus();
+
+    userEvent.click(screen.getByRole("radio", { name: "In Progress" }));
+    userEvent.click(screen.getByRole("button", { name: "Move Task" }));
+
+    await waitFor(() =>
+      expect(findTask("Portal regression suite")?.status).toBe("in_progress")
+    );
+    expect(screen.getByRole("status")).toHaveTextContent(
+      'Moved "Portal regression suite" to In Progress'
+    );
+    // The card is shown in its new column straight away, with focus kept on it
+    const moved = cardsIn("In Progress").find((item) =>
+      within(item).queryByText("Portal regression suite")
+    );
+    expect(moved).toHaveFocus();
+  });
+
+  it("focuses the block form and returns focus to the card when it closes", async () => {
+    await renderBoard();
+    const card = cardsIn("In Progress")[0];
+    act(() => card.focus());
+
+    userEvent.keyboard("m");
+    userEvent.click(screen.getByRole("radio", { name: "Blocked" }));
+    userEvent.click(screen.getByRole("button", { name: "Move Task" }));
+
+    expect(
+      await screen.findByRole("dialog", { name: "Block Task" })
+    ).toBeInTheDocument();
+    expect(screen.getByLabelText(/reason for blocking/i)).toHaveFocus();
+
+    userEvent.keyboard("{esc}");
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    expect(card).toHaveFocus();
+    expect(findTask("Account settings API")?.status).toBe("in_progress");
+  });
+});
+
+describe("KanbanBoard optimistic updates", () => {
+  const column = (name: string) => screen.getByRole("list", { name });
+  afterEach(() => setMockLatency(0));
+
+  it("shows a move right away and undoes it from the toast", async () => {
+    await renderBoard();
+
+    dragToColumn("Portal regression suite", "In Progress");
+    expect(
+      await within(column("In Progress")).findByText("Portal regression suite")
+    ).toBeInTheDocument();
+    await waitFor(() =>
+      expect(findTask("Portal regression suite")?.status).toBe("in_progress")
+    );
+
+    userEvent.click(await screen.findByRole("button", { name: "Undo" }));
+    expect(within(column("To Do")).getByText("Portal regression suite")).toBeInTheDocument();
+    await waitFor(() => expect(findTask("Portal regression suite")?.status).toBe("todo"));
+  });
+
+  it("puts the card back when the server rejects the move", async () => {
+    await renderBoard();
+    const db = getMockDatabase();
+    db.tasks = db.tasks.filter((task) => task.name !== "Portal regression suite");
+    // Slow enough to see the card moved before the server answers
+    setMockLatency(100);
+
+    dragToColumn("Portal regression suite", "In Progress");
+    expect(
+      await within(column("In Progress")).findByText("Portal regression suite")
+    ).toBeInTheDocument();
+
+    expect(await screen.findByText("Task not found")).toBeInTheDocument();
+    expect(within(column("To Do")).getByText("Portal regression suite")).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Undo" })).not.toBeInTheDocument();
+  });
+
+  it("hides a deleted card at once and restores it if the delete fails", async () => {
+    await renderBoard();
+    const db = getMockDatabase();
+    db.tasks = db.tasks.filter((task) => task.name !== "Portal regression suite");
+
+    userEvent.click(screen.getByText("Portal regression suite"));
+    userEvent.click(screen.getByTitle("Delete task"));
+    userEvent.click(screen.getByRole("button", { name: "Delete" }));
+    expect(screen.queryByText("Portal regression suite")).not.toBeInTheDocument();
+
+    expect(await screen.findByText("Task not found")).toBeInTheDocument();
+    expect(within(column("To Do")).getAllByText("Portal regression suite")).not.toHaveLength(0);
+  });
+});
+
+describe("KanbanBoard live updates", () => {
+  it("shows who else just moved a task", async () => {
+    const { id: userId } = await renderBoard();
+    const disconnect = realtime.connect(userId);
+    await waitFor(() => expect(realtime.getStatus()).toBe("live"));
+
+    await requestAs("lead@nextrack.dev", "PUT", "/tasks/3", { status: "in_progress" });
+    expect(await screen.findByText("Tina Lead moved this task")).toBeInTheDocument();
+
+    // The user's own moves aren't flagged
+    dragToColumn("Account settings API", "To Do");
+    await waitFor(() => expect(findTask("Account settings API")?.status).toBe("todo"));
+    expect(screen.getAllByText(/moved this task/)).toHaveLength(1);
+    disconnect();
+  });
+});
@@ -1,30 +1,133 @@
-import React, { useState } from "react";
-import { Task } from "../types";
-import { taskAPI } from "../services/api";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  ProjectWorkflow,
+  Task,
+  TaskDependency,
+  WorkflowCategory,
+  WorkflowState,
+} from "../types";
+import { projectAPI, taskAPI, UpdateTaskData } from "../services/api";
+import { useToast } from "../hooks/useToast";
+import { useTaskActivity } from "../hooks/useRealtime";
 import BlockTaskModal, { BlockTaskData } from "./BlockTaskModal";
 import CompleteTaskModal, { CompleteTaskData } from "./CompleteTaskModal";
+import TaskTimer from "./TaskTimer";
 import ConfirmationModal from "./ConfirmationModal";
+import MoveTaskDialog from "./MoveTaskDialog";
+import Toast from "./Toast";
+import TaskProgress from "./TaskProgress";
+import TransitionNoteModal from "./TransitionNoteModal";
+import WorkloadWarningModal from "./WorkloadWarningModal";
+import { rankBetween, rankOf, sortTasks, SORT_OPTIONS, TaskSort } from "../utils/ordering";
+import { describeRecurrence } from "../utils/recurrence";
+import {
+  laneKeyOf,
+  Swimlane,
+  SwimlaneGrouping,
+  swimlanesOf,
+  SWIMLANE_OPTIONS,
+} from "../utils/swimlanes";
+import {
+  canTransition,
+  defaultWorkflow,
+  requirementsFor,
+  stateOf,
+} from "../utils/workflow";
 import "../App.css";
 
 interface KanbanBoardProps {
   tasks: Task[];
-  onTaskUpdate?: () => void;
-  onDeleteTask?: (id: number) => void;
+  // Rejecting puts the card back on the board
+  onDeleteTask?: (id: number) => Promise<void> | void;
   onEditTask?: (task: Task) => void;
   user?: any; // Add user prop to check role and permissions
+  // Columns of a single project's workflow. Boards spanning several
+  // projects show one column per status category.
+  workflow?: ProjectWorkflow;
 }
 
 interface DragItem {
   taskId: number;
-  sourceStatus: string;
+  sourceState: string;
 }
 
+// A drop waiting on the prompts it needs before the task is updated
+interface PendingMove {
+  task: Task;
+  source: WorkflowState;
+  target: WorkflowState;
+  // Field change from dropping the card into another swimlane
+  laneChanges: UpdateTaskData;
+  // New rank when the card was dropped between two others
+  rank?: number;
+  // The same move in the task's own project workflow, whose rules apply
+  transition: Transition;
+}
+
+interface Transition {
+  workflow: ProjectWorkflow;
+  from: WorkflowState;
+  to: WorkflowState;
+}
+
+// How long the toast offering to undo a move stays up
+const UNDO_DURATION = 6000;
+
+// Modern gradient colors, one per category
+const CATEGORY_COLORS: Record<WorkflowCategory, string> = {
+  todo: "linear-gradient(135deg, #667eea 0%, #764ba2 100%)", // purple gradient
+  in_progress: "linear-gradient(135deg, #3b82f6 0%, #2563eb 100%)", // blue gradient
+  blocked: "linear-gradient(135deg, #ef4444 0%, #dc2626 100%)", // red gradient
+  completed: "linear-gradient(135deg, #10b981 0%, #059669 100%)", // green gradient
+};
+
+// Card to focus for a navigation key, given the visible card ids of each
+// lane (row) and column. Up and down continue into the lanes above and below.
+const neighbourCard = (
+  grid: number[][][],
+  row: number,
+  col: number,
+  index: number,
+  key: string
+): number | undefined => {
+  const cell = grid[row][col];
+  switch (key) {
+    case "ArrowUp":
+      if (index > 0) return cell[index - 1];
+      for (let r = row - 1; r >= 0; r--) {
+        if (grid[r][col].length) return grid[r][col][grid[r][col].length - 1];
+      }
+      return undefined;
+    case "ArrowDown":
+      if (index < cell.length - 1) return cell[index + 1];
+      for (let r = row + 1; r < grid.length; r++) {
+        if (grid[r][col].length) return grid[r][col][0];
+      }
+      return undefined;
+    case "ArrowLeft":
+    case "ArrowRight": {
+      const step = key === "ArrowLeft" ? -1 : 1;
+      for (let c = col + step; c >= 0 && c < grid[row].length; c += step) {
+        const target = grid[row][c];
+        if (target.length) return target[Math.min(index, target.length - 1)];
+      }
+      return undefined;
+    }
+    case "Home":
+      return cell[0];
+    case "End":
+      return cell[cell.length - 1];
+    default:
+      return undefined;
+  }
+};
+
 const KanbanBoard: React.FC<KanbanBoardProps> = ({
   tasks,
-  onTaskUpdate,
   onDeleteTask,
   onEditTask,
   user,
+  workflow,
 }) => {
   const formatDate = (dateString?: string) => {
     if (!dateString) return "No due date";
@@ -37,22 +140,56 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
   };
   const [draggedItem, setDraggedItem] = useState<DragItem | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
-  const [showBlockModal, setShowBlockModal] = useState<{
-    taskId: number;
-    taskName: string;
+  // Each prompt carries the move that goes ahead once it is confirmed
+  const [showBlockModal, setShowBlockModal] = useState<PendingMove | null>(null);
+  // Set when a task with open blockers is dropped on an In Progress column
+  const [blockerWarning, setBlockerWarning] = useState<{
+    move: PendingMove;
+    openBlockers: TaskDependency[];
   } | null>(null);
+  const { toast, showToast, hideToast } = useToast();
+  // Who else just changed a task on the board
+  const activity = useTaskActivity();
   const [showCompleteModal, setShowCompleteModal] = useState<{
-    taskId: number;
-    taskName: string;
-    plannedHours: number;
+    move: PendingMove;
+    requireComments: boolean;
+  } | null>(null);
+  // Moves whose workflow rule asks for a comment
+  const [noteModal, setNoteModal] = useState<PendingMove | null>(null);
+  // Moves into a column that is already at its WIP limit
+  const [wipWarning, setWipWarning] = useState<PendingMove | null>(null);
+  // Moves to another assignee's lane that overload them
+  const [workloadWarning, setWorkloadWarning] = useState<{
+    move: PendingMove;
+    result: Awaited<ReturnType<typeof taskAPI.validateWorkload>>;
   } | null>(null);
   const [expandedTask, setExpandedTask] = useState<number | null>(null);
-  const [tasksToShow, setTasksToShow] = useState<Record<string, number>>({
-    todo: 3,
-    in_progress: 3,
-    blocked: 3,
-    completed: 3,
-  });
+  // Keyed by column, or by lane and column when swimlanes are on
+  const [tasksToShow, setTasksToShow] = useState<Record<string, number>>({});
+  const swimlaneStorageKey = `kanban-swimlanes-${user?.id}`;
+  const [grouping, setGrouping] = useState<SwimlaneGrouping>(
+    () => (localStorage.getItem(swimlaneStorageKey) as SwimlaneGrouping) || "none"
+  );
+  const [collapsedLanes, setCollapsedLanes] = useState<string[]>([]);
+  const sortStorageKey = `kanban-sort-${user?.id}`;
+  const [sort, setSort] = useState<TaskSort>(
+    () => (localStorage.getItem(sortStorageKey) as TaskSort) || "rank"
+  );
+  // Card that takes Tab focus; arrow keys move it
+  const [activeTaskId, setActiveTaskId] = useState<number | null>(null);
+  const [moveDialog, setMoveDialog] = useState<Task | null>(null);
+  // Read out by screen readers after each move
+  const [announcement, setAnnouncement] = useState("");
+  const [touchDraggingId, setTouchDraggingId] = useState<number | null>(null);
+  const touchDrag = useRef<{ task: Task; x: number; y: number } | null>(null);
+  const boardRef = useRef<HTMLDivElement>(null);
+  // Card to focus again once a keyboard move re-renders it in its new column
+  const refocusTaskId = useRef<number | null>(null);
+  // Moves and deletions are shown before the server confirms them. They're
+  // rolled back if it rejects them, and dropped once `tasks` reloads.
+  const [optimistic, setOptimistic] = useState<Record<number, UpdateTaskData>>({});
+  const [deletedIds, setDeletedIds] = useState<number[]>([]);
+  const savedIds = useRef(new Set<number>());
   const [deleteConfirmation, setDeleteConfirmation] = useState<{
     isOpen: boolean;
     taskId: number | null;
@@ -63,18 +200,93 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
     taskName: "",
   });
 
-  const columns = [
-    // Modern gradient colors for all columns
-    { id: "todo", title: "To Do", color: "linear-gradient(135deg, #667eea 0%, #764ba2 100%)" }, // purple gradient
-    { id: "in_progress", title: "In Progress", color: "linear-gradient(135deg, #3b82f6 0%, #2563eb 100%)" }, // blue gradient
-    { id: "blocked", title: "Blocked", color: "linear-gradient(135deg, #ef4444 0%, #dc2626 100%)" }, // red gradient
-    { id: "completed", title: "Completed", color: "linear-gradient(135deg, #10b981 0%, #059669 100%)" }, // green gradient
-  ];
+  const boardWorkflow = workflow || defaultWorkflow(0);
+
+  const boardTasks = tasks
+    .filter((task) => !deletedIds.includes(task.id))
+    .map((task) => (optimistic[task.id] ? ({ ...task, ...optimistic[task.id] } as Task) : task));
+
+  useEffect(() => {
+    const saved = savedIds.current;
+    if (saved.size > 0) {
+      setOptimistic((prev) => {
+        const next = { ...prev };
+        saved.forEach((id) => delete next[id]);
+        return next;
+      });
+      saved.clear();
+    }
+    setDeletedIds((prev) =>
+      prev.some((id) => !tasks.some((task) => task.id === id))
+        ? prev.filter((id) => tasks.some((task) => task.id === id))
+        : prev
+    );
+  }, [tasks]);
+
+  // Moves save the state in the task's own workflow, with its category as
+  // the status so the card shows in its new column straight away
+  const stateUpdate = (state: WorkflowState) => ({
+    workflow_state: state.key,
+    status: state.category,
+  });
+
+  // The category board's columns stand for every project's states of that
+  // category: a task moves to the first one in its own project's workflow
+  const transitionOf = async (
+    task: Task,
+    source: WorkflowState,
+    target: WorkflowState
+  ): Promise<Transition> => {
+    if (workflow) return { workflow, from: source, to: target };
+    const own = await projectAPI.getWorkflow(task.project_id);
+    const from = stateOf(task, own);
+    const to =
+      from.category === target.category
+        ? from
+        : own.states.find((state) => state.category === target.category) || target;
+    return { workflow: own, from, to };
+  };
+
+  // Hours including subtasks, when the task has any
+  const plannedHoursOf = (task: Task) => task.rollup?.planned_hours ?? task.planned_hours;
+  const actualHoursOf = (task: Task) => task.rollup?.actual_hours ?? task.actual_hours;
+
+  // Subtasks show up inside their parent's card rather than as cards of
+  // their own, unless the parent isn't on the board
+  const boardTaskIds = new Set(boardTasks.map((task) => task.id));
+  const isCard = (task: Task) =>
+    !(task.parent_task_id && boardTaskIds.has(task.parent_task_id));
+  const getTasksByState = (stateKey: string) => {
+    return boardTasks.filter(
+      (task) => stateOf(task, boardWorkflow).key === stateKey && isCard(task)
+    );
+  };
 
-  const getTasksByStatus = (status: string) => {
-    return tasks.filter((task) => task.status === status);
+  // Soft limit state of a column, counting its cards across all lanes
+  const wipLevel = (state: WorkflowState) => {
+    if (!state.wip_limit) return "none";
+    const count = getTasksByState(state.key).length;
+    if (count > state.wip_limit) return "over";
+    return count === state.wip_limit ? "at" : "under";
   };
 
+  const lanes = swimlanesOf(boardTasks.filter(isCard), grouping);
+
+  // Cards of one column, or of one lane within it, in display order
+  const cellTasksOf = (stateKey: string, laneKey?: string) =>
+    sortTasks(
+      getTasksByState(stateKey).filter(
+        (task) => laneKey === undefined || laneKeyOf(task, grouping) === laneKey
+      ),
+      sort
+    );
+
+  // Field change for dropping a card into another lane
+  const laneUpdate = (laneKey: string): UpdateTaskData =>
+    grouping === "assignee"
+      ? { assignee_id: Number(laneKey) }
+      : { priority: laneKey as Task["priority"] };
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case "p1":
@@ -152,20 +364,42 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
   const handleDragStart = (
     e: React.DragEvent,
     taskId: number,
-    status: string
+    stateKey: string
   ) => {
-    setDraggedItem({ taskId, sourceStatus: status });
+    setDraggedItem({ taskId, sourceState: stateKey });
     e.dataTransfer.effectAllowed = "move";
     e.dataTransfer.setData("text/plain", taskId.toString());
     e.dataTransfer.setData(
       "application/json",
-      JSON.stringify({ taskId, sourceStatus: status })
+      JSON.stringify({ taskId, sourceState: stateKey })
     );
   };
 
+  // Card under the pointer and whether the drop goes above it. Only the
+  // rank sort has a manual order to drop into.
+  const placementAt = (element: Element | null, clientY: number) => {
+    if (sort !== "rank") return null;
+    const card = element?.closest<HTMLElement>("[data-task-id]");
+    if (!card) return null;
+    const rect = card.getBoundingClientRect();
+    return {
+      card,
+      taskId: Number(card.dataset.taskId),
+      before: clientY < rect.top + rect.height / 2,
+    };
+  };
+
+  const clearDropMarkers = (container: Element) =>
+    container
+      .querySelectorAll(".drop-before, .drop-after")
+      .forEach((el) => el.classList.remove("drop-before", "drop-after"));
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     e.dataTransfer.dropEffect = "move";
+    clearDropMarkers(e.currentTarget);
+    const placement = placementAt(e.target as Element, e.clientY);
+    placement?.card.classList.add(placement.before ? "drop-before" : "drop-after");
   };
 
   const handleDragEnter = (e: React.DragEvent) => {
@@ -175,59 +409,327 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
 
   const handleDragLeave = (e: React.DragEvent) => {
     e.currentTarget.classList.remove("drag-over");
+    clearDropMarkers(e.currentTarget);
   };
 
-  const handleDrop = async (e: React.DragEvent, targetStatus: string) => {
+  const handleDrop = async (
+    e: React.DragEvent,
+    targetKey: string,
+    laneKey?: string
+  ) => {
     e.preventDefault();
     e.currentTarget.classList.remove("drag-over");
+    clearDropMarkers(e.currentTarget);
+    const placement = placementAt(e.target as Element, e.clientY);
 
     const taskId = parseInt(e.dataTransfer.getData("text/plain"));
-    const sourceStatus = draggedItem?.sourceStatus;
+    const sourceKey = draggedItem?.sourceState;
+    setDraggedItem(null);
+
+    if (!taskId || !sourceKey) return;
+
+    // Find the task to get its details
+    const task = boardTasks.find((t) => t.id === taskId);
+    if (!task) return;
+    await startMove(task, targetKey, laneKey, placement);
+  };
+
+  // Shared by mouse, touch and keyboard moves. `placement` is the card the
+  // task was dropped onto, if any.
+  const startMove = async (
+    task: Task,
+    targetKey: string,
+    laneKey?: string,
+    placement?: { taskId: number; before: boolean } | null
+  ) => {
+    const target = boardWorkflow.states.find((state) => state.key === targetKey);
+    if (!target) return;
+    const source = stateOf(task, boardWorkflow);
+    const changesLane = laneKey !== undefined && laneKey !== laneKeyOf(task, grouping);
+
+    // Dropped onto a card: rank it between that card and its neighbour.
+    // Dropped anywhere else, the task keeps its rank.
+    let rank: number | undefined;
+    if (placement && placement.taskId !== task.id) {
+      const cell = cellTasksOf(target.key, laneKey).filter((t) => t.id !== task.id);
+      const index = cell.findIndex((t) => t.id === placement.taskId);
+      if (index !== -1) {
+        const [before, after] = placement.before
+          ? [cell[index - 1], cell[index]]
+          : [cell[index], cell[index + 1]];
+        rank = rankBetween(before && rankOf(before), after && rankOf(after));
+      }
+    }
+    if (source.key === target.key && !changesLane && rank === undefined) return;
 
-    if (!taskId || !sourceStatus || sourceStatus === targetStatus) {
-      setDraggedItem(null);
+    if (changesLane && grouping === "project") {
+      showToast("Tasks can't move between projects on the board", "error");
+      return;
+    }
+    let transition: Transition;
+    try {
+      transition = await transitionOf(task, source, target);
+    } catch (error: any) {
+      console.error("Error fetching project workflow:", error);
+      showToast(error.message || "Failed to fetch the project workflow", "error");
+      return;
+    }
+    const { from, to } = transition;
+    if (!canTransition(transition.workflow, from.key, to.key)) {
+      showToast(`Tasks can't move from ${from.name} to ${to.name}`, "error");
       return;
     }
 
-    // Find the task to get its details
-    const task = tasks.find((t) => t.id === taskId);
-    if (!task) {
-      setDraggedItem(null);
+    const move: PendingMove = {
+      task,
+      source,
+      target,
+      laneChanges: changesLane ? laneUpdate(laneKey) : {},
+      rank,
+      transition,
+    };
+
+    // Reassigning checks the new assignee's workload, as the task form does
+    if (move.laneChanges.assignee_id && task.due_date) {
+      try {
+        const result = await taskAPI.validateWorkload({
+          assignee_id: move.laneChanges.assignee_id,
+          project_id: task.project_id,
+          planned_hours: task.planned_hours,
+          due_date: task.due_date,
+        });
+        if (result.warningLevel !== "none") {
+          setWorkloadWarning({ move, result });
+          return;
+        }
+      } catch (error: any) {
+        console.error("Error validating workload:", error);
+        showToast(error.message || "Failed to validate workload", "error");
+        return;
+      }
+    }
+
+    await checkWipLimit(move);
+  };
+
+  // WIP limits are soft: dropping into a full column asks first
+  const checkWipLimit = async (move: PendingMove) => {
+    const { source, target } = move;
+    if (
+      source.key !== target.key &&
+      target.wip_limit &&
+      getTasksByState(target.key).length >= target.wip_limit
+    ) {
+      setWipWarning(move);
       return;
     }
+    await promptForMove(move);
+  };
 
-    // Show modal for blocking
-    if (targetStatus === "blocked") {
-      setShowBlockModal({ taskId, taskName: task.name });
-      setDraggedItem(null);
+  const promptForMove = async (move: PendingMove) => {
+    const { task, source, target } = move;
+    if (source.key === target.key) {
+      await moveTask(move);
       return;
     }
 
-    // Show modal for completing
-    if (targetStatus === "completed") {
+    // Starting a task while its blockers are open needs an explicit override,
+    // asked for before any fields the move requires
+    if (
+      target.category === "in_progress" &&
+      source.category !== "in_progress" &&
+      task.blocked_by_ids?.length
+    ) {
+      try {
+        const { blocked_by } = await taskAPI.getDependencies(task.id);
+        const openBlockers = blocked_by.filter((t) => t.status !== "completed");
+        if (openBlockers.length > 0) {
+          setBlockerWarning({ move, openBlockers });
+          return;
+        }
+      } catch (error) {
+        console.error("Error checking task blockers:", error);
+      }
+    }
+
+    await promptForRequirements(move);
+  };
+
+  // Required fields decide the prompt: hours need the completion form, a
+  // reason the block form, and a plain comment the note form
+  const promptForRequirements = async (move: PendingMove) => {
+    const { workflow: taskWorkflow, from, to } = move.transition;
+    const requires = requirementsFor(taskWorkflow, from.key, to.key);
+    if (requires.includes("actual_hours")) {
       setShowCompleteModal({
-        taskId,
-        taskName: task.name,
-        plannedHours: task.planned_hours,
+        move,
+        requireComments: requires.includes("comment") || requires.includes("reason"),
       });
-      setDraggedItem(null);
+      return;
+    }
+    if (requires.includes("reason")) {
+      setShowBlockModal(move);
+      return;
+    }
+    if (requires.includes("comment")) {
+      setNoteModal(move);
       return;
     }
 
-    // For other status changes (todo, in_progress), update directly
-    setIsUpdating(true);
+    await moveTask(move);
+  };
 
+  // The lane's field change, the new rank and the column change, when there
+  // are any
+  const moveUpdate = ({
+    source,
+    target,
+    laneChanges,
+    rank,
+    transition,
+  }: PendingMove): UpdateTaskData => ({
+    ...laneChanges,
+    ...(rank !== undefined && { rank }),
+    ...(source.key !== target.key && stateUpdate(transition.to)),
+  });
+
+  // Screen reader summary of a finished move
+  const describeMove = ({ task, source, target, laneChanges }: PendingMove) => {
+    const laneKey =
+      laneChanges.assignee_id !== undefined
+        ? String(laneChanges.assignee_id)
+        : laneChanges.priority;
+    const lane = lanes.find((l) => laneKey !== undefined && l.key === laneKey);
+    if (source.key !== target.key) {
+      return `Moved "${task.name}" to ${target.name}${lane ? `, ${lane.label}` : ""}`;
+    }
+    if (lane) return `Moved "${task.name}" to ${lane.label}`;
+    return `Reordered "${task.name}" in ${target.name}`;
+  };
+
+  // The fields a move changed, as they were before it
+  const undoUpdate = ({
+    task,
+    source,
+    target,
+    laneChanges,
+    rank,
+    transition,
+  }: PendingMove): UpdateTaskData => ({
+    ...(laneChanges.assignee_id !== undefined && { assignee_id: task.assignee_id }),
+    ...(laneChanges.priority !== undefined && { priority: task.priority }),
+    ...(rank !== undefined && { rank: rankOf(task) }),
+    ...(source.key !== target.key && stateUpdate(transition.from)),
+  });
+
+  // Shows the change on the board straight away, then saves it. `extra`
+  // fields are saved but not shown on the card.
+  const saveOptimistically = async (
+    taskId: number,
+    changes: UpdateTaskData,
+    extra: UpdateTaskData = {}
+  ) => {
+    setOptimistic((prev) => ({ ...prev, [taskId]: { ...prev[taskId], ...changes } }));
     try {
-      await taskAPI.update(taskId, { status: targetStatus as any });
-      onTaskUpdate?.();
+      await taskAPI.update(taskId, { ...changes, ...extra });
+      savedIds.current.add(taskId);
     } catch (error) {
+      setOptimistic(({ [taskId]: rejected, ...rest }) => rest);
+      throw error;
+    }
+  };
+
+  const moveTask = async (move: PendingMove, note?: string) => {
+    const summary = describeMove(move);
+    const saving = saveOptimistically(
+      move.task.id,
+      moveUpdate(move),
+      note ? { work_description: note } : {}
+    );
+    setAnnouncement(summary);
+    try {
+      await saving;
+      // Only the latest move can be undone: the next toast replaces this one
+      showToast(summary, "success", {
+        action: { label: "Undo", onClick: () => undoMove(move) },
+        duration: UNDO_DURATION,
+      });
+    } catch (error: any) {
       console.error("Error updating task status:", error);
-    } finally {
-      setIsUpdating(false);
-      setDraggedItem(null);
+      const message = error.message || "Failed to move task";
+      setAnnouncement(`${message}. "${move.task.name}" is back in ${move.source.name}`);
+      showToast(message, "error");
     }
   };
 
+  const undoMove = async (move: PendingMove) => {
+    const saving = saveOptimistically(move.task.id, undoUpdate(move));
+    setAnnouncement(`Moved "${move.task.name}" back to ${move.source.name}`);
+    try {
+      await saving;
+    } catch (error: any) {
+      console.error("Error undoing task move:", error);
+      const message = error.message || "Failed to undo the move";
+      setAnnouncement(message);
+      showToast(message, "error");
+    }
+  };
+
+  const confirmWorkload = async () => {
+    if (!workloadWarning) return;
+    const { move } = workloadWarning;
+    setWorkloadWarning(null);
+    await checkWipLimit(move);
+  };
+
+  const confirmWipLimit = async () => {
+    if (!wipWarning) return;
+    const move = wipWarning;
+    setWipWarning(null);
+    await promptForMove(move);
+  };
+
+  const confirmStartBlocked = async () => {
+    if (!blockerWarning) return;
+    const { move } = blockerWarning;
+    setBlockerWarning(null);
+    await promptForRequirements(move);
+  };
+
+  const handleTransitionNote = async (note: string) => {
+    if (!noteModal) return;
+    const move = noteModal;
+    setNoteModal(null);
+    await moveTask(move, note);
+  };
+  // Open blockers among the tasks on the board
+  const renderOpenBlockers = (task: Task) => {
+    const openBlockers = boardTasks.filter(
+      (t) => task.blocked_by_ids?.includes(t.id) && t.status !== "completed"
+    );
+    if (task.status === "completed" || openBlockers.length === 0) return null;
+    return (
+      <div
+        className="task-blocked-by-compact"
+        title={`Blocked by ${openBlockers.map((t) => t.name).join(", ")}`}
+        style={{ fontSize: "0.75rem", color: "#dc2626", marginTop: "0.25rem" }}
+      >
+        ⛓ Waiting on {openBlockers.length} task{openBlockers.length === 1 ? "" : "s"}
+      </div>
+    );
+  };
+
+  // e.g. "Dana moved this task", for a minute after the change
+  const renderActivity = (task: Task) => {
+    const change = activity.get(task.id);
+    if (!change) return null;
+    return (
+      <div className="kanban-card-activity">
+        {change.actor} {change.summary}
+      </div>
+    );
+  };
+
   const handleDeleteTask = async (taskId: number, taskName: string) => {
     setDeleteConfirmation({
       isOpen: true,
@@ -237,15 +739,22 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
   };
 
   const confirmDelete = async () => {
-    if (!deleteConfirmation.taskId) return;
+    const { taskId } = deleteConfirmation;
+    if (!taskId) return;
 
+    setDeleteConfirmation({ isOpen: false, taskId: null, taskName: "" });
+    setDeletedIds((prev) => [...prev, taskId]);
     try {
-      await taskAPI.delete(deleteConfirmation.taskId);
-      onDeleteTask?.(deleteConfirmation.taskId);
-    } catch (error) {
+      // The parent owns deletion when it handles it, so the task isn't deleted twice
+      if (onDeleteTask) {
+        await onDeleteTask(taskId);
+      } else {
+        await taskAPI.delete(taskId);
+      }
+    } catch (error: any) {
       console.error("Error deleting task:", error);
-    } finally {
-      setDeleteConfirmation({ isOpen: false, taskId: null, taskName: "" });
+      setDeletedIds((prev) => prev.filter((id) => id !== taskId));
+      showToast(error.message || "Failed to delete task", "error");
     }
   };
 
@@ -255,18 +764,24 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
 
   const handleBlockTask = async (data: BlockTaskData) => {
     if (!showBlockModal) return;
+    const { task } = showBlockModal;
 
     setIsUpdating(true);
     try {
-      await taskAPI.update(showBlockModal.taskId, {
-        status: "blocked",
+      await taskAPI.update(task.id, {
+        ...moveUpdate(showBlockModal),
         work_description: data.reason,
-        // Note: We could add a separate field for dependent user in the future
+        dependent_user_id: data.dependentUserId ?? null,
       });
-      onTaskUpdate?.();
+      const current = [...(task.blocked_by_ids || [])].sort().join(",");
+      if ([...data.blockerIds].sort().join(",") !== current) {
+        await taskAPI.setBlockers(task.id, data.blockerIds);
+      }
+      setAnnouncement(describeMove(showBlockModal));
       setShowBlockModal(null);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error blocking task:", error);
+      showToast(error.message || "Failed to block task", "error");
     } finally {
       setIsUpdating(false);
     }
@@ -274,334 +789,663 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
 
   const handleCompleteTask = async (data: CompleteTaskData) => {
     if (!showCompleteModal) return;
+    const { move } = showCompleteModal;
 
     setIsUpdating(true);
     try {
-      await taskAPI.update(showCompleteModal.taskId, {
-        status: "completed",
+      const { unblocked_tasks = [] } = await taskAPI.update(move.task.id, {
+        ...moveUpdate(move),
         actual_hours: data.actualHours,
         work_description: data.comments,
-        attachments: data.links,
       });
-      onTaskUpdate?.();
+      if (unblocked_tasks.length > 0) {
+        showToast(
+          `Ready to start: ${unblocked_tasks.map((t) => t.name).join(", ")}. Assignees have been notified.`,
+          "success"
+        );
+      }
+      if (data.links.length > 0) {
+        await taskAPI.addAttachmentLinks(move.task.id, data.links);
+      }
+      setAnnouncement(describeMove(move));
       setShowCompleteModal(null);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error completing task:", error);
+      showToast(error.message || "Failed to complete task", "error");
     } finally {
       setIsUpdating(false);
     }
   };
 
-  return (
-    <div className="kanban-board">
-      {columns.map((column) => {
-        const columnTasks = getTasksByStatus(column.id);
-
-        return (
-          <div
-            key={column.id}
-            className="kanban-column"
-            id={`kanban-${column.id}`}
-            onDragOver={handleDragOver}
-            onDragEnter={handleDragEnter}
-            onDragLeave={handleDragLeave}
-            onDrop={(e) => handleDrop(e, column.id)}
+  const changeGrouping = (value: SwimlaneGrouping) => {
+    setGrouping(value);
+    setCollapsedLanes([]);
+    localStorage.setItem(swimlaneStorageKey, value);
+  };
+
+  const changeSort = (value: TaskSort) => {
+    setSort(value);
+    localStorage.setItem(sortStorageKey, value);
+  };
+
+  const toggleLane = (key: string) =>
+    setCollapsedLanes((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]
+    );
+
+  const renderColumnHeader = (state: WorkflowState) => {
+    const count = getTasksByState(state.key).length;
+    const level = wipLevel(state);
+    return (
+      <div
+        className="kanban-column-header"
+        style={{ background: CATEGORY_COLORS[state.category] }}
+      >
+        <h3>{state.name}</h3>
+        <span
+          className={`task-count ${level === "over" || level === "at" ? `wip-${level}` : ""}`}
+          title={
+            state.wip_limit
+              ? `WIP limit ${state.wip_limit}${level === "over" ? " (exceeded)" : ""}`
+              : undefined
+          }
+        >
+          {state.wip_limit ? `${count} / ${state.wip_limit}` : count}
+        </span>
+      </div>
+    );
+  };
+
+  // Visible card ids per lane and column, in the order they are shown
+  const visibleGrid = () => {
+    const rows =
+      grouping === "none"
+        ? [undefined]
+        : lanes.filter((lane) => !collapsedLanes.includes(lane.key)).map((lane) => lane.key);
+    return rows.map((laneKey) =>
+      boardWorkflow.states.map((state) => {
+        const cellKey = laneKey === undefined ? state.key : `${laneKey}:${state.key}`;
+        return cellTasksOf(state.key, laneKey)
+          .slice(0, tasksToShow[cellKey] || 3)
+          .map((task) => task.id);
+      })
+    );
+  };
+
+  const focusCard = (taskId: number) => {
+    setActiveTaskId(taskId);
+    boardRef.current?.querySelector<HTMLElement>(`[data-task-id="${taskId}"]`)?.focus();
+  };
+
+  // Arrow keys, Home and End move between cards, Enter or Space expands a
+  // card and M opens the move dialog
+  const handleCardKeyDown = (e: React.KeyboardEvent, task: Task) => {
+    if (e.target !== e.currentTarget) return;
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      setExpandedTask(expandedTask === task.id ? null : task.id);
+      return;
+    }
+    if (e.key === "m" || e.key === "M") {
+      e.preventDefault();
+      setMoveDialog(task);
+      return;
+    }
+    const grid = visibleGrid();
+    const row = grid.findIndex((cells) => cells.some((cell) => cell.includes(task.id)));
+    if (row === -1) return;
+    const col = grid[row].findIndex((cell) => cell.includes(task.id));
+    const next = neighbourCard(grid, row, col, grid[row][col].indexOf(task.id), e.key);
+    if (next !== undefined) {
+      e.preventDefault();
+      focusCard(next);
+    }
+  };
+
+  const handleMoveDialog = async (stateKey: string, laneKey?: string) => {
+    if (!moveDialog) return;
+    const task = moveDialog;
+    setMoveDialog(null);
+    refocusTaskId.current = task.id;
+    await startMove(task, stateKey, laneKey);
+  };
+
+  // Keyboard moves re-render the card in its new column; put focus back on
+  // it unless the user has moved focus somewhere else
+  useEffect(() => {
+    const taskId = refocusTaskId.current;
+    if (taskId === null) return;
+    if (document.activeElement && document.activeElement !== document.body) return;
+    boardRef.current?.querySelector<HTMLElement>(`[data-task-id="${taskId}"]`)?.focus();
+  });
+
+  // Touch drag: HTML5 drag and drop doesn't fire for touch, so the card's
+  // handle follows the pointer and the drop target is found under it
+  const dropTargetAt = (x: number, y: number) => {
+    const element = document.elementFromPoint(x, y);
+    const target = element?.closest<HTMLElement>("[data-state-key]");
+    return target ? { element, target } : null;
+  };
+
+  const clearTouchMarkers = () => {
+    if (!boardRef.current) return;
+    boardRef.current
+      .querySelectorAll(".drag-over")
+      .forEach((el) => el.classList.remove("drag-over"));
+    clearDropMarkers(boardRef.current);
+  };
+
+  const handleHandlePointerDown = (e: React.PointerEvent, task: Task) => {
+    if (e.pointerType === "mouse" || isUpdating) return;
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    touchDrag.current = { task, x: e.clientX, y: e.clientY };
+  };
+
+  const handleHandlePointerMove = (e: React.PointerEvent) => {
+    const drag = touchDrag.current;
+    if (!drag) return;
+    // A short wiggle is a tap, not a drag
+    if (touchDraggingId === null && Math.hypot(e.clientX - drag.x, e.clientY - drag.y) < 8) {
+      return;
+    }
+    setTouchDraggingId(drag.task.id);
+    clearTouchMarkers();
+    const hit = dropTargetAt(e.clientX, e.clientY);
+    if (!hit) return;
+    hit.target.classList.add("drag-over");
+    const placement = placementAt(hit.element, e.clientY);
+    placement?.card.classList.add(placement.before ? "drop-before" : "drop-after");
+  };
+
+  const handleHandlePointerUp = async (e: React.PointerEvent) => {
+    const drag = touchDrag.current;
+    const dragging = touchDraggingId !== null;
+    touchDrag.current = null;
+    setTouchDraggingId(null);
+    clearTouchMarkers();
+    if (!drag || !dragging) return;
+    const hit = dropTargetAt(e.clientX, e.clientY);
+    if (!hit) return;
+    await startMove(
+      drag.task,
+      hit.target.dataset.stateKey!,
+      hit.target.dataset.laneKey,
+      placementAt(hit.element, e.clientY)
+    );
+  };
+
+  const handleHandlePointerCancel = () => {
+    touchDrag.current = null;
+    setTouchDraggingId(null);
+    clearTouchMarkers();
+  };
+
+  const visibleIds = visibleGrid().flat(2);
+  const tabStopId =
+    activeTaskId !== null && visibleIds.includes(activeTaskId) ? activeTaskId : visibleIds[0];
+
+  const renderCard = (task: Task) => (
+    <div
+      key={task.id}
+      data-task-id={task.id}
+      role="listitem"
+      tabIndex={task.id === tabStopId ? 0 : -1}
+      aria-describedby="kanban-keyboard-help"
+      className={`kanban-card compact ${
+        isUpdating ? "updating" : ""
+      } ${expandedTask === task.id ? "expanded" : ""} ${
+        touchDraggingId === task.id ? "touch-dragging" : ""
+      } ${activity.has(task.id) ? "remote-change" : ""}`}
+      draggable={!isUpdating}
+      onDragStart={(e) =>
+        handleDragStart(e, task.id, stateOf(task, boardWorkflow).key)
+      }
+      onClick={() =>
+        setExpandedTask(expandedTask === task.id ? null : task.id)
+      }
+      onKeyDown={(e) => handleCardKeyDown(e, task)}
+      onFocus={(e) => {
+        if (e.target !== e.currentTarget) return;
+        setActiveTaskId(task.id);
+        if (refocusTaskId.current !== task.id) refocusTaskId.current = null;
+      }}
+    >
+      {/* Compact View - Only Essential Info */}
+      <div className="kanban-card-compact">
+        <div className="task-header-compact">
+          <span
+            className="kanban-drag-handle"
+            aria-hidden="true"
+            onPointerDown={(e) => handleHandlePointerDown(e, task)}
+            onPointerMove={handleHandlePointerMove}
+            onPointerUp={handleHandlePointerUp}
+            onPointerCancel={handleHandlePointerCancel}
+            onClick={(e) => e.stopPropagation()}
           >
-            <div
-              className="kanban-column-header"
-              style={{ background: column.color }}
+            ⠿
+          </span>
+          <span className="task-name-compact">{task.name}</span>
+          <span
+            className="priority-dot"
+            style={{
+              backgroundColor: getPriorityColor(task.priority),
+            }}
+            title={task.priority.toUpperCase()}
+          ></span>
+        </div>
+
+        <div className="task-info-compact">
+          <div className="task-project">
+            {task.recurrence_id && (
+              <span
+                title={
+                  task.recurrence
+                    ? describeRecurrence(task.recurrence)
+                    : "Recurring task"
+                }
+                aria-label="Recurring task"
+                style={{ marginRight: "0.25rem" }}
+              >
+                🔁
+              </span>
+            )}
+            {task.project_name}
+          </div>
+          <div className="task-hours-compact">
+            <span
+              className="planned-hours-compact"
+              title={
+                task.rollup?.subtask_count
+                  ? `Includes subtasks (${task.planned_hours}h on this task)`
+                  : undefined
+              }
             >
-              <h3>{column.title}</h3>
-              <span className="task-count">{columnTasks.length}</span>
-            </div>
+              {plannedHoursOf(task)}h
+            </span>
+            {/* Logged hours, once any time is logged */}
+            {actualHoursOf(task) > 0 && (
+              <span
+                className="actual-hours-compact"
+                title="Logged"
+                style={{
+                  color: getActualHoursColor(
+                    plannedHoursOf(task),
+                    actualHoursOf(task)
+                  ),
+                }}
+              >
+                /{actualHoursOf(task)}h
+              </span>
+            )}
+            {user && task.status !== "completed" && (
+              <TaskTimer taskId={task.id} taskName={task.name} compact />
+            )}
+          </div>
+          <div className="task-assignee-compact">
+            {task.assignee_name}
+          </div>
+        </div>
 
-            <div className="kanban-column-content">
-              {columnTasks.slice(0, tasksToShow[column.id] || 3).map((task) => (
-                <div
-                  key={task.id}
-                  className={`kanban-card compact ${
-                    isUpdating ? "updating" : ""
-                  } ${expandedTask === task.id ? "expanded" : ""}`}
-                  draggable={!isUpdating}
-                  onDragStart={(e) => handleDragStart(e, task.id, task.status)}
-                  onClick={() =>
-                    setExpandedTask(expandedTask === task.id ? null : task.id)
-                  }
-                >
-                  {/* Compact View - Only Essential Info */}
-                  <div className="kanban-card-compact">
-                    <div className="task-header-compact">
-                      <span className="task-name-compact">{task.name}</span>
-                      <span
-                        className="priority-dot"
-                        style={{
-                          backgroundColor: getPriorityColor(task.priority),
-                        }}
-                        title={task.priority.toUpperCase()}
-                      ></span>
-                    </div>
+        {/* Description - shown for all users */}
+        {task.description && (
+          <div className="task-description-compact">
+            {task.description}
+          </div>
+        )}
 
-                    <div className="task-info-compact">
-                      <div className="task-project">{task.project_name}</div>
-                      <div className="task-hours-compact">
-                        <span className="planned-hours-compact">
-                          {task.planned_hours}h
-                        </span>
-                        {/* Show actual hours for completed tasks */}
-                        {task.status === "completed" &&
-                          task.actual_hours > 0 && (
-                            <span
-                              className="actual-hours-compact"
-                              style={{
-                                color: getActualHoursColor(
-                                  task.planned_hours,
-                                  task.actual_hours
-                                ),
-                              }}
-                            >
-                              /{task.actual_hours}h
-                            </span>
-                          )}
-                      </div>
-                      <div className="task-assignee-compact">
-                        {task.assignee_name}
-                      </div>
-                    </div>
+        {renderOpenBlockers(task)}
+        <TaskProgress rollup={task.rollup} compact />
+        {renderActivity(task)}
 
-                    {/* Description - shown for all users */}
-                    {task.description && (
-                      <div className="task-description-compact">
-                        {task.description}
-                      </div>
-                    )}
-
-                    {/* Workload Warning Indicator */}
-                    {task.workload_warning_level &&
-                      task.workload_warning_level !== "none" && (
-                        <div className="workload-warning-compact">
-                          {getWorkloadWarningIcon(task.workload_warning_level)}
-                        </div>
-                      )}
-                  </div>
+        {/* Workload Warning Indicator */}
+        {task.workload_warning_level &&
+          task.workload_warning_level !== "none" && (
+            <div className="workload-warning-compact">
+              {getWorkloadWarningIcon(task.workload_warning_level)}
+            </div>
+          )}
+      </div>
 
-                  {/* Expanded View - Full Details */}
-                  {expandedTask === task.id && (
-                    <div className="kanban-card-expanded">
-                      <div className="expanded-header">
-                        <h4 className="task-title">{task.name}</h4>
-                        {/* Edit button - available for all users */}
-                        <button
-                          className="edit-task-btn"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            onEditTask?.(task);
-                          }}
-                          title="Edit task"
-                        >
-                          ✏️
-                        </button>
-                        {/* Delete button - only for non-employee roles */}
-                        {user?.role !== "employee" && (
-                          <button
-                            className="delete-task-btn"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleDeleteTask(task.id, task.name);
-                            }}
-                            title="Delete task"
-                          >
-                            ×
-                          </button>
-                        )}
-                      </div>
-
-                      <div className="expanded-content">
-                        {/* Description - shown for all users, no restrictions */}
-                        <div className="task-description">
-                          {task.description || (
-                            <span
-                              style={{ color: "#6c757d", fontStyle: "italic" }}
-                            >
-                              No description provided
-                            </span>
-                          )}
-                        </div>
-                        {task.work_description && (
-                          <div className="task-comments">
-                            <span className="task-comments-label">
-                              {getWorkDescriptionLabel(task.status)}
-                            </span>
-                            <p className="task-comments-text">
-                              {task.work_description}
-                            </p>
-                          </div>
-                        )}
-
-                        <div className="task-details-grid">
-                          <div className="detail-item">
-                            <label>Project:</label>
-                            <span>{task.project_name}</span>
-                          </div>
-                          <div className="detail-item">
-                            <label>Assignee:</label>
-                            <span>{task.assignee_name}</span>
-                          </div>
-                          <div className="detail-item">
-                            <label>Priority:</label>
-                            <span
-                              className="priority-badge"
-                              style={{
-                                backgroundColor: getPriorityColor(
-                                  task.priority
-                                ),
-                              }}
-                            >
-                              {task.priority.toUpperCase()}
-                            </span>
-                          </div>
-                          <div className="detail-item">
-                            <label>Type:</label>
-                            <span
-                              className="type-badge"
-                              style={{
-                                backgroundColor: getTaskTypeColor(
-                                  task.task_type
-                                ),
-                              }}
-                            >
-                              {task.task_type.charAt(0).toUpperCase()}
-                            </span>
-                          </div>
-                          <div className="detail-item">
-                            <label>Planned Hours:</label>
-                            <span>{task.planned_hours}h</span>
-                          </div>
-                          {task.status === "completed" &&
-                            task.actual_hours > 0 && (
-                              <div className="detail-item">
-                                <label>Actual Hours:</label>
-                                <span
-                                  style={{
-                                    color: getActualHoursColor(
-                                      task.planned_hours,
-                                      task.actual_hours
-                                    ),
-                                  }}
-                                >
-                                  {task.actual_hours}h
-                                </span>
-                              </div>
-                            )}
-                          <div className="detail-item">
-                            <label>Due Date:</label>
-                            <span>{formatDate(task.due_date)}</span>
-                          </div>
-                          {task.utilization_percentage &&
-                            task.utilization_percentage > 0 && (
-                              <div className="detail-item">
-                                <label>Utilization:</label>
-                                <span
-                                  style={{
-                                    color:
-                                      task.utilization_percentage > 100
-                                        ? "#dc3545"
-                                        : task.utilization_percentage > 80
-                                        ? "#ffc107"
-                                        : "#28a745",
-                                  }}
-                                >
-                                  {task.utilization_percentage}%
-                                </span>
-                              </div>
-                            )}
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              ))}
+      {/* Expanded View - Full Details */}
+      {expandedTask === task.id && (
+        <div className="kanban-card-expanded">
+          <div className="expanded-header">
+            <h4 className="task-title">{task.name}</h4>
+            {/* Edit button - available for all users */}
+            <button
+              className="edit-task-btn"
+              onClick={(e) => {
+                e.stopPropagation();
+                onEditTask?.(task);
+              }}
+              title="Edit task"
+            >
+              ✏️
+            </button>
+            {/* Delete button - only for non-employee roles */}
+            {user?.role !== "employee" && (
+              <button
+                className="delete-task-btn"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDeleteTask(task.id, task.name);
+                }}
+                title="Delete task"
+              >
+                ×
+              </button>
+            )}
+          </div>
 
-              {columnTasks.length === 0 && (
-                <div className="empty-column">
-                  <p>No tasks</p>
-                </div>
+          <div className="expanded-content">
+            {/* Description - shown for all users, no restrictions */}
+            <div className="task-description">
+              {task.description || (
+                <span
+                  style={{ color: "#6c757d", fontStyle: "italic" }}
+                >
+                  No description provided
+                </span>
               )}
-              
-              {columnTasks.length > (tasksToShow[column.id] || 3) && (
-                <button
-                  className="show-more-tasks-btn"
-                  onClick={() => {
-                    setTasksToShow((prev) => ({
-                      ...prev,
-                      [column.id]: (prev[column.id] || 3) + 3,
-                    }));
-                  }}
+            </div>
+            {task.work_description && (
+              <div className="task-comments">
+                <span className="task-comments-label">
+                  {getWorkDescriptionLabel(task.status)}
+                </span>
+                <p className="task-comments-text">
+                  {task.work_description}
+                </p>
+              </div>
+            )}
+
+            <div className="task-details-grid">
+              <div className="detail-item">
+                <label>Project:</label>
+                <span>{task.project_name}</span>
+              </div>
+              <div className="detail-item">
+                <label>Assignee:</label>
+                <span>{task.assignee_name}</span>
+              </div>
+              <div className="detail-item">
+                <label>Priority:</label>
+                <span
+                  className="priority-badge"
                   style={{
-                    width: "100%",
-                    padding: "0.75rem",
-                    marginTop: "0.5rem",
-                    backgroundColor: "#f3f4f6",
-                    border: "1px solid #e5e7eb",
-                    borderRadius: "8px",
-                    color: "#374151",
-                    fontSize: "0.875rem",
-                    fontWeight: "500",
-                    cursor: "pointer",
-                    transition: "all 0.2s",
-                  }}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.backgroundColor = "#e5e7eb";
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.backgroundColor = "#f3f4f6";
+                    backgroundColor: getPriorityColor(
+                      task.priority
+                    ),
                   }}
                 >
-                  Show More ({columnTasks.length - (tasksToShow[column.id] || 3)} more)
-                </button>
-              )}
-              
-              {columnTasks.length > 3 && (tasksToShow[column.id] || 3) > 3 && (
-                <button
-                  className="show-less-tasks-btn"
-                  onClick={() => {
-                    setTasksToShow((prev) => ({
-                      ...prev,
-                      [column.id]: 3,
-                    }));
-                  }}
+                  {task.priority.toUpperCase()}
+                </span>
+              </div>
+              <div className="detail-item">
+                <label>Type:</label>
+                <span
+                  className="type-badge"
                   style={{
-                    width: "100%",
-                    padding: "0.75rem",
-                    marginTop: "0.5rem",
-                    backgroundColor: "#ffffff",
-                    border: "1px solid #d1d5db",
-                    borderRadius: "8px",
-                    color: "#6b7280",
-                    fontSize: "0.875rem",
-                    fontWeight: "500",
-                    cursor: "pointer",
-                    transition: "all 0.2s",
-                  }}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.backgroundColor = "#f9fafb";
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.backgroundColor = "#ffffff";
+                    backgroundColor: getTaskTypeColor(
+                      task.task_type
+                    ),
                   }}
                 >
-                  Show Less
-                </button>
-              )}
+                  {task.task_type.charAt(0).toUpperCase()}
+                </span>
+              </div>
+              <div className="detail-item">
+                <label>Planned Hours:</label>
+                <span>{plannedHoursOf(task)}h</span>
+              </div>
+              {task.status === "completed" &&
+                actualHoursOf(task) > 0 && (
+                  <div className="detail-item">
+                    <label>Actual Hours:</label>
+                    <span
+                      style={{
+                        color: getActualHoursColor(
+                          plannedHoursOf(task),
+                          actualHoursOf(task)
+                        ),
+                      }}
+                    >
+                      {actualHoursOf(task)}h
+                    </span>
+                  </div>
+                )}
+              <div className="detail-item">
+                <label>Due Date:</label>
+                <span>{formatDate(task.due_date)}</span>
+              </div>
+              {task.utilization_percentage &&
+                task.utilization_percentage > 0 && (
+                  <div className="detail-item">
+                    <label>Utilization:</label>
+                    <span
+                      style={{
+                        color:
+                          task.utilization_percentage > 100
+                            ? "#dc3545"
+                            : task.utilization_percentage > 80
+                            ? "#ffc107"
+                            : "#28a745",
+                      }}
+                    >
+                      {task.utilization_percentage}%
+                    </span>
+                  </div>
+                )}
             </div>
           </div>
-        );
-      })}
+        </div>
+      )}
+    </div>
+  );
 
+  const renderCellContent = (cellKey: string, cellTasks: Task[], label: string) => (
+    <div className="kanban-column-content" role="list" aria-label={label}>
+      {cellTasks.slice(0, tasksToShow[cellKey] || 3).map((task) => renderCard(task))}
+
+      {cellTasks.length === 0 && (
+        <div className="empty-column">
+          <p>No tasks</p>
+        </div>
+      )}
+      
+      {cellTasks.length > (tasksToShow[cellKey] || 3) && (
+        <button
+          className="show-more-tasks-btn"
+          onClick={() => {
+            setTasksToShow((prev) => ({
+              ...prev,
+              [cellKey]: (prev[cellKey] || 3) + 3,
+            }));
+          }}
+          style={{
+            width: "100%",
+            padding: "0.75rem",
+            marginTop: "0.5rem",
+            backgroundColor: "#f3f4f6",
+            border: "1px solid #e5e7eb",
+            borderRadius: "8px",
+            color: "#374151",
+            fontSize: "0.875rem",
+            fontWeight: "500",
+            cursor: "pointer",
+            transition: "all 0.2s",
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = "#e5e7eb";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = "#f3f4f6";
+          }}
+        >
+          Show More ({cellTasks.length - (tasksToShow[cellKey] || 3)} more)
+        </button>
+      )}
+      
+      {cellTasks.length > 3 && (tasksToShow[cellKey] || 3) > 3 && (
+        <button
+          className="show-less-tasks-btn"
+          onClick={() => {
+            setTasksToShow((prev) => ({
+              ...prev,
+              [cellKey]: 3,
+            }));
+          }}
+          style={{
+            width: "100%",
+            padding: "0.75rem",
+            marginTop: "0.5rem",
+            backgroundColor: "#ffffff",
+            border: "1px solid #d1d5db",
+            borderRadius: "8px",
+            color: "#6b7280",
+            fontSize: "0.875rem",
+            fontWeight: "500",
+            cursor: "pointer",
+            transition: "all 0.2s",
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = "#f9fafb";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = "#ffffff";
+          }}
+        >
+          Show Less
+        </button>
+      )}
+    </div>
+  );
+
+  const dropTargetProps = (stateKey: string, laneKey?: string) => ({
+    "data-state-key": stateKey,
+    "data-lane-key": laneKey,
+    onDragOver: handleDragOver,
+    onDragEnter: handleDragEnter,
+    onDragLeave: handleDragLeave,
+    onDrop: (e: React.DragEvent) => handleDrop(e, stateKey, laneKey),
+  });
+
+  const states = boardWorkflow.states;
+  const wipCount = wipWarning ? getTasksByState(wipWarning.target.key).length : 0;
+
+  return (
+    <div className="kanban-board-container" ref={boardRef}>
+      <p id="kanban-keyboard-help" className="sr-only">
+        Use the arrow keys to move between cards, Enter to expand a card and M
+        to move it to another column.
+      </p>
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+      <div className="kanban-toolbar">
+        <label htmlFor="kanban-sort">Sort by</label>
+        <select
+          id="kanban-sort"
+          value={sort}
+          onChange={(e) => changeSort(e.target.value as TaskSort)}
+          title={sort === "rank" ? "Drag cards to reorder them" : undefined}
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <label htmlFor="kanban-swimlanes">Swimlanes</label>
+        <select
+          id="kanban-swimlanes"
+          value={grouping}
+          onChange={(e) => changeGrouping(e.target.value as SwimlaneGrouping)}
+        >
+          {SWIMLANE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {grouping === "none" ? (
+        <div className="kanban-board">
+          {states.map((state) => (
+            <div
+              key={state.key}
+              className={`kanban-column ${wipLevel(state) === "over" ? "wip-exceeded" : ""}`}
+              id={`kanban-${state.key}`}
+              {...dropTargetProps(state.key)}
+            >
+              {renderColumnHeader(state)}
+              {renderCellContent(state.key, cellTasksOf(state.key), state.name)}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div
+          className="kanban-board kanban-swimlanes"
+          style={{ gridTemplateColumns: `repeat(${states.length}, minmax(220px, 1fr))` }}
+        >
+          {states.map((state) => (
+            <div
+              key={state.key}
+              className={`kanban-swimlane-column ${
+                wipLevel(state) === "over" ? "wip-exceeded" : ""
+              }`}
+            >
+              {renderColumnHeader(state)}
+            </div>
+          ))}
+          {lanes.map((lane: Swimlane) => {
+            const laneTasks = boardTasks.filter(
+              (task) => isCard(task) && laneKeyOf(task, grouping) === lane.key
+            );
+            const collapsed = collapsedLanes.includes(lane.key);
+            return (
+              <React.Fragment key={lane.key}>
+                <div className="kanban-swimlane-header">
+                  <h4>
+                    <button
+                      type="button"
+                      aria-expanded={!collapsed}
+                      onClick={() => toggleLane(lane.key)}
+                    >
+                      {collapsed ? "▸" : "▾"} {lane.label}
+                    </button>
+                  </h4>
+                  <span className="kanban-swimlane-count">{laneTasks.length}</span>
+                </div>
+                {!collapsed &&
+                  states.map((state) => (
+                    <div
+                      key={state.key}
+                      role="group"
+                      aria-label={`${state.name}, ${lane.label}`}
+                      className="kanban-column kanban-swimlane-cell"
+                      {...dropTargetProps(state.key, lane.key)}
+                    >
+                      {renderCellContent(
+                        `${lane.key}:${state.key}`,
+                        cellTasksOf(state.key, lane.key),
+                        `${state.name}, ${lane.label}`
+                      )}
+                    </div>
+                  ))}
+              </React.Fragment>
+            );
+          })}
+        </div>
+      )}
       {/* Block Task Modal */}
       {showBlockModal && (
         <BlockTaskModal
-          taskId={showBlockModal.taskId}
-          taskName={showBlockModal.taskName}
+          taskId={showBlockModal.task.id}
+          taskName={showBlockModal.task.name}
+          projectId={showBlockModal.task.project_id}
+          blockerIds={showBlockModal.task.blocked_by_ids || []}
           onConfirm={handleBlockTask}
           onCancel={() => setShowBlockModal(null)}
         />
@@ -610,14 +1454,58 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
       {/* Complete Task Modal */}
       {showCompleteModal && (
         <CompleteTaskModal
-          taskId={showCompleteModal.taskId}
-          taskName={showCompleteModal.taskName}
-          plannedHours={showCompleteModal.plannedHours}
+          taskId={showCompleteModal.move.task.id}
+          taskName={showCompleteModal.move.task.name}
+          plannedHours={showCompleteModal.move.task.planned_hours}
+          loggedHours={showCompleteModal.move.task.actual_hours}
+          requireComments={showCompleteModal.requireComments}
           onConfirm={handleCompleteTask}
           onCancel={() => setShowCompleteModal(null)}
         />
       )}
 
+      {/* Comment required by the workflow */}
+      {noteModal && (
+        <TransitionNoteModal
+          taskName={noteModal.task.name}
+          stateName={noteModal.target.name}
+          onConfirm={handleTransitionNote}
+          onCancel={() => setNoteModal(null)}
+        />
+      )}
+
+      {/* New assignee's workload when a card changes lanes */}
+      {workloadWarning && (
+        <WorkloadWarningModal
+          warnings={workloadWarning.result.warnings}
+          warningLevel={workloadWarning.result.warningLevel as "high" | "critical"}
+          workload={workloadWarning.result.workload}
+          onConfirm={confirmWorkload}
+          confirmText="Reassign Anyway"
+          onCancel={() => setWorkloadWarning(null)}
+        />
+      )}
+
+      {/* Keyboard alternative to dragging */}
+      {moveDialog && (
+        <MoveTaskDialog
+          taskName={moveDialog.name}
+          states={states}
+          currentState={stateOf(moveDialog, boardWorkflow).key}
+          blockedStates={states
+            .filter(
+              (state) =>
+                !canTransition(boardWorkflow, stateOf(moveDialog, boardWorkflow).key, state.key)
+            )
+            .map((state) => state.key)}
+          lanes={grouping === "assignee" || grouping === "priority" ? lanes : undefined}
+          laneTitle={SWIMLANE_OPTIONS.find((option) => option.value === grouping)?.label}
+          currentLane={laneKeyOf(moveDialog, grouping)}
+          onMove={handleMoveDialog}
+          onCancel={() => setMoveDialog(null)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       <ConfirmationModal
         isOpen={deleteConfirmation.isOpen}
@@ -629,8 +1517,50 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({
         onCancel={cancelDelete}
         variant="danger"
       />
+
+      {/* Open Blockers Override */}
+      <ConfirmationModal
+        isOpen={blockerWarning !== null}
+        title="Task Has Open Blockers"
+        message={`"${blockerWarning?.move.task.name}" is blocked by ${blockerWarning?.openBlockers
+          .map((t) => `"${t.name}"`)
+          .join(", ")}, which ${
+          blockerWarning?.openBlockers.length === 1 ? "is" : "are"
+        } not completed yet. Start it anyway?`}
+        confirmText="Start Anyway"
+        cancelText="Cancel"
+        onConfirm={confirmStartBlocked}
+        onCancel={() => setBlockerWarning(null)}
+        variant="warning"
+      />
+
+      {/* WIP Limit Override */}
+      <ConfirmationModal
+        isOpen={wipWarning !== null}
+        title="WIP Limit Reached"
+        message={`"${wipWarning?.target.name}" already holds ${wipCount} task${
+          wipCount === 1 ? "" : "s"
+        } and its WIP limit is ${wipWarning?.target.wip_limit}. Move "${
+          wipWarning?.task.name
+        }" there anyway?`}
+        confirmText="Move Anyway"
+        cancelText="Cancel"
+        onConfirm={confirmWipLimit}
+        onCancel={() => setWipWarning(null)}
+        variant="warning"
+      />
+
+      {toast.isVisible && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={hideToast}
+          action={toast.action}
+          duration={toast.duration}
+        />
+      )}
     </div>
   );
 };
 
-export default KanbanBoard;
+export default KanbanBoard;
\ No newline at end of file
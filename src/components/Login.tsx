@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { authAPI } from "../services/api";
+import { authAPI, LoginResponse } from "../services/api";
 import Toast from "./Toast";
 import { useToast } from "../hooks/useToast";
 import { Mail, Lock, Eye, EyeOff, User } from "lucide-react";
@@ -7,7 +7,7 @@ import Lottie from "lottie-react";
 import loginAnimation from "./Login.json";
 
 interface LoginProps {
-  onLogin: (userData: any) => void;
+  onLogin: (response: LoginResponse) => void;
 }
 
 const Login: React.FC<LoginProps> = ({ onLogin }) => {
@@ -0,0 +1,197 @@
+import React from "react";
+import { buildMentionPattern } from "./MentionTextarea";
+
+interface MarkdownTextProps {
+  text: string;
+  // Usernames rendered as highlighted @mentions
+  mentionNames?: string[];
+}
+
+// Renders the small markdown subset used in task comments: paragraphs,
+// line breaks, bullet/numbered lists, fenced code blocks, **bold**,
+// *italic*, `code`, [links](https://...) and @mentions. Output is built as
+// React elements, so comment text is never injected as HTML.
+
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i;
+
+type InlineRule = {
+  pattern: RegExp;
+  render: (match: RegExpExecArray, key: string) => React.ReactNode;
+};
+
+const renderInline = (
+  text: string,
+  mentionPattern: RegExp | null,
+  keyPrefix: string
+): React.ReactNode[] => {
+  const rules: InlineRule[] = [
+    {
+      pattern: /`([^`]+)`/,
+      render: (m, key) => (
+        <code
+          key={key}
+          style={{
+            background: "#eef0f3",
+            padding: "0.1rem 0.3rem",
+            borderRadius: "3px",
+            fontSize: "0.85em",
+          }}
+        >
+          {m[1]}
+        </code>
+      ),
+    },
+    {
+      pattern: /\[([^\]]+)\]\(([^)\s]+)\)/,
+      render: (m, key) =>
+        SAFE_LINK.test(m[2]) ? (
+          <a key={key} href={m[2]} target="_blank" rel="noopener noreferrer">
+            {renderInline(m[1], mentionPattern, key)}
+          </a>
+        ) : (
+          <React.Fragment key={key}>{m[0]}</React.Fragment>
+        ),
+    },
+    {
+      pattern: /\*\*([^*]+)\*\*/,
+      render: (m, key) => (
+        <strong key={key}>{renderInline(m[1], mentionPattern, key)}</strong>
+      ),
+    },
+    {
+      pattern: /\*([^*\s][^*]*)\*|\b_([^_]+)_\b/,
+      render: (m, key) => (
+        <em key={key}>{renderInline(m[1] || m[2], mentionPattern, key)}</em>
+      ),
+    },
+  ];
+  if (mentionPattern) {
+    rules.push({
+      pattern: new RegExp(mentionPattern.source, "i"),
+      render: (m, key) => (
+        <span
+          key={key}
+          className="comment-mention"
+          style={{
+            color: "#4f46e5",
+            background: "#eef2ff",
+            borderRadius: "3px",
+            padding: "0 0.2rem",
+            fontWeight: 500,
+          }}
+        >
+          @{m[1]}
+        </span>
+      ),
+    });
+  }
+
+  const nodes: React.ReactNode[] = [];
+  let rest = text;
+  let index = 0;
+  while (rest) {
+    // Apply whichever rule matches earliest
+    let best: { rule: InlineRule; match: RegExpExecArray } | null = null;
+    for (const rule of rules) {
+      const match = rule.pattern.exec(rest);
+      if (match && (!best || match.index < best.match.index)) {
+        best = { rule, match };
+      }
+    }
+    if (!best) {
+      nodes.push(rest);
+      break;
+    }
+    if (best.match.index > 0) {
+      nodes.push(rest.slice(0, best.match.index));
+    }
+    nodes.push(best.rule.render(best.match, `${keyPrefix}-${index++}`));
+    rest = rest.slice(best.match.index + best.match[0].length);
+  }
+  return nodes;
+};
+
+const BULLET = /^\s*[-*]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+const MarkdownText: React.FC<MarkdownTextProps> = ({ text, mentionNames = [] }) => {
+  const mentionPattern = buildMentionPattern(mentionNames);
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const blocks: React.ReactNode[] = [];
+  let i = 0;
+
+  const inline = (value: string, key: string) =>
+    renderInline(value, mentionPattern, key);
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `block-${i}`;
+
+    if (line.trim().startsWith("```")) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith("```")) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      blocks.push(
+        <pre
+          key={key}
+          style={{
+            background: "#eef0f3",
+            padding: "0.75rem",
+            borderRadius: "4px",
+            overflowX: "auto",
+            fontSize: "0.85rem",
+            margin: "0.5rem 0",
+          }}
+        >
+          <code>{code.join("\n")}</code>
+        </pre>
+      );
+    } else if (BULLET.test(line) || NUMBERED.test(line)) {
+      const ordered = NUMBERED.test(line);
+      const pattern = ordered ? NUMBERED : BULLET;
+      const items: React.ReactNode[] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        const [, content] = pattern.exec(lines[i]) as RegExpExecArray;
+        items.push(<li key={i}>{inline(content, `${key}-${i}`)}</li>);
+        i++;
+      }
+      const listStyle = { margin: "0.25rem 0", paddingLeft: "1.5rem" };
+      blocks.push(
+        ordered ? (
+          <ol key={key} style={listStyle}>{items}</ol>
+        ) : (
+          <ul key={key} style={listStyle}>{items}</ul>
+        )
+      );
+    } else if (!line.trim()) {
+      i++;
+    } else {
+      // Consecutive plain lines form one paragraph with line breaks
+      const paragraph: React.ReactNode[] = [];
+      while (
+        i < lines.length &&
+        lines[i].trim() &&
+        !lines[i].trim().startsWith("```") &&
+        !BULLET.test(lines[i]) &&
+        !NUMBERED.test(lines[i])
+      ) {
+        if (paragraph.length > 0) paragraph.push(<br key={`br-${i}`} />);
+        paragraph.push(...inline(lines[i], `${key}-${i}`));
+        i++;
+      }
+      blocks.push(
+        <p key={key} style={{ margin: "0.25rem 0" }}>
+          {paragraph}
+        </p>
+      );
+    }
+  }
+
+  return <div className="markdown-text">{blocks}</div>;
+};
+
+export default MarkdownText;
@@ -0,0 +1,187 @@
+import React, { useRef, useState } from "react";
+import { MentionableUser } from "../types";
+
+interface MentionTextareaProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  users: MentionableUser[];
+  placeholder?: string;
+  rows?: number;
+  autoFocus?: boolean;
+  style?: React.CSSProperties;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Matches "@Username" for any of the given names, longest first so
+// "@Evan Employee" wins over a shorter "@Evan"
+export const buildMentionPattern = (usernames: string[]) => {
+  const names = usernames
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  return names.length > 0
+    ? new RegExp(`@(${names.join("|")})(?![\\w])`, "gi")
+    : null;
+};
+
+// Ids of the users mentioned in the text
+export const extractMentions = (text: string, users: MentionableUser[]) => {
+  const pattern = buildMentionPattern(users.map((u) => u.username));
+  if (!pattern) return [];
+  const mentioned: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    mentioned.push(match[1].toLowerCase());
+  }
+  return users
+    .filter((u) => mentioned.includes(u.username.toLowerCase()))
+    .map((u) => u.id);
+};
+
+// The "@query" being typed right before the caret, if any
+const getActiveQuery = (text: string, caret: number) => {
+  const match = /(?:^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  return match ? { query: match[1], start: caret - match[1].length - 1 } : null;
+};
+
+const MentionTextarea: React.FC<MentionTextareaProps> = ({
+  id,
+  value,
+  onChange,
+  users,
+  placeholder,
+  rows = 3,
+  autoFocus,
+  style,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [activeQuery, setActiveQuery] = useState<{
+    query: string;
+    start: number;
+  } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = activeQuery
+    ? users
+        .filter((u) =>
+          u.username
+            .toLowerCase()
+            .split(/\s+/)
+            .concat(u.username.toLowerCase())
+            .some((part) => part.startsWith(activeQuery.query.toLowerCase()))
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+  const listId = `${id || "mention"}-suggestions`;
+
+  const updateQuery = (text: string, caret: number) => {
+    setActiveQuery(getActiveQuery(text, caret));
+    setHighlighted(0);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    updateQuery(e.target.value, e.target.selectionStart ?? e.target.value.length);
+  };
+
+  const selectUser = (user: MentionableUser) => {
+    if (!activeQuery) return;
+    const caret = activeQuery.start + activeQuery.query.length + 1;
+    const inserted = `@${user.username} `;
+    const next = value.slice(0, activeQuery.start) + inserted + value.slice(caret);
+    onChange(next);
+    setActiveQuery(null);
+
+    // Put the caret after the inserted mention
+    const position = activeQuery.start + inserted.length;
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      selectUser(suggestions[highlighted]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setActiveQuery(null);
+    }
+  };
+
+  return (
+    <div>
+      <textarea
+        ref={textareaRef}
+        id={id}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onClick={(e) =>
+          updateQuery(value, e.currentTarget.selectionStart ?? value.length)
+        }
+        onBlur={() => setActiveQuery(null)}
+        placeholder={placeholder}
+        rows={rows}
+        autoFocus={autoFocus}
+        style={{ width: "100%", ...style }}
+        aria-autocomplete="list"
+        aria-controls={suggestions.length > 0 ? listId : undefined}
+      />
+      {suggestions.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          aria-label="Mention suggestions"
+          style={{
+            listStyle: "none",
+            margin: "0.25rem 0 0",
+            padding: "0.25rem 0",
+            border: "1px solid #e1e8ed",
+            borderRadius: "6px",
+            background: "white",
+            boxShadow: "0 4px 12px rgba(0, 0, 0, 0.08)",
+          }}
+        >
+          {suggestions.map((user, index) => (
+            <li
+              key={user.id}
+              role="option"
+              aria-selected={index === highlighted}
+              // mousedown so the textarea's blur doesn't close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectUser(user);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              style={{
+                padding: "0.4rem 0.75rem",
+                cursor: "pointer",
+                fontSize: "0.9rem",
+                background: index === highlighted ? "#eef2ff" : "transparent",
+                color: "#333",
+              }}
+            >
+              @{user.username}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MentionTextarea;
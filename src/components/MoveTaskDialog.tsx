@@ -0,0 +1,127 @@
+import React, { useState } from "react";
+import { WorkflowState } from "../types";
+import { Swimlane } from "../utils/swimlanes";
+import { useModalFocus } from "../hooks/useModalFocus";
+import "../App.css";
+
+interface MoveTaskDialogProps {
+  taskName: string;
+  states: WorkflowState[];
+  currentState: string;
+  // Columns the workflow doesn't allow moving to from the current one
+  blockedStates: string[];
+  // Set when the board has swimlanes a card can change
+  lanes?: Swimlane[];
+  laneTitle?: string;
+  currentLane?: string;
+  onMove: (stateKey: string, laneKey?: string) => void;
+  onCancel: () => void;
+}
+
+// Keyboard alternative to dragging a card: pick the column (and lane) to
+// move the task to
+const MoveTaskDialog: React.FC<MoveTaskDialogProps> = ({
+  taskName,
+  states,
+  currentState,
+  blockedStates,
+  lanes,
+  laneTitle,
+  currentLane,
+  onMove,
+  onCancel,
+}) => {
+  const [stateKey, setStateKey] = useState(currentState);
+  const [laneKey, setLaneKey] = useState(currentLane);
+  const dialog = useModalFocus(onCancel);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onMove(stateKey, lanes ? laneKey : undefined);
+  };
+
+  const unchanged = stateKey === currentState && laneKey === currentLane;
+
+  return (
+    <div className="modal-overlay">
+      <div
+        {...dialog}
+        aria-labelledby="move-task-title"
+        className="modal"
+        style={{ maxWidth: "420px" }}
+      >
+        <div className="modal-header">
+          <h2 id="move-task-title" style={{ margin: 0 }}>
+            Move "{taskName}"
+          </h2>
+          <button className="close-btn" onClick={onCancel} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="user-form">
+          <fieldset className="form-group" style={{ border: "none", padding: 0, margin: 0 }}>
+            <legend style={{ fontWeight: 600, marginBottom: "0.5rem" }}>Column</legend>
+            {states.map((state) => {
+              const blocked = blockedStates.includes(state.key);
+              return (
+                <label
+                  key={state.key}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "0.5rem",
+                    fontWeight: 400,
+                    color: blocked ? "#9ca3af" : undefined,
+                  }}
+                >
+                  <input
+                    type="radio"
+                    name="move-task-state"
+                    value={state.key}
+                    checked={stateKey === state.key}
+                    disabled={blocked}
+                    data-autofocus={state.key === currentState || undefined}
+                    onChange={() => setStateKey(state.key)}
+                    style={{ width: "auto", margin: 0 }}
+                  />
+                  {state.name}
+                  {state.key === currentState && " (current)"}
+                  {blocked && " (not allowed)"}
+                </label>
+              );
+            })}
+          </fieldset>
+
+          {lanes && (
+            <div className="form-group">
+              <label htmlFor="move-task-lane">{laneTitle}</label>
+              <select
+                id="move-task-lane"
+                value={laneKey}
+                onChange={(e) => setLaneKey(e.target.value)}
+              >
+                {lanes.map((lane) => (
+                  <option key={lane.key} value={lane.key}>
+                    {lane.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="form-actions">
+            <button type="button" onClick={onCancel} className="btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={unchanged}>
+              Move Task
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default MoveTaskDialog;
@@ -0,0 +1,107 @@
+import React from "react";
+import { render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MemoryRouter, useLocation } from "react-router-dom";
+import NotificationCenter from "./NotificationCenter";
+import { getMockDatabase } from "../mocks/server";
+import { realtime } from "../services/realtime";
+import { getAccessToken } from "../services/session";
+import { notificationAPI } from "../services/api";
+import { requestAs, signIn } from "../testUtils";
+
+const CurrentLocation = () => {
+  const location = useLocation();
+  return <div data-testid="location">{location.pathname + location.search}</div>;
+};
+
+// Evan is seeded with one unread and one read notification
+const renderNotificationCenter = async () => {
+  const user = await signIn("evan@nextrack.dev");
+  render(
+    <MemoryRouter initialEntries={["/dashboard"]}>
+      <NotificationCenter />
+      <CurrentLocation />
+    </MemoryRouter>
+  );
+  await screen.findByRole("button", { name: "Notifications (1 unread)" });
+  return user;
+};
+
+const newTask = {
+  name: "Invoice PDF export",
+  assignee_id: 4,
+  project_id: 1,
+  planned_hours: 4,
+  priority: "p2",
+  task_type: "development",
+};
+
+describe("NotificationCenter", () => {
+  let disconnect = () => {};
+  afterEach(() => {
+    disconnect();
+    jest.restoreAllMocks();
+  });
+
+  it("adds a colleague's assignment live and opens the task from it", async () => {
+    const { id } = await renderNotificationCenter();
+    disconnect = realtime.connect(id);
+    await waitFor(() => expect(realtime.getStatus()).toBe("live"));
+
+    const { id: taskId } = await requestAs("manager@nextrack.dev", "POST", "/tasks", newTask);
+
+    userEvent.click(await screen.findByRole("button", { name: "Notifications (2 unread)" }));
+    const panel = screen.getByRole("region", { name: "Notification list" });
+    userEvent.click(
+      within(panel).getByRole("button", { name: /^Mark Manager assigned you "Invoice PDF export"/ })
+    );
+
+    expect(screen.getByTestId("location")).toHaveTextContent(`/tasks?task=${taskId}`);
+    await screen.findByRole("button", { name: "Notifications (1 unread)" });
+    expect(getMockDatabase().notifications.find((n) => n.task_id === taskId)?.read).toBe(true);
+  });
+
+  it("refreshes an expired session before connecting for live updates", async () => {
+    const { id } = await renderNotificationCenter();
+    const expired = getAccessToken();
+    // Twenty minutes later, past the access token's lifetime
+    const later = Date.now() + 20 * 60 * 1000;
+    jest.spyOn(Date, "now").mockImplementation(() => later);
+    disconnect = realtime.connect(id);
+
+    await waitFor(() => expect(realtime.getStatus()).toBe("live"));
+    expect(getAccessToken()).not.toBe(expired);
+
+    await requestAs("manager@nextrack.dev", "POST", "/tasks", newTask);
+    expect(
+      await screen.findByRole("button", { name: "Notifications (2 unread)" })
+    ).toBeInTheDocument();
+  });
+
+  it("marks everything read", async () => {
+    await renderNotificationCenter();
+
+    userEvent.click(screen.getByRole("button", { name: "Notifications (1 unread)" }));
+    userEvent.click(screen.getByRole("button", { name: "Mark all read" }));
+
+    expect(screen.getByRole("button", { name: "Notifications" })).toBeInTheDocument();
+    await waitFor(() =>
+      expect(getMockDatabase().notifications.every((n) => n.user_id !== 4 || n.read)).toBe(true)
+    );
+  });
+
+  it("leaves out types turned off in the preferences", async () => {
+    await signIn("evan@nextrack.dev");
+    await notificationAPI.updatePreferences({ task_assigned: false });
+
+    await requestAs("manager@nextrack.dev", "POST", "/tasks", newTask);
+    await requestAs("manager@nextrack.dev", "POST", "/tasks/2/daily-updates", {
+      user_id: 2,
+      comment: "Can we demo this on Friday?",
+    });
+
+    const messages = (await notificationAPI.getAll()).map((n) => n.message);
+    expect(messages).toContain('Mark Manager commented on "Account settings API"');
+    expect(messages).not.toContain('Mark Manager assigned you "Invoice PDF export"');
+  });
+});
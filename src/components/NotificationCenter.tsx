@@ -0,0 +1,192 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { AlertTriangle, Bell, Briefcase, MessageSquare, Unlock, UserPlus } from "lucide-react";
+import { notificationAPI, isAbortError } from "../services/api";
+import { AppNotification, NotificationType } from "../types";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useQueryInvalidation } from "../hooks/useQueryInvalidation";
+import "../App.css";
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  task_assigned: UserPlus,
+  task_unblocked: Unlock,
+  daily_update: MessageSquare,
+  project_assignment: Briefcase,
+  budget_alert: AlertTriangle,
+};
+
+// "just now", "5m ago", "3h ago", then the date
+const timeAgo = (value: string) => {
+  const minutes = Math.floor((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+};
+
+// Bell with the unread count and a panel of the signed-in user's
+// notifications. New ones arrive over the live event stream.
+const NotificationCenter: React.FC = () => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState("");
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const navigate = useNavigate();
+  const getSignal = useAbortSignal();
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      setNotifications(await notificationAPI.getAll({ signal: getSignal() }));
+      setError("");
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error("Error fetching notifications:", err);
+      setError(err.message || "Failed to fetch notifications");
+    }
+  }, [getSignal]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  useQueryInvalidation(["/notifications"], fetchNotifications);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handler);
+    return () => document.removeEventListener("mousedown", handler);
+  }, [open]);
+
+  const unread = notifications.filter((n) => !n.read).length;
+
+  const markRead = async (notification: AppNotification) => {
+    if (notification.read) return;
+    // Shown as read straight away; the refetch after the request confirms it
+    setNotifications((prev) =>
+      prev.map((n) => (n.id === notification.id ? { ...n, read: true } : n))
+    );
+    try {
+      await notificationAPI.markRead(notification.id);
+    } catch (err: any) {
+      setError(err.message || "Failed to mark notification as read");
+      fetchNotifications();
+    }
+  };
+
+  const markAllRead = async () => {
+    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+    try {
+      await notificationAPI.markAllRead();
+    } catch (err: any) {
+      setError(err.message || "Failed to mark notifications as read");
+      fetchNotifications();
+    }
+  };
+
+  const openNotification = (notification: AppNotification) => {
+    markRead(notification);
+    setOpen(false);
+    if (notification.task_id) {
+      navigate(`/tasks?task=${notification.task_id}`);
+    } else if (notification.type === "budget_alert") {
+      navigate(`/projects?financials=${notification.project_id}`);
+    } else if (notification.project_id) {
+      navigate("/projects");
+    }
+  };
+
+  return (
+    <div
+      className="notification-center"
+      ref={containerRef}
+      onKeyDown={(e) => {
+        if (e.key === "Escape" && open) {
+          e.stopPropagation();
+          setOpen(false);
+        }
+      }}
+    >
+      <button
+        type="button"
+        className="sidebar-user-trigger notification-trigger"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        aria-label={unread ? `Notifications (${unread} unread)` : "Notifications"}
+      >
+        <span className="notification-bell">
+          <Bell size={20} />
+          {unread > 0 && (
+            <span className="notification-badge" aria-hidden="true">
+              {unread > 99 ? "99+" : unread}
+            </span>
+          )}
+        </span>
+        <span className="notification-label">Notifications</span>
+      </button>
+
+      {open && (
+        <div className="notification-panel" role="region" aria-label="Notification list">
+          <div className="notification-panel-header">
+            <strong>Notifications</strong>
+            <button
+              type="button"
+              className="notification-link-btn"
+              onClick={markAllRead}
+              disabled={unread === 0}
+            >
+              Mark all read
+            </button>
+          </div>
+          {error && <div className="notification-error">{error}</div>}
+          {notifications.length === 0 ? (
+            <p className="notification-empty">You're all caught up.</p>
+          ) : (
+            <ul className="notification-list">
+              {notifications.map((notification) => {
+                const Icon = TYPE_ICONS[notification.type] || Bell;
+                return (
+                  <li
+                    key={notification.id}
+                    className={`notification-item${notification.read ? "" : " unread"}`}
+                  >
+                    <button
+                      type="button"
+                      className="notification-open"
+                      onClick={() => openNotification(notification)}
+                    >
+                      <Icon size={16} className="notification-icon" />
+                      <span>
+                        <span className="notification-message">{notification.message}</span>
+                        <span className="notification-time">
+                          {timeAgo(notification.created_at)}
+                        </span>
+                      </span>
+                    </button>
+                    {!notification.read && (
+                      <button
+                        type="button"
+                        className="notification-link-btn"
+                        onClick={() => markRead(notification)}
+                        aria-label={`Mark "${notification.message}" as read`}
+                        title="Mark as read"
+                      >
+                        ✓
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationCenter;
@@ -1,8 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { authAPI, userAPI } from '../services/api';
+import { authAPI, userAPI, notificationAPI } from '../services/api';
+import { NotificationPreferences, NotificationType } from '../types';
 import Toast from './Toast';
+import EmailDigestSettings from './EmailDigestSettings';
+import { applyDarkTheme, isDarkThemeSaved, setDarkTheme as saveDarkTheme } from '../utils/theme';
 import { useToast } from '../hooks/useToast';
 
+const NOTIFICATION_TYPES: { type: NotificationType; label: string; description: string }[] = [
+  { type: 'task_assigned', label: 'Task assigned', description: 'Someone assigns a task to you' },
+  { type: 'task_unblocked', label: 'Task unblocked', description: 'A task you are waiting on, or that was waiting on its blockers, can go ahead' },
+  { type: 'daily_update', label: 'Daily updates', description: 'Someone posts an update on one of your tasks' },
+  { type: 'project_assignment', label: 'Project assignments', description: 'You are assigned to or removed from a project' },
+  { type: 'budget_alert', label: 'Budget alerts', description: 'A project you manage passes 80% or 100% of its budget or estimated hours' },
+];
+
 interface ProfileSettingsProps {
   user: { id: number; username: string; role: string; email?: string };
   onUserUpdated?: (user: { id: number; username: string; role: string; email?: string }) => void;
@@ -17,44 +28,53 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({ user, onUserUpdated }
   const [saving, setSaving] = useState(false);
   const [resetting, setResetting] = useState(false);
   const [changePwd, setChangePwd] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' });
+  const [notificationPrefs, setNotificationPrefs] = useState<NotificationPreferences | null>(null);
+
+  useEffect(() => {
+    notificationAPI
+      .getPreferences()
+      .then(setNotificationPrefs)
+      .catch((err) => console.error('Error fetching notification preferences:', err));
+  }, []);
   
   // User-specific dark theme state
-  const [darkTheme, setDarkTheme] = useState(() => {
-    if (typeof window !== 'undefined' && user?.id) {
-      const saved = localStorage.getItem(`dark-theme-${user.id}`);
-      return saved === 'true';
-    }
-    return false;
-  });
+  const [darkTheme, setDarkTheme] = useState(() => (user?.id ? isDarkThemeSaved(user.id) : false));
 
   // Initialize dark theme on mount or when user changes
   useEffect(() => {
     if (user?.id) {
-      const saved = localStorage.getItem(`dark-theme-${user.id}`);
-      const isDark = saved === 'true';
+      const isDark = isDarkThemeSaved(user.id);
       setDarkTheme(isDark);
       applyDarkTheme(isDark);
     }
   }, [user?.id]);
 
-  // Apply dark theme to document
-  const applyDarkTheme = (isDark: boolean) => {
-    if (isDark) {
-      document.documentElement.setAttribute('data-theme', 'dark');
-      document.body.setAttribute('data-theme', 'dark');
-    } else {
-      document.documentElement.removeAttribute('data-theme');
-      document.body.removeAttribute('data-theme');
-    }
-  };
+  // Follow changes made elsewhere, e.g. from the command palette
+  useEffect(() => {
+    const handleThemeChange = (e: Event) => {
+      const { userId, enabled } = (e as CustomEvent).detail || {};
+      if (userId === user?.id) setDarkTheme(Boolean(enabled));
+    };
+    window.addEventListener('dark-theme-changed', handleThemeChange);
+    return () => window.removeEventListener('dark-theme-changed', handleThemeChange);
+  }, [user?.id]);
 
   const handleDarkThemeToggle = () => {
     if (!user?.id) return;
-    const newValue = !darkTheme;
-    setDarkTheme(newValue);
-    localStorage.setItem(`dark-theme-${user.id}`, String(newValue));
-    applyDarkTheme(newValue);
-    window.dispatchEvent(new CustomEvent('dark-theme-changed', { detail: { userId: user.id, enabled: newValue } }));
+    saveDarkTheme(user.id, !darkTheme);
+  };
+
+  // Each checkbox saves on its own
+  const handleNotificationToggle = async (type: NotificationType) => {
+    if (!notificationPrefs) return;
+    const previous = notificationPrefs;
+    setNotificationPrefs({ ...previous, [type]: !previous[type] });
+    try {
+      setNotificationPrefs(await notificationAPI.updatePreferences({ [type]: !previous[type] }));
+    } catch (err: any) {
+      setNotificationPrefs(previous);
+      showToast(err?.message || 'Failed to save notification preferences', 'error');
+    }
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -121,7 +141,7 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({ user, onUserUpdated }
       <div className="page-header" style={{ marginBottom: '2rem' }}>
         <div>
           <h1 className="text-foreground" style={{ fontSize: '2rem', fontWeight: 700, marginBottom: '0.5rem' }}>Profile Settings</h1>
-          <p className="text-muted-foreground" style={{ fontSize: '0.95rem', marginTop: '0.25rem' }}>Manage your account details and password</p>
+          <p className="text-muted-foreground" style={{ fontSize: '0.95rem', marginTop: '0.25rem' }}>Manage your account details, notifications and password</p>
         </div>
       </div>
 
@@ -167,6 +187,33 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({ user, onUserUpdated }
           </div>
         </div>
 
+        <div className="card" style={{ maxWidth: 560, padding: '1.25rem', borderRadius: 8 }}>
+          <h3 style={{ margin: 0, marginBottom: '0.25rem' }}>Notifications</h3>
+          <div className="text-muted-foreground" style={{ fontSize: '0.875rem', marginBottom: '0.75rem' }}>
+            Choose what shows up under the bell in the sidebar
+          </div>
+          {NOTIFICATION_TYPES.map(({ type, label, description }) => (
+            <label
+              key={type}
+              style={{ display: 'flex', alignItems: 'flex-start', gap: '0.75rem', padding: '0.5rem 0', cursor: 'pointer' }}
+            >
+              <input
+                type="checkbox"
+                checked={notificationPrefs?.[type] ?? true}
+                disabled={!notificationPrefs}
+                onChange={() => handleNotificationToggle(type)}
+                style={{ width: 'auto', marginTop: '0.2rem' }}
+              />
+              <span>
+                <span style={{ display: 'block', fontWeight: 500 }}>{label}</span>
+                <span className="text-muted-foreground" style={{ fontSize: '0.875rem' }}>{description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <EmailDigestSettings user={user} />
+
         <form onSubmit={handleSave} className="user-form" style={{ maxWidth: 560 }}>
           <div className="form-group">
             <label htmlFor="username">Username</label>
@@ -0,0 +1,64 @@
+import React from "react";
+import { render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import ProjectFinancials from "./ProjectFinancials";
+import { getMockDatabase } from "../mocks/server";
+import { requestAs, signIn } from "../testUtils";
+import { localToday } from "../utils/timesheet";
+
+const setupFinancials = async (email: string, projectId: number, projectName: string) => {
+  const user = await signIn(email);
+  render(
+    <ProjectFinancials
+      projectId={projectId}
+      projectName={projectName}
+      user={user}
+      onClose={jest.fn()}
+    />
+  );
+};
+
+const budgetAlertsOf = (userId: number) =>
+  getMockDatabase()
+    .notifications.filter((n) => n.user_id === userId && n.type === "budget_alert")
+    .map((n) => n.message);
+
+describe("ProjectFinancials", () => {
+  it("shows a manager the cost of the logged time at each person's rate", async () => {
+    await setupFinancials("manager@nextrack.dev", 1, "Customer Portal");
+
+    // Evan has 15.5h on the project at the employee rate of ₹800
+    const evan = await screen.findByRole("row", { name: /^Evan Employee/ });
+    expect(within(evan).getByText("15.5h")).toBeInTheDocument();
+    expect(within(evan).getByText("₹12,400.00")).toBeInTheDocument();
+    expect(screen.getByText("₹37,600.00")).toBeInTheDocument();
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+    // Only super admins change rates
+    expect(screen.queryByRole("button", { name: "Save Rates" })).not.toBeInTheDocument();
+  });
+
+  it("alerts past 80% and 100% of the budget, including after a rate change", async () => {
+    // Internal Tooling has a ₹10,000 budget and nobody assigned, so its
+    // alerts go to the super admin
+    await requestAs("evan@nextrack.dev", "POST", "/tasks/10/time-entries", {
+      date: localToday(),
+      hours: 10,
+    });
+    expect(budgetAlertsOf(1)).toEqual(['"Internal Tooling" has used 80% of its budget']);
+
+    await setupFinancials("admin@nextrack.dev", 3, "Internal Tooling");
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      '"Internal Tooling" has used 80% of its budget'
+    );
+
+    const rate = await screen.findByRole("spinbutton", { name: "Hourly rate for Evan Employee" });
+    userEvent.type(rate, "1200");
+    userEvent.click(screen.getByRole("button", { name: "Save Rates" }));
+
+    expect(await screen.findByText("Cost rates saved")).toBeInTheDocument();
+    await waitFor(() =>
+      expect(screen.getByRole("alert")).toHaveTextContent('"Internal Tooling" is over budget')
+    );
+    expect(getMockDatabase().costRates.users).toEqual({ 4: 1200, 5: 950 });
+  });
+});
@@ -0,0 +1,308 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { costRatesAPI, projectAPI, isAbortError } from "../services/api";
+import { CostRates, ProjectFinancials as Financials } from "../types";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useModalFocus } from "../hooks/useModalFocus";
+import { useQueryInvalidation } from "../hooks/useQueryInvalidation";
+import { useToast } from "../hooks/useToast";
+import { formatMoney } from "../utils/money";
+import Toast from "./Toast";
+import "../App.css";
+
+interface ProjectFinancialsProps {
+  projectId: number;
+  projectName: string;
+  user: { id: number; role: string };
+  onClose: () => void;
+}
+
+type Role = keyof CostRates["roles"];
+
+const ROLE_LABELS: Record<Role, string> = {
+  super_admin: "Super admin",
+  manager: "Manager",
+  team_lead: "Team lead",
+  employee: "Employee",
+};
+
+const percent = (share: number | null) => (share === null ? null : Math.round(share * 100));
+
+// Fill of a usage bar; amber from 80%, red from 100%
+const UsageBar: React.FC<{ label: string; share: number | null }> = ({ label, share }) => {
+  const value = percent(share);
+  if (value === null) return null;
+  const color = value >= 100 ? "#dc2626" : value >= 80 ? "#d97706" : "#059669";
+  return (
+    <div className="financials-usage">
+      <div className="financials-usage-label">
+        <span>{label}</span>
+        <span>{value}%</span>
+      </div>
+      <div className="financials-usage-track" aria-hidden="true">
+        <div
+          className="financials-usage-fill"
+          style={{ width: `${Math.min(value, 100)}%`, backgroundColor: color }}
+        />
+      </div>
+    </div>
+  );
+};
+
+// Cost of a project's logged time at each person's rate, what its open tasks
+// will add, and how that compares with the budget and estimated hours.
+// Super admins set the rates here too.
+const ProjectFinancials: React.FC<ProjectFinancialsProps> = ({
+  projectId,
+  projectName,
+  user,
+  onClose,
+}) => {
+  const [financials, setFinancials] = useState<Financials | null>(null);
+  const [rates, setRates] = useState<CostRates | null>(null);
+  // Rates as typed; an empty person rate means their role's applies
+  const [roleDraft, setRoleDraft] = useState<Record<string, string>>({});
+  const [userDraft, setUserDraft] = useState<Record<number, string>>({});
+  const [saving, setSaving] = useState(false);
+  const { toast, showToast, hideToast } = useToast();
+  const getSignal = useAbortSignal();
+  const dialog = useModalFocus(onClose);
+  const canEditRates = user.role === "super_admin";
+
+  const fetchFinancials = useCallback(async () => {
+    try {
+      setFinancials(await projectAPI.getFinancials(projectId, { signal: getSignal() }));
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error("Error fetching project financials:", err);
+      showToast(err.message || "Failed to fetch project financials", "error");
+    }
+  }, [projectId, getSignal, showToast]);
+
+  const fetchRates = useCallback(async () => {
+    if (!canEditRates) return;
+    try {
+      setRates(await costRatesAPI.get({ signal: getSignal() }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Error fetching cost rates:", err);
+    }
+  }, [canEditRates, getSignal]);
+
+  useEffect(() => {
+    fetchFinancials();
+  }, [fetchFinancials]);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  useQueryInvalidation([`/projects/${projectId}/financials`], fetchFinancials);
+
+  useEffect(() => {
+    if (!rates) return;
+    setRoleDraft(
+      Object.fromEntries(Object.entries(rates.roles).map(([role, rate]) => [role, String(rate)]))
+    );
+    setUserDraft(
+      Object.fromEntries(Object.entries(rates.users).map(([id, rate]) => [id, String(rate)]))
+    );
+  }, [rates]);
+
+  const saveRates = async () => {
+    if (!rates) return;
+    setSaving(true);
+    try {
+      const users: Record<number, number> = {};
+      Object.entries(userDraft).forEach(([id, rate]) => {
+        if (rate.trim() !== "") users[Number(id)] = Number(rate);
+      });
+      const roles = Object.fromEntries(
+        Object.entries(roleDraft).map(([role, rate]) => [role, Number(rate)])
+      ) as CostRates["roles"];
+      setRates(await costRatesAPI.update({ roles, users }));
+      showToast("Cost rates saved", "success");
+    } catch (err: any) {
+      showToast(err.message || "Failed to update cost rates", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div
+        {...dialog}
+        aria-labelledby="project-financials-title"
+        className="modal"
+        style={{ maxWidth: "760px" }}
+      >
+        <div className="modal-header">
+          <h2 id="project-financials-title" style={{ margin: 0 }}>
+            {projectName}: Financials
+          </h2>
+          <button className="close-btn" onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        {!financials ? (
+          <p className="timesheet-empty">Loading...</p>
+        ) : (
+          <div className="financials">
+            {financials.alerts.map((alert) => (
+              <div
+                key={alert.metric}
+                role="alert"
+                className={`budget-alert${alert.threshold >= 100 ? " over" : ""}`}
+              >
+                <AlertTriangle size={16} aria-hidden="true" />
+                {alert.message}
+              </div>
+            ))}
+
+            <dl className="financials-grid">
+              <div>
+                <dt>Budget</dt>
+                <dd>{financials.budget === null ? "Not set" : formatMoney(financials.budget)}</dd>
+              </div>
+              <div>
+                <dt>Spent</dt>
+                <dd>{formatMoney(financials.cost)}</dd>
+              </div>
+              <div>
+                <dt>Remaining</dt>
+                <dd style={{ color: (financials.remaining_budget ?? 0) < 0 ? "#dc2626" : undefined }}>
+                  {financials.remaining_budget === null ? "–" : formatMoney(financials.remaining_budget)}
+                </dd>
+              </div>
+              <div>
+                <dt>Forecast</dt>
+                <dd>{formatMoney(financials.forecast_cost)}</dd>
+                {financials.budget !== null && (
+                  <small style={{ color: financials.forecast_overrun ? "#dc2626" : "#059669" }}>
+                    {financials.forecast_overrun
+                      ? `${formatMoney(financials.forecast_overrun)} over budget`
+                      : "Within budget"}
+                  </small>
+                )}
+              </div>
+              <div>
+                <dt>Hours logged</dt>
+                <dd>
+                  {financials.logged_hours}h
+                  {financials.estimated_hours !== null && ` of ${financials.estimated_hours}h`}
+                </dd>
+              </div>
+              <div>
+                <dt>Hours to go</dt>
+                <dd>{financials.remaining_hours}h</dd>
+                <small>Planned on open tasks</small>
+              </div>
+            </dl>
+
+            <UsageBar label="Budget used" share={financials.budget_used} />
+            <UsageBar label="Estimated hours used" share={financials.hours_used} />
+
+            <h3 className="financials-heading">Cost by person</h3>
+            <table className="users-table timesheet-table">
+              <thead>
+                <tr>
+                  <th>Person</th>
+                  <th className="timesheet-hours">Rate (₹/h)</th>
+                  <th className="timesheet-hours">Hours</th>
+                  <th className="timesheet-hours">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {financials.people.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="timesheet-empty">
+                      Nobody is on this project yet.
+                    </td>
+                  </tr>
+                ) : (
+                  financials.people.map((person) => (
+                    <tr key={person.user_id}>
+                      <td>
+                        <div style={{ fontWeight: 600 }}>{person.user_name}</div>
+                        <div style={{ fontSize: "0.8rem", color: "#6b7280" }}>
+                          {ROLE_LABELS[person.role as Role] || person.role}
+                        </div>
+                      </td>
+                      <td className="timesheet-hours">
+                        {canEditRates && rates ? (
+                          <input
+                            type="number"
+                            min="0"
+                            step="50"
+                            className="financials-rate-input"
+                            aria-label={`Hourly rate for ${person.user_name}`}
+                            placeholder={roleDraft[person.role] || ""}
+                            value={userDraft[person.user_id] ?? ""}
+                            onChange={(e) =>
+                              setUserDraft({ ...userDraft, [person.user_id]: e.target.value })
+                            }
+                          />
+                        ) : (
+                          <>
+                            {person.rate}
+                            {person.rate_source === "role" && (
+                              <span className="financials-rate-source"> (role)</span>
+                            )}
+                          </>
+                        )}
+                      </td>
+                      <td className="timesheet-hours">{person.hours}h</td>
+                      <td className="timesheet-hours">{formatMoney(person.cost)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+
+            {canEditRates && rates && (
+              <fieldset className="financials-role-rates">
+                <legend>Role rates (₹/h)</legend>
+                <small className="form-help">
+                  Apply to everyone without a rate of their own, on every project.
+                </small>
+                <div className="financials-role-rate-list">
+                  {(Object.keys(ROLE_LABELS) as Role[]).map((role) => (
+                    <label key={role}>
+                      {ROLE_LABELS[role]}
+                      <input
+                        type="number"
+                        min="0"
+                        step="50"
+                        className="financials-rate-input"
+                        value={roleDraft[role] ?? ""}
+                        onChange={(e) => setRoleDraft({ ...roleDraft, [role]: e.target.value })}
+                      />
+                    </label>
+                  ))}
+                </div>
+                <div className="form-actions">
+                  <button
+                    type="button"
+                    className="btn-primary"
+                    onClick={saveRates}
+                    disabled={saving || Object.values(roleDraft).some((rate) => rate.trim() === "")}
+                  >
+                    {saving ? "Saving..." : "Save Rates"}
+                  </button>
+                </div>
+              </fieldset>
+            )}
+          </div>
+        )}
+
+        {toast.isVisible && (
+          <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectFinancials;
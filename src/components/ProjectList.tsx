@@ -8,6 +8,9 @@ interface ProjectListProps {
   onDeleteProject?: (id: number, name: string) => void;
   onManageTeam?: (projectId: number, projectName: string) => void;
   onEditProject?: (project: Project) => void;
+  onViewFinancials?: (project: Project) => void;
+  onViewProgress?: (project: Project) => void;
+  onViewTimeline?: (project: Project) => void;
   userRole?: string;
   userId?: number;
 }
@@ -17,6 +20,9 @@ const ProjectList: React.FC<ProjectListProps> = ({
   onDeleteProject, 
   onManageTeam, 
   onEditProject,
+  onViewFinancials,
+  onViewProgress,
+  onViewTimeline,
   userRole, 
   userId 
 }) => {
@@ -144,6 +150,52 @@ const ProjectList: React.FC<ProjectListProps> = ({
               <td className="text-foreground" style={{ padding: '1rem 1.5rem', fontSize: '0.875rem' }}>{formatDate(project.end_date)}</td>
               <td style={{ padding: '1rem 1.5rem' }}>
                 <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                  {onViewProgress && (
+                    <button 
+                      onClick={() => onViewProgress(project)}
+                      title="Burn-down and burn-up charts"
+                      className="bg-white"
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '0.375rem',
+                        padding: '0.5rem 0.875rem',
+                        color: '#374151',
+                        border: '1px solid #e5e7eb',
+                        borderRadius: '6px',
+                        cursor: 'pointer',
+                        fontSize: '0.875rem',
+                        fontWeight: '500',
+                        transition: 'all 0.2s'
+                      }}
+                    >
+                      <span style={{ fontSize: '0.875rem' }}>📈</span>
+                      Progress
+                    </button>
+                  )}
+                  {onViewTimeline && (
+                    <button 
+                      onClick={() => onViewTimeline(project)}
+                      title="Gantt chart of the project's tasks"
+                      className="bg-white"
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '0.375rem',
+                        padding: '0.5rem 0.875rem',
+                        color: '#374151',
+                        border: '1px solid #e5e7eb',
+                        borderRadius: '6px',
+                        cursor: 'pointer',
+                        fontSize: '0.875rem',
+                        fontWeight: '500',
+                        transition: 'all 0.2s'
+                      }}
+                    >
+                      <span style={{ fontSize: '0.875rem' }}>🗓️</span>
+                      Timeline
+                    </button>
+                  )}
                   {userRole === 'employee' ? (
                     <button 
                       onClick={() => handleProjectDetails(project.id)}
@@ -191,6 +243,29 @@ const ProjectList: React.FC<ProjectListProps> = ({
                           Manage Team
                         </button>
                       )}
+                      {onViewFinancials && (
+                        <button 
+                          onClick={() => onViewFinancials(project)}
+                          title="Budget, cost and forecast"
+                          className="bg-white"
+                          style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: '0.375rem',
+                            padding: '0.5rem 0.875rem',
+                            color: '#374151',
+                            border: '1px solid #e5e7eb',
+                            borderRadius: '6px',
+                            cursor: 'pointer',
+                            fontSize: '0.875rem',
+                            fontWeight: '500',
+                            transition: 'all 0.2s'
+                          }}
+                        >
+                          <span style={{ fontSize: '0.875rem' }}>💰</span>
+                          Financials
+                        </button>
+                      )}
                       {onEditProject && (
                         <button 
                           onClick={() => onEditProject(project)}
@@ -0,0 +1,62 @@
+import React from "react";
+import { render, screen } from "@testing-library/react";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import ProjectProgress from "./ProjectProgress";
+import { taskAPI } from "../services/api";
+import { getMockDatabase } from "../mocks/server";
+import { signIn } from "../testUtils";
+
+// Chart.js draws on a canvas, which jsdom lacks
+jest.mock("react-chartjs-2", () => ({ Line: () => null }));
+
+const setupProgress = async (email: string, projectId: number) => {
+  await signIn(email);
+  render(
+    <MemoryRouter initialEntries={[`/projects/${projectId}/progress`]}>
+      <Routes>
+        <Route path="/projects/:projectId/progress" element={<ProjectProgress />} />
+      </Routes>
+    </MemoryRouter>
+  );
+};
+
+describe("ProjectProgress", () => {
+  it("lists the scope added and re-estimated since the project started", async () => {
+    await setupProgress("manager@nextrack.dev", 1);
+
+    expect(
+      await screen.findByRole("heading", { name: "Customer Portal: Progress" })
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("row", {
+        name: /Re-estimated "Account settings API" from 12h to 16h \+4h/,
+      })
+    ).toBeInTheDocument();
+    // Completing tasks isn't a scope change
+    expect(screen.queryByText(/"Login page redesign"/)).not.toBeInTheDocument();
+    // Scope and completed planned hours so far
+    expect(screen.getByText("59h")).toBeInTheDocument();
+    expect(screen.getByText("16h")).toBeInTheDocument();
+  });
+
+  it("records re-estimates and deletions as they happen", async () => {
+    await setupProgress("manager@nextrack.dev", 1);
+    await screen.findByRole("heading", { name: "Customer Portal: Progress" });
+
+    await taskAPI.update(3, { planned_hours: 14 });
+    await taskAPI.delete(4);
+
+    expect(await screen.findByText("55h")).toBeInTheDocument();
+    expect(
+      screen.getByRole("row", { name: /Re-estimated "Portal regression suite" from 10h to 14h \+4h/ })
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("row", { name: /Removed "Billing history view" \(-8h\) -8h/ })
+    ).toBeInTheDocument();
+
+    // An unchanged save records nothing
+    const events = getMockDatabase().scopeEvents.length;
+    await taskAPI.update(3, { planned_hours: 14 });
+    expect(getMockDatabase().scopeEvents).toHaveLength(events);
+  });
+});
@@ -0,0 +1,164 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { projectAPI, isAbortError } from "../services/api";
+import { ProjectBurnData } from "../types";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useQueryInvalidation } from "../hooks/useQueryInvalidation";
+import { useToast } from "../hooks/useToast";
+import { formatDay, roundHours } from "../utils/timesheet";
+import { describeScopeChange } from "../utils/burn";
+import BurnDownChart from "./charts/BurnDownChart";
+import BurnUpChart from "./charts/BurnUpChart";
+import Toast from "./Toast";
+import "../App.css";
+
+// Burn-down and burn-up charts of one project's planned hours, with the
+// tasks added, re-estimated or removed since it started
+const ProjectProgress: React.FC = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const [burn, setBurn] = useState<ProjectBurnData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast, showToast, hideToast } = useToast();
+  const getSignal = useAbortSignal();
+  const id = Number(projectId);
+
+  const fetchBurn = useCallback(async () => {
+    try {
+      setBurn(await projectAPI.getBurnData(id, { signal: getSignal() }));
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error("Error fetching project progress:", err);
+      showToast(err.message || "Failed to fetch project progress", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [id, getSignal, showToast]);
+
+  useEffect(() => {
+    fetchBurn();
+  }, [fetchBurn]);
+
+  useQueryInvalidation([`/projects/${id}/burndown`], fetchBurn);
+
+  // The last day with actuals is today, or the end date once it's past
+  const latest = burn && [...burn.days].reverse().find((day) => day.remaining !== null);
+  const drift = latest && latest.ideal !== null ? roundHours(latest.remaining! - latest.ideal) : null;
+
+  return (
+    <div className="users-page management-page">
+      <div className="management-page-header">
+        <div>
+          <h1 className="management-page-title">
+            {burn ? `${burn.project_name}: Progress` : "Project Progress"}
+          </h1>
+          {burn && (
+            <p className="management-page-subtitle">
+              {formatDay(burn.start_date)} to{" "}
+              {burn.end_date ? formatDay(burn.end_date) : "no end date"} · planned hours of the
+              project's tasks
+            </p>
+          )}
+        </div>
+        <Link to="/projects" className="btn-secondary">
+          Back to Projects
+        </Link>
+      </div>
+
+      {!burn ? (
+        <p className="timesheet-empty">{loading ? "Loading..." : "Progress isn't available."}</p>
+      ) : (
+        <>
+          {latest && (
+            <dl className="financials-grid project-progress-summary">
+              <div>
+                <dt>Scope</dt>
+                <dd>{latest.scope}h</dd>
+              </div>
+              <div>
+                <dt>Completed</dt>
+                <dd>{latest.completed}h</dd>
+              </div>
+              <div>
+                <dt>Remaining</dt>
+                <dd>{latest.remaining}h</dd>
+                {drift !== null && (
+                  <small style={{ color: drift > 0 ? "#dc2626" : "#059669" }}>
+                    {drift > 0 ? `${drift}h behind the ideal line` : "On or ahead of the ideal line"}
+                  </small>
+                )}
+              </div>
+              <div>
+                <dt>Scope changes</dt>
+                <dd>{burn.scope_changes.length}</dd>
+              </div>
+            </dl>
+          )}
+
+          <div className="project-progress-charts">
+            <div className="chart-card">
+              <div className="chart-card-header">
+                <div className="chart-title-section">
+                  <h3 className="chart-title">Burn-down</h3>
+                  <p className="chart-subtitle">
+                    Remaining planned hours against the ideal line to the end date
+                  </p>
+                </div>
+              </div>
+              <BurnDownChart days={burn.days} scopeChanges={burn.scope_changes} />
+            </div>
+            <div className="chart-card">
+              <div className="chart-card-header">
+                <div className="chart-title-section">
+                  <h3 className="chart-title">Burn-up</h3>
+                  <p className="chart-subtitle">Scope against completed planned hours</p>
+                </div>
+              </div>
+              <BurnUpChart days={burn.days} scopeChanges={burn.scope_changes} />
+            </div>
+          </div>
+
+          <h3 className="financials-heading">
+            <span className="project-progress-marker" aria-hidden="true" /> Scope changes
+          </h3>
+          <table className="users-table timesheet-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Change</th>
+                <th className="timesheet-hours">Hours</th>
+              </tr>
+            </thead>
+            <tbody>
+              {burn.scope_changes.length === 0 ? (
+                <tr>
+                  <td colSpan={3} className="timesheet-empty">
+                    No tasks have been added or re-estimated since the project started.
+                  </td>
+                </tr>
+              ) : (
+                [...burn.scope_changes].reverse().map((change, index) => {
+                  const delta = roundHours((change.to_hours ?? 0) - (change.from_hours ?? 0));
+                  return (
+                    <tr key={`${change.task_id}-${change.date}-${index}`}>
+                      <td>{formatDay(change.date)}</td>
+                      <td>{describeScopeChange(change)}</td>
+                      <td className="timesheet-hours">
+                        {delta > 0 ? `+${delta}` : delta}h
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {toast.isVisible && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
+
+export default ProjectProgress;
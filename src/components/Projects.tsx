@@ -1,15 +1,15 @@
 import React, { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import {
   projectAPI,
   userAPI,
-  API_BASE_URL,
   projectAssignmentsAPI,
 } from "../services/api";
 import { Project } from "../types";
 import ProjectList from "./ProjectList";
 import AddProject from "./AddProject";
 import EditProject from "./EditProject";
+import ProjectFinancials from "./ProjectFinancials";
 import Toast from "./Toast";
 import { useToast } from "../hooks/useToast";
 import ConfirmationModal from "./ConfirmationModal";
@@ -41,11 +41,13 @@ interface Assignment {
 
 const Projects: React.FC<ProjectsProps> = ({ user }) => {
   const navigate = useNavigate();
+  const location = useLocation();
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [showAddProject, setShowAddProject] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [financialsProject, setFinancialsProject] = useState<Project | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const { toast, showToast, hideToast } = useToast();
   const [deleteConfirmation, setDeleteConfirmation] = useState<{
@@ -78,6 +80,16 @@ const Projects: React.FC<ProjectsProps> = ({ user }) => {
     }
   }, [user]);
 
+  // Budget alerts link to ?financials=<project id>. The parameter is dropped
+  // so closing the panel doesn't open it again.
+  useEffect(() => {
+    const projectId = Number(new URLSearchParams(location.search).get("financials"));
+    if (!projectId || loading) return;
+    navigate({ search: "" }, { replace: true });
+    const project = projects.find((p) => p.id === projectId);
+    if (project) setFinancialsProject(project);
+  }, [location.search, loading, projects, navigate]);
+
   const fetchAssignmentsData = async () => {
     try {
       const [managersData, assignmentsData] = await Promise.all([
@@ -110,12 +122,7 @@ const Projects: React.FC<ProjectsProps> = ({ user }) => {
           setLoading(false);
           return;
         }
-        const url = `${API_BASE_URL}/projects?userId=${user.id}&userRole=${user.role}`;
-        const response = await fetch(url);
-        if (!response.ok) {
-          throw new Error("Failed to fetch projects");
-        }
-        projectData = await response.json();
+        projectData = await projectAPI.getAll(user.id, user.role);
       } else {
         // For super admin, fetch all projects
         projectData = await projectAPI.getAll();
@@ -482,6 +489,11 @@ const Projects: React.FC<ProjectsProps> = ({ user }) => {
               onEditProject={
                 user?.role !== "employee" ? handleEditProject : undefined
               }
+              onViewFinancials={
+                user?.role !== "employee" ? setFinancialsProject : undefined
+              }
+              onViewProgress={(project) => navigate(`/projects/${project.id}/progress`)}
+              onViewTimeline={(project) => navigate(`/projects/${project.id}/timeline`)}
               userRole={user?.role}
               userId={user?.id}
             />
@@ -837,6 +849,15 @@ const Projects: React.FC<ProjectsProps> = ({ user }) => {
         />
       )}
 
+      {financialsProject && (
+        <ProjectFinancials
+          projectId={financialsProject.id}
+          projectName={financialsProject.name}
+          user={user}
+          onClose={() => setFinancialsProject(null)}
+        />
+      )}
+
       {toast.isVisible && (
         <Toast message={toast.message} type={toast.type} onClose={hideToast} />
       )}
@@ -0,0 +1,208 @@
+import React from "react";
+import { RecurrenceRule } from "../types";
+import { describeRecurrence, expandRecurrence, validateRecurrence } from "../utils/recurrence";
+
+interface RecurrenceFieldsProps {
+  // null when the task does not repeat
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  // Due date of the first occurrence
+  firstDate: string;
+  error?: string;
+}
+
+const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+];
+
+const UNIT_LABELS: Record<RecurrenceRule["frequency"], string> = {
+  daily: "weekday(s)",
+  weekly: "week(s)",
+  monthly: "month(s)",
+};
+
+// Weekly rules start on the first due date's weekday
+const defaultRule = (
+  frequency: RecurrenceRule["frequency"],
+  firstDate: string
+): RecurrenceRule => {
+  const weekday = firstDate ? new Date(`${firstDate}T00:00:00`).getDay() : 1;
+  return {
+    frequency,
+    interval: 1,
+    weekdays: frequency === "weekly" ? [weekday >= 1 && weekday <= 5 ? weekday : 1] : undefined,
+    count: 4,
+  };
+};
+
+// Repeat settings for a new task, with a preview of the occurrences it creates
+const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({
+  value,
+  onChange,
+  firstDate,
+  error,
+}) => {
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (!value) return;
+    const weekdays = value.weekdays || [];
+    update({
+      weekdays: weekdays.includes(weekday)
+        ? weekdays.filter((d) => d !== weekday)
+        : [...weekdays, weekday].sort(),
+    });
+  };
+
+  const occurrences =
+    value && !validateRecurrence(value, firstDate) ? expandRecurrence(value, firstDate) : [];
+
+  return (
+    <div>
+      <select
+        id="recurrence_frequency"
+        value={value?.frequency || ""}
+        onChange={(e) =>
+          onChange(
+            e.target.value
+              ? defaultRule(e.target.value as RecurrenceRule["frequency"], firstDate)
+              : null
+          )
+        }
+      >
+        <option value="">Does not repeat</option>
+        <option value="daily">Daily (weekdays)</option>
+        <option value="weekly">Weekly</option>
+        <option value="monthly">Monthly</option>
+      </select>
+
+      {value && (
+        <div
+          style={{
+            marginTop: "0.75rem",
+            padding: "0.75rem",
+            background: "#f8f9fa",
+            border: `1px solid ${error ? "#ef4444" : "#e1e8ed"}`,
+            borderRadius: "6px",
+            fontSize: "0.9rem",
+          }}
+        >
+          <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+            <span>Every</span>
+            <input
+              type="number"
+              aria-label="Repeat interval"
+              min="1"
+              value={value.interval || ""}
+              onChange={(e) => update({ interval: parseInt(e.target.value) || 0 })}
+              style={{ width: "4.5rem" }}
+            />
+            <span>{UNIT_LABELS[value.frequency]}</span>
+          </div>
+
+          {value.frequency === "weekly" && (
+            <div
+              role="group"
+              aria-label="Repeat on"
+              style={{ display: "flex", gap: "0.35rem", marginTop: "0.5rem" }}
+            >
+              {WEEKDAYS.map((day) => {
+                const selected = value.weekdays?.includes(day.value) ?? false;
+                return (
+                  <button
+                    key={day.value}
+                    type="button"
+                    aria-pressed={selected}
+                    onClick={() => toggleWeekday(day.value)}
+                    style={{
+                      padding: "0.25rem 0.6rem",
+                      borderRadius: "999px",
+                      border: "1px solid #667eea",
+                      background: selected ? "#667eea" : "white",
+                      color: selected ? "white" : "#667eea",
+                      cursor: "pointer",
+                      fontSize: "0.8rem",
+                    }}
+                  >
+                    {day.label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "0.5rem",
+              marginTop: "0.5rem",
+              flexWrap: "wrap",
+            }}
+          >
+            <span>Ends</span>
+            <select
+              aria-label="Recurrence end"
+              value={value.until !== undefined ? "until" : "count"}
+              onChange={(e) =>
+                onChange(
+                  e.target.value === "until"
+                    ? { ...value, count: undefined, until: "" }
+                    : { ...value, until: undefined, count: 4 }
+                )
+              }
+              style={{ width: "auto" }}
+            >
+              <option value="count">After</option>
+              <option value="until">On</option>
+            </select>
+            {value.until !== undefined ? (
+              <input
+                type="date"
+                aria-label="Repeat until"
+                value={value.until}
+                min={firstDate || undefined}
+                onChange={(e) => update({ until: e.target.value })}
+                style={{ width: "auto" }}
+              />
+            ) : (
+              <>
+                <input
+                  type="number"
+                  aria-label="Number of occurrences"
+                  min="1"
+                  value={value.count || ""}
+                  onChange={(e) => update({ count: parseInt(e.target.value) || 0 })}
+                  style={{ width: "4.5rem" }}
+                />
+                <span>occurrences</span>
+              </>
+            )}
+          </div>
+
+          {error ? (
+            <small style={{ color: "#ef4444", display: "block", marginTop: "0.5rem" }}>
+              {error}
+            </small>
+          ) : (
+            occurrences.length > 0 && (
+              <small className="form-help" style={{ display: "block", marginTop: "0.5rem" }}>
+                {describeRecurrence(value)}. Creates {occurrences.length}{" "}
+                {occurrences.length === 1 ? "task" : "tasks"}, the last due{" "}
+                {occurrences[occurrences.length - 1]}.
+              </small>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceFields;
@@ -8,7 +8,14 @@ import {
   Settings,
   LogOut,
   ChevronUp,
+  Mail,
+  Search,
+  Clock,
+  ChartGantt,
 } from "lucide-react";
+import NotificationCenter from "./NotificationCenter";
+import { OPEN_COMMAND_PALETTE } from "./CommandPalette";
+import { runtimeConfig, isProduction } from "../config";
 import "../App.css";
 
 interface SidebarProps {
@@ -67,6 +74,15 @@ const Sidebar: React.FC<SidebarProps> = ({ user, onLogout }) => {
         </div>
         <span className="sidebar-brand-text">NexTrack</span>
       </div>
+      {!isProduction && (
+        <div
+          className={`sidebar-env-badge env-${runtimeConfig.environment}`}
+          title={`Environment: ${runtimeConfig.environment} (API: ${runtimeConfig.apiBaseUrl})`}
+        >
+          {runtimeConfig.environment}
+        </div>
+      )}
+      {user && <NotificationCenter />}
       {user && (
         <div className="sidebar-user" ref={menuRef}>
           <button
@@ -100,6 +116,17 @@ const Sidebar: React.FC<SidebarProps> = ({ user, onLogout }) => {
       )}
 
       <nav className="sidebar-links">
+        <button
+          type="button"
+          className="sidebar-link"
+          onClick={() => window.dispatchEvent(new Event(OPEN_COMMAND_PALETTE))}
+          title="Search (Ctrl+K)"
+        >
+          <span className="sidebar-link-icon">
+            <Search size={20} />
+          </span>
+          <span>Search</span>
+        </button>
         <NavLink
           to="/dashboard"
           className={({ isActive }) =>
@@ -135,6 +162,17 @@ const Sidebar: React.FC<SidebarProps> = ({ user, onLogout }) => {
           </span>
           <span>Projects</span>
         </NavLink>
+        <NavLink
+          to="/timeline"
+          className={({ isActive }) =>
+            isActive ? "sidebar-link active" : "sidebar-link"
+          }
+        >
+          <span className="sidebar-link-icon">
+            <ChartGantt size={20} />
+          </span>
+          <span>Timeline</span>
+        </NavLink>
         <NavLink
           to="/tasks"
           className={({ isActive }) =>
@@ -146,6 +184,30 @@ const Sidebar: React.FC<SidebarProps> = ({ user, onLogout }) => {
           </span>
           <span>Tasks</span>
         </NavLink>
+        <NavLink
+          to="/timesheets"
+          className={({ isActive }) =>
+            isActive ? "sidebar-link active" : "sidebar-link"
+          }
+        >
+          <span className="sidebar-link-icon">
+            <Clock size={20} />
+          </span>
+          <span>Timesheets</span>
+        </NavLink>
+        {user?.role === "super_admin" && (
+          <NavLink
+            to="/digest-templates"
+            className={({ isActive }) =>
+              isActive ? "sidebar-link active" : "sidebar-link"
+            }
+          >
+            <span className="sidebar-link-icon">
+              <Mail size={20} />
+            </span>
+            <span>Email Digests</span>
+          </NavLink>
+        )}
       </nav>
     </aside>
   );
@@ -0,0 +1,73 @@
+import React from "react";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import SubtaskList from "./SubtaskList";
+import { getMockDatabase } from "../mocks/server";
+import { signIn, weekdayFromToday } from "../testUtils";
+
+// "Account settings API" in Customer Portal, with two subtasks
+const TASK_ID = 2;
+const PROJECT_ID = 1;
+
+const setupSubtasks = async () => {
+  const user = await signIn("lead@nextrack.dev");
+  render(
+    <SubtaskList
+      taskId={TASK_ID}
+      projectId={PROJECT_ID}
+      dueDate={weekdayFromToday(7)}
+      user={user}
+    />
+  );
+  await screen.findByText("Settings API tests");
+};
+
+const fillSubtask = async (name: string, hours: number) => {
+  userEvent.click(screen.getByRole("button", { name: "+ Add Subtask" }));
+  userEvent.type(screen.getByLabelText("Subtask name"), name);
+  userEvent.selectOptions(
+    screen.getByLabelText("Subtask assignee"),
+    await screen.findByRole("option", { name: "Quinn Tester" })
+  );
+  userEvent.type(screen.getByLabelText("Subtask hours"), String(hours));
+  userEvent.click(screen.getByRole("button", { name: "Add Subtask" }));
+};
+
+const subtaskNamed = (name: string) =>
+  getMockDatabase().tasks.find((task) => task.name === name);
+
+describe("SubtaskList", () => {
+  it("creates a subtask in the parent's project", async () => {
+    await setupSubtasks();
+
+    await fillSubtask("Password rules", 2);
+
+    expect(await screen.findByText("Password rules")).toBeInTheDocument();
+    expect(subtaskNamed("Password rules")).toMatchObject({
+      parent_task_id: TASK_ID,
+      project_id: PROJECT_ID,
+      assignee_id: 6,
+      planned_hours: 2,
+      status: "todo",
+    });
+  });
+
+  it("runs workload validation for the subtask's assignee", async () => {
+    await setupSubtasks();
+
+    await fillSubtask("Full regression", 200);
+
+    expect(await screen.findByText(/employee workload alert/i)).toBeInTheDocument();
+    // Quinn's open subtask is part of the hours already planned
+    expect(screen.getByText("Of Which Subtasks:")).toBeInTheDocument();
+    expect(subtaskNamed("Full regression")).toBeUndefined();
+
+    userEvent.click(screen.getByRole("button", { name: /anyway/i }));
+    await waitFor(() =>
+      expect(subtaskNamed("Full regression")).toMatchObject({
+        parent_task_id: TASK_ID,
+        workload_warning_level: "critical",
+      })
+    );
+  });
+});
@@ -0,0 +1,353 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { taskAPI, isAbortError } from "../services/api";
+import { Task } from "../types";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useMentionableUsers } from "../hooks/useMentionableUsers";
+import { useQueryInvalidation } from "../hooks/useQueryInvalidation";
+import { useToast } from "../hooks/useToast";
+import CompleteTaskModal, { CompleteTaskData } from "./CompleteTaskModal";
+import ConfirmationModal from "./ConfirmationModal";
+import WorkloadWarningModal from "./WorkloadWarningModal";
+import Toast from "./Toast";
+
+interface SubtaskListProps {
+  taskId: number;
+  projectId: number;
+  // Subtasks are due with their parent; used for workload validation
+  dueDate?: string;
+  // Without a user the list is read-only
+  user?: any;
+}
+
+type WorkloadCheck = Awaited<ReturnType<typeof taskAPI.validateWorkload>>;
+
+const emptyForm = { name: "", assignee_id: 0, planned_hours: 0 };
+
+// Subtasks of a task, each with its own assignee, hours and status. New
+// subtasks go through the same workload validation as tasks.
+const SubtaskList: React.FC<SubtaskListProps> = ({
+  taskId,
+  projectId,
+  dueDate,
+  user,
+}) => {
+  const [subtasks, setSubtasks] = useState<Task[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [workloadWarning, setWorkloadWarning] = useState<WorkloadCheck | null>(null);
+  const [completing, setCompleting] = useState<Task | null>(null);
+  const [deleting, setDeleting] = useState<Task | null>(null);
+  const { toast, showToast, hideToast } = useToast();
+  const getSignal = useAbortSignal();
+  const members = useMentionableUsers(projectId);
+  const canEdit = Boolean(user?.id);
+  const canDelete = canEdit && user.role !== "employee";
+
+  const fetchSubtasks = useCallback(async () => {
+    try {
+      setSubtasks(await taskAPI.getSubtasks(taskId, { signal: getSignal() }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Error fetching subtasks:", err);
+    }
+  }, [taskId, getSignal]);
+
+  useEffect(() => {
+    fetchSubtasks();
+  }, [fetchSubtasks]);
+
+  useQueryInvalidation([`/tasks/${taskId}/subtasks`], fetchSubtasks);
+
+  const createSubtask = async (workload?: WorkloadCheck) => {
+    setSaving(true);
+    try {
+      await taskAPI.create({
+        ...form,
+        project_id: projectId,
+        parent_task_id: taskId,
+        priority: "p3",
+        task_type: "development",
+        status: "todo",
+        due_date: dueDate,
+        ...(workload && {
+          workload_warning_level: workload.warningLevel,
+          workload_warnings: JSON.stringify(workload.warnings),
+          utilization_percentage: workload.workload.utilizationPercentage,
+        }),
+      });
+      setForm(emptyForm);
+      setShowForm(false);
+    } catch (err: any) {
+      showToast(err.message || "Failed to create subtask", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!form.name.trim() || !form.assignee_id || form.planned_hours <= 0) {
+      showToast("Subtasks need a name, an assignee and estimated hours", "error");
+      return;
+    }
+    if (!dueDate) {
+      await createSubtask();
+      return;
+    }
+    setSaving(true);
+    try {
+      const result = await taskAPI.validateWorkload({
+        assignee_id: form.assignee_id,
+        project_id: projectId,
+        planned_hours: form.planned_hours,
+        due_date: dueDate,
+      });
+      if (result.warningLevel !== "none") {
+        setWorkloadWarning(result);
+        setSaving(false);
+        return;
+      }
+      await createSubtask();
+    } catch (err: any) {
+      showToast(err.message || "Failed to validate workload", "error");
+      setSaving(false);
+    }
+  };
+
+  const changeStatus = async (subtask: Task, status: Task["status"]) => {
+    if (status === "completed") {
+      setCompleting(subtask);
+      return;
+    }
+    try {
+      await taskAPI.update(subtask.id, { status });
+    } catch (err: any) {
+      showToast(err.message || "Failed to update subtask", "error");
+    }
+  };
+
+  const handleComplete = async (data: CompleteTaskData) => {
+    if (!completing) return;
+    const subtask = completing;
+    setCompleting(null);
+    try {
+      await taskAPI.update(subtask.id, {
+        status: "completed",
+        actual_hours: data.actualHours,
+        work_description: data.comments,
+      });
+      if (data.links.length > 0) {
+        await taskAPI.addAttachmentLinks(subtask.id, data.links);
+      }
+    } catch (err: any) {
+      showToast(err.message || "Failed to complete subtask", "error");
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    const subtask = deleting;
+    setDeleting(null);
+    try {
+      await taskAPI.delete(subtask.id);
+      setSubtasks((prev) => prev.filter((t) => t.id !== subtask.id));
+    } catch (err: any) {
+      showToast(err.message || "Failed to delete subtask", "error");
+    }
+  };
+
+  return (
+    <div>
+      {subtasks.length === 0 ? (
+        <div style={{ fontSize: "0.9rem", color: "#9ca3af" }}>No subtasks.</div>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+          {subtasks.map((subtask) => (
+            <li
+              key={subtask.id}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.75rem",
+                padding: "0.5rem 0.75rem",
+                marginBottom: "0.4rem",
+                background: "#f8f9fa",
+                border: "1px solid #e1e8ed",
+                borderRadius: "6px",
+                fontSize: "0.9rem",
+              }}
+            >
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div
+                  style={{
+                    fontWeight: 500,
+                    color: subtask.status === "completed" ? "#9ca3af" : "#111827",
+                    textDecoration: subtask.status === "completed" ? "line-through" : "none",
+                  }}
+                >
+                  {subtask.name}
+                </div>
+                <div style={{ color: "#6b7280", fontSize: "0.8rem" }}>
+                  {subtask.assignee_name || "Unassigned"} · {subtask.planned_hours}h planned
+                  {subtask.status === "completed" && ` · ${subtask.actual_hours || 0}h actual`}
+                </div>
+              </div>
+              <select
+                aria-label={`Status of ${subtask.name}`}
+                value={subtask.status}
+                disabled={!canEdit}
+                onChange={(e) => changeStatus(subtask, e.target.value as Task["status"])}
+                style={{ width: "auto", fontSize: "0.8rem", padding: "0.25rem" }}
+              >
+                <option value="todo">To Do</option>
+                <option value="in_progress">In Progress</option>
+                <option value="blocked">Blocked</option>
+                <option value="completed">Completed</option>
+              </select>
+              {canDelete && (
+                <button
+                  type="button"
+                  onClick={() => setDeleting(subtask)}
+                  aria-label={`Delete ${subtask.name}`}
+                  style={{
+                    background: "none",
+                    border: "none",
+                    color: "#ef4444",
+                    cursor: "pointer",
+                    fontSize: "1rem",
+                  }}
+                >
+                  ×
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && !showForm && (
+        <button
+          type="button"
+          className="btn-secondary"
+          onClick={() => setShowForm(true)}
+          style={{ marginTop: "0.5rem" }}
+        >
+          + Add Subtask
+        </button>
+      )}
+
+      {canEdit && showForm && (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "2fr 1.5fr 0.8fr",
+            gap: "0.5rem",
+            marginTop: "0.5rem",
+          }}
+        >
+          <input
+            type="text"
+            aria-label="Subtask name"
+            placeholder="Subtask name"
+            value={form.name}
+            onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+          />
+          <select
+            aria-label="Subtask assignee"
+            value={form.assignee_id}
+            onChange={(e) =>
+              setForm((prev) => ({ ...prev, assignee_id: Number(e.target.value) }))
+            }
+          >
+            <option value={0}>Assignee</option>
+            {members.map((member) => (
+              <option key={member.id} value={member.id}>
+                {member.username}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            aria-label="Subtask hours"
+            placeholder="Hours"
+            min="0"
+            step="0.5"
+            value={form.planned_hours || ""}
+            onChange={(e) =>
+              setForm((prev) => ({ ...prev, planned_hours: parseFloat(e.target.value) || 0 }))
+            }
+          />
+          <div
+            style={{
+              gridColumn: "1 / -1",
+              display: "flex",
+              justifyContent: "flex-end",
+              gap: "0.5rem",
+            }}
+          >
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => {
+                setShowForm(false);
+                setForm(emptyForm);
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={handleAdd}
+              disabled={saving}
+            >
+              {saving ? "Saving..." : "Add Subtask"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {workloadWarning && (
+        <WorkloadWarningModal
+          warnings={workloadWarning.warnings}
+          warningLevel={workloadWarning.warningLevel as "high" | "critical"}
+          workload={workloadWarning.workload}
+          onConfirm={() => {
+            const workload = workloadWarning;
+            setWorkloadWarning(null);
+            createSubtask(workload);
+          }}
+          onCancel={() => setWorkloadWarning(null)}
+        />
+      )}
+
+      {completing && (
+        <CompleteTaskModal
+          taskId={completing.id}
+          taskName={completing.name}
+          plannedHours={completing.planned_hours}
+          loggedHours={completing.actual_hours}
+          onConfirm={handleComplete}
+          onCancel={() => setCompleting(null)}
+        />
+      )}
+
+      <ConfirmationModal
+        isOpen={deleting !== null}
+        title="Delete Subtask"
+        message={`Are you sure you want to delete "${deleting?.name}"? This action cannot be undone.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleting(null)}
+        variant="danger"
+      />
+
+      {toast.isVisible && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
+
+export default SubtaskList;
@@ -0,0 +1,96 @@
+import React from "react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import TaskAttachments from "./TaskAttachments";
+import { getMockDatabase } from "../mocks/server";
+import { signIn } from "../testUtils";
+
+// "Account settings API": one image uploaded by Tina Lead
+const TASK_ID = 2;
+
+const setupAttachments = async (email: string, taskId = TASK_ID) => {
+  const user = await signIn(email);
+  render(<TaskAttachments taskId={taskId} user={user} />);
+  await screen.findByText(/account-settings-spec\.png|login-mockup\.png/);
+  return user;
+};
+
+const attachmentsForTask = (taskId = TASK_ID) =>
+  getMockDatabase().taskAttachments.filter((a) => a.task_id === taskId);
+
+describe("TaskAttachments", () => {
+  it("uploads dropped files and lists them with their metadata", async () => {
+    const user = await setupAttachments("lead@nextrack.dev");
+    const files = [
+      new File(["a".repeat(2048)], "wireframe.pdf", { type: "application/pdf" }),
+      new File(["notes"], "notes.txt", { type: "text/plain" }),
+    ];
+
+    fireEvent.drop(screen.getByTestId(`task-${TASK_ID}-attachments-dropzone`), {
+      dataTransfer: { files },
+    });
+
+    expect(await screen.findByText("2 files uploaded successfully")).toBeInTheDocument();
+    expect(screen.getAllByRole("progressbar")).toHaveLength(2);
+    // PDFs get an inline preview once listed
+    userEvent.click(await screen.findByRole("button", { name: "Preview wireframe.pdf" }));
+    expect(screen.getByTitle("Preview of wireframe.pdf")).toBeInTheDocument();
+    expect(screen.getByText("2.0 KB · Tina Lead", { exact: false })).toBeInTheDocument();
+    expect(attachmentsForTask()).toContainEqual(
+      expect.objectContaining({
+        kind: "file",
+        file_name: "notes.txt",
+        mime_type: "text/plain",
+        size: 5,
+        uploaded_by: user.id,
+      })
+    );
+  });
+
+  it("rejects files over the size limit without uploading them", async () => {
+    await setupAttachments("lead@nextrack.dev");
+    const huge = new File(["x"], "recording.mov", { type: "video/quicktime" });
+    Object.defineProperty(huge, "size", { value: 26 * 1024 * 1024 });
+
+    userEvent.upload(screen.getByLabelText("browse"), huge);
+
+    expect(
+      await screen.findByText("recording.mov is larger than 25.0 MB")
+    ).toBeInTheDocument();
+    expect(attachmentsForTask()).toHaveLength(1);
+  });
+
+  it("previews images inline", async () => {
+    await setupAttachments("evan@nextrack.dev", 1);
+
+    userEvent.click(screen.getByRole("button", { name: "Preview login-mockup.png" }));
+
+    expect(screen.getByAltText("login-mockup.png")).toHaveAttribute("src", "/logo192.png");
+    expect(
+      screen.getByRole("link", { name: "Download login-mockup.png" })
+    ).toHaveAttribute("download", "login-mockup.png");
+  });
+
+  it("lets employees delete only their own attachments", async () => {
+    await setupAttachments("evan@nextrack.dev");
+    expect(
+      screen.queryByRole("button", { name: "Delete account-settings-spec.png" })
+    ).not.toBeInTheDocument();
+
+    userEvent.upload(
+      screen.getByLabelText("browse"),
+      new File(["draft"], "draft.txt", { type: "text/plain" })
+    );
+    userEvent.click(await screen.findByRole("button", { name: "Delete draft.txt" }));
+    userEvent.click(screen.getByRole("button", { name: "Delete" }));
+
+    await waitFor(() =>
+      expect(
+        screen.queryByRole("button", { name: "Delete draft.txt" })
+      ).not.toBeInTheDocument()
+    );
+    expect(attachmentsForTask().map((a) => a.file_name)).toEqual([
+      "account-settings-spec.png",
+    ]);
+  });
+});
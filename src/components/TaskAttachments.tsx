@@ -0,0 +1,268 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Download, Eye, EyeOff, FileText, Link2, Trash2 } from "lucide-react";
+import { taskAPI, isAbortError } from "../services/api";
+import { TaskAttachment } from "../types";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useAttachmentUploads } from "../hooks/useAttachmentUploads";
+import { useQueryInvalidation } from "../hooks/useQueryInvalidation";
+import { useToast } from "../hooks/useToast";
+import AttachmentDropzone, { formatFileSize } from "./AttachmentDropzone";
+import AttachmentUploadList from "./AttachmentUploadList";
+import ConfirmationModal from "./ConfirmationModal";
+import Toast from "./Toast";
+import "../App.css";
+
+interface TaskAttachmentsProps {
+  taskId: number;
+  // Without a user the list is read-only
+  user?: any;
+}
+
+const isImage = (attachment: TaskAttachment) =>
+  attachment.kind === "file" && Boolean(attachment.mime_type?.startsWith("image/"));
+
+const isPdf = (attachment: TaskAttachment) =>
+  attachment.kind === "file" && attachment.mime_type === "application/pdf";
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return "";
+  return date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+const iconButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  padding: "0.25rem",
+  cursor: "pointer",
+  color: "#667eea",
+  display: "flex",
+  alignItems: "center",
+};
+
+// Files and links attached to a task, with upload, preview (images and
+// PDFs), download and delete. Employees can only delete what they uploaded.
+const TaskAttachments: React.FC<TaskAttachmentsProps> = ({ taskId, user }) => {
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [previewId, setPreviewId] = useState<number | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<TaskAttachment | null>(null);
+  const { uploads, uploadFiles, clearFinished } = useAttachmentUploads();
+  const { toast, showToast, hideToast } = useToast();
+  const getSignal = useAbortSignal();
+  const canUpload = Boolean(user?.id);
+
+  const fetchAttachments = useCallback(
+    async (showLoading = true) => {
+      if (showLoading) setLoading(true);
+      try {
+        const data = await taskAPI.getAttachments(taskId, { signal: getSignal() });
+        setAttachments(data);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error("Error fetching attachments:", err);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [taskId, getSignal]
+  );
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  useQueryInvalidation([`/tasks/${taskId}/attachments`], () =>
+    fetchAttachments(false)
+  );
+
+  const canDelete = (attachment: TaskAttachment) =>
+    canUpload && (user.role !== "employee" || attachment.uploaded_by === user.id);
+
+  const handleFiles = async (files: File[]) => {
+    clearFinished();
+    const failed = await uploadFiles(taskId, files);
+    if (failed.length === 0) {
+      showToast(
+        files.length === 1 ? "File uploaded successfully" : `${files.length} files uploaded successfully`,
+        "success"
+      );
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteConfirm) return;
+    const attachment = deleteConfirm;
+    setDeleteConfirm(null);
+    try {
+      await taskAPI.deleteAttachment(taskId, attachment.id);
+      setAttachments((prev) => prev.filter((a) => a.id !== attachment.id));
+      showToast("Attachment deleted successfully", "success");
+    } catch (err: any) {
+      showToast(err.message || "Failed to delete attachment", "error");
+    }
+  };
+
+  const renderPreview = (attachment: TaskAttachment) =>
+    isImage(attachment) ? (
+      <img
+        src={attachment.url}
+        alt={attachment.file_name}
+        style={{ maxWidth: "100%", maxHeight: "400px", borderRadius: "6px", display: "block" }}
+      />
+    ) : (
+      <iframe
+        src={attachment.url}
+        title={`Preview of ${attachment.file_name}`}
+        style={{ width: "100%", height: "400px", border: "1px solid #e1e8ed", borderRadius: "6px" }}
+      />
+    );
+
+  const renderAttachment = (attachment: TaskAttachment) => {
+    const previewable = isImage(attachment) || isPdf(attachment);
+    const isPreviewing = previewId === attachment.id;
+    const details = [
+      formatFileSize(attachment.size),
+      attachment.uploaded_by_name,
+      formatDate(attachment.uploaded_at),
+    ].filter(Boolean);
+
+    return (
+      <li
+        key={attachment.id}
+        style={{
+          padding: "0.75rem",
+          marginBottom: "0.5rem",
+          background: "#f8f9fa",
+          border: "1px solid #e1e8ed",
+          borderRadius: "6px",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center", gap: "0.75rem" }}>
+          {isImage(attachment) ? (
+            <img
+              src={attachment.url}
+              alt=""
+              style={{ width: 40, height: 40, objectFit: "cover", borderRadius: "4px", flexShrink: 0 }}
+            />
+          ) : attachment.kind === "link" ? (
+            <Link2 size={24} color="#6b7280" style={{ flexShrink: 0 }} />
+          ) : (
+            <FileText size={24} color="#6b7280" style={{ flexShrink: 0 }} />
+          )}
+
+          <div style={{ flex: 1, minWidth: 0 }}>
+            {attachment.kind === "link" ? (
+              <a
+                href={attachment.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                style={{ color: "#2563eb", wordBreak: "break-all", fontSize: "0.9rem" }}
+              >
+                {attachment.file_name}
+              </a>
+            ) : (
+              <div
+                className="text-foreground"
+                style={{ fontSize: "0.9rem", fontWeight: 500, wordBreak: "break-all" }}
+              >
+                {attachment.file_name}
+              </div>
+            )}
+            <div style={{ color: "#6b7280", fontSize: "0.8rem" }}>{details.join(" · ")}</div>
+          </div>
+
+          <div style={{ display: "flex", gap: "0.25rem" }}>
+            {previewable && (
+              <button
+                type="button"
+                style={iconButtonStyle}
+                onClick={() => setPreviewId(isPreviewing ? null : attachment.id)}
+                title={isPreviewing ? "Hide preview" : "Preview"}
+                aria-label={`${isPreviewing ? "Hide preview of" : "Preview"} ${attachment.file_name}`}
+              >
+                {isPreviewing ? <EyeOff size={16} /> : <Eye size={16} />}
+              </button>
+            )}
+            {attachment.kind === "file" && (
+              <a
+                href={attachment.url}
+                download={attachment.file_name}
+                style={iconButtonStyle}
+                title="Download"
+                aria-label={`Download ${attachment.file_name}`}
+              >
+                <Download size={16} />
+              </a>
+            )}
+            {canDelete(attachment) && (
+              <button
+                type="button"
+                style={{ ...iconButtonStyle, color: "#ef4444" }}
+                onClick={() => setDeleteConfirm(attachment)}
+                title="Delete"
+                aria-label={`Delete ${attachment.file_name}`}
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+        </div>
+        {isPreviewing && <div style={{ marginTop: "0.75rem" }}>{renderPreview(attachment)}</div>}
+      </li>
+    );
+  };
+
+  return (
+    <div>
+      {canUpload && (
+        <>
+          <AttachmentDropzone
+            id={`task-${taskId}-attachments`}
+            onFiles={handleFiles}
+            onRejected={(message) => showToast(message, "error")}
+          />
+          <AttachmentUploadList uploads={uploads} />
+        </>
+      )}
+
+      {loading ? (
+        <div className="text-muted-foreground" style={{ padding: "1rem", textAlign: "center" }}>
+          Loading attachments...
+        </div>
+      ) : attachments.length === 0 ? (
+        <div
+          className="text-muted-foreground"
+          style={{ padding: "0.75rem 0", fontSize: "0.9rem" }}
+        >
+          No attachments yet.
+        </div>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: "0.75rem 0 0" }}>
+          {attachments.map(renderAttachment)}
+        </ul>
+      )}
+
+      <ConfirmationModal
+        isOpen={deleteConfirm !== null}
+        title="Delete Attachment"
+        message={`Are you sure you want to delete "${deleteConfirm?.file_name}"? This action cannot be undone.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleteConfirm(null)}
+        variant="danger"
+      />
+
+      {toast.isVisible && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
+
+export default TaskAttachments;
@@ -0,0 +1,167 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { taskAPI, isAbortError } from "../services/api";
+import { ChecklistItem } from "../types";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useQueryInvalidation } from "../hooks/useQueryInvalidation";
+import { useToast } from "../hooks/useToast";
+import Toast from "./Toast";
+
+interface TaskChecklistProps {
+  taskId: number;
+  // Without a user the checklist is read-only
+  user?: any;
+}
+
+// Lightweight to-do items inside a task
+const TaskChecklist: React.FC<TaskChecklistProps> = ({ taskId, user }) => {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [newItem, setNewItem] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast, showToast, hideToast } = useToast();
+  const getSignal = useAbortSignal();
+  const canEdit = Boolean(user?.id);
+
+  const fetchItems = useCallback(async () => {
+    try {
+      setItems(await taskAPI.getChecklist(taskId, { signal: getSignal() }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Error fetching checklist:", err);
+    }
+  }, [taskId, getSignal]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  useQueryInvalidation([`/tasks/${taskId}/checklist`], fetchItems);
+
+  const addItem = async () => {
+    if (!newItem.trim()) return;
+    setSaving(true);
+    try {
+      const item = await taskAPI.addChecklistItem(taskId, newItem.trim());
+      setItems((prev) => [...prev, item]);
+      setNewItem("");
+    } catch (err: any) {
+      showToast(err.message || "Failed to add checklist item", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleItem = async (item: ChecklistItem) => {
+    setItems((prev) =>
+      prev.map((i) => (i.id === item.id ? { ...i, done: !item.done } : i))
+    );
+    try {
+      await taskAPI.updateChecklistItem(taskId, item.id, { done: !item.done });
+    } catch (err: any) {
+      setItems((prev) => prev.map((i) => (i.id === item.id ? item : i)));
+      showToast(err.message || "Failed to update checklist item", "error");
+    }
+  };
+
+  const deleteItem = async (item: ChecklistItem) => {
+    try {
+      await taskAPI.deleteChecklistItem(taskId, item.id);
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+    } catch (err: any) {
+      showToast(err.message || "Failed to delete checklist item", "error");
+    }
+  };
+
+  return (
+    <div>
+      {items.length === 0 && !canEdit ? (
+        <div style={{ fontSize: "0.9rem", color: "#9ca3af" }}>No checklist items.</div>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+          {items.map((item) => (
+            <li
+              key={item.id}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.5rem",
+                padding: "0.25rem 0",
+              }}
+            >
+              <input
+                type="checkbox"
+                id={`checklist-item-${item.id}`}
+                checked={item.done}
+                disabled={!canEdit}
+                onChange={() => toggleItem(item)}
+                style={{ width: "auto", margin: 0 }}
+              />
+              <label
+                htmlFor={`checklist-item-${item.id}`}
+                style={{
+                  flex: 1,
+                  margin: 0,
+                  fontSize: "0.9rem",
+                  fontWeight: 400,
+                  color: item.done ? "#9ca3af" : "#374151",
+                  textDecoration: item.done ? "line-through" : "none",
+                }}
+              >
+                {item.text}
+              </label>
+              {canEdit && (
+                <button
+                  type="button"
+                  onClick={() => deleteItem(item)}
+                  aria-label={`Remove ${item.text}`}
+                  style={{
+                    background: "none",
+                    border: "none",
+                    color: "#ef4444",
+                    cursor: "pointer",
+                    fontSize: "1rem",
+                  }}
+                >
+                  ×
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <div style={{ display: "flex", gap: "0.5rem", marginTop: "0.5rem" }}>
+          <input
+            type="text"
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter adds the item instead of submitting a surrounding form
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addItem();
+              }
+            }}
+            placeholder="Add a checklist item"
+            aria-label="New checklist item"
+            style={{ flex: 1 }}
+          />
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={addItem}
+            disabled={saving || !newItem.trim()}
+          >
+            Add
+          </button>
+        </div>
+      )}
+
+      {toast.isVisible && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
+
+export default TaskChecklist;
@@ -0,0 +1,43 @@
+import React from "react";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import TaskDetailsModal from "./TaskDetailsModal";
+import { getMockDatabase } from "../mocks/server";
+import { signIn } from "../testUtils";
+
+// "Account settings API": 16h of its own, subtasks of 4h (done) and 3h,
+// and one of three checklist items done
+const TASK_ID = 2;
+
+const setupDetails = async () => {
+  const user = await signIn("evan@nextrack.dev");
+  render(<TaskDetailsModal task={{ id: TASK_ID }} user={user} onClose={jest.fn()} />);
+  await screen.findByText("Add rate limiting");
+};
+
+describe("TaskDetailsModal subtasks and checklist", () => {
+  it("shows progress and hours rolled up from subtasks", async () => {
+    await setupDetails();
+
+    expect(await screen.findByText("23 hrs")).toBeInTheDocument();
+    expect(screen.getByText("1/2 subtasks · 1/3 checklist")).toBeInTheDocument();
+    expect(screen.getByRole("progressbar", { name: "Task progress" })).toHaveAttribute(
+      "aria-valuenow",
+      "40"
+    );
+  });
+
+  it("ticks checklist items and updates the progress", async () => {
+    await setupDetails();
+
+    userEvent.click(screen.getByLabelText("Add rate limiting"));
+
+    await waitFor(() =>
+      expect(
+        getMockDatabase().checklistItems.find((item) => item.text === "Add rate limiting")
+          ?.done
+      ).toBe(true)
+    );
+    expect(await screen.findByText("1/2 subtasks · 2/3 checklist")).toBeInTheDocument();
+  });
+});
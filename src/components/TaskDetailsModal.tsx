@@ -1,32 +1,69 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { taskAPI } from "../services/api";
-import { Task, DailyUpdate } from "../types";
+import { useQueryInvalidation } from "../hooks/useQueryInvalidation";
+import { Task, TaskDependencies, TaskDependency } from "../types";
+import DailyUpdateThread from "./DailyUpdateThread";
+import TaskAttachments from "./TaskAttachments";
+import SubtaskList from "./SubtaskList";
+import TaskChecklist from "./TaskChecklist";
+import TaskProgress from "./TaskProgress";
+import TaskTimeLog from "./TaskTimeLog";
+import { describeRecurrence } from "../utils/recurrence";
 import "../App.css";
 
 interface TaskDetailsModalProps {
   task: any; // Allow any task shape to handle variations (title vs name, assignee string vs id)
   onClose: () => void;
+  // Signed-in user; lets them reply to and edit updates and manage attachments
+  user?: any;
+  // Opens a linked (blocking or blocked) task
+  onOpenTask?: (taskId: number) => void;
 }
 
-const TaskDetailsModal: React.FC<TaskDetailsModalProps> = ({ task, onClose }) => {
-  const [dailyUpdates, setDailyUpdates] = useState<DailyUpdate[]>([]);
-  const [loadingUpdates, setLoadingUpdates] = useState(false);
+const STATUS_STYLES: Record<Task["status"], { color: string; bg: string; label: string }> = {
+  todo: { color: "#6366f1", bg: "#e0e7ff", label: "To Do" },
+  in_progress: { color: "#06b6d4", bg: "#cffafe", label: "In Progress" },
+  blocked: { color: "#ef4444", bg: "#fee2e2", label: "Blocked" },
+  completed: { color: "#10b981", bg: "#d1fae5", label: "Completed" },
+};
+
+const TaskDetailsModal: React.FC<TaskDetailsModalProps> = ({ task, onClose, user, onOpenTask }) => {
   const [fullTask, setFullTask] = useState<Task>(task); // Initialize with passed task
+  const [dependencies, setDependencies] = useState<TaskDependencies>({
+    blocked_by: [],
+    blocks: [],
+  });
 
   // Fetch full task details
+  const fetchTaskDetails = useCallback(async () => {
+    try {
+      const details = await taskAPI.getById(task.id);
+      if (details) {
+        setFullTask(prev => ({ ...prev, ...details }));
+      }
+    } catch (err) {
+      console.error("Error fetching task details:", err);
+    }
+  }, [task.id]);
+
   useEffect(() => {
-    const fetchTaskDetails = async () => {
+    fetchTaskDetails();
+  }, [fetchTaskDetails]);
+
+  // Subtask and checklist changes update the rolled-up progress and hours
+  useQueryInvalidation([`/tasks/${task.id}`], fetchTaskDetails);
+
+  // Fetch blocked-by / blocks links
+  useEffect(() => {
+    const fetchDependencies = async () => {
       try {
-        const details = await taskAPI.getById(task.id);
-        if (details) {
-          setFullTask(prev => ({ ...prev, ...details }));
-        }
+        setDependencies(await taskAPI.getDependencies(task.id));
       } catch (err) {
-        console.error("Error fetching task details:", err);
+        console.error("Error fetching task dependencies:", err);
       }
     };
-    fetchTaskDetails();
+    fetchDependencies();
   }, [task.id]);
 
   // Lock body scroll when modal is open
@@ -53,67 +90,63 @@ const TaskDetailsModal: React.FC<TaskDetailsModalProps> = ({ task, onClose }) =>
     }
   };
 
-  const formatDateTime = (dateString: string) => {
-    if (!dateString) return "N/A";
-
-    // Parse the date string - Backend returns IST time (UTC+5:30)
-    let date: Date;
-    if (
-      dateString.includes("T") ||
-      dateString.includes("Z") ||
-      dateString.includes("+")
-    ) {
-      // ISO format with timezone
-      date = new Date(dateString);
-    } else {
-      // MySQL datetime format - add IST timezone offset
-      date = new Date(dateString.replace(" ", "T") + "+05:30");
-    }
-
-    if (isNaN(date.getTime())) return "Invalid date";
-
-    const dateStr = date.toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "short",
-      day: "numeric",
-      timeZone: "Asia/Kolkata",
-    });
-    const timeStr = date.toLocaleTimeString("en-US", {
-      hour: "2-digit",
-      minute: "2-digit",
-      second: "2-digit",
-      hour12: true,
-      timeZone: "Asia/Kolkata",
-    });
-
-    return `${dateStr} at ${timeStr}`;
-  };
-
-  // Fetch daily updates when component loads
-  useEffect(() => {
-    const fetchDailyUpdates = async () => {
-      setLoadingUpdates(true);
-      try {
-        const updates = await taskAPI.getDailyUpdates(task.id);
-        setDailyUpdates(updates);
-      } catch (err) {
-        console.error("Error fetching daily updates:", err);
-      } finally {
-        setLoadingUpdates(false);
-      }
-    };
-
-    fetchDailyUpdates();
-  }, [task.id]);
+  const statusConfig = STATUS_STYLES[fullTask.status] || STATUS_STYLES.todo;
+  const rollup = fullTask.rollup;
+  const isSubtask = Boolean(fullTask.parent_task_id);
 
-  const statusConfig =
-    fullTask.status === "completed"
-      ? { color: "#10b981", bg: "#d1fae5", label: "Completed" }
-      : fullTask.status === "in_progress"
-      ? { color: "#06b6d4", bg: "#cffafe", label: "In Progress" }
-      : fullTask.status === "blocked"
-      ? { color: "#ef4444", bg: "#fee2e2", label: "Blocked" }
-      : { color: "#6366f1", bg: "#e0e7ff", label: "To Do" };
+  const renderDependencies = (label: string, items: TaskDependency[]) => (
+    <div className="form-group">
+      <label style={{ color: "#6b7280", fontSize: "0.875rem", fontWeight: 500 }}>{label}</label>
+      {items.length === 0 ? (
+        <div style={{ fontSize: "0.9rem", color: "#9ca3af", marginTop: "0.25rem" }}>None</div>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: "0.25rem 0 0" }}>
+          {items.map((item) => {
+            const itemStatus = STATUS_STYLES[item.status] || STATUS_STYLES.todo;
+            return (
+              <li
+                key={item.id}
+                style={{ display: "flex", alignItems: "center", gap: "0.5rem", marginBottom: "0.25rem" }}
+              >
+                <span
+                  style={{
+                    padding: "0.1rem 0.5rem",
+                    borderRadius: "9999px",
+                    fontSize: "0.7rem",
+                    fontWeight: 600,
+                    backgroundColor: itemStatus.bg,
+                    color: itemStatus.color,
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  {itemStatus.label}
+                </span>
+                {onOpenTask ? (
+                  <button
+                    type="button"
+                    onClick={() => onOpenTask(item.id)}
+                    style={{
+                      background: "none",
+                      border: "none",
+                      padding: 0,
+                      color: "#2563eb",
+                      cursor: "pointer",
+                      fontSize: "0.9rem",
+                      textAlign: "left",
+                    }}
+                  >
+                    {item.name}
+                  </button>
+                ) : (
+                  <span style={{ fontSize: "0.9rem", color: "#111827" }}>{item.name}</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
 
   return (
     <div className="modal-overlay">
@@ -255,26 +288,100 @@ const TaskDetailsModal: React.FC<TaskDetailsModalProps> = ({ task, onClose }) =>
                <div className="form-group">
                 <label style={{ color: "#6b7280", fontSize: "0.875rem", fontWeight: 500 }}>Estimated Hours</label>
                 <div style={{ fontSize: "0.95rem", color: "#111827", marginTop: "0.25rem" }}>
-                  {fullTask.planned_hours || 0} hrs
+                  {rollup?.planned_hours ?? (fullTask.planned_hours || 0)} hrs
                 </div>
+                {rollup && rollup.subtask_count > 0 && (
+                  <small style={{ color: "#6b7280" }}>
+                    {fullTask.planned_hours || 0} hrs on this task + subtasks
+                  </small>
+                )}
               </div>
                <div className="form-group">
                 <label style={{ color: "#6b7280", fontSize: "0.875rem", fontWeight: 500 }}>Actual Hours</label>
                 <div style={{ fontSize: "0.95rem", color: "#111827", marginTop: "0.25rem" }}>
-                  {fullTask.actual_hours || 0} hrs
+                  {rollup?.actual_hours ?? (fullTask.actual_hours || 0)} hrs
                 </div>
               </div>
              </div>
 
-            {fullTask.attachments && (
+            <div className="form-group" style={{ marginTop: "1rem" }}>
+              <label style={{ color: "#6b7280", fontSize: "0.875rem", fontWeight: 500 }}>Time Tracking</label>
+              <div style={{ marginTop: "0.5rem" }}>
+                <TaskTimeLog
+                  taskId={task.id}
+                  taskName={fullTask.name}
+                  plannedHours={fullTask.planned_hours}
+                  completed={fullTask.status === "completed"}
+                  user={user}
+                />
+              </div>
+            </div>
+
+            {fullTask.recurrence && (
               <div className="form-group" style={{ marginTop: "1rem" }}>
-                <label style={{ color: "#6b7280", fontSize: "0.875rem", fontWeight: 500 }}>Attachments</label>
-                 <div style={{ fontSize: "0.95rem", color: "#2563eb", marginTop: "0.25rem" }}>
-                   <a href="#" target="_blank" rel="noopener noreferrer">{fullTask.attachments}</a>
+                <label style={{ color: "#6b7280", fontSize: "0.875rem", fontWeight: 500 }}>Repeats</label>
+                <div style={{ fontSize: "0.95rem", color: "#111827", marginTop: "0.25rem" }}>
+                  {describeRecurrence(fullTask.recurrence)} · occurrence{" "}
+                  {(fullTask.recurrence_index ?? 0) + 1}
                 </div>
               </div>
             )}
 
+            {isSubtask && (
+              <div className="form-group" style={{ marginTop: "1rem" }}>
+                <label style={{ color: "#6b7280", fontSize: "0.875rem", fontWeight: 500 }}>Subtask Of</label>
+                <div style={{ fontSize: "0.95rem", marginTop: "0.25rem" }}>
+                  {onOpenTask ? (
+                    <button
+                      type="button"
+                      onClick={() => onOpenTask(fullTask.parent_task_id as number)}
+                      style={{ background: "none", border: "none", padding: 0, color: "#2563eb", cursor: "pointer", fontSize: "0.95rem" }}
+                    >
+                      {fullTask.parent_task_name || `Task #${fullTask.parent_task_id}`}
+                    </button>
+                  ) : (
+                    fullTask.parent_task_name || `Task #${fullTask.parent_task_id}`
+                  )}
+                </div>
+              </div>
+            )}
+
+            {!isSubtask && fullTask.project_id && (
+              <div className="form-group" style={{ marginTop: "1rem" }}>
+                <label style={{ color: "#6b7280", fontSize: "0.875rem", fontWeight: 500 }}>Subtasks</label>
+                <TaskProgress rollup={rollup} />
+                <div style={{ marginTop: "0.5rem" }}>
+                  <SubtaskList
+                    taskId={task.id}
+                    projectId={fullTask.project_id}
+                    dueDate={fullTask.due_date}
+                    user={user}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="form-group" style={{ marginTop: "1rem" }}>
+              <label style={{ color: "#6b7280", fontSize: "0.875rem", fontWeight: 500 }}>Checklist</label>
+              <div style={{ marginTop: "0.5rem" }}>
+                <TaskChecklist taskId={task.id} user={user} />
+              </div>
+            </div>
+
+            {(dependencies.blocked_by.length > 0 || dependencies.blocks.length > 0) && (
+              <div className="form-row" style={{ marginTop: "1rem", display: "grid", gridTemplateColumns: "1fr 1fr", gap: "1.5rem" }}>
+                {renderDependencies("Blocked By", dependencies.blocked_by)}
+                {renderDependencies("Blocks", dependencies.blocks)}
+              </div>
+            )}
+
+            <div className="form-group" style={{ marginTop: "1rem" }}>
+              <label style={{ color: "#6b7280", fontSize: "0.875rem", fontWeight: 500 }}>Attachments</label>
+              <div style={{ marginTop: "0.5rem" }}>
+                <TaskAttachments taskId={task.id} user={user} />
+              </div>
+            </div>
+
             {/* Daily Updates Section */}
             <div
               className="form-group"
@@ -291,91 +398,11 @@ const TaskDetailsModal: React.FC<TaskDetailsModalProps> = ({ task, onClose }) =>
                 Update History
               </h3>
               
-              <div style={{ marginTop: "1rem" }}>
-                {loadingUpdates ? (
-                  <div
-                    className="text-muted-foreground"
-                    style={{ padding: "1rem", textAlign: "center" }}
-                  >
-                    Loading updates...
-                  </div>
-                ) : dailyUpdates.length === 0 ? (
-                  <div
-                    className="text-muted-foreground bg-gray-50"
-                    style={{
-                      padding: "1.5rem",
-                      textAlign: "center",
-                      borderRadius: "4px",
-                      border: "1px dashed #e1e8ed",
-                    }}
-                  >
-                    No daily updates recorded.
-                  </div>
-                ) : (
-                  <div style={{ maxHeight: "400px", overflowY: "auto" }}>
-                    {dailyUpdates.map((update) => (
-                      <div
-                        key={update.id}
-                        style={{
-                          padding: "1rem",
-                          marginBottom: "0.75rem",
-                          backgroundColor: "#f8f9fa",
-                          borderRadius: "6px",
-                          border: "1px solid #e1e8ed",
-                        }}
-                      >
-                        <div
-                          style={{
-                            display: "flex",
-                            justifyContent: "space-between",
-                            alignItems: "flex-start",
-                            marginBottom: "0.5rem",
-                          }}
-                        >
-                          <div style={{ flex: 1 }}>
-                            <strong
-                              className="text-foreground"
-                              style={{ fontSize: "0.95rem" }}
-                            >
-                              {update.user_name ||
-                                update.username ||
-                                "Unknown User"}
-                            </strong>
-                          </div>
-                          <div
-                            style={{
-                              display: "flex",
-                              alignItems: "center",
-                              gap: "0.5rem",
-                            }}
-                          >
-                            <span
-                              style={{
-                                color: "#6b7280",
-                                fontSize: "0.85rem",
-                                whiteSpace: "nowrap",
-                              }}
-                            >
-                              {formatDateTime(update.created_at)}
-                            </span>
-                          </div>
-                        </div>
-                        <div
-                          style={{
-                            color: "#444",
-                            fontSize: "0.9rem",
-                            lineHeight: "1.5",
-                            whiteSpace: "pre-wrap",
-                            wordBreak: "break-word",
-                          }}
-                        >
-                          {update.comment}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </div>
+              <DailyUpdateThread
+                taskId={task.id}
+                projectId={fullTask.project_id}
+                user={user}
+              />
             </div>
             
             <div className="form-actions" style={{ marginTop: "1.5rem", display: "flex", justifyContent: "flex-end" }}>
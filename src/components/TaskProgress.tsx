@@ -0,0 +1,69 @@
+import React from "react";
+import { TaskRollup } from "../types";
+
+interface TaskProgressProps {
+  rollup?: TaskRollup;
+  compact?: boolean;
+}
+
+// Share of subtasks and checklist items that are done, or null when the
+// task has neither
+export const progressPercent = (rollup?: TaskRollup): number | null => {
+  if (!rollup) return null;
+  const total = rollup.subtask_count + rollup.checklist_total;
+  if (total === 0) return null;
+  return Math.round(((rollup.completed_subtasks + rollup.checklist_done) / total) * 100);
+};
+
+// Progress bar for a parent task with subtask and checklist counts
+const TaskProgress: React.FC<TaskProgressProps> = ({ rollup, compact = false }) => {
+  const percent = progressPercent(rollup);
+  if (!rollup || percent === null) return null;
+
+  const parts = [
+    rollup.subtask_count > 0 &&
+      `${rollup.completed_subtasks}/${rollup.subtask_count} subtasks`,
+    rollup.checklist_total > 0 &&
+      `${rollup.checklist_done}/${rollup.checklist_total} checklist`,
+  ].filter(Boolean);
+
+  return (
+    <div className="task-progress" style={{ marginTop: compact ? "0.35rem" : "0.25rem" }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          fontSize: compact ? "0.7rem" : "0.8rem",
+          color: "#6b7280",
+          marginBottom: "0.2rem",
+        }}
+      >
+        <span>{parts.join(" · ")}</span>
+        <span>{percent}%</span>
+      </div>
+      <div
+        role="progressbar"
+        aria-label="Task progress"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        style={{
+          height: compact ? "4px" : "6px",
+          background: "#e5e7eb",
+          borderRadius: "3px",
+          overflow: "hidden",
+        }}
+      >
+        <div
+          style={{
+            width: `${percent}%`,
+            height: "100%",
+            background: percent === 100 ? "#10b981" : "#667eea",
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TaskProgress;
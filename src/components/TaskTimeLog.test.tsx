@@ -0,0 +1,56 @@
+import React from "react";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import TaskTimeLog from "./TaskTimeLog";
+import { getMockDatabase } from "../mocks/server";
+import { signIn } from "../testUtils";
+
+// "Account settings API" has 2.5h logged by Evan this week
+const TASK_ID = 2;
+
+const actualHoursOf = (taskId: number) =>
+  getMockDatabase().tasks.find((t) => t.id === taskId)?.actual_hours;
+
+const setupTimeLog = async () => {
+  const user = await signIn("evan@nextrack.dev");
+  render(
+    <TaskTimeLog taskId={TASK_ID} taskName="Account settings API" plannedHours={16} user={user} />
+  );
+  await screen.findByText(/Endpoint scaffolding/);
+};
+
+describe("TaskTimeLog", () => {
+  it("logs time by hand and keeps the task's actual hours to the logged total", async () => {
+    await setupTimeLog();
+
+    userEvent.type(screen.getByLabelText("Hours"), "1.5");
+    userEvent.type(screen.getByLabelText("Note"), "Validation rules");
+    userEvent.click(screen.getByRole("button", { name: "Log Time" }));
+
+    expect(await screen.findByText(/Validation rules/)).toBeInTheDocument();
+    expect(actualHoursOf(TASK_ID)).toBe(4);
+    expect(screen.getByText("4h")).toBeInTheDocument();
+
+    userEvent.click(screen.getAllByRole("button", { name: /^Delete 1.5h logged/ })[0]);
+    await waitFor(() => expect(actualHoursOf(TASK_ID)).toBe(2.5));
+  });
+
+  it("logs the elapsed time when the timer is stopped", async () => {
+    getMockDatabase().timers.set(4, {
+      task_id: TASK_ID,
+      started_at: new Date(Date.now() - 30 * 60 * 1000).toISOString(),
+    });
+    await setupTimeLog();
+
+    userEvent.click(
+      await screen.findByRole("button", { name: "Stop timer on Account settings API" })
+    );
+
+    expect(await screen.findByText('Logged 0.5h on "Account settings API"')).toBeInTheDocument();
+    expect(getMockDatabase().timers.has(4)).toBe(false);
+    expect(actualHoursOf(TASK_ID)).toBe(3);
+    expect(
+      await screen.findByRole("button", { name: "Start timer on Account settings API" })
+    ).toBeInTheDocument();
+  });
+});
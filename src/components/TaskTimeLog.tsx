@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { timeAPI, isAbortError } from "../services/api";
+import { TimeEntry } from "../types";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useQueryInvalidation } from "../hooks/useQueryInvalidation";
+import { useToast } from "../hooks/useToast";
+import { formatDay, localToday } from "../utils/timesheet";
+import TaskTimer from "./TaskTimer";
+import Toast from "./Toast";
+
+interface TaskTimeLogProps {
+  taskId: number;
+  taskName: string;
+  plannedHours: number;
+  completed?: boolean;
+  // Without a user the log is read-only
+  user?: any;
+}
+
+const EMPTY_FORM = { date: "", hours: "", note: "" };
+
+// Time logged on a task, a timer and a form for entering time by hand. The
+// task's actual hours are the total of these entries.
+const TaskTimeLog: React.FC<TaskTimeLogProps> = ({
+  taskId,
+  taskName,
+  plannedHours,
+  completed = false,
+  user,
+}) => {
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const { toast, showToast, hideToast } = useToast();
+  const getSignal = useAbortSignal();
+  const canLog = Boolean(user?.id);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setEntries(await timeAPI.getEntries(taskId, { signal: getSignal() }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Error fetching time entries:", err);
+    }
+  }, [taskId, getSignal]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  useQueryInvalidation([`/tasks/${taskId}/time-entries`], fetchEntries);
+
+  const total = entries.reduce((sum, entry) => sum + entry.hours, 0);
+
+  const logTime = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const entry = await timeAPI.logTime(taskId, {
+        date: form.date || localToday(),
+        hours: Number(form.hours),
+        note: form.note.trim() || undefined,
+      });
+      setEntries((prev) => [entry, ...prev].sort((a, b) => b.date.localeCompare(a.date)));
+      setForm(EMPTY_FORM);
+      showToast(`Logged ${entry.hours}h`, "success");
+    } catch (err: any) {
+      showToast(err.message || "Failed to log time", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteEntry = async (entry: TimeEntry) => {
+    try {
+      await timeAPI.deleteEntry(entry.id);
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+    } catch (err: any) {
+      showToast(err.message || "Failed to delete time entry", "error");
+    }
+  };
+
+  return (
+    <div>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "0.75rem" }}>
+        <span style={{ fontSize: "0.9rem", color: "#374151" }}>
+          <strong>{Math.round(total * 100) / 100}h</strong> logged of {plannedHours || 0}h planned
+        </span>
+        {canLog && !completed && <TaskTimer taskId={taskId} taskName={taskName} />}
+      </div>
+
+      {entries.length > 0 && (
+        <ul className="time-entry-list" aria-label="Time entries">
+          {entries.map((entry) => (
+            <li key={entry.id} className="time-entry">
+              <span className="time-entry-hours">{entry.hours}h</span>
+              <span className="time-entry-meta">
+                {formatDay(entry.date)} · {entry.user_name}
+                {entry.note && <span className="time-entry-note"> — {entry.note}</span>}
+              </span>
+              {entry.locked ? (
+                <span className="time-entry-locked" title="The timesheet for this week is submitted">
+                  Submitted
+                </span>
+              ) : (
+                entry.user_id === user?.id && (
+                  <button
+                    type="button"
+                    onClick={() => deleteEntry(entry)}
+                    aria-label={`Delete ${entry.hours}h logged on ${formatDay(entry.date)}`}
+                    className="time-entry-delete"
+                  >
+                    ×
+                  </button>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canLog && (
+        <form onSubmit={logTime} className="time-entry-form">
+          <input
+            type="date"
+            aria-label="Date"
+            value={form.date || localToday()}
+            max={localToday()}
+            onChange={(e) => setForm({ ...form, date: e.target.value })}
+          />
+          <input
+            type="number"
+            aria-label="Hours"
+            placeholder="Hours"
+            min="0.25"
+            max="24"
+            step="0.25"
+            value={form.hours}
+            onChange={(e) => setForm({ ...form, hours: e.target.value })}
+          />
+          <input
+            type="text"
+            aria-label="Note"
+            placeholder="What did you work on? (optional)"
+            value={form.note}
+            onChange={(e) => setForm({ ...form, note: e.target.value })}
+          />
+          <button type="submit" className="btn-secondary" disabled={saving || !form.hours}>
+            Log Time
+          </button>
+        </form>
+      )}
+
+      {toast.isVisible && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
+
+export default TaskTimeLog;
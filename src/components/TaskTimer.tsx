@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from "react";
+import { Play, Square } from "lucide-react";
+import { timeAPI } from "../services/api";
+import { useActiveTimer } from "../hooks/useActiveTimer";
+import { useToast } from "../hooks/useToast";
+import { elapsedHours, formatElapsed } from "../utils/timesheet";
+import Toast from "./Toast";
+
+interface TaskTimerProps {
+  taskId: number;
+  taskName: string;
+  // Small icon button for board cards
+  compact?: boolean;
+}
+
+// Start/stop timer for the signed-in user. Only one timer runs at a time, so
+// starting this one stops (and logs) any other.
+const TaskTimer: React.FC<TaskTimerProps> = ({ taskId, taskName, compact = false }) => {
+  const timer = useActiveTimer();
+  const running = timer?.task_id === taskId;
+  const [now, setNow] = useState(Date.now());
+  const [busy, setBusy] = useState(false);
+  const { toast, showToast, hideToast } = useToast();
+
+  useEffect(() => {
+    if (!running) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const toggle = async (e: React.MouseEvent) => {
+    // Keeps board cards from expanding
+    e.stopPropagation();
+    setBusy(true);
+    try {
+      if (running) {
+        const { entry, message } = await timeAPI.stopTimer();
+        showToast(entry ? `Logged ${entry.hours}h on "${taskName}"` : message, entry ? "success" : "info");
+      } else {
+        const { stopped } = await timeAPI.startTimer(taskId);
+        if (stopped) {
+          showToast(`Stopped the timer on "${stopped.task_name}" and logged ${stopped.hours}h`, "info");
+        }
+      }
+    } catch (err: any) {
+      showToast(err.message || "Failed to update timer", "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const elapsed = running && timer ? formatElapsed(elapsedHours(timer.started_at, now)) : null;
+  const Icon = running ? Square : Play;
+
+  return (
+    <>
+      <button
+        type="button"
+        className={`task-timer${compact ? " compact" : ""}${running ? " running" : ""}`}
+        onClick={toggle}
+        disabled={busy}
+        aria-label={running ? `Stop timer on ${taskName}` : `Start timer on ${taskName}`}
+        title={running ? "Stop timer" : "Start timer"}
+      >
+        <Icon size={compact ? 12 : 14} aria-hidden="true" />
+        {elapsed ? (
+          <span className="task-timer-elapsed">{elapsed}</span>
+        ) : (
+          !compact && <span>Start timer</span>
+        )}
+      </button>
+      {toast.isVisible && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </>
+  );
+};
+
+export default TaskTimer;
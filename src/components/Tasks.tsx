@@ -1,18 +1,21 @@
-import React, { useState, useEffect } from "react";
-import { useLocation } from "react-router-dom";
+import React, { useState, useEffect, useCallback } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
 import {
   taskAPI,
   projectAPI,
   teamAPI,
   userAPI,
   dashboardAPI,
+  isAbortError,
 } from "../services/api";
-import { Task, Project, TeamMember } from "../types";
+import { Task, Project, TeamMember, ProjectWorkflow } from "../types";
 import AddTask from "./AddTask";
 import EditTask from "./EditTask";
 import KanbanBoard from "./KanbanBoard";
 import Toast from "./Toast";
 import { useToast } from "../hooks/useToast";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useQueryInvalidation } from "../hooks/useQueryInvalidation";
 import { FilterX } from "lucide-react";
 import CustomSelect from "./CustomSelect";
 import "../App.css";
@@ -71,6 +74,7 @@ const initialTaskFilters: TaskFilters = {
 
 const Tasks: React.FC<TasksProps> = ({ user }) => {
   const location = useLocation();
+  const navigate = useNavigate();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [filteredTasks, setFilteredTasks] = useState<Task[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
@@ -84,12 +88,44 @@ const Tasks: React.FC<TasksProps> = ({ user }) => {
   const [pendingFilters, setPendingFilters] =
     useState<TaskFilters>(initialTaskFilters);
   const [searchTerm, setSearchTerm] = useState("");
+  // Workflow of the filtered project; the board shows status categories
+  // when tasks from several projects are listed
+  const [workflow, setWorkflow] = useState<ProjectWorkflow | undefined>();
   const { toast, showToast, hideToast } = useToast();
+  const getSignal = useAbortSignal();
+
+  const fetchWorkflow = useCallback(async () => {
+    if (!filters.projectId) {
+      setWorkflow(undefined);
+      return;
+    }
+    try {
+      setWorkflow(
+        await projectAPI.getWorkflow(filters.projectId, { signal: getSignal() })
+      );
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Error fetching project workflow:", err);
+      setWorkflow(undefined);
+    }
+  }, [filters.projectId, getSignal]);
+
+  useEffect(() => {
+    fetchWorkflow();
+  }, [fetchWorkflow]);
+
+  // Workflow edits invalidate /projects/:id/workflow
+  useQueryInvalidation(["/projects"], fetchWorkflow);
 
   useEffect(() => {
     fetchData();
   }, []);
 
+  // Refetch in the background when tasks, projects or people change anywhere
+  useQueryInvalidation(["/tasks", "/users", "/projects", "/dashboard/employees"], () =>
+    fetchData(false)
+  );
+
   // If navigated from Dashboard with a requested status, scroll to that column
   useEffect(() => {
     const state = (location as any)?.state as
@@ -111,6 +147,27 @@ const Tasks: React.FC<TasksProps> = ({ user }) => {
     }
   }, [location, filteredTasks]);
 
+  // Links open the task given by ?task= (from notifications) or the new task
+  // form for ?new=1 (from the command palette). The parameters are dropped
+  // so closing the dialog doesn't open it again.
+  useEffect(() => {
+    const params = new URLSearchParams(location.search);
+    const taskId = Number(params.get("task"));
+    if (!taskId && !params.has("new")) return;
+    navigate({ search: "" }, { replace: true, state: location.state });
+    if (!taskId) {
+      setShowAddTask(true);
+      return;
+    }
+    taskAPI
+      .getById(taskId, { signal: getSignal() })
+      .then(setEditingTask)
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        showToast(err.message || "Failed to open task", "error");
+      });
+  }, [location.search, location.state, navigate, getSignal, showToast]);
+
   useEffect(() => {
     applyFilters();
   }, [tasks, filters, searchTerm]);
@@ -163,27 +220,28 @@ const Tasks: React.FC<TasksProps> = ({ user }) => {
     return employeeProjectMap;
   };
 
-  const fetchData = async () => {
+  const fetchData = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       let tasksData: Task[];
       let projectsData: Project[];
       let teamData: TeamMember[];
+      const signal = getSignal();
 
       if (user?.role === "employee") {
         // For employees, fetch only their assigned tasks and projects
         [tasksData, projectsData] = await Promise.all([
-          userAPI.getUserTasks(user.id),
-          userAPI.getUserProjects(user.id),
+          userAPI.getUserTasks(user.id, { signal }),
+          userAPI.getUserProjects(user.id, { signal }),
         ]);
         teamData = []; // Employees don't need team member list
       } else if (user?.role === "manager" || user?.role === "team_lead") {
         // For managers and team leads, fetch only their assigned projects and employees
         const [fetchedTasks, fetchedProjects, employeesData] =
           await Promise.all([
-            taskAPI.getAll(user.id, user.role),
-            projectAPI.getAll(user.id, user.role),
-            dashboardAPI.getEmployees(undefined, user.id, user.role), // Get employees from assigned projects only
+            taskAPI.getAll(user.id, user.role, { signal }),
+            projectAPI.getAll(user.id, user.role, { signal }),
+            dashboardAPI.getEmployees(undefined, user.id, user.role, { signal }), // Get employees from assigned projects only
           ]);
 
         tasksData = fetchedTasks;
@@ -209,9 +267,9 @@ const Tasks: React.FC<TasksProps> = ({ user }) => {
         // For super admin, fetch all data but keep employees project-scoped for filtering
         const [fetchedTasks, fetchedProjects, employeesData] =
           await Promise.all([
-            taskAPI.getAll(),
-            projectAPI.getAll(),
-            dashboardAPI.getEmployees(), // include project info
+            taskAPI.getAll(undefined, undefined, { signal }),
+            projectAPI.getAll(undefined, undefined, { signal }),
+            dashboardAPI.getEmployees(undefined, undefined, undefined, { signal }), // include project info
           ]);
 
         tasksData = fetchedTasks;
@@ -240,6 +298,7 @@ const Tasks: React.FC<TasksProps> = ({ user }) => {
       setAllTeamMembers(teamData);
       setError("");
     } catch (err) {
+      if (isAbortError(err)) return;
       setError(err instanceof Error ? err.message : "Failed to fetch data");
     } finally {
       setLoading(false);
@@ -473,42 +532,27 @@ const Tasks: React.FC<TasksProps> = ({ user }) => {
     setFilters(resetFilters);
   };
 
+  // Task lists refresh through cache invalidation after each mutation
   const handleTaskAdded = () => {
-    fetchData();
     setShowAddTask(false);
     showToast("Task created successfully!", "success");
-    window.dispatchEvent(new CustomEvent("tasks:changed"));
   };
 
   const handleTaskUpdated = () => {
-    fetchData();
     setEditingTask(null);
     showToast("Task updated successfully!", "success");
-    window.dispatchEvent(new CustomEvent("tasks:changed"));
   };
 
+  // Failures are left to the board, which puts the card back
   const handleDeleteTask = async (id: number) => {
-    try {
-      await taskAPI.delete(id);
-      fetchData();
-      showToast("Task deleted successfully!", "success");
-      window.dispatchEvent(new CustomEvent("tasks:changed"));
-    } catch (err: any) {
-      const errorMessage =
-        err.response?.data?.message || err.message || "Failed to delete task";
-      showToast(errorMessage, "error");
-    }
+    await taskAPI.delete(id);
+    showToast("Task deleted successfully!", "success");
   };
 
   const handleEditTask = (task: Task) => {
     setEditingTask(task);
   };
 
-  const handleTaskUpdate = () => {
-    fetchData();
-    window.dispatchEvent(new CustomEvent("tasks:changed"));
-  };
-
   if (loading) {
     return (
       <div className="users-page">
@@ -815,10 +859,10 @@ const Tasks: React.FC<TasksProps> = ({ user }) => {
         ) : (
           <KanbanBoard
             tasks={filteredTasks}
-            onTaskUpdate={handleTaskUpdate}
             onDeleteTask={handleDeleteTask}
             onEditTask={handleEditTask}
             user={user}
+            workflow={workflow}
           />
         )}
       </div>
@@ -0,0 +1,91 @@
+import React from "react";
+import { fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import Timeline from "./Timeline";
+import { getMockDatabase } from "../mocks/server";
+import { signIn } from "../testUtils";
+import { addDays, localToday, toDateString, weekStartOf } from "../utils/timesheet";
+
+const setupTimeline = async (email: string, path: string) => {
+  const user = await signIn(email);
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/timeline" element={<Timeline user={user} />} />
+        <Route path="/projects/:projectId/timeline" element={<Timeline user={user} />} />
+      </Routes>
+    </MemoryRouter>
+  );
+};
+
+const taskOf = (id: number) => getMockDatabase().tasks.find((t) => t.id === id)!;
+
+// Days of next week and the week after, so they're never in the past
+const nextWeek = (offsetDays: number) => addDays(weekStartOf(localToday()), 7 + offsetDays);
+
+describe("Timeline", () => {
+  it("moves a task a day later from the keyboard", async () => {
+    const due = (taskOf(4).due_date = nextWeek(1));
+    const createdAt = taskOf(4).created_at;
+    await setupTimeline("manager@nextrack.dev", "/projects/1/timeline");
+
+    expect(
+      await screen.findByRole("heading", { name: "Customer Portal: Timeline" })
+    ).toBeInTheDocument();
+    // Only this project's tasks, and finished ones can't be moved
+    expect(screen.queryByText("Push notifications")).not.toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /^Login page redesign:/ })).not.toBeInTheDocument();
+
+    const bar = screen.getByRole("button", { name: /^Billing history view:/ });
+    bar.focus();
+    userEvent.keyboard("{arrowright}");
+
+    await waitFor(() =>
+      expect(screen.getByRole("status")).toHaveTextContent(/"Billing history view" is now due/)
+    );
+    // The bar started on the day the task was created
+    expect(taskOf(4).due_date).toBe(addDays(due, 1));
+    expect(taskOf(4).start_date).toBe(addDays(toDateString(new Date(createdAt!)), 1));
+  });
+
+  it("asks before a drag overloads the assignee, then reschedules", async () => {
+    const due = (taskOf(10).due_date = nextWeek(11));
+    await setupTimeline("admin@nextrack.dev", "/timeline");
+
+    // A week to the left at the default zoom of 14px a day
+    const bar = await screen.findByRole("button", { name: /^CI pipeline docs:/ });
+    fireEvent.mouseDown(bar, { button: 0, clientX: 500 });
+    fireEvent.mouseMove(window, { clientX: 402 });
+    fireEvent.mouseUp(window);
+
+    // Evan's open hours due by then exceed his 10h a week on Internal Tooling
+    const dialog = await screen.findByRole("dialog");
+    expect(within(dialog).getByText(/Exceeds project allocation/)).toBeInTheDocument();
+    expect(taskOf(10).due_date).toBe(due);
+
+    userEvent.click(within(dialog).getByRole("button", { name: "Reschedule Anyway" }));
+
+    await waitFor(() =>
+      expect(screen.getByRole("status")).toHaveTextContent(/"CI pipeline docs" is now due/)
+    );
+    expect(taskOf(10).due_date).toBe(addDays(due, -7));
+  });
+
+  it("keeps due dates off weekends and out of the past", async () => {
+    taskOf(4).due_date = nextWeek(4);
+    taskOf(2).due_date = addDays(localToday(), -1);
+    await setupTimeline("manager@nextrack.dev", "/projects/1/timeline");
+
+    // A day later than a Friday is the Monday after
+    const friday = await screen.findByRole("button", { name: /^Billing history view:/ });
+    friday.focus();
+    userEvent.keyboard("{arrowright}");
+    await waitFor(() => expect(taskOf(4).due_date).toBe(nextWeek(7)));
+
+    screen.getByRole("button", { name: /^Account settings API:/ }).focus();
+    userEvent.keyboard("{arrowleft}");
+    expect(await screen.findByText("Due date cannot be in the past")).toBeInTheDocument();
+    expect(taskOf(2).due_date).toBe(addDays(localToday(), -1));
+  });
+});
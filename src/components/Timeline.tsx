@@ -0,0 +1,253 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { projectAPI, taskAPI, userAPI, isAbortError } from "../services/api";
+import { Project, Task } from "../types";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useQueryInvalidation } from "../hooks/useQueryInvalidation";
+import { useToast } from "../hooks/useToast";
+import { dueDateError, GanttZoom, taskSpanOf, ZOOM_OPTIONS } from "../utils/gantt";
+import { formatDay } from "../utils/timesheet";
+import GanttChart, { GanttRow, GanttSpan } from "./GanttChart";
+import WorkloadWarningModal from "./WorkloadWarningModal";
+import Toast from "./Toast";
+import "../App.css";
+
+interface TimelineProps {
+  user: { id: number; role: string };
+}
+
+interface Reschedule {
+  task: Task;
+  span: GanttSpan;
+  mode: "move" | "resize";
+}
+
+const projectSpanOf = (project: Project) =>
+  project.start_date && project.end_date
+    ? { start: project.start_date.slice(0, 10), end: project.end_date.slice(0, 10) }
+    : null;
+
+// Each project, then its tasks by start with their subtasks under them
+const buildRows = (projects: Project[], tasks: Task[], collapsed: number[], linkProjects: boolean) =>
+  projects.flatMap((project): GanttRow[] => {
+    const isCollapsed = collapsed.includes(project.id);
+    const projectRow: GanttRow = {
+      key: `project-${project.id}`,
+      label: project.name,
+      depth: 0,
+      span: projectSpanOf(project),
+      project,
+      href: linkProjects ? `/projects/${project.id}/timeline` : undefined,
+      collapsed: isCollapsed,
+    };
+    if (isCollapsed) return [projectRow];
+    const projectTasks = tasks.filter((t) => t.project_id === project.id);
+    const byStart = (a: Task, b: Task) =>
+      (taskSpanOf(a)?.start || "9999").localeCompare(taskSpanOf(b)?.start || "9999") || a.id - b.id;
+    const taskRow = (task: Task, depth: number): GanttRow => ({
+      key: `task-${task.id}`,
+      label: task.name,
+      depth,
+      span: taskSpanOf(task),
+      task,
+    });
+    return [
+      projectRow,
+      ...projectTasks
+        .filter((t) => !t.parent_task_id)
+        .sort(byStart)
+        .flatMap((task) => [
+          taskRow(task, 1),
+          ...projectTasks
+            .filter((t) => t.parent_task_id === task.id)
+            .sort(byStart)
+            .map((subtask) => taskRow(subtask, 2)),
+        ]),
+    ];
+  });
+
+// Gantt view of one project's tasks, or of every project the user can see.
+// Dragging a bar reschedules the task after checking the assignee's
+// workload for the new due date.
+const Timeline: React.FC<TimelineProps> = ({ user }) => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const zoomStorageKey = `timeline-zoom-${user.id}`;
+  const [zoom, setZoom] = useState<GanttZoom>(
+    () => (localStorage.getItem(zoomStorageKey) as GanttZoom) || "week"
+  );
+  const [collapsed, setCollapsed] = useState<number[]>([]);
+  const [workloadWarning, setWorkloadWarning] = useState<{
+    change: Reschedule;
+    result: Awaited<ReturnType<typeof taskAPI.validateWorkload>>;
+  } | null>(null);
+  // Read out by screen readers after each reschedule
+  const [announcement, setAnnouncement] = useState("");
+  const { toast, showToast, hideToast } = useToast();
+  const getSignal = useAbortSignal();
+  const scoped = user.role === "manager" || user.role === "team_lead";
+
+  const fetchData = useCallback(async () => {
+    const signal = getSignal();
+    try {
+      const [projectData, taskData] = await Promise.all([
+        user.role === "employee"
+          ? userAPI.getUserProjects(user.id, { signal })
+          : projectAPI.getAll(scoped ? user.id : undefined, scoped ? user.role : undefined, { signal }),
+        taskAPI.getAll(user.id, user.role, { signal }),
+      ]);
+      setProjects(projectData);
+      setTasks(taskData);
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error("Error fetching timeline:", err);
+      showToast(err.message || "Failed to fetch the timeline", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [user.id, user.role, scoped, getSignal, showToast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  useQueryInvalidation(["/projects", "/tasks"], fetchData);
+
+  useEffect(() => {
+    localStorage.setItem(zoomStorageKey, zoom);
+  }, [zoom, zoomStorageKey]);
+
+  const project = projectId ? projects.find((p) => p.id === Number(projectId)) : undefined;
+  const rows = useMemo(
+    () =>
+      buildRows(
+        projectId ? projects.filter((p) => p.id === Number(projectId)) : projects,
+        tasks,
+        collapsed,
+        !projectId
+      ),
+    [projects, tasks, collapsed, projectId]
+  );
+
+  const saveSchedule = async ({ task, span, mode }: Reschedule) => {
+    try {
+      await taskAPI.update(task.id, {
+        due_date: span.end,
+        ...(mode === "move" && { start_date: span.start }),
+      });
+      const message = `"${task.name}" is now due ${formatDay(span.end)}`;
+      setAnnouncement(message);
+      showToast(message, "success");
+    } catch (err: any) {
+      console.error("Error rescheduling task:", err);
+      showToast(err.message || "Failed to reschedule task", "error");
+    }
+  };
+
+  // New due dates follow the task form's rules, and a later one can still
+  // overload the assignee
+  const reschedule = async (task: Task, span: GanttSpan, mode: Reschedule["mode"]) => {
+    const change = { task, span, mode };
+    if (span.end !== task.due_date?.slice(0, 10)) {
+      const error = dueDateError(span.end);
+      if (error) {
+        showToast(error, "error");
+        return;
+      }
+      try {
+        const result = await taskAPI.validateWorkload({
+          assignee_id: task.assignee_id,
+          project_id: task.project_id,
+          planned_hours: task.planned_hours,
+          due_date: span.end,
+          task_id: task.id,
+        });
+        if (result.warningLevel !== "none") {
+          setWorkloadWarning({ change, result });
+          return;
+        }
+      } catch (err: any) {
+        console.error("Error validating workload:", err);
+        showToast(err.message || "Failed to validate workload", "error");
+        return;
+      }
+    }
+    await saveSchedule(change);
+  };
+
+  const confirmWorkload = async () => {
+    if (!workloadWarning) return;
+    const { change } = workloadWarning;
+    setWorkloadWarning(null);
+    await saveSchedule(change);
+  };
+
+  const toggleProject = (id: number) =>
+    setCollapsed((ids) => (ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]));
+
+  return (
+    <div className="users-page management-page">
+      <div className="management-page-header">
+        <div>
+          <h1 className="management-page-title">
+            {projectId ? `${project?.name ?? "Project"}: Timeline` : "Timeline"}
+          </h1>
+          <p className="management-page-subtitle">
+            Drag a bar to reschedule a task, or its right edge to change only the due date.
+          </p>
+        </div>
+        <div className="timeline-actions">
+          <label className="timeline-zoom">
+            Zoom
+            <select value={zoom} onChange={(e) => setZoom(e.target.value as GanttZoom)}>
+              {ZOOM_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <Link to={projectId ? "/timeline" : "/projects"} className="btn-secondary">
+            {projectId ? "All Projects" : "Back to Projects"}
+          </Link>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="timesheet-empty">
+          {loading ? "Loading..." : projectId ? "Project not found." : "No projects to show yet."}
+        </p>
+      ) : (
+        <GanttChart
+          rows={rows}
+          zoom={zoom}
+          onReschedule={reschedule}
+          onToggleProject={projectId ? undefined : toggleProject}
+        />
+      )}
+
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
+      {workloadWarning && (
+        <WorkloadWarningModal
+          warnings={workloadWarning.result.warnings}
+          warningLevel={workloadWarning.result.warningLevel as "high" | "critical"}
+          workload={workloadWarning.result.workload}
+          onConfirm={confirmWorkload}
+          confirmText="Reschedule Anyway"
+          onCancel={() => setWorkloadWarning(null)}
+        />
+      )}
+
+      {toast.isVisible && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
+
+export default Timeline;
@@ -0,0 +1,109 @@
+import React from "react";
+import { render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MemoryRouter } from "react-router-dom";
+import TimesheetExport from "./TimesheetExport";
+import { getMockDatabase } from "../mocks/server";
+import { signIn } from "../testUtils";
+import { addDays, formatDay, localToday, weekStartOf } from "../utils/timesheet";
+
+const lastWeek = addDays(weekStartOf(localToday()), -7);
+
+const setupExport = async (email: string) => {
+  const user = await signIn(email);
+  render(
+    <MemoryRouter>
+      <TimesheetExport user={user} />
+    </MemoryRouter>
+  );
+  return user;
+};
+
+// Keeps the files handed to the download link instead of navigating
+const captureDownloads = () => {
+  const files: Blob[] = [];
+  window.URL.createObjectURL = jest.fn((blob: Blob) => {
+    files.push(blob);
+    return "blob:timesheets";
+  });
+  window.URL.revokeObjectURL = jest.fn();
+  jest.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+  return files;
+};
+
+const readText = (blob: Blob) =>
+  new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new TextDecoder("utf-8", { ignoreBOM: true }).decode(reader.result as ArrayBuffer));
+    reader.readAsArrayBuffer(blob);
+  });
+
+describe("TimesheetExport", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("exports the hours on a manager's projects per person, project and week as CSV", async () => {
+    const files = captureDownloads();
+    await setupExport("manager@nextrack.dev");
+
+    const evan = await screen.findByRole("row", {
+      name: new RegExp(`^${formatDay(lastWeek)} Evan Employee Customer Portal`),
+    });
+    expect(within(evan).getByText("10h")).toBeInTheDocument();
+    expect(within(evan).getByText("12h")).toBeInTheDocument();
+    expect(within(evan).getByText("Approved")).toBeInTheDocument();
+    expect(
+      screen.getByRole("row", {
+        name: new RegExp(`^${formatDay(lastWeek)} Erin Engineer Mobile App 7h .* Awaiting approval$`),
+      })
+    ).toBeInTheDocument();
+
+    userEvent.click(screen.getByRole("button", { name: "Download CSV" }));
+
+    expect(files).toHaveLength(1);
+    const lines = (await readText(files[0])).split("\r\n");
+    expect(lines[0]).toBe(
+      "\uFEFFWeek Starting,Employee,Email,Project,Logged Hours,Planned Hours,Hourly Rate (₹),Cost (₹),Timesheet Status"
+    );
+    expect(lines).toContain(
+      `${lastWeek},Evan Employee,evan@nextrack.dev,Customer Portal,10,12,800,8000,Approved`
+    );
+    expect(lines).toContain(
+      `${lastWeek},Erin Engineer,erin@nextrack.dev,Mobile App,7,0,950,6650,Awaiting approval`
+    );
+  });
+
+  it("keeps names that look like formulas as plain text in the CSV", async () => {
+    const files = captureDownloads();
+    getMockDatabase().projects.find((p) => p.id === 1)!.name = '=HYPERLINK("http://evil.test","Portal")';
+    await setupExport("manager@nextrack.dev");
+
+    await screen.findByRole("row", { name: new RegExp(`^${formatDay(lastWeek)} Evan Employee =HYPERLINK`) });
+    userEvent.click(screen.getByRole("button", { name: "Download CSV" }));
+
+    const lines = (await readText(files[0])).split("\r\n");
+    expect(lines).toContain(
+      `${lastWeek},Evan Employee,evan@nextrack.dev,"'=HYPERLINK(""http://evil.test"",""Portal"")",10,12,800,8000,Approved`
+    );
+  });
+
+  it("gives employees only their own hours and an Excel workbook", async () => {
+    const files = captureDownloads();
+    await setupExport("evan@nextrack.dev");
+
+    await screen.findByRole("row", {
+      name: new RegExp(`^${formatDay(lastWeek)} Evan Employee Customer Portal`),
+    });
+    expect(screen.queryByText("Erin Engineer")).not.toBeInTheDocument();
+    expect(screen.queryByText("Team Members:")).not.toBeInTheDocument();
+
+    userEvent.click(screen.getByRole("button", { name: "Download Excel" }));
+
+    expect(files[0].type).toBe("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    const workbook = await readText(files[0]);
+    expect(workbook.startsWith("PK")).toBe(true);
+    expect(workbook).toContain("xl/worksheets/sheet1.xml");
+    expect(workbook).toContain('<t xml:space="preserve">Evan Employee</t>');
+    expect(workbook).toContain("<v>8000</v>");
+    expect(workbook).not.toContain("Erin Engineer");
+  });
+});
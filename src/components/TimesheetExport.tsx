@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Download } from "lucide-react";
+import { dashboardAPI, timesheetAPI, userAPI, isAbortError } from "../services/api";
+import { DashboardFilters as FilterType, TimesheetExportRow } from "../types";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useQueryInvalidation } from "../hooks/useQueryInvalidation";
+import { useToast } from "../hooks/useToast";
+import { addDays, formatDay, localToday, roundHours, TIMESHEET_STATUS_LABELS, weekStartOf } from "../utils/timesheet";
+import { Cell, CSV_TYPE, downloadFile, toCsv, toXlsx, XLSX_TYPE } from "../utils/spreadsheet";
+import { formatMoney } from "../utils/money";
+import DashboardFilters from "./DashboardFilters";
+import Toast from "./Toast";
+import "../App.css";
+
+interface TimesheetExportProps {
+  user: { id: number; username: string; role: string };
+}
+
+const HEADERS = [
+  "Week Starting",
+  "Employee",
+  "Email",
+  "Project",
+  "Logged Hours",
+  "Planned Hours",
+  "Hourly Rate (₹)",
+  "Cost (₹)",
+  "Timesheet Status",
+];
+
+const toCells = (row: TimesheetExportRow): Cell[] => [
+  row.week_start,
+  row.user_name,
+  row.user_email,
+  row.project_name,
+  row.logged_hours,
+  row.planned_hours,
+  row.hourly_rate,
+  row.cost,
+  TIMESHEET_STATUS_LABELS[row.status],
+];
+
+const idsParam = (ids?: number | number[]) =>
+  Array.isArray(ids) ? ids.join(",") : ids?.toString();
+
+// Hours per person, project and week for payroll and client billing, as CSV
+// or an Excel workbook. Uses the dashboard's filters.
+const TimesheetExport: React.FC<TimesheetExportProps> = ({ user }) => {
+  const [filters, setFilters] = useState<FilterType>(() => ({
+    startDate: addDays(weekStartOf(localToday()), -28),
+    endDate: localToday(),
+  }));
+  const [projects, setProjects] = useState<Array<{ id: number; name: string; status: string }>>([]);
+  const [employees, setEmployees] = useState<
+    Array<{ id: number; username: string; email: string; role: string }>
+  >([]);
+  const [rows, setRows] = useState<TimesheetExportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast, showToast, hideToast } = useToast();
+  const getSignal = useAbortSignal();
+  const projectId = idsParam(filters.projectId);
+  const employeeId = idsParam(filters.employeeId);
+
+  useEffect(() => {
+    const signal = getSignal();
+    const request =
+      user.role === "employee"
+        ? userAPI.getUserProjects(user.id, { signal })
+        : user.role === "super_admin"
+          ? dashboardAPI.getProjects(undefined, undefined, { signal })
+          : dashboardAPI.getProjects(user.id, user.role, { signal });
+    request.then(setProjects).catch((err) => {
+      if (isAbortError(err)) return;
+      console.error("Error fetching projects:", err);
+    });
+  }, [user.id, user.role, getSignal]);
+
+  // The people to pick from follow the chosen projects
+  useEffect(() => {
+    if (user.role === "employee") return;
+    dashboardAPI
+      .getEmployees(projectId, user.id, user.role, { signal: getSignal() })
+      .then(setEmployees)
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error("Error fetching employees:", err);
+      });
+  }, [projectId, user.id, user.role, getSignal]);
+
+  const fetchRows = useCallback(async () => {
+    try {
+      setRows(
+        await timesheetAPI.getExport(
+          { projectId, employeeId, startDate: filters.startDate, endDate: filters.endDate },
+          { signal: getSignal() }
+        )
+      );
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error("Error fetching timesheet export:", err);
+      showToast(err.message || "Failed to fetch timesheet export", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, employeeId, filters.startDate, filters.endDate, getSignal, showToast]);
+
+  useEffect(() => {
+    fetchRows();
+  }, [fetchRows]);
+
+  useQueryInvalidation(["/timesheets"], fetchRows);
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      logged: sum.logged + row.logged_hours,
+      planned: sum.planned + row.planned_hours,
+      cost: sum.cost + row.cost,
+    }),
+    { logged: 0, planned: 0, cost: 0 }
+  );
+
+  const filename = `timesheets_${filters.startDate || "start"}_${filters.endDate || localToday()}`;
+  const table = () => [HEADERS, ...rows.map(toCells)];
+
+  return (
+    <div className="users-page management-page">
+      <div className="management-page-header">
+        <div>
+          <h1 className="management-page-title">Export Timesheets</h1>
+          <p className="management-page-subtitle">
+            Logged and planned hours per person, project and week, for payroll and client billing.
+          </p>
+        </div>
+        <Link to="/timesheets" className="btn-secondary">
+          Back to Timesheets
+        </Link>
+      </div>
+
+      <div className="timesheet-export-filters">
+        <DashboardFilters
+          filters={filters}
+          projects={projects}
+          employees={employees}
+          onFilterChange={setFilters}
+          userRole={user.role}
+        />
+      </div>
+
+      <div className="timesheet-toolbar">
+        <span className="timesheet-export-summary">
+          {rows.length} {rows.length === 1 ? "row" : "rows"} · {roundHours(totals.logged)}h logged
+          {totals.cost > 0 && ` · ${formatMoney(totals.cost)}`}
+        </span>
+        <div className="timesheet-export-actions">
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => downloadFile(toCsv(table()), `${filename}.csv`, CSV_TYPE)}
+            disabled={rows.length === 0}
+          >
+            <Download size={16} aria-hidden="true" /> Download CSV
+          </button>
+          <button
+            type="button"
+            className="btn-primary"
+            onClick={() => downloadFile(toXlsx("Timesheets", table()), `${filename}.xlsx`, XLSX_TYPE)}
+            disabled={rows.length === 0}
+          >
+            <Download size={16} aria-hidden="true" /> Download Excel
+          </button>
+        </div>
+      </div>
+
+      <div className="users-table-container">
+        <table className="users-table timesheet-table">
+          <thead>
+            <tr>
+              <th>Week</th>
+              <th>Person</th>
+              <th>Project</th>
+              <th className="timesheet-hours">Logged</th>
+              <th className="timesheet-hours">Planned</th>
+              <th className="timesheet-hours">Cost</th>
+              <th>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="timesheet-empty">
+                  {loading ? "Loading..." : "No logged or planned hours match these filters."}
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => (
+                <tr key={`${row.week_start}-${row.user_id}-${row.project_id}`}>
+                  <td>{formatDay(row.week_start)}</td>
+                  <td>{row.user_name}</td>
+                  <td>{row.project_name}</td>
+                  <td className="timesheet-hours">{row.logged_hours}h</td>
+                  <td className="timesheet-hours">{row.planned_hours}h</td>
+                  <td className="timesheet-hours">{formatMoney(row.cost)}</td>
+                  <td>{TIMESHEET_STATUS_LABELS[row.status]}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+          {rows.length > 0 && (
+            <tfoot>
+              <tr>
+                <th scope="row" colSpan={3}>
+                  Total
+                </th>
+                <td className="timesheet-hours">
+                  <strong>{roundHours(totals.logged)}h</strong>
+                </td>
+                <td className="timesheet-hours">
+                  <strong>{roundHours(totals.planned)}h</strong>
+                </td>
+                <td className="timesheet-hours">
+                  <strong>{formatMoney(totals.cost)}</strong>
+                </td>
+                <td />
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+
+      {toast.isVisible && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
+
+export default TimesheetExport;
@@ -0,0 +1,90 @@
+import React from "react";
+import { render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MemoryRouter } from "react-router-dom";
+import Timesheets from "./Timesheets";
+import { timeAPI } from "../services/api";
+import { getMockDatabase } from "../mocks/server";
+import { signIn } from "../testUtils";
+import { addDays, formatDay, localToday, weekStartOf } from "../utils/timesheet";
+
+const thisWeek = weekStartOf(localToday());
+const lastWeek = addDays(thisWeek, -7);
+
+const setupTimesheets = async (email: string) => {
+  const user = await signIn(email);
+  render(
+    <MemoryRouter>
+      <Timesheets user={user} />
+    </MemoryRouter>
+  );
+  return user;
+};
+
+describe("Timesheets", () => {
+  it("totals the week's time and submits it for approval", async () => {
+    const { id } = await setupTimesheets("evan@nextrack.dev");
+
+    const row = await screen.findByRole("row", { name: /^Account settings API/ });
+    expect(within(row).getAllByText("2.5h")).toHaveLength(2);
+    expect(screen.getByText("Not submitted")).toBeInTheDocument();
+    expect(screen.queryByRole("combobox", { name: "Person" })).not.toBeInTheDocument();
+
+    userEvent.click(screen.getByRole("button", { name: "Submit for Approval" }));
+
+    expect(await screen.findByText("Awaiting approval")).toBeInTheDocument();
+    expect(getMockDatabase().timesheets).toContainEqual(
+      expect.objectContaining({ user_id: id, week_start: thisWeek, status: "submitted" })
+    );
+    // The week is locked until it is reviewed
+    await expect(timeAPI.logTime(2, { date: thisWeek, hours: 1 })).rejects.toThrow(
+      `The timesheet for the week of ${thisWeek} is submitted`
+    );
+  });
+
+  it("lets a team lead request changes to a submitted timesheet", async () => {
+    await setupTimesheets("lead@nextrack.dev");
+
+    userEvent.click(
+      await screen.findByRole("button", {
+        name: `Erin Engineer · week of ${formatDay(lastWeek)} · 7h`,
+      })
+    );
+    expect(await screen.findByText("Offline mode design")).toBeInTheDocument();
+
+    const requestChanges = screen.getByRole("button", { name: "Request Changes" });
+    expect(requestChanges).toBeDisabled();
+    userEvent.type(screen.getByLabelText(/What needs to change/), "Split Monday by task");
+    userEvent.click(requestChanges);
+
+    expect(
+      await screen.findByText("Changes requested", { selector: ".timesheet-status" })
+    ).toBeInTheDocument();
+    expect(screen.getByRole("note")).toHaveTextContent("Split Monday by task");
+    expect(getMockDatabase().timesheets.find((t) => t.user_id === 5)).toMatchObject({
+      status: "rejected",
+      reviewed_by: 3,
+      review_note: "Split Monday by task",
+    });
+    await waitFor(() =>
+      expect(screen.queryByRole("region", { name: "Awaiting your approval" })).not.toBeInTheDocument()
+    );
+  });
+
+  it("lets a manager approve a timesheet of someone on their projects", async () => {
+    await setupTimesheets("manager@nextrack.dev");
+    await screen.findByText("No time logged this week.");
+
+    userEvent.selectOptions(
+      await screen.findByRole("combobox", { name: "Person" }),
+      await screen.findByRole("option", { name: "Erin Engineer" })
+    );
+    userEvent.click(screen.getByRole("button", { name: "‹ Previous week" }));
+    expect(await screen.findByText("Offline mode design")).toBeInTheDocument();
+
+    userEvent.click(screen.getByRole("button", { name: "Approve" }));
+
+    expect(await screen.findByText(/Approved by Mark Manager/)).toBeInTheDocument();
+    expect(getMockDatabase().timesheets.find((t) => t.user_id === 5)?.status).toBe("approved");
+  });
+});
@@ -0,0 +1,392 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { timesheetAPI, userAPI, isAbortError } from "../services/api";
+import { Timesheet, TimesheetStatus } from "../types";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useQueryInvalidation } from "../hooks/useQueryInvalidation";
+import { useToast } from "../hooks/useToast";
+import {
+  addDays,
+  formatDay,
+  localToday,
+  roundHours,
+  TIMESHEET_STATUS_LABELS,
+  weekDays,
+  weekStartOf,
+} from "../utils/timesheet";
+import Toast from "./Toast";
+import "../App.css";
+
+interface TimesheetsProps {
+  user: { id: number; username: string; role: string };
+}
+
+const REVIEWER_ROLES = ["super_admin", "manager", "team_lead"];
+
+const STATUS_STYLES: Record<TimesheetStatus, { color: string; bg: string }> = {
+  open: { color: "#6b7280", bg: "#f3f4f6" },
+  submitted: { color: "#b45309", bg: "#fef3c7" },
+  approved: { color: "#047857", bg: "#d1fae5" },
+  rejected: { color: "#b91c1c", bg: "#fee2e2" },
+};
+
+interface TimesheetRow {
+  taskId: number;
+  taskName: string;
+  projectName?: string;
+  // Hours per day, Monday first
+  days: number[];
+  total: number;
+}
+
+const rowsOf = (timesheet: Timesheet): TimesheetRow[] => {
+  const days = weekDays(timesheet.week_start);
+  const rows = new Map<number, TimesheetRow>();
+  timesheet.entries.forEach((entry) => {
+    const row = rows.get(entry.task_id) || {
+      taskId: entry.task_id,
+      taskName: entry.task_name || `Task #${entry.task_id}`,
+      projectName: entry.project_name,
+      days: days.map(() => 0),
+      total: 0,
+    };
+    row.days[days.indexOf(entry.date)] += entry.hours;
+    row.total += entry.hours;
+    rows.set(entry.task_id, row);
+  });
+  return Array.from(rows.values());
+};
+
+const formatHours = (hours: number) => (hours ? `${roundHours(hours)}h` : "–");
+
+// Weekly timesheets: people submit their logged time at the end of the week,
+// and team leads and managers approve it or ask for changes
+const Timesheets: React.FC<TimesheetsProps> = ({ user }) => {
+  const currentWeek = weekStartOf(localToday());
+  const [week, setWeek] = useState(currentWeek);
+  const [personId, setPersonId] = useState(user.id);
+  const [people, setPeople] = useState<{ id: number; username: string }[]>([]);
+  const [timesheet, setTimesheet] = useState<Timesheet | null>(null);
+  const [pending, setPending] = useState<Timesheet[]>([]);
+  const [reviewNote, setReviewNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast, showToast, hideToast } = useToast();
+  const getSignal = useAbortSignal();
+  const isReviewer = REVIEWER_ROLES.includes(user.role);
+  const isOwn = personId === user.id;
+
+  const fetchTimesheet = useCallback(async () => {
+    try {
+      setTimesheet(await timesheetAPI.get(personId, week, { signal: getSignal() }));
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error("Error fetching timesheet:", err);
+      showToast(err.message || "Failed to fetch timesheet", "error");
+    }
+  }, [personId, week, getSignal, showToast]);
+
+  const fetchPending = useCallback(async () => {
+    if (!isReviewer) return;
+    try {
+      setPending(await timesheetAPI.getPending({ signal: getSignal() }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Error fetching timesheets awaiting approval:", err);
+    }
+  }, [isReviewer, getSignal]);
+
+  useEffect(() => {
+    fetchTimesheet();
+  }, [fetchTimesheet]);
+
+  useEffect(() => {
+    fetchPending();
+  }, [fetchPending]);
+
+  useQueryInvalidation(["/timesheets"], () => {
+    fetchTimesheet();
+    fetchPending();
+  });
+
+  // Reviewers can open the timesheets of the people on their projects
+  useEffect(() => {
+    if (!isReviewer) return;
+    const scoped = user.role !== "super_admin";
+    userAPI
+      .getAll(scoped ? user.id : undefined, scoped ? user.role : undefined, { signal: getSignal() })
+      .then((users) =>
+        setPeople(
+          users
+            .filter((u) => u.id !== user.id)
+            .map(({ id, username }) => ({ id, username }))
+            .sort((a, b) => a.username.localeCompare(b.username))
+        )
+      )
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error("Error fetching users:", err);
+      });
+  }, [isReviewer, user.id, user.role, getSignal]);
+
+  useEffect(() => {
+    setReviewNote("");
+  }, [personId, week]);
+
+  const rows = useMemo(() => (timesheet ? rowsOf(timesheet) : []), [timesheet]);
+  const days = weekDays(week);
+  const dayTotals = days.map((_, index) => rows.reduce((sum, row) => sum + row.days[index], 0));
+
+  const submit = async () => {
+    setSaving(true);
+    try {
+      setTimesheet(await timesheetAPI.submit(user.id, week));
+      showToast("Timesheet submitted for approval", "success");
+    } catch (err: any) {
+      showToast(err.message || "Failed to submit timesheet", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const review = async (decision: "approved" | "rejected") => {
+    setSaving(true);
+    try {
+      setTimesheet(
+        await timesheetAPI.review(personId, week, {
+          decision,
+          note: decision === "rejected" ? reviewNote.trim() : undefined,
+        })
+      );
+      showToast(decision === "approved" ? "Timesheet approved" : "Changes requested", "success");
+    } catch (err: any) {
+      showToast(err.message || "Failed to review timesheet", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const status = timesheet?.status || "open";
+  const statusStyle = STATUS_STYLES[status];
+
+  return (
+    <div className="users-page management-page">
+      <div className="management-page-header">
+        <div>
+          <h1 className="management-page-title">Timesheets</h1>
+          <p className="management-page-subtitle">
+            Time logged each week. Submit yours at the end of the week for approval.
+          </p>
+        </div>
+        <Link to="/timesheets/export" className="btn-secondary">
+          Export
+        </Link>
+      </div>
+
+      {isReviewer && pending.length > 0 && (
+        <section className="timesheet-pending" aria-labelledby="timesheet-pending-title">
+          <h2 id="timesheet-pending-title">Awaiting your approval</h2>
+          <ul>
+            {pending.map((sheet) => (
+              <li key={`${sheet.user_id}-${sheet.week_start}`}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setPersonId(sheet.user_id);
+                    setWeek(sheet.week_start);
+                  }}
+                >
+                  {sheet.user_name} · week of {formatDay(sheet.week_start)} · {sheet.total_hours}h
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <div className="timesheet-toolbar">
+        {isReviewer && (
+          <select
+            aria-label="Person"
+            value={personId}
+            onChange={(e) => setPersonId(Number(e.target.value))}
+          >
+            <option value={user.id}>{user.username} (me)</option>
+            {people.map((person) => (
+              <option key={person.id} value={person.id}>
+                {person.username}
+              </option>
+            ))}
+            {!isOwn && !people.some((person) => person.id === personId) && (
+              <option value={personId}>{timesheet?.user_name}</option>
+            )}
+          </select>
+        )}
+        <div className="timesheet-week-nav">
+          <button type="button" className="btn-secondary" onClick={() => setWeek(addDays(week, -7))}>
+            ‹ Previous week
+          </button>
+          <span className="timesheet-week-label">
+            Week of {formatDay(week)}
+          </span>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => setWeek(addDays(week, 7))}
+            disabled={week >= currentWeek}
+          >
+            Next week ›
+          </button>
+          {week !== currentWeek && (
+            <button type="button" className="btn-secondary" onClick={() => setWeek(currentWeek)}>
+              This week
+            </button>
+          )}
+        </div>
+        <span
+          className="timesheet-status"
+          style={{ color: statusStyle.color, backgroundColor: statusStyle.bg }}
+        >
+          {TIMESHEET_STATUS_LABELS[status]}
+        </span>
+      </div>
+
+      {timesheet?.status === "rejected" && timesheet.review_note && (
+        <div className="timesheet-review-note" role="note">
+          <strong>Changes requested{timesheet.reviewed_by_name && ` by ${timesheet.reviewed_by_name}`}:</strong>{" "}
+          {timesheet.review_note}
+        </div>
+      )}
+      {timesheet?.status === "approved" && (
+        <p className="timesheet-review-note">
+          Approved
+          {timesheet.reviewed_by_name && ` by ${timesheet.reviewed_by_name}`}
+          {timesheet.reviewed_at && ` on ${new Date(timesheet.reviewed_at).toLocaleDateString()}`}
+        </p>
+      )}
+
+      <div className="users-table-container">
+        <table className="users-table timesheet-table">
+          <thead>
+            <tr>
+              <th>Task</th>
+              {days.map((day) => (
+                <th key={day} className="timesheet-hours">
+                  {formatDay(day)}
+                </th>
+              ))}
+              <th className="timesheet-hours">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={days.length + 2} className="timesheet-empty">
+                  No time logged this week.
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => (
+                <tr key={row.taskId}>
+                  <td>
+                    <div style={{ fontWeight: 600 }}>{row.taskName}</div>
+                    {row.projectName && (
+                      <div style={{ fontSize: "0.8rem", color: "#6b7280" }}>{row.projectName}</div>
+                    )}
+                  </td>
+                  {row.days.map((hours, index) => (
+                    <td key={days[index]} className="timesheet-hours">
+                      {formatHours(hours)}
+                    </td>
+                  ))}
+                  <td className="timesheet-hours">
+                    <strong>{formatHours(row.total)}</strong>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+          {rows.length > 0 && (
+            <tfoot>
+              <tr>
+                <th scope="row">Total</th>
+                {dayTotals.map((hours, index) => (
+                  <td key={days[index]} className="timesheet-hours">
+                    {formatHours(hours)}
+                  </td>
+                ))}
+                <td className="timesheet-hours">
+                  <strong>{formatHours(timesheet?.total_hours || 0)}</strong>
+                </td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+
+      {timesheet && timesheet.entries.some((entry) => entry.note) && (
+        <ul className="time-entry-list" aria-label="Notes">
+          {timesheet.entries
+            .filter((entry) => entry.note)
+            .map((entry) => (
+              <li key={entry.id} className="time-entry">
+                <span className="time-entry-hours">{entry.hours}h</span>
+                <span className="time-entry-meta">
+                  {formatDay(entry.date)} · {entry.task_name}
+                  <span className="time-entry-note"> — {entry.note}</span>
+                </span>
+              </li>
+            ))}
+        </ul>
+      )}
+
+      {isOwn && (status === "open" || status === "rejected") && (
+        <div className="form-actions">
+          <button
+            type="button"
+            className="btn-primary"
+            onClick={submit}
+            disabled={saving || rows.length === 0}
+          >
+            {saving ? "Submitting..." : "Submit for Approval"}
+          </button>
+        </div>
+      )}
+
+      {!isOwn && status === "submitted" && (
+        <div className="timesheet-review">
+          <label htmlFor="timesheet-review-note">What needs to change (when requesting changes)</label>
+          <textarea
+            id="timesheet-review-note"
+            rows={2}
+            value={reviewNote}
+            onChange={(e) => setReviewNote(e.target.value)}
+          />
+          <div className="form-actions">
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => review("rejected")}
+              disabled={saving || !reviewNote.trim()}
+            >
+              Request Changes
+            </button>
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={() => review("approved")}
+              disabled={saving}
+            >
+              Approve
+            </button>
+          </div>
+        </div>
+      )}
+
+      {toast.isVisible && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
+
+export default Timesheets;
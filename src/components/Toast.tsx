@@ -3,14 +3,21 @@ import { CheckCircle, XCircle, AlertCircle, Info, X } from 'lucide-react';
 
 export type ToastType = 'success' | 'error' | 'warning' | 'info';
 
+// A button shown next to the message, e.g. to undo what was just done
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 interface ToastProps {
   message: string;
   type: ToastType;
   onClose: () => void;
   duration?: number;
+  action?: ToastAction;
 }
 
-const Toast: React.FC<ToastProps> = ({ message, type, onClose, duration = 3000 }) => {
+const Toast: React.FC<ToastProps> = ({ message, type, onClose, duration = 3000, action }) => {
   useEffect(() => {
     const timer = setTimeout(() => {
       onClose();
@@ -82,6 +89,25 @@ const Toast: React.FC<ToastProps> = ({ message, type, onClose, duration = 3000 }
     >
       <div style={{ flexShrink: 0 }}>{getIcon()}</div>
       <div style={{ flex: 1, fontSize: '0.95rem', fontWeight: '500' }}>{message}</div>
+      {action && (
+        <button
+          onClick={() => {
+            action.onClick();
+            onClose();
+          }}
+          style={{
+            background: 'rgba(255, 255, 255, 0.2)',
+            border: '1px solid rgba(255, 255, 255, 0.6)',
+            color: 'white',
+            cursor: 'pointer',
+            padding: '0.25rem 0.75rem',
+            borderRadius: '4px',
+            fontWeight: 600,
+          }}
+        >
+          {action.label}
+        </button>
+      )}
       <button
         onClick={onClose}
         style={{
@@ -0,0 +1,103 @@
+import React, { useState } from "react";
+import { useModalFocus } from "../hooks/useModalFocus";
+import "../App.css";
+
+interface TransitionNoteModalProps {
+  taskName: string;
+  // Workflow state the task is moving to
+  stateName: string;
+  onConfirm: (note: string) => void;
+  onCancel: () => void;
+}
+
+// Asks for the comment a workflow rule requires before a task can move,
+// e.g. a PR link when moving to In Review
+const TransitionNoteModal: React.FC<TransitionNoteModalProps> = ({
+  taskName,
+  stateName,
+  onConfirm,
+  onCancel,
+}) => {
+  const [note, setNote] = useState("");
+  const [error, setError] = useState("");
+  const dialog = useModalFocus(onCancel);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!note.trim()) {
+      setError(`Please add a comment before moving to ${stateName}`);
+      return;
+    }
+    onConfirm(note.trim());
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div
+        {...dialog}
+        aria-labelledby="transition-note-title"
+        className="modal"
+        style={{
+          maxWidth: "600px",
+          maxHeight: "90vh",
+          overflow: "hidden",
+          display: "flex",
+          flexDirection: "column",
+          padding: 0,
+        }}
+      >
+        <div
+          className="modal-header"
+          style={{
+            background: "linear-gradient(135deg, #667eea 0%, #764ba2 100%)",
+            color: "white",
+            padding: "1.5rem 2rem",
+            borderRadius: "12px 12px 0 0",
+            flexShrink: 0,
+          }}
+        >
+          <h2 id="transition-note-title" style={{ margin: 0, color: "white" }}>
+            Move to {stateName}
+          </h2>
+          <button className="close-btn" onClick={onCancel} style={{ color: "white" }}>
+            ×
+          </button>
+        </div>
+
+        <div style={{ padding: "1.5rem 2rem 2rem 2rem", overflowY: "auto", flex: 1, minHeight: 0 }}>
+          <form onSubmit={handleSubmit} className="user-form">
+            {error && <div className="error-message">{error}</div>}
+
+            <div className="form-group">
+              <label>
+                Task: <strong>{taskName}</strong>
+              </label>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="transition-note">Comment *</label>
+              <textarea
+                id="transition-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="What should the next person know?"
+                rows={4}
+              />
+            </div>
+
+            <div className="form-actions">
+              <button type="button" onClick={onCancel} className="btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" className="btn-primary">
+                Move Task
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransitionNoteModal;
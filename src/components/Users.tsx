@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from "react";
-import axios from "axios";
+import { useLocation } from "react-router-dom";
 import Toast from "./Toast";
 import { useToast } from "../hooks/useToast";
 import ConfirmationModal from "./ConfirmationModal";
-import { API_BASE_URL, userAPI } from "../services/api";
+import { ApiError, isAbortError, userAPI } from "../services/api";
+import { useAbortSignal } from "../hooks/useAbortSignal";
 import { PencilIcon, TrashIcon, EyeIcon } from "@heroicons/react/24/outline";
 
 interface User {
@@ -23,7 +24,11 @@ const Users: React.FC<UsersProps> = ({ user: currentUser }) => {
   const [showAddForm, setShowAddForm] = useState(false);
   const [showEditForm, setShowEditForm] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
-  const [searchTerm, setSearchTerm] = useState("");
+  const location = useLocation();
+  // The command palette links here with the person it found
+  const [searchTerm, setSearchTerm] = useState(
+    () => (location.state as { search?: string } | null)?.search || ""
+  );
   const [newUser, setNewUser] = useState({
     username: "",
     password: "",
@@ -48,6 +53,7 @@ const Users: React.FC<UsersProps> = ({ user: currentUser }) => {
   const [employeeProjects, setEmployeeProjects] = useState<any[]>([]);
   const [employeeTasks, setEmployeeTasks] = useState<any[]>([]);
   const [loadingEmployeeDetails, setLoadingEmployeeDetails] = useState(false);
+  const getSignal = useAbortSignal();
 
   useEffect(() => {
     fetchUsers();
@@ -70,19 +76,17 @@ const Users: React.FC<UsersProps> = ({ user: currentUser }) => {
 
   const fetchUsers = async () => {
     try {
-      const params = new URLSearchParams();
-      if (
+      const scoped =
         currentUser?.id &&
-        (currentUser?.role === "manager" || currentUser?.role === "team_lead")
-      ) {
-        params.append("userId", String(currentUser.id));
-        params.append("userRole", currentUser.role);
-      }
-      const url = `${API_BASE_URL}/users${params.toString() ? `?${params.toString()}` : ""
-        }`;
-      const response = await axios.get(url);
-      setUsers(response.data);
+        (currentUser?.role === "manager" || currentUser?.role === "team_lead");
+      const data = await userAPI.getAll(
+        scoped ? currentUser.id : undefined,
+        scoped ? currentUser.role : undefined,
+        { signal: getSignal() }
+      );
+      setUsers(data);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Error fetching users:", error);
     }
   };
@@ -156,7 +160,7 @@ const Users: React.FC<UsersProps> = ({ user: currentUser }) => {
 
     try {
       // Create user account only
-      await axios.post(`${API_BASE_URL}/users`, {
+      await userAPI.create({
         username: newUser.username,
         password: newUser.password,
         role: newUser.role,
@@ -175,12 +179,13 @@ const Users: React.FC<UsersProps> = ({ user: currentUser }) => {
       setShowAddForm(false);
       fetchUsers();
       showToast("User created successfully!", "success");
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error adding user:", error);
-      const errorResponse = error.response?.data;
       const errorMessage =
-        errorResponse?.message || "Failed to create user. Please try again.";
-      const errorField = errorResponse?.field;
+        error instanceof ApiError && error.status > 0
+          ? error.message
+          : "Failed to create user. Please try again.";
+      const errorField = error instanceof ApiError ? error.field : undefined;
 
       // If the backend specifies which field has the error, set it in formErrors
       if (errorField && (errorField === "username" || errorField === "email")) {
@@ -281,7 +286,7 @@ const Users: React.FC<UsersProps> = ({ user: currentUser }) => {
     }
 
     try {
-      await axios.put(`${API_BASE_URL}/users/${editingUser.id}`, {
+      await userAPI.update(editingUser.id, {
         username: editingUser.username,
         email: editingUser.email,
         role: editingUser.role,
@@ -293,12 +298,13 @@ const Users: React.FC<UsersProps> = ({ user: currentUser }) => {
       setFormErrors({});
       fetchUsers();
       showToast("User updated successfully!", "success");
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error updating user:", error);
-      const errorResponse = error.response?.data;
       const errorMessage =
-        errorResponse?.message || "Failed to update user. Please try again.";
-      const errorField = errorResponse?.field;
+        error instanceof ApiError && error.status > 0
+          ? error.message
+          : "Failed to update user. Please try again.";
+      const errorField = error instanceof ApiError ? error.field : undefined;
 
       // If the backend specifies which field has the error, set it in formErrors
       if (errorField && (errorField === "username" || errorField === "email")) {
@@ -347,14 +353,15 @@ const Users: React.FC<UsersProps> = ({ user: currentUser }) => {
     if (!deleteConfirmation.userId) return;
 
     try {
-      await axios.delete(`${API_BASE_URL}/users/${deleteConfirmation.userId}`);
+      await userAPI.delete(deleteConfirmation.userId);
       fetchUsers();
       showToast("User deleted successfully!", "success");
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error deleting user:", error);
       const errorMessage =
-        error.response?.data?.message ||
-        "Failed to delete user. Please try again.";
+        error instanceof ApiError && error.status > 0
+          ? error.message
+          : "Failed to delete user. Please try again.";
       showToast(errorMessage, "error");
     } finally {
       setDeleteConfirmation({ isOpen: false, userId: null, username: "" });
@@ -534,7 +541,7 @@ const Users: React.FC<UsersProps> = ({ user: currentUser }) => {
 
           // Try to create user - API will check for duplicates
           try {
-            await axios.post(`${API_BASE_URL}/users`, {
+            await userAPI.create({
               username: userData.username,
               password: userData.password,
               role: userData.role,
@@ -547,8 +554,8 @@ const Users: React.FC<UsersProps> = ({ user: currentUser }) => {
             failedCount++;
 
             // Extract detailed error message from API response
-            if (error.response?.data) {
-              const { message, type, field } = error.response.data;
+            if (error instanceof ApiError && error.status > 0) {
+              const { message, type } = error;
 
               // Handle specific error types
               if (type === "duplicate_username") {
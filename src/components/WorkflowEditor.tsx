@@ -0,0 +1,301 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { projectAPI, isAbortError } from "../services/api";
+import {
+  TransitionRequirement,
+  WorkflowCategory,
+  WorkflowRule,
+  WorkflowState,
+} from "../types";
+import { useAbortSignal } from "../hooks/useAbortSignal";
+import { useToast } from "../hooks/useToast";
+import CustomMultiSelect from "./CustomMultiSelect";
+import Toast from "./Toast";
+import { stateKey, validateWorkflow, WORKFLOW_CATEGORIES } from "../utils/workflow";
+
+interface WorkflowEditorProps {
+  projectId: number;
+}
+
+const REQUIREMENT_OPTIONS: { value: TransitionRequirement; label: string }[] = [
+  { value: "reason", label: "Reason" },
+  { value: "comment", label: "Comment" },
+  { value: "actual_hours", label: "Actual hours" },
+];
+
+// Board columns of a project: order, category, allowed next columns and
+// the fields a task needs when it moves into each column. Saved on its own,
+// independent of the project form.
+const WorkflowEditor: React.FC<WorkflowEditorProps> = ({ projectId }) => {
+  const [states, setStates] = useState<WorkflowState[]>([]);
+  const [rules, setRules] = useState<WorkflowRule[]>([]);
+  const [newColumn, setNewColumn] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast, showToast, hideToast } = useToast();
+  const getSignal = useAbortSignal();
+
+  const fetchWorkflow = useCallback(async () => {
+    try {
+      const workflow = await projectAPI.getWorkflow(projectId, { signal: getSignal() });
+      setStates(workflow.states);
+      setRules(workflow.rules);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Error fetching workflow:", err);
+    }
+  }, [projectId, getSignal]);
+
+  useEffect(() => {
+    fetchWorkflow();
+  }, [fetchWorkflow]);
+
+  const updateState = (key: string, changes: Partial<WorkflowState>) =>
+    setStates((prev) => prev.map((s) => (s.key === key ? { ...s, ...changes } : s)));
+
+  const moveState = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= states.length) return;
+    setStates((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeState = (key: string) => {
+    setStates((prev) =>
+      prev
+        .filter((s) => s.key !== key)
+        .map((s) =>
+          s.transitions ? { ...s, transitions: s.transitions.filter((k) => k !== key) } : s
+        )
+    );
+    setRules((prev) => prev.filter((rule) => rule.to !== key && rule.from !== key));
+  };
+
+  const addState = () => {
+    const name = newColumn.trim();
+    const base = stateKey(name);
+    if (!base) return;
+    const keys = states.map((s) => s.key);
+    let key = base;
+    for (let n = 2; keys.includes(key); n++) key = `${base}_${n}`;
+    setStates((prev) => [...prev, { key, name, category: "in_progress" }]);
+    setNewColumn("");
+  };
+
+  // Rules edited here apply to every move into a column; rules limited to
+  // one source column are kept as they are
+  const requirementsOf = (key: string) =>
+    rules.filter((rule) => rule.to === key && !rule.from).flatMap((rule) => rule.requires);
+
+  const toggleRequirement = (key: string, requirement: TransitionRequirement) => {
+    const current = requirementsOf(key);
+    const requires = current.includes(requirement)
+      ? current.filter((r) => r !== requirement)
+      : [...current, requirement];
+    setRules((prev) => [
+      ...prev.filter((rule) => rule.to !== key || rule.from),
+      ...(requires.length ? [{ to: key, requires }] : []),
+    ]);
+  };
+
+  const handleSave = async () => {
+    const error = validateWorkflow({ states, rules });
+    if (error) {
+      showToast(error, "error");
+      return;
+    }
+    setSaving(true);
+    try {
+      await projectAPI.updateWorkflow(projectId, { states, rules });
+      showToast("Workflow saved", "success");
+    } catch (err: any) {
+      showToast(err.message || "Failed to save workflow", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <ol style={{ listStyle: "none", padding: 0, margin: 0 }}>
+        {states.map((state, index) => (
+          <li
+            key={state.key}
+            style={{
+              padding: "0.75rem",
+              marginBottom: "0.5rem",
+              background: "#f8f9fa",
+              border: "1px solid #e1e8ed",
+              borderRadius: "6px",
+            }}
+          >
+            <div style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+              <input
+                type="text"
+                aria-label={`Column ${index + 1} name`}
+                value={state.name}
+                onChange={(e) => updateState(state.key, { name: e.target.value })}
+                style={{ flex: 2 }}
+              />
+              <select
+                aria-label={`Category of ${state.name}`}
+                value={state.category}
+                onChange={(e) =>
+                  updateState(state.key, { category: e.target.value as WorkflowCategory })
+                }
+                style={{ flex: 1 }}
+              >
+                {WORKFLOW_CATEGORIES.map((category) => (
+                  <option key={category.value} value={category.value}>
+                    {category.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="1"
+                aria-label={`WIP limit of ${state.name}`}
+                title="Work-in-progress limit"
+                placeholder="No limit"
+                value={state.wip_limit ?? ""}
+                onChange={(e) =>
+                  updateState(state.key, {
+                    wip_limit: e.target.value ? parseInt(e.target.value) : undefined,
+                  })
+                }
+                style={{ width: "6.5rem" }}
+              />
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={() => moveState(index, -1)}
+                disabled={index === 0}
+                aria-label={`Move ${state.name} up`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={() => moveState(index, 1)}
+                disabled={index === states.length - 1}
+                aria-label={`Move ${state.name} down`}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => removeState(state.key)}
+                aria-label={`Remove ${state.name}`}
+                style={{
+                  background: "none",
+                  border: "none",
+                  color: "#ef4444",
+                  cursor: "pointer",
+                  fontSize: "1.1rem",
+                }}
+              >
+                ×
+              </button>
+            </div>
+
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: "1fr 1fr",
+                gap: "0.75rem",
+                marginTop: "0.5rem",
+                fontSize: "0.85rem",
+              }}
+            >
+              <div>
+                <div style={{ color: "#6b7280", marginBottom: "0.25rem" }}>Can move to</div>
+                <CustomMultiSelect
+                  value={state.transitions}
+                  onChange={(selected) =>
+                    updateState(state.key, {
+                      transitions: selected.length ? selected.map(String) : undefined,
+                    })
+                  }
+                  options={states
+                    .filter((s) => s.key !== state.key)
+                    .map((s) => ({ value: s.key, label: s.name }))}
+                  placeholder="Any column"
+                />
+              </div>
+              <div>
+                <div style={{ color: "#6b7280", marginBottom: "0.25rem" }}>
+                  Required to enter
+                </div>
+                <div style={{ display: "flex", gap: "0.75rem", flexWrap: "wrap" }}>
+                  {REQUIREMENT_OPTIONS.map((option) => (
+                    <label
+                      key={option.value}
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "0.25rem",
+                        fontWeight: 400,
+                        margin: 0,
+                      }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={requirementsOf(state.key).includes(option.value)}
+                        onChange={() => toggleRequirement(state.key, option.value)}
+                        aria-label={`${state.name} requires ${option.label.toLowerCase()}`}
+                        style={{ width: "auto", margin: 0 }}
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div style={{ display: "flex", gap: "0.5rem", marginTop: "0.5rem" }}>
+        <input
+          type="text"
+          value={newColumn}
+          onChange={(e) => setNewColumn(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter adds the column instead of submitting the project form
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addState();
+            }
+          }}
+          placeholder="New column, e.g. Ready for QA"
+          aria-label="New column name"
+          style={{ flex: 1 }}
+        />
+        <button
+          type="button"
+          className="btn-secondary"
+          onClick={addState}
+          disabled={!newColumn.trim()}
+        >
+          Add Column
+        </button>
+        <button
+          type="button"
+          className="btn-primary"
+          onClick={handleSave}
+          disabled={saving}
+        >
+          {saving ? "Saving..." : "Save Workflow"}
+        </button>
+      </div>
+
+      {toast.isVisible && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
+
+export default WorkflowEditor;
@@ -1,4 +1,5 @@
 import React from "react";
+import { useModalFocus } from "../hooks/useModalFocus";
 import "../App.css";
 
 interface WorkloadWarningModalProps {
@@ -14,9 +15,13 @@ interface WorkloadWarningModalProps {
     allocationUtilization: number;
     weeksUntilDue: number;
     currentTaskCount: number;
+    subtaskHours?: number;
+    occurrences?: number;
   };
   onConfirm: () => void;
   onCancel: () => void;
+  // Label of the button that goes ahead despite the warning
+  confirmText?: string;
 }
 
 const WorkloadWarningModal: React.FC<WorkloadWarningModalProps> = ({
@@ -25,7 +30,10 @@ const WorkloadWarningModal: React.FC<WorkloadWarningModalProps> = ({
   workload,
   onConfirm,
   onCancel,
+  confirmText = "Create Task Anyway",
 }) => {
+  const dialog = useModalFocus(onCancel);
+
   const getWarningIcon = () => {
     return warningLevel === "critical" ? "⚠️" : "⚠️";
   };
@@ -71,9 +79,9 @@ const WorkloadWarningModal: React.FC<WorkloadWarningModalProps> = ({
 
   return (
     <div className="modal-overlay">
-      <div className="modal-content">
+      <div {...dialog} aria-labelledby="workload-warning-title" className="modal-content">
         <div className="modal-header">
-          <h2 style={{ color: getWarningColor() }}>
+          <h2 id="workload-warning-title" style={{ color: getWarningColor() }}>
             {getWarningIcon()} Employee Workload Alert
           </h2>
           <button className="modal-close" onClick={onCancel}>
@@ -107,9 +115,20 @@ const WorkloadWarningModal: React.FC<WorkloadWarningModalProps> = ({
                 <span className="stat-label">Work Already Planned:</span>
                 <span className="stat-value">{workload.currentHours}h</span>
               </div>
+              {workload.subtaskHours ? (
+                <div className="stat-row">
+                  <span className="stat-label">Of Which Subtasks:</span>
+                  <span className="stat-value">{workload.subtaskHours}h</span>
+                </div>
+              ) : null}
               <div className="stat-row">
                 <span className="stat-label">This New Task:</span>
-                <span className="stat-value">{workload.newTaskHours}h</span>
+                <span className="stat-value">
+                  {workload.newTaskHours}h
+                  {workload.occurrences && workload.occurrences > 1
+                    ? ` (${workload.occurrences} occurrences)`
+                    : ""}
+                </span>
               </div>
               <div className="stat-row">
                 <span className="stat-label">
@@ -207,7 +226,7 @@ const WorkloadWarningModal: React.FC<WorkloadWarningModalProps> = ({
               warningLevel === "critical" ? "btn-danger" : "btn-warning"
             }
           >
-            Create Task Anyway
+            {confirmText}
           </button>
         </div>
       </div>
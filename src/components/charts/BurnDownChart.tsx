@@ -0,0 +1,132 @@
+import React from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { BurnDay, ScopeChange } from '../../types';
+import { describeScopeChange, scopeChangePoints, scopeChangesByDay } from '../../utils/burn';
+import { formatDay } from '../../utils/timesheet';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler
+);
+
+interface BurnDownChartProps {
+  days: BurnDay[];
+  scopeChanges: ScopeChange[];
+}
+
+// Planned hours left on open tasks against a straight line to zero at the
+// project's end date
+const BurnDownChart: React.FC<BurnDownChartProps> = ({ days, scopeChanges }) => {
+  const byDay = scopeChangesByDay(scopeChanges);
+
+  const chartData = {
+    labels: days.map(day => formatDay(day.date)),
+    datasets: [
+      {
+        label: 'Remaining hours',
+        data: days.map(day => day.remaining),
+        borderColor: 'rgb(59, 130, 246)',
+        backgroundColor: 'rgba(59, 130, 246, 0.1)',
+        fill: true,
+        tension: 0,
+        borderWidth: 2,
+        ...scopeChangePoints(days, byDay),
+      },
+      {
+        label: 'Ideal',
+        data: days.map(day => day.ideal),
+        borderColor: 'rgb(156, 163, 175)',
+        borderDash: [6, 4],
+        borderWidth: 2,
+        pointRadius: 0,
+        fill: false,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'index' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        display: true,
+        position: 'top' as const,
+        labels: {
+          usePointStyle: true,
+          padding: 20,
+          font: {
+            size: 12,
+            weight: 'bold' as const,
+          },
+        },
+      },
+      title: {
+        display: false,
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: any) =>
+            context.parsed.y === null ? '' : `${context.dataset.label}: ${context.parsed.y}h`,
+          footer: (items: any[]) =>
+            (byDay.get(days[items[0]?.dataIndex]?.date) || []).map(describeScopeChange),
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: {
+          display: false,
+        },
+        ticks: {
+          maxTicksLimit: 10,
+          font: {
+            size: 11,
+          },
+        },
+      },
+      y: {
+        beginAtZero: true,
+        ticks: {
+          font: {
+            size: 11,
+          },
+          callback: (value: any) => `${value}h`,
+        },
+        grid: {
+          color: 'rgba(0, 0, 0, 0.1)',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="chart-container">
+      <div className="chart-content">
+        <Line data={chartData} options={options} />
+      </div>
+    </div>
+  );
+};
+
+export default BurnDownChart;
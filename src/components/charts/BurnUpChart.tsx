@@ -0,0 +1,133 @@
+import React from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { BurnDay, ScopeChange } from '../../types';
+import { describeScopeChange, scopeChangePoints, scopeChangesByDay } from '../../utils/burn';
+import { formatDay } from '../../utils/timesheet';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler
+);
+
+interface BurnUpChartProps {
+  days: BurnDay[];
+  scopeChanges: ScopeChange[];
+}
+
+// Planned hours of all tasks against those of completed tasks; steps in the
+// scope line are tasks added, re-estimated or removed
+const BurnUpChart: React.FC<BurnUpChartProps> = ({ days, scopeChanges }) => {
+  const byDay = scopeChangesByDay(scopeChanges);
+
+  const chartData = {
+    labels: days.map(day => formatDay(day.date)),
+    datasets: [
+      {
+        label: 'Scope',
+        data: days.map(day => day.scope),
+        borderColor: 'rgb(139, 92, 246)',
+        backgroundColor: 'rgba(139, 92, 246, 0.1)',
+        stepped: true,
+        fill: false,
+        borderWidth: 2,
+        ...scopeChangePoints(days, byDay),
+      },
+      {
+        label: 'Completed',
+        data: days.map(day => day.completed),
+        borderColor: 'rgb(16, 185, 129)',
+        backgroundColor: 'rgba(16, 185, 129, 0.15)',
+        stepped: true,
+        fill: true,
+        borderWidth: 2,
+        pointRadius: 0,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'index' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        display: true,
+        position: 'top' as const,
+        labels: {
+          usePointStyle: true,
+          padding: 20,
+          font: {
+            size: 12,
+            weight: 'bold' as const,
+          },
+        },
+      },
+      title: {
+        display: false,
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: any) =>
+            context.parsed.y === null ? '' : `${context.dataset.label}: ${context.parsed.y}h`,
+          footer: (items: any[]) =>
+            (byDay.get(days[items[0]?.dataIndex]?.date) || []).map(describeScopeChange),
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: {
+          display: false,
+        },
+        ticks: {
+          maxTicksLimit: 10,
+          font: {
+            size: 11,
+          },
+        },
+      },
+      y: {
+        beginAtZero: true,
+        ticks: {
+          font: {
+            size: 11,
+          },
+          callback: (value: any) => `${value}h`,
+        },
+        grid: {
+          color: 'rgba(0, 0, 0, 0.1)',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="chart-container">
+      <div className="chart-content">
+        <Line data={chartData} options={options} />
+      </div>
+    </div>
+  );
+};
+
+export default BurnUpChart;
@@ -0,0 +1,58 @@
+// Runtime configuration
+// The same build is deployed to every environment, so environment-specific
+// values are read when the app loads from window.__CONFIG__, which is set by
+// public/config.js (rewritten by the Docker entrypoint from env variables).
+
+export interface RuntimeConfig {
+  // Absolute URL or a path relative to the site, e.g. "/api" behind the nginx proxy
+  apiBaseUrl: string;
+  // e.g. "development", "staging", "production"
+  environment: string;
+  // Serve every API call from the in-browser mock backend (src/mocks)
+  mockApi: boolean;
+}
+
+declare global {
+  interface Window {
+    __CONFIG__?: Partial<RuntimeConfig>;
+  }
+}
+
+const LOCAL_API_BASE_URL = 'http://localhost:5005/api';
+const PROXIED_API_BASE_URL = '/api';
+
+const isLocalHost = () => {
+  if (typeof window === 'undefined') return false;
+  const hostname = window.location.hostname;
+  return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '';
+};
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+const resolveConfig = (): RuntimeConfig => {
+  const injected = (typeof window !== 'undefined' && window.__CONFIG__) || {};
+
+  // Priority: runtime config > build-time env > host-based default
+  const apiBaseUrl =
+    injected.apiBaseUrl ||
+    process.env.REACT_APP_API_BASE_URL ||
+    (isLocalHost() ? LOCAL_API_BASE_URL : PROXIED_API_BASE_URL);
+
+  const environment =
+    injected.environment ||
+    process.env.REACT_APP_ENVIRONMENT ||
+    (isLocalHost() ? 'development' : 'production');
+
+  const mockApi =
+    injected.mockApi ?? process.env.REACT_APP_MOCK_API === 'true';
+
+  return {
+    apiBaseUrl: trimTrailingSlash(apiBaseUrl),
+    environment: environment.toLowerCase(),
+    mockApi: Boolean(mockApi),
+  };
+};
+
+export const runtimeConfig = resolveConfig();
+
+export const isProduction = runtimeConfig.environment === 'production';
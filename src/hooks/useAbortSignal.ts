@@ -0,0 +1,18 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Returns a getter for an AbortSignal that is aborted when the component
+// unmounts, so in-flight API requests are cancelled with it.
+export const useAbortSignal = () => {
+  const controllerRef = useRef<AbortController>(new AbortController());
+
+  useEffect(() => {
+    // Re-create on mount (StrictMode mounts twice in development)
+    if (controllerRef.current.signal.aborted) {
+      controllerRef.current = new AbortController();
+    }
+    const controller = controllerRef.current;
+    return () => controller.abort();
+  }, []);
+
+  return useCallback(() => controllerRef.current.signal, []);
+};
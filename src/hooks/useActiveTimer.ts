@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from 'react';
+import { timeAPI, isAbortError } from '../services/api';
+import { ActiveTimer } from '../types';
+import { useAbortSignal } from './useAbortSignal';
+import { useQueryInvalidation } from './useQueryInvalidation';
+
+// The signed-in user's running timer, or null. Every timer button on a page
+// shares one cached request and refreshes when any of them starts or stops.
+export const useActiveTimer = () => {
+  const [timer, setTimer] = useState<ActiveTimer | null>(null);
+  const getSignal = useAbortSignal();
+
+  const fetchTimer = useCallback(async () => {
+    try {
+      setTimer(await timeAPI.getTimer({ signal: getSignal() }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error fetching timer:', err);
+    }
+  }, [getSignal]);
+
+  useEffect(() => {
+    fetchTimer();
+  }, [fetchTimer]);
+
+  useQueryInvalidation(['/time/timer'], fetchTimer);
+
+  return timer;
+};
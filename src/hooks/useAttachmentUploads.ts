@@ -0,0 +1,73 @@
+import { useCallback, useState } from 'react';
+import { taskAPI, isAbortError } from '../services/api';
+import { useAbortSignal } from './useAbortSignal';
+
+export interface AttachmentUpload {
+  key: string;
+  fileName: string;
+  loaded: number;
+  total: number;
+  status: 'uploading' | 'done' | 'error';
+  error?: string;
+}
+
+let uploadCounter = 0;
+
+// Uploads files to a task one request per file and tracks each file's
+// progress. Uploads are cancelled if the component unmounts.
+export const useAttachmentUploads = () => {
+  const [uploads, setUploads] = useState<AttachmentUpload[]>([]);
+  const getSignal = useAbortSignal();
+
+  const patch = (key: string, changes: Partial<AttachmentUpload>) =>
+    setUploads((prev) =>
+      prev.map((upload) => (upload.key === key ? { ...upload, ...changes } : upload))
+    );
+
+  // Resolves with the files that failed to upload
+  const uploadFiles = useCallback(
+    async (taskId: number, files: File[]): Promise<File[]> => {
+      const queued = files.map((file) => ({
+        file,
+        key: `upload-${++uploadCounter}`,
+      }));
+      setUploads((prev) => [
+        ...prev,
+        ...queued.map(({ file, key }) => ({
+          key,
+          fileName: file.name,
+          loaded: 0,
+          total: file.size,
+          status: 'uploading' as const,
+        })),
+      ]);
+
+      const results = await Promise.all(
+        queued.map(async ({ file, key }) => {
+          try {
+            await taskAPI.uploadAttachment(taskId, file, {
+              signal: getSignal(),
+              onUploadProgress: (loaded, total) => patch(key, { loaded, total }),
+            });
+            patch(key, { status: 'done', loaded: file.size });
+            return null;
+          } catch (err: any) {
+            if (!isAbortError(err)) {
+              patch(key, { status: 'error', error: err.message || 'Upload failed' });
+            }
+            return file;
+          }
+        })
+      );
+      return results.filter((file): file is File => file !== null);
+    },
+    [getSignal]
+  );
+
+  // Removes finished and failed uploads from the list
+  const clearFinished = useCallback(() => {
+    setUploads((prev) => prev.filter((upload) => upload.status === 'uploading'));
+  }, []);
+
+  return { uploads, uploadFiles, clearFinished };
+};
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { projectTeamAPI, isAbortError } from '../services/api';
+import { MentionableUser } from '../types';
+
+// Team members of the project, offered as @mention suggestions in comments
+export const useMentionableUsers = (projectId?: number) => {
+  const [users, setUsers] = useState<MentionableUser[]>([]);
+
+  useEffect(() => {
+    if (!projectId) {
+      setUsers([]);
+      return;
+    }
+    const controller = new AbortController();
+    projectTeamAPI
+      .getProjectTeam(projectId, undefined, undefined, { signal: controller.signal })
+      .then((team) =>
+        setUsers(
+          team.map((member) => ({
+            id: member.user_id,
+            username: member.username || member.team_member_name,
+          }))
+        )
+      )
+      .catch((error) => {
+        if (!isAbortError(error)) {
+          console.error('Error fetching project team:', error);
+        }
+      });
+    return () => controller.abort();
+  }, [projectId]);
+
+  return users;
+};
@@ -0,0 +1,60 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+
+const FOCUSABLE =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Keyboard and focus handling for a modal dialog. While `active`, focus moves
+// into the dialog (an element marked data-autofocus, else its first form
+// field, else its first control), Tab stays inside it and Escape cancels;
+// focus goes back to where it was on close.
+// Spread the returned props onto the dialog element.
+export const useModalFocus = <T extends HTMLElement = HTMLDivElement>(
+  onCancel: () => void,
+  active = true
+) => {
+  const ref = useRef<T>(null);
+  const onCancelRef = useRef(onCancel);
+  onCancelRef.current = onCancel;
+
+  useEffect(() => {
+    const dialog = ref.current;
+    if (!active || !dialog) return;
+    const previous = document.activeElement as HTMLElement | null;
+    const initial =
+      dialog.querySelector<HTMLElement>('[data-autofocus]') ||
+      dialog.querySelector<HTMLElement>(
+        'input:not([type="hidden"]):not([disabled]), select:not([disabled]), textarea:not([disabled])'
+      ) ||
+      dialog.querySelector<HTMLElement>(FOCUSABLE);
+    initial?.focus();
+    return () => {
+      if (previous && previous !== document.body && document.contains(previous)) {
+        previous.focus();
+      }
+    };
+  }, [active]);
+
+  // A React handler, so controls inside the dialog that handle Escape
+  // themselves (dropdowns, mention lists) can stop it first
+  const onKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onCancelRef.current();
+      return;
+    }
+    if (e.key !== 'Tab' || !ref.current) return;
+    const items = Array.from(ref.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+    if (items.length === 0) return;
+    const first = items[0];
+    const last = items[items.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  }, []);
+
+  return { ref, role: 'dialog', 'aria-modal': true, onKeyDown } as const;
+};
@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import { queryCache } from '../services/queryCache';
+
+// Calls onInvalidate when cached data under any of the given API path
+// prefixes is invalidated by a mutation or refreshed in the background.
+// Bursts of notifications (one mutation touching several endpoints) are
+// coalesced into a single call.
+export const useQueryInvalidation = (prefixes: string[], onInvalidate: () => void) => {
+  const callbackRef = useRef(onInvalidate);
+  callbackRef.current = onInvalidate;
+  const prefixKey = prefixes.join('|');
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = queryCache.subscribe(prefixKey.split('|'), () => {
+      if (timer) return;
+      timer = setTimeout(() => {
+        timer = null;
+        callbackRef.current();
+      }, 50);
+    });
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, [prefixKey]);
+};
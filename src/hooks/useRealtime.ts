@@ -0,0 +1,20 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { realtime } from '../services/realtime';
+import { RealtimeEvent } from '../types';
+
+// Connection status of the live event stream, for a "Live" indicator
+export const useRealtimeStatus = () =>
+  useSyncExternalStore(realtime.onChange, realtime.getStatus);
+
+// Tasks other people changed in the last minute, by task id
+export const useTaskActivity = () =>
+  useSyncExternalStore(realtime.onChange, realtime.getActivity);
+
+// Calls onEvent for every pushed change while the component is mounted.
+// Cached lists are already patched by then.
+export const useRealtimeEvents = (onEvent: (event: RealtimeEvent) => void) => {
+  const callbackRef = useRef(onEvent);
+  callbackRef.current = onEvent;
+
+  useEffect(() => realtime.subscribe((event) => callbackRef.current(event)), []);
+};
@@ -1,10 +1,17 @@
 import { useState, useCallback } from 'react';
-import { ToastType } from '../components/Toast';
+import { ToastAction, ToastType } from '../components/Toast';
 
 interface ToastState {
   message: string;
   type: ToastType;
   isVisible: boolean;
+  action?: ToastAction;
+  duration?: number;
+}
+
+interface ToastOptions {
+  action?: ToastAction;
+  duration?: number;
 }
 
 export const useToast = () => {
@@ -14,13 +21,17 @@ export const useToast = () => {
     isVisible: false,
   });
 
-  const showToast = useCallback((message: string, type: ToastType = 'info') => {
-    setToast({
-      message,
-      type,
-      isVisible: true,
-    });
-  }, []);
+  const showToast = useCallback(
+    (message: string, type: ToastType = 'info', options: ToastOptions = {}) => {
+      setToast({
+        message,
+        type,
+        isVisible: true,
+        ...options,
+      });
+    },
+    []
+  );
 
   const hideToast = useCallback(() => {
     setToast((prev) => ({ ...prev, isVisible: false }));
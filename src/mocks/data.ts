@@ -0,0 +1,379 @@
+// Seeded in-memory dataset for the mock backend (see mocks/server.ts).
+// Dates are relative to today so the dashboard's "this week" / "next week"
+// views always have content.
+
+import {
+  Task,
+  DailyUpdate,
+  TaskAttachment,
+  ChecklistItem,
+  ProjectWorkflow,
+  AppNotification,
+  NotificationPreferences,
+  DigestSettings,
+  DigestTemplate,
+  TimeEntry,
+  TimesheetStatus,
+  CostRates,
+  BudgetMetric,
+} from "../types";
+import { UserRole } from "../services/session";
+
+export const MOCK_PASSWORD = "Password@123";
+
+export interface MockUser {
+  id: number;
+  username: string;
+  email: string;
+  password: string;
+  role: UserRole;
+  available_hours_per_week: number;
+}
+
+export interface MockProject {
+  id: number;
+  name: string;
+  description?: string;
+  status: "active" | "inactive" | "completed" | "dropped";
+  progress: number;
+  budget?: number;
+  estimated_hours?: number;
+  start_date?: string;
+  end_date?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MockTeamMember {
+  id: number;
+  project_id: number;
+  user_id: number;
+  allocated_hours_per_week: number;
+}
+
+export interface MockAssignment {
+  id: number;
+  project_id: number;
+  assigned_to_user_id: number;
+  assigned_by_user_id?: number;
+  assigned_at: string;
+}
+
+export type MockTask = Omit<
+  Task,
+  "assignee_name" | "project_name" | "attachments" | "parent_task_name" | "rollup"
+>;
+
+export type MockDigestTemplate = Omit<DigestTemplate, "updated_by_name"> & {
+  updated_by?: number;
+};
+
+export interface MockTimesheet {
+  user_id: number;
+  week_start: string;
+  status: TimesheetStatus;
+  submitted_at?: string | null;
+  reviewed_by?: number | null;
+  reviewed_at?: string | null;
+  review_note?: string | null;
+}
+
+// A task's estimate and state after a change; replayed day by day for a
+// project's burn charts
+export interface MockScopeEvent {
+  task_id: number;
+  task_name: string;
+  project_id: number;
+  at: string;
+  planned_hours: number;
+  completed: boolean;
+  // Deleted, or moved out of the project it was in
+  removed?: boolean;
+}
+
+export interface MockDatabase {
+  users: MockUser[];
+  projects: MockProject[];
+  projectTeam: MockTeamMember[];
+  assignments: MockAssignment[];
+  tasks: MockTask[];
+  dailyUpdates: DailyUpdate[];
+  taskAttachments: TaskAttachment[];
+  checklistItems: ChecklistItem[];
+  // Projects without an entry use the default workflow
+  workflows: ProjectWorkflow[];
+  notifications: AppNotification[];
+  // Types a user turned off or back on, by user id
+  notificationPreferences: Map<number, Partial<NotificationPreferences>>;
+  // Users without an entry get no digest
+  digestSettings: Map<number, DigestSettings>;
+  digestTemplates: MockDigestTemplate[];
+  timeEntries: TimeEntry[];
+  // Running timer by user id; a user has at most one
+  timers: Map<number, { task_id: number; started_at: string }>;
+  // Weeks without an entry are open
+  timesheets: MockTimesheet[];
+  costRates: CostRates;
+  // Budget thresholds a project is past and has been alerted on, so each
+  // crossing notifies once
+  budgetAlerts: { project_id: number; metric: BudgetMetric; threshold: number }[];
+  scopeEvents: MockScopeEvent[];
+  // refresh token -> user id
+  refreshTokens: Map<string, number>;
+  nextId: number;
+}
+
+const formatDate = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+// Monday of the current week plus an offset in days
+const weekDay = (offsetDays: number) => {
+  const today = new Date();
+  const dayOfWeek = today.getDay();
+  const monday = new Date(today);
+  monday.setDate(today.getDate() + (dayOfWeek === 0 ? -6 : 1 - dayOfWeek));
+  monday.setDate(monday.getDate() + offsetDays);
+  return formatDate(monday);
+};
+
+const timestamp = (offsetDays: number) => `${weekDay(offsetDays)}T09:00:00.000Z`;
+
+export const createSeedData = (): MockDatabase => {
+  const users: MockUser[] = [
+    { id: 1, username: "Alice Admin", email: "admin@nextrack.dev", role: "super_admin", available_hours_per_week: 40 },
+    { id: 2, username: "Mark Manager", email: "manager@nextrack.dev", role: "manager", available_hours_per_week: 40 },
+    { id: 3, username: "Tina Lead", email: "lead@nextrack.dev", role: "team_lead", available_hours_per_week: 40 },
+    { id: 4, username: "Evan Employee", email: "evan@nextrack.dev", role: "employee", available_hours_per_week: 40 },
+    { id: 5, username: "Erin Engineer", email: "erin@nextrack.dev", role: "employee", available_hours_per_week: 32 },
+    { id: 6, username: "Quinn Tester", email: "quinn@nextrack.dev", role: "employee", available_hours_per_week: 40 },
+  ].map((user) => ({ ...user, role: user.role as UserRole, password: MOCK_PASSWORD }));
+
+  const projects: MockProject[] = [
+    {
+      id: 1,
+      name: "Customer Portal",
+      description: "Self-service portal for customer accounts",
+      status: "active",
+      progress: 0,
+      budget: 50000,
+      estimated_hours: 600,
+      start_date: weekDay(-28),
+      end_date: weekDay(56),
+      created_at: timestamp(-28),
+      updated_at: timestamp(-28),
+    },
+    {
+      id: 2,
+      name: "Mobile App",
+      description: "iOS and Android companion app",
+      status: "active",
+      progress: 0,
+      budget: 80000,
+      estimated_hours: 900,
+      start_date: weekDay(-14),
+      end_date: weekDay(84),
+      created_at: timestamp(-14),
+      updated_at: timestamp(-14),
+    },
+    {
+      id: 3,
+      name: "Internal Tooling",
+      description: "Build and deployment scripts",
+      status: "inactive",
+      progress: 0,
+      budget: 10000,
+      estimated_hours: 120,
+      start_date: weekDay(-7),
+      end_date: weekDay(21),
+      created_at: timestamp(-7),
+      updated_at: timestamp(-7),
+    },
+  ];
+
+  const projectTeam: MockTeamMember[] = [
+    { id: 1, project_id: 1, user_id: 3, allocated_hours_per_week: 20 },
+    { id: 2, project_id: 1, user_id: 4, allocated_hours_per_week: 30 },
+    { id: 3, project_id: 1, user_id: 6, allocated_hours_per_week: 20 },
+    { id: 4, project_id: 2, user_id: 3, allocated_hours_per_week: 20 },
+    { id: 5, project_id: 2, user_id: 5, allocated_hours_per_week: 32 },
+    { id: 6, project_id: 2, user_id: 6, allocated_hours_per_week: 20 },
+    { id: 7, project_id: 3, user_id: 4, allocated_hours_per_week: 10 },
+  ];
+
+  const assignments: MockAssignment[] = [
+    { id: 1, project_id: 1, assigned_to_user_id: 2, assigned_by_user_id: 1, assigned_at: timestamp(-28) },
+    { id: 2, project_id: 2, assigned_to_user_id: 2, assigned_by_user_id: 1, assigned_at: timestamp(-14) },
+    { id: 3, project_id: 2, assigned_to_user_id: 3, assigned_by_user_id: 1, assigned_at: timestamp(-14) },
+  ];
+
+  // Series fields of the weekly portal sync (tasks 5, 13 and 14)
+  const portalSync = (index: number) => ({
+    recurrence_id: 5,
+    recurrence_index: index,
+    recurrence: { frequency: "weekly" as const, interval: 1, weekdays: [5], count: 3 },
+  });
+
+  const task = (
+    id: number,
+    fields: Partial<MockTask> & Pick<MockTask, "name" | "assignee_id" | "project_id" | "planned_hours">
+  ): MockTask => ({
+    id,
+    status: "todo",
+    priority: "p3",
+    actual_hours: 0,
+    task_type: "development",
+    created_at: timestamp(-7),
+    updated_at: timestamp(-7),
+    ...fields,
+  });
+
+  const tasks: MockTask[] = [
+    task(1, { name: "Login page redesign", assignee_id: 4, project_id: 1, planned_hours: 12, status: "completed", priority: "p2", due_date: weekDay(-3), work_description: "Shipped with new layout", created_at: timestamp(-28) }),
+    task(2, { name: "Account settings API", assignee_id: 4, project_id: 1, planned_hours: 16, status: "in_progress", priority: "p1", due_date: weekDay(2), created_at: timestamp(-28) }),
+    task(3, { name: "Portal regression suite", assignee_id: 6, project_id: 1, planned_hours: 10, status: "todo", task_type: "testing", due_date: weekDay(4), created_at: timestamp(-28) }),
+    task(4, { name: "Billing history view", assignee_id: 4, project_id: 1, planned_hours: 8, status: "blocked", priority: "p2", due_date: weekDay(3), work_description: "Waiting on billing API credentials", dependent_user_id: 2, created_at: timestamp(-28) }),
+    task(5, { name: "Weekly portal sync", assignee_id: 3, project_id: 1, planned_hours: 2, task_type: "meeting", due_date: weekDay(4), ...portalSync(0) }),
+    task(6, { name: "Push notifications", assignee_id: 5, project_id: 2, planned_hours: 20, status: "in_progress", priority: "p1", due_date: weekDay(8), created_at: timestamp(-14) }),
+    task(7, { name: "Offline mode design", assignee_id: 5, project_id: 2, planned_hours: 6, status: "completed", task_type: "design", due_date: weekDay(1), created_at: timestamp(-14) }),
+    task(8, { name: "App store screenshots", assignee_id: 6, project_id: 2, planned_hours: 4, task_type: "design", priority: "p4", due_date: weekDay(10), blocked_by_ids: [6, 7], created_at: timestamp(-14) }),
+    task(9, { name: "Code review: auth module", assignee_id: 3, project_id: 2, planned_hours: 3, task_type: "review", due_date: weekDay(9), created_at: timestamp(-14) }),
+    task(10, { name: "CI pipeline docs", assignee_id: 4, project_id: 3, planned_hours: 5, task_type: "documentation", priority: "p4", due_date: weekDay(11) }),
+    // Subtasks of "Account settings API"
+    task(11, { name: "Email change endpoint", assignee_id: 4, project_id: 1, planned_hours: 4, status: "completed", due_date: weekDay(2), parent_task_id: 2 }),
+    task(12, { name: "Settings API tests", assignee_id: 6, project_id: 1, planned_hours: 3, task_type: "testing", due_date: weekDay(2), parent_task_id: 2 }),
+    // Later occurrences of the weekly portal sync
+    task(13, { name: "Weekly portal sync", assignee_id: 3, project_id: 1, planned_hours: 2, task_type: "meeting", due_date: weekDay(11), ...portalSync(1) }),
+    task(14, { name: "Weekly portal sync", assignee_id: 3, project_id: 1, planned_hours: 2, task_type: "meeting", due_date: weekDay(18), ...portalSync(2) }),
+  ];
+
+  // Each task as added, the re-estimate of "Account settings API" from 12h
+  // and the completed tasks being done
+  const scopeEvents: MockScopeEvent[] = [
+    ...tasks.map((t) => ({
+      task_id: t.id,
+      task_name: t.name,
+      project_id: t.project_id,
+      at: t.created_at!,
+      planned_hours: t.id === 2 ? 12 : t.planned_hours,
+      completed: false,
+    })),
+    { task_id: 2, task_name: "Account settings API", project_id: 1, at: timestamp(-10), planned_hours: 16, completed: false },
+    { task_id: 7, task_name: "Offline mode design", project_id: 2, at: timestamp(-4), planned_hours: 6, completed: true },
+    { task_id: 1, task_name: "Login page redesign", project_id: 1, at: timestamp(-3), planned_hours: 12, completed: true },
+    { task_id: 11, task_name: "Email change endpoint", project_id: 1, at: timestamp(0), planned_hours: 4, completed: true },
+  ];
+
+  // Evan's and Erin's time last week and so far this week. This week's
+  // entries are all on Monday so none is ever in the future.
+  const timeEntries: TimeEntry[] = [
+    { id: 1, task_id: 1, user_id: 4, date: weekDay(-7), hours: 6, note: "Layout and components", created_at: timestamp(-7) },
+    { id: 2, task_id: 1, user_id: 4, date: weekDay(-5), hours: 4, note: "Review fixes", created_at: timestamp(-5) },
+    { id: 3, task_id: 7, user_id: 5, date: weekDay(-6), hours: 4, created_at: timestamp(-6) },
+    { id: 4, task_id: 7, user_id: 5, date: weekDay(-4), hours: 3, note: "Sync conflict states", created_at: timestamp(-4) },
+    { id: 5, task_id: 11, user_id: 4, date: weekDay(0), hours: 3, created_at: timestamp(0) },
+    { id: 6, task_id: 2, user_id: 4, date: weekDay(0), hours: 2.5, note: "Endpoint scaffolding", created_at: timestamp(0) },
+    { id: 7, task_id: 6, user_id: 5, date: weekDay(0), hours: 4, note: "FCM on Android", created_at: timestamp(0) },
+  ];
+  // Actual hours are always the logged time
+  tasks.forEach((t) => {
+    t.actual_hours = timeEntries
+      .filter((entry) => entry.task_id === t.id)
+      .reduce((sum, entry) => sum + entry.hours, 0);
+  });
+
+  const timesheets: MockTimesheet[] = [
+    { user_id: 4, week_start: weekDay(-7), status: "approved", submitted_at: timestamp(-3), reviewed_by: 2, reviewed_at: timestamp(0) },
+    { user_id: 5, week_start: weekDay(-7), status: "submitted", submitted_at: timestamp(-3) },
+  ];
+
+  const dailyUpdates: DailyUpdate[] = [
+    { id: 1, task_id: 2, user_id: 4, comment: "Endpoints scaffolded, starting validation.", created_at: timestamp(0), updated_at: timestamp(0) },
+    { id: 2, task_id: 2, user_id: 3, comment: "Remember to cover the email change flow.", created_at: timestamp(1), updated_at: timestamp(1) },
+    { id: 3, task_id: 6, user_id: 5, comment: "FCM integration working on Android.", created_at: timestamp(0), updated_at: timestamp(0) },
+    { id: 4, task_id: 2, user_id: 4, parent_id: 2, comment: "@Tina Lead will do, adding it to the **test plan**.", mentions: [3], created_at: timestamp(1), updated_at: timestamp(1) },
+  ];
+
+  // Files are served from /public so previews work without a real backend
+  const taskAttachments: TaskAttachment[] = [
+    { id: 1, task_id: 1, kind: "file", file_name: "login-mockup.png", mime_type: "image/png", size: 5347, url: "/logo192.png", uploaded_by: 4, uploaded_at: timestamp(-5) },
+    { id: 2, task_id: 1, kind: "link", file_name: "https://github.com/nextrack/portal/pull/42", url: "https://github.com/nextrack/portal/pull/42", uploaded_by: 4, uploaded_at: timestamp(-3) },
+    { id: 3, task_id: 2, kind: "file", file_name: "account-settings-spec.png", mime_type: "image/png", size: 9664, url: "/logo512.png", uploaded_by: 3, uploaded_at: timestamp(0) },
+  ];
+
+  const checklistItems: ChecklistItem[] = [
+    { id: 1, task_id: 2, text: "Update the OpenAPI spec", done: true, created_at: timestamp(0) },
+    { id: 2, task_id: 2, text: "Add rate limiting", done: false, created_at: timestamp(0) },
+    { id: 3, task_id: 2, text: "Security review", done: false, created_at: timestamp(0) },
+  ];
+
+  // The Customer Portal team reviews and QAs work before it is done
+  const workflows: ProjectWorkflow[] = [
+    {
+      project_id: 1,
+      states: [
+        { key: "todo", name: "To Do", category: "todo", transitions: ["in_progress", "blocked"] },
+        { key: "in_progress", name: "In Progress", category: "in_progress", transitions: ["todo", "in_review", "blocked"], wip_limit: 1 },
+        { key: "in_review", name: "In Review", category: "in_progress", transitions: ["in_progress", "ready_for_qa", "blocked"], wip_limit: 2 },
+        { key: "ready_for_qa", name: "Ready for QA", category: "in_progress", transitions: ["in_progress", "completed", "blocked"] },
+        { key: "blocked", name: "Blocked", category: "blocked", transitions: ["todo", "in_progress"] },
+        { key: "completed", name: "Done", category: "completed", transitions: ["in_progress"] },
+      ],
+      rules: [
+        { to: "in_review", requires: ["comment"] },
+        { to: "blocked", requires: ["reason"] },
+        { to: "completed", requires: ["actual_hours", "comment"] },
+      ],
+    },
+  ];
+
+  const notifications: AppNotification[] = [
+    { id: 1, user_id: 4, type: "task_assigned", message: 'Mark Manager assigned you "CI pipeline docs"', task_id: 10, project_id: 3, actor_id: 2, read: true, created_at: timestamp(-7) },
+    { id: 2, user_id: 4, type: "daily_update", message: 'Tina Lead commented on "Account settings API"', task_id: 2, project_id: 1, actor_id: 3, read: false, created_at: timestamp(1) },
+  ];
+
+  const digestTemplates: MockDigestTemplate[] = [
+    {
+      frequency: "daily",
+      subject: "Your NexTrack tasks for {{date}}",
+      body: "Hi {{name}},\n\nHere is what needs your attention {{period}} ({{task_count}} tasks).\n\n{{sections}}\n\nChange or turn off this email in Profile Settings.",
+      updated_at: timestamp(-28),
+    },
+    {
+      frequency: "weekly",
+      subject: "Your week in NexTrack: {{task_count}} tasks",
+      body: "Hi {{name}},\n\nYour open work for the week of {{date}}.\n\n{{sections}}\n\nChange or turn off this email in Profile Settings.",
+      updated_at: timestamp(-28),
+    },
+  ];
+
+  return {
+    users,
+    projects,
+    projectTeam,
+    assignments,
+    tasks,
+    dailyUpdates,
+    taskAttachments,
+    checklistItems,
+    workflows,
+    notifications,
+    notificationPreferences: new Map(),
+    digestSettings: new Map(),
+    digestTemplates,
+    timeEntries,
+    timers: new Map(),
+    timesheets,
+    costRates: {
+      roles: { super_admin: 2000, manager: 1500, team_lead: 1200, employee: 800 },
+      users: { 5: 950 },
+    },
+    budgetAlerts: [],
+    scopeEvents,
+    refreshTokens: new Map(),
+    nextId: 100,
+  };
+};
@@ -0,0 +1,2433 @@
+// In-browser mock backend
+// Implements every route used by services/api.ts against the seeded
+// in-memory dataset in mocks/data.ts. Enabled with `mockApi: true` in the
+// runtime config (see config.ts); httpClient then sends requests here
+// instead of the network. Data resets on page reload.
+
+import {
+  AppNotification,
+  BudgetAlert,
+  BurnDay,
+  DailyUpdate,
+  DigestSection,
+  DigestSettings,
+  NotificationPreferences,
+  NotificationType,
+  ProjectBurnData,
+  ProjectFinancials,
+  ProjectWorkflow,
+  RealtimeEvent,
+  RealtimeResource,
+  ScopeChange,
+  TaskAttachment,
+  TimeEntry,
+  TimesheetExportRow,
+  WeeklyData,
+} from "../types";
+import { decodeToken } from "../services/session";
+import { UploadProgressHandler } from "../services/httpClient";
+import { ChannelHandlers } from "../services/realtime";
+import { expandRecurrence, validateRecurrence } from "../utils/recurrence";
+import { dueDateError } from "../utils/gantt";
+import {
+  elapsedHours,
+  localToday,
+  roundHours,
+  toDateString,
+  weekDays,
+  weekStartOf,
+} from "../utils/timesheet";
+import {
+  canTransition,
+  defaultWorkflow,
+  missingRequirements,
+  REQUIREMENT_LABELS,
+  requirementsFor,
+  stateOf,
+  validateWorkflow,
+  WORKFLOW_CATEGORIES,
+} from "../utils/workflow";
+import {
+  createSeedData,
+  MockDatabase,
+  MockDigestTemplate,
+  MockProject,
+  MockScopeEvent,
+  MockTask,
+  MockUser,
+} from "./data";
+
+const MOCK_SIGNATURE = "mock-signature";
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+let db: MockDatabase = createSeedData();
+let latencyMs = 150;
+
+export const resetMockDatabase = () => {
+  db = createSeedData();
+};
+
+export const getMockDatabase = () => db;
+
+// Tests set this to 0
+export const setMockLatency = (ms: number) => {
+  latencyMs = ms;
+};
+
+interface MockRequest {
+  method: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+  user: MockUser | null;
+}
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+}
+
+type Handler = (req: MockRequest) => MockResponse;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+  isPublic: boolean;
+}
+
+const routes: Route[] = [];
+
+const route = (method: string, path: string, handler: Handler, isPublic = false) => {
+  const keys: string[] = [];
+  const pattern = new RegExp(
+    "^" +
+      path.replace(/:([a-zA-Z]+)/g, (_, key) => {
+        keys.push(key);
+        return "([^/]+)";
+      }) +
+      "$"
+  );
+  routes.push({ method, pattern, keys, handler, isPublic });
+};
+
+const ok = (body?: unknown): MockResponse => ({ status: 200, body });
+const created = (body?: unknown): MockResponse => ({ status: 201, body });
+const fail = (status: number, message: string, extra: Record<string, string> = {}): MockResponse => ({
+  status,
+  body: { message, ...extra },
+});
+
+const nextId = () => db.nextId++;
+const now = () => new Date().toISOString();
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const csvIds = (value: string | null) =>
+  value ? value.split(",").map(Number).filter((id) => !isNaN(id)) : [];
+
+// --- Tokens ---------------------------------------------------------------
+
+const base64UrlEncode = (value: object) =>
+  btoa(unescape(encodeURIComponent(JSON.stringify(value))))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const createAccessToken = (user: MockUser) =>
+  [
+    base64UrlEncode({ alg: "none", typ: "JWT" }),
+    base64UrlEncode({
+      sub: user.id,
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      role: user.role,
+      exp: Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL_SECONDS,
+    }),
+    MOCK_SIGNATURE,
+  ].join(".");
+
+const issueTokens = (user: MockUser) => {
+  const refreshToken = `mock-refresh-${user.id}-${Math.random().toString(36).slice(2)}`;
+  db.refreshTokens.set(refreshToken, user.id);
+  return { accessToken: createAccessToken(user), refreshToken };
+};
+
+const authenticate = (authorization: string | null): MockUser | null => {
+  const token = authorization?.replace(/^Bearer /, "");
+  if (!token || token.split(".")[2] !== MOCK_SIGNATURE) return null;
+  const claims = decodeToken(token);
+  if (!claims?.exp || claims.exp <= Date.now() / 1000) return null;
+  return db.users.find((u) => u.id === Number(claims.id ?? claims.sub)) || null;
+};
+
+// --- Event stream ---------------------------------------------------------
+
+// Stand-in for GET /events: every connected client hears about every change,
+// except notifications, which only reach their recipient. Streams are kept
+// with the id of the user who opened them.
+const eventStreams = new Map<ChannelHandlers, number>();
+
+const publish = (
+  resource: RealtimeResource,
+  action: RealtimeEvent["action"],
+  id: number,
+  actor: MockUser | null,
+  extra: Pick<RealtimeEvent, "task_id" | "changes" | "data"> = {},
+  recipientId?: number
+) => {
+  if (!actor) return;
+  const event: RealtimeEvent = {
+    resource,
+    action,
+    id,
+    ...extra,
+    actor: { id: actor.id, username: actor.username },
+    at: now(),
+  };
+  // Delivered after the response, as over a real connection
+  eventStreams.forEach((userId, stream) => {
+    if (recipientId === undefined || recipientId === userId) {
+      setTimeout(() => stream.onEvent(event), latencyMs);
+    }
+  });
+};
+
+// Single-use tickets for opening a stream, valid for half a minute
+const STREAM_TICKET_TTL_MS = 30000;
+const streamTickets = new Map<string, { userId: number; expires: number }>();
+
+export const mockRealtimeChannel = (ticket: string, handlers: ChannelHandlers) => {
+  const entry = streamTickets.get(ticket);
+  streamTickets.delete(ticket);
+  const user =
+    entry && entry.expires > Date.now() ? db.users.find((u) => u.id === entry.userId) : undefined;
+  if (!user) {
+    setTimeout(handlers.onError, latencyMs);
+    return () => {};
+  }
+  eventStreams.set(handlers, user.id);
+  setTimeout(() => {
+    if (eventStreams.has(handlers)) handlers.onOpen();
+  }, latencyMs);
+  return () => {
+    eventStreams.delete(handlers);
+  };
+};
+
+// --- Lookups and shapes ---------------------------------------------------
+
+const findUser = (id: number) => db.users.find((u) => u.id === id);
+const findProject = (id: number) => db.projects.find((p) => p.id === id);
+const publicUser = ({ password, ...user }: MockUser) => user;
+
+const teamUserIds = (projectIds: number[]) =>
+  new Set(
+    db.projectTeam
+      .filter((m) => projectIds.includes(m.project_id))
+      .map((m) => m.user_id)
+  );
+
+// Projects a user can see: managers/team leads their assignments,
+// employees their team memberships, super admins everything
+const visibleProjectIds = (userId?: number, role?: string | null): number[] => {
+  if (userId && (role === "manager" || role === "team_lead")) {
+    return db.assignments
+      .filter((a) => a.assigned_to_user_id === userId)
+      .map((a) => a.project_id);
+  }
+  if (userId && role === "employee") {
+    return db.projectTeam.filter((m) => m.user_id === userId).map((m) => m.project_id);
+  }
+  return db.projects.map((p) => p.id);
+};
+
+const projectsOfUser = (req: MockRequest) => {
+  const userId = Number(req.query.get("userId")) || undefined;
+  const role = req.query.get("userRole");
+  return visibleProjectIds(userId, role);
+};
+
+const rollupOf = (task: MockTask) => {
+  const subtasks = db.tasks.filter((t) => t.parent_task_id === task.id);
+  const checklist = db.checklistItems.filter((item) => item.task_id === task.id);
+  return {
+    subtask_count: subtasks.length,
+    completed_subtasks: subtasks.filter((t) => t.status === "completed").length,
+    checklist_total: checklist.length,
+    checklist_done: checklist.filter((item) => item.done).length,
+    planned_hours: subtasks.reduce((sum, t) => sum + Number(t.planned_hours), Number(task.planned_hours)),
+    actual_hours: subtasks.reduce((sum, t) => sum + Number(t.actual_hours || 0), Number(task.actual_hours || 0)),
+  };
+};
+
+const enrichTask = (task: MockTask) => ({
+  ...task,
+  assignee_name: findUser(task.assignee_id)?.username,
+  project_name: findProject(task.project_id)?.name,
+  parent_task_name: task.parent_task_id
+    ? db.tasks.find((t) => t.id === task.parent_task_id)?.name
+    : undefined,
+  rollup: rollupOf(task),
+});
+
+const enrichProject = (project: MockProject) => {
+  const tasks = db.tasks.filter((t) => t.project_id === project.id);
+  const completed = tasks.filter((t) => t.status === "completed").length;
+  return {
+    ...project,
+    total_tasks: tasks.length,
+    team_members_count: db.projectTeam.filter((m) => m.project_id === project.id).length,
+    calculated_progress: tasks.length ? Math.round((completed / tasks.length) * 100) : 0,
+  };
+};
+
+const projectNamesOf = (userId: number) =>
+  db.projectTeam
+    .filter((m) => m.user_id === userId)
+    .map((m) => findProject(m.project_id)?.name)
+    .filter(Boolean)
+    .join(",");
+
+const toEmployee = (user: MockUser) => ({
+  ...publicUser(user),
+  projects: projectNamesOf(user.id),
+});
+
+const toAssignment = (assignment: MockDatabase["assignments"][number]) => {
+  const assignee = findUser(assignment.assigned_to_user_id);
+  return {
+    ...assignment,
+    project_name: findProject(assignment.project_id)?.name,
+    assigned_to_username: assignee?.username,
+    assigned_to_email: assignee?.email,
+    assigned_to_role: assignee?.role,
+  };
+};
+
+const statusColor = (status: string) => {
+  if (status === "completed") return "#10b981";
+  if (status === "in_progress") return "#06b6d4";
+  if (status === "blocked") return "#ef4444";
+  return "#6b7280";
+};
+
+// ISO week label, e.g. "2026-W42"
+const isoWeek = (dateStr: string) => {
+  const date = new Date(`${dateStr.slice(0, 10)}T00:00:00Z`);
+  const day = date.getUTCDay() || 7;
+  date.setUTCDate(date.getUTCDate() + 4 - day);
+  const yearStart = new Date(Date.UTC(date.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((date.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+  return `${date.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+};
+
+const inRange = (date: string | undefined, start?: string | null, end?: string | null) => {
+  if (!date) return false;
+  const day = date.slice(0, 10);
+  return (!start || day >= start) && (!end || day <= end);
+};
+
+const addDays = (dateStr: string, days: number) => {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+const workflowOf = (projectId: number): ProjectWorkflow =>
+  db.workflows.find((w) => w.project_id === projectId) || defaultWorkflow(projectId);
+
+// Counts by workflow category, plus a breakdown by state. States of
+// different projects that share a name are counted together.
+const taskCounts = (tasks: MockTask[]) => {
+  const byCategory = (category: string) => tasks.filter((t) => t.status === category).length;
+  const states = new Map<string, { name: string; category: string; count: number }>();
+  tasks.forEach((t) => {
+    const state = stateOf(t, workflowOf(t.project_id));
+    const entry = states.get(state.name) || { name: state.name, category: state.category, count: 0 };
+    entry.count += 1;
+    states.set(state.name, entry);
+  });
+  const categoryOrder = WORKFLOW_CATEGORIES.map((c) => c.value as string);
+  return {
+    total: tasks.length,
+    todo: byCategory("todo"),
+    in_progress: byCategory("in_progress"),
+    completed: byCategory("completed"),
+    blocked: byCategory("blocked"),
+    pending: byCategory("todo") + byCategory("in_progress"),
+    states: Array.from(states.values()).sort(
+      (a, b) => categoryOrder.indexOf(a.category) - categoryOrder.indexOf(b.category)
+    ),
+  };
+};
+
+// Weekly metrics as described in DASHBOARD_CALCULATIONS.md
+const weeklyMetrics = (tasks: MockTask[], totalAvailable: number): WeeklyData[] => {
+  const weeks = new Map<string, MockTask[]>();
+  tasks
+    .filter((t) => t.due_date)
+    .forEach((t) => {
+      const week = isoWeek(t.due_date as string);
+      weeks.set(week, [...(weeks.get(week) || []), t]);
+    });
+
+  return Array.from(weeks.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week, weekTasks]) => {
+      const planned = weekTasks.reduce((sum, t) => sum + Number(t.planned_hours || 0), 0);
+      const actual = weekTasks.reduce((sum, t) => sum + Number(t.actual_hours || 0), 0);
+      const assignees = new Set(weekTasks.map((t) => t.assignee_id));
+      const available = Array.from(assignees).reduce(
+        (sum, id) => sum + (findUser(id)?.available_hours_per_week || 0),
+        0
+      );
+      const rated = weekTasks.filter((t) => t.productivity_rating != null);
+      const ratedPlanned = rated.reduce((sum, t) => sum + Number(t.planned_hours), 0);
+      const productivity = ratedPlanned > 0
+        ? rated.reduce((sum, t) => sum + Number(t.productivity_rating) * Number(t.planned_hours), 0) / ratedPlanned
+        : planned > 0 ? (actual / planned) * 100 : 0;
+
+      return {
+        week,
+        utilization: available > 0 ? round1((planned / available) * 100) : 0,
+        completed: weekTasks.filter((t) => t.status === "completed").length,
+        hours: actual,
+        productivity: round1(productivity),
+        plannedHours: planned,
+        availableHours: totalAvailable - planned,
+        totalAvailableHours: totalAvailable,
+      };
+    });
+};
+
+const dashboardScope = (
+  req: MockRequest,
+  filters: { projectId?: string | null; employeeId?: string | null; startDate?: string | null; endDate?: string | null }
+) => {
+  const userId = Number(req.query.get("userId")) || req.user?.id;
+  const role = req.query.get("userRole") || req.user?.role;
+  const visible = visibleProjectIds(userId, role);
+  const projectIds = csvIds(filters.projectId || null).filter((id) => visible.includes(id));
+  const scopedProjects = projectIds.length ? projectIds : visible;
+  const employeeIds = csvIds(filters.employeeId || null);
+
+  const tasks = db.tasks.filter(
+    (t) =>
+      scopedProjects.includes(t.project_id) &&
+      (employeeIds.length === 0 || employeeIds.includes(t.assignee_id)) &&
+      ((!filters.startDate && !filters.endDate) || inRange(t.due_date, filters.startDate, filters.endDate))
+  );
+
+  const people = employeeIds.length
+    ? employeeIds
+    : Array.from(teamUserIds(scopedProjects));
+  const totalAvailable = people.reduce(
+    (sum, id) => sum + (findUser(id)?.available_hours_per_week || 0),
+    0
+  );
+  return { tasks, totalAvailable };
+};
+
+// --- Auth -----------------------------------------------------------------
+
+route("POST", "/auth/login", ({ body }) => {
+  const user = db.users.find(
+    (u) => u.email.toLowerCase() === String(body?.email || "").toLowerCase()
+  );
+  if (!user || user.password !== body?.password) {
+    return fail(401, "Invalid email or password");
+  }
+  return ok({ ...issueTokens(user), user: publicUser(user) });
+}, true);
+
+route("POST", "/auth/refresh", ({ body }) => {
+  const userId = db.refreshTokens.get(body?.refreshToken);
+  const user = userId ? findUser(userId) : undefined;
+  if (!user) return fail(401, "Session expired");
+  db.refreshTokens.delete(body.refreshToken);
+  return ok(issueTokens(user));
+}, true);
+
+route("POST", "/auth/logout", ({ body }) => {
+  db.refreshTokens.delete(body?.refreshToken);
+  return ok({ message: "Logged out" });
+}, true);
+
+route("POST", "/events/ticket", ({ user }) => {
+  const ticket = `mock-ticket-${user!.id}-${Math.random().toString(36).slice(2)}`;
+  streamTickets.set(ticket, { userId: user!.id, expires: Date.now() + STREAM_TICKET_TTL_MS });
+  return created({ ticket });
+});
+
+route("POST", "/auth/forgot/start", () =>
+  ok({ message: "New password sent to your registered email" }), true);
+
+route("POST", "/auth/forgot/verify", () => ok({ message: "OTP verified" }), true);
+
+route("POST", "/auth/forgot/reset", ({ body }) => {
+  const user = db.users.find((u) => u.username === body?.username);
+  if (!user) return fail(404, "User not found");
+  user.password = body.newPassword;
+  return ok({ message: "Password reset successfully" });
+}, true);
+
+route("POST", "/auth/change-password", ({ body }) => {
+  const user = findUser(Number(body?.userId));
+  if (!user) return fail(404, "User not found");
+  if (user.password !== body.currentPassword) {
+    return fail(400, "Current password is incorrect");
+  }
+  user.password = body.newPassword;
+  return ok({ message: "Password changed successfully" });
+});
+
+// --- Users ----------------------------------------------------------------
+
+const duplicateUserError = (body: any, excludeId?: number) => {
+  const others = db.users.filter((u) => u.id !== excludeId);
+  if (body.username && others.some((u) => u.username.toLowerCase() === body.username.toLowerCase())) {
+    return fail(409, "Username already exists", { type: "duplicate_username", field: "username" });
+  }
+  if (body.email && others.some((u) => u.email.toLowerCase() === body.email.toLowerCase())) {
+    return fail(409, "Email already exists", { type: "duplicate_email", field: "email" });
+  }
+  return null;
+};
+
+route("GET", "/users", (req) => {
+  const role = req.query.get("userRole");
+  if (role === "manager" || role === "team_lead") {
+    const members = teamUserIds(projectsOfUser(req));
+    return ok(db.users.filter((u) => members.has(u.id)).map(publicUser));
+  }
+  return ok(db.users.map(publicUser));
+});
+
+route("POST", "/users", ({ body }) => {
+  if (!body?.username || !body?.email || !body?.role) {
+    return fail(400, "Username, email and role are required");
+  }
+  const duplicate = duplicateUserError(body);
+  if (duplicate) return duplicate;
+  const user: MockUser = {
+    id: nextId(),
+    username: body.username,
+    email: body.email,
+    password: body.password || "",
+    role: body.role,
+    available_hours_per_week: Number(body.available_hours_per_week) || 40,
+  };
+  db.users.push(user);
+  return created({ id: user.id, message: "User created successfully" });
+});
+
+route("PUT", "/users/:id", ({ params, body }) => {
+  const user = findUser(Number(params.id));
+  if (!user) return fail(404, "User not found");
+  const duplicate = duplicateUserError(body, user.id);
+  if (duplicate) return duplicate;
+  user.username = body.username ?? user.username;
+  user.email = body.email ?? user.email;
+  user.role = body.role ?? user.role;
+  if (body.available_hours_per_week !== undefined) {
+    user.available_hours_per_week = Number(body.available_hours_per_week);
+  }
+  return ok({ message: "User updated successfully" });
+});
+
+route("DELETE", "/users/:id", ({ params }) => {
+  const id = Number(params.id);
+  if (!findUser(id)) return fail(404, "User not found");
+  db.users = db.users.filter((u) => u.id !== id);
+  db.projectTeam = db.projectTeam.filter((m) => m.user_id !== id);
+  db.assignments = db.assignments.filter((a) => a.assigned_to_user_id !== id);
+  return ok({ message: "User deleted successfully" });
+});
+
+route("GET", "/users/:id/projects", ({ params }) => {
+  const ids = visibleProjectIds(Number(params.id), "employee");
+  return ok(db.projects.filter((p) => ids.includes(p.id)).map(enrichProject));
+});
+
+route("GET", "/users/:id/projects/:projectId", ({ params }) => {
+  const user = findUser(Number(params.id));
+  const project = findProject(Number(params.projectId));
+  const membership = db.projectTeam.find(
+    (m) => m.user_id === user?.id && m.project_id === project?.id
+  );
+  if (!user || !project || !membership) return fail(404, "Project not found");
+  return ok({
+    ...enrichProject(project),
+    allocated_hours_per_week: membership.allocated_hours_per_week,
+    team_member_role: user.role,
+    available_hours: user.available_hours_per_week,
+  });
+});
+
+route("GET", "/users/:id/tasks", ({ params }) =>
+  ok(db.tasks.filter((t) => t.assignee_id === Number(params.id)).map(enrichTask)));
+
+route("GET", "/users/:id/projects/:projectId/tasks", ({ params }) =>
+  ok(
+    db.tasks
+      .filter((t) => t.assignee_id === Number(params.id) && t.project_id === Number(params.projectId))
+      .map(enrichTask)
+  ));
+
+// --- Team -----------------------------------------------------------------
+
+route("GET", "/team", () =>
+  ok(
+    db.users
+      .filter((u) => u.role !== "super_admin")
+      .map((user) => {
+        const tasks = db.tasks.filter((t) => t.assignee_id === user.id);
+        const open = tasks.filter((t) => t.status !== "completed");
+        const planned = open.reduce((sum, t) => sum + Number(t.planned_hours), 0);
+        return {
+          id: user.id,
+          name: user.username,
+          role: user.role,
+          available_hours: user.available_hours_per_week,
+          status: "online",
+          tasks_count: tasks.length,
+          planned_hours: planned,
+          productivity: 0,
+          utilization: user.available_hours_per_week
+            ? round1((planned / user.available_hours_per_week) * 100)
+            : 0,
+          projects: projectNamesOf(user.id),
+        };
+      })
+  ));
+
+// --- Projects -------------------------------------------------------------
+
+route("GET", "/projects", (req) => {
+  const ids = projectsOfUser(req);
+  return ok(db.projects.filter((p) => ids.includes(p.id)).map(enrichProject));
+});
+
+route("POST", "/projects", ({ body, user }) => {
+  if (!body?.name) return fail(400, "Project name is required");
+  const project: MockProject = {
+    id: nextId(),
+    name: body.name,
+    description: body.description,
+    status: body.status || "active",
+    progress: 0,
+    budget: body.budget,
+    estimated_hours: body.estimated_hours,
+    start_date: body.start_date,
+    end_date: body.end_date,
+    created_at: now(),
+    updated_at: now(),
+  };
+  db.projects.push(project);
+  publish("project", "created", project.id, user, { data: enrichProject(project) });
+  return created({ id: project.id, message: "Project created successfully" });
+});
+
+route("PUT", "/projects/:id", ({ params, body, user }) => {
+  const project = findProject(Number(params.id));
+  if (!project) return fail(404, "Project not found");
+  Object.assign(project, body, { id: project.id, updated_at: now() });
+  publish("project", "updated", project.id, user, {
+    changes: Object.keys(body || {}),
+    data: enrichProject(project),
+  });
+  checkBudgetAlerts(project.id, user);
+  return ok({ message: "Project updated successfully" });
+});
+
+route("DELETE", "/projects/:id", ({ params, user }) => {
+  const id = Number(params.id);
+  if (!findProject(id)) return fail(404, "Project not found");
+  const taskIds = db.tasks.filter((t) => t.project_id === id).map((t) => t.id);
+  db.projects = db.projects.filter((p) => p.id !== id);
+  db.tasks = db.tasks.filter((t) => t.project_id !== id);
+  db.dailyUpdates = db.dailyUpdates.filter((u) => !taskIds.includes(u.task_id));
+  db.projectTeam = db.projectTeam.filter((m) => m.project_id !== id);
+  db.assignments = db.assignments.filter((a) => a.project_id !== id);
+  db.budgetAlerts = db.budgetAlerts.filter((a) => a.project_id !== id);
+  db.scopeEvents = db.scopeEvents.filter((e) => !taskIds.includes(e.task_id));
+  publish("project", "deleted", id, user);
+  taskIds.forEach((taskId) => publish("task", "deleted", taskId, user));
+  return ok({ message: "Project deleted successfully" });
+});
+
+route("GET", "/projects/:id/team", ({ params }) => {
+  const projectId = Number(params.id);
+  if (!findProject(projectId)) return fail(404, "Project not found");
+  return ok(
+    db.projectTeam
+      .filter((m) => m.project_id === projectId)
+      .map((member) => {
+        const user = findUser(member.user_id);
+        return {
+          ...member,
+          team_member_id: member.user_id,
+          team_member_name: user?.username,
+          team_member_role: user?.role,
+          username: user?.username,
+          email: user?.email,
+        };
+      })
+  );
+});
+
+route("GET", "/projects/:id/available-team", ({ params }) => {
+  const members = teamUserIds([Number(params.id)]);
+  return ok(
+    db.users
+      .filter((u) => u.role !== "super_admin" && !members.has(u.id))
+      .map((user) => ({
+        user_id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        team_member_id: user.id,
+        name: user.username,
+      }))
+  );
+});
+
+route("POST", "/projects/:id/team", ({ params, body, user }) => {
+  const projectId = Number(params.id);
+  const userId = Number(body?.user_id);
+  if (!findProject(projectId) || !findUser(userId)) {
+    return fail(404, "Project or user not found");
+  }
+  if (teamUserIds([projectId]).has(userId)) {
+    return fail(400, "User is already a member of this project");
+  }
+  db.projectTeam.push({
+    id: nextId(),
+    project_id: projectId,
+    user_id: userId,
+    allocated_hours_per_week: Number(body.allocated_hours_per_week) || 0,
+  });
+  publish("team", "created", projectId, user);
+  return created({ message: "Team member added successfully" });
+});
+
+route("DELETE", "/projects/:id/team/:userId", ({ params, user }) => {
+  const before = db.projectTeam.length;
+  db.projectTeam = db.projectTeam.filter(
+    (m) => !(m.project_id === Number(params.id) && m.user_id === Number(params.userId))
+  );
+  if (db.projectTeam.length === before) return fail(404, "Team member not found");
+  publish("team", "deleted", Number(params.id), user);
+  return ok({ message: "Team member removed successfully" });
+});
+
+route("PUT", "/projects/:id/team/:userId", ({ params, body, user }) => {
+  const member = db.projectTeam.find(
+    (m) => m.project_id === Number(params.id) && m.user_id === Number(params.userId)
+  );
+  if (!member) return fail(404, "Team member not found");
+  member.allocated_hours_per_week = Number(body?.allocated_hours_per_week) || 0;
+  publish("team", "updated", member.project_id, user);
+  return ok({ message: "Team member updated successfully" });
+});
+
+route("GET", "/projects/:id/workflow", ({ params }) => {
+  const projectId = Number(params.id);
+  if (!findProject(projectId)) return fail(404, "Project not found");
+  return ok(workflowOf(projectId));
+});
+
+route("PUT", "/projects/:id/workflow", ({ params, body, user }) => {
+  const projectId = Number(params.id);
+  if (!findProject(projectId)) return fail(404, "Project not found");
+  if (user?.role === "employee") return fail(403, "Only managers can change workflows");
+  const workflow: ProjectWorkflow = {
+    project_id: projectId,
+    states: body?.states || [],
+    rules: body?.rules || [],
+  };
+  const error = validateWorkflow(workflow);
+  if (error) return fail(400, error);
+  // Tasks in removed columns move to the first column of their category
+  const keys = workflow.states.map((state) => state.key);
+  db.tasks.forEach((t) => {
+    if (t.project_id === projectId && t.workflow_state && !keys.includes(t.workflow_state)) {
+      t.workflow_state = null;
+    }
+  });
+  db.workflows = [...db.workflows.filter((w) => w.project_id !== projectId), workflow];
+  publish("project", "updated", projectId, user, {
+    changes: ["workflow"],
+    data: enrichProject(findProject(projectId)!),
+  });
+  return ok({ message: "Workflow updated successfully", workflow });
+});
+
+// --- Tasks ----------------------------------------------------------------
+
+route("GET", "/tasks", (req) => {
+  const ids = projectsOfUser(req);
+  return ok(db.tasks.filter((t) => ids.includes(t.project_id)).map(enrichTask));
+});
+
+route("GET", "/tasks/project/:id", ({ params }) =>
+  ok(db.tasks.filter((t) => t.project_id === Number(params.id)).map(enrichTask)));
+
+route("GET", "/tasks/assignee/:id", ({ params }) =>
+  ok(db.tasks.filter((t) => t.assignee_id === Number(params.id)).map(enrichTask)));
+
+route("POST", "/tasks/validate-workload", ({ body }) => {
+  const user = findUser(Number(body?.assignee_id));
+  if (!user) return fail(400, "Assignee not found");
+
+  const today = new Date().toISOString().slice(0, 10);
+  // A recurring task counts every occurrence, up to the last one's due date
+  const occurrenceDates =
+    body.recurrence && body.due_date
+      ? expandRecurrence(body.recurrence, body.due_date.slice(0, 10))
+      : [];
+  const occurrences = Math.max(1, occurrenceDates.length);
+  const dueDate = occurrenceDates[occurrenceDates.length - 1] || body.due_date || today;
+  const days = Math.max(
+    1,
+    Math.ceil((new Date(dueDate).getTime() - new Date(today).getTime()) / 86400000)
+  );
+  const weeksUntilDue = Math.max(1, Math.ceil(days / 7));
+
+  const openTasks = db.tasks.filter(
+    (t) =>
+      t.assignee_id === user.id &&
+      t.id !== Number(body.task_id) &&
+      t.status !== "completed" &&
+      (!t.due_date || t.due_date.slice(0, 10) <= dueDate)
+  );
+  // Subtasks count toward their own assignee, like any other task
+  const currentHours = openTasks.reduce((sum, t) => sum + Number(t.planned_hours), 0);
+  const subtaskHours = openTasks
+    .filter((t) => t.parent_task_id)
+    .reduce((sum, t) => sum + Number(t.planned_hours), 0);
+  const newTaskHours = (Number(body.planned_hours) || 0) * occurrences;
+  const totalHours = currentHours + newTaskHours;
+  const capacity = user.available_hours_per_week * weeksUntilDue;
+  // Hours left after adding the task; the UI derives capacity from it
+  const availableHours = capacity - totalHours;
+  const allocation = db.projectTeam.find(
+    (m) => m.user_id === user.id && m.project_id === Number(body.project_id)
+  );
+  const allocatedHours = (allocation?.allocated_hours_per_week || 0) * weeksUntilDue;
+  const utilizationPercentage = capacity ? round1((totalHours / capacity) * 100) : 0;
+  const allocationUtilization = allocatedHours ? round1((totalHours / allocatedHours) * 100) : 0;
+
+  const warnings: string[] = [];
+  let warningLevel: "none" | "high" | "critical" = "none";
+  if (utilizationPercentage > 100) {
+    warningLevel = "critical";
+    warnings.push(
+      `${user.username} would be at ${utilizationPercentage}% of available hours until the due date`
+    );
+  } else if (utilizationPercentage > 80) {
+    warningLevel = "high";
+    warnings.push(`${user.username} would be at ${utilizationPercentage}% utilization`);
+  }
+  if (allocatedHours && allocationUtilization > 100) {
+    warnings.push(`Exceeds project allocation (${allocationUtilization}% of allocated hours)`);
+    if (warningLevel === "none") warningLevel = "high";
+  }
+
+  return ok({
+    isValid: warningLevel !== "critical",
+    warningLevel,
+    warnings,
+    workload: {
+      currentHours,
+      newTaskHours,
+      totalHours,
+      availableHours,
+      utilizationPercentage,
+      allocatedHours,
+      allocationUtilization,
+      weeksUntilDue,
+      currentTaskCount: openTasks.length,
+      subtaskHours,
+      occurrences,
+    },
+  });
+});
+
+route("GET", "/tasks/:id", ({ params }) => {
+  const task = db.tasks.find((t) => t.id === Number(params.id));
+  return task
+    ? ok({ ...enrichTask(task), attachments: attachmentsOf(task.id) })
+    : fail(404, "Task not found");
+});
+
+// One task per occurrence, each with its own status and hours. A start
+// date keeps its distance to the due date in every occurrence.
+const createRecurringTask = (body: any) => {
+  const recurrenceId = nextId();
+  const leadMs = body.start_date
+    ? Date.parse(body.due_date.slice(0, 10)) - Date.parse(body.start_date.slice(0, 10))
+    : null;
+  const tasks: MockTask[] = expandRecurrence(body.recurrence, body.due_date.slice(0, 10)).map(
+    (dueDate, index) => ({
+      status: "todo",
+      actual_hours: 0,
+      ...body,
+      id: nextId(),
+      due_date: dueDate,
+      ...(leadMs !== null && {
+        start_date: new Date(Date.parse(dueDate) - leadMs).toISOString().slice(0, 10),
+      }),
+      recurrence_id: recurrenceId,
+      recurrence_index: index,
+      created_at: now(),
+      updated_at: now(),
+    })
+  );
+  db.tasks.push(...tasks);
+  tasks.forEach((t) => trackScope(t));
+  return created({
+    id: tasks[0].id,
+    ids: tasks.map((t) => t.id),
+    message: `Created ${tasks.length} recurring tasks`,
+  });
+};
+
+// Fields shared by a series; status, hours worked and due dates stay per
+// occurrence
+const SERIES_FIELDS = [
+  "name",
+  "description",
+  "assignee_id",
+  "planned_hours",
+  "priority",
+  "task_type",
+] as const;
+
+// Other occurrences an edit applies to: the following ones or the whole series
+const seriesTargets = (task: MockTask, scope: string | null) => {
+  if (!task.recurrence_id || (scope !== "following" && scope !== "all")) return [];
+  return db.tasks.filter(
+    (t) =>
+      t.id !== task.id &&
+      t.recurrence_id === task.recurrence_id &&
+      (scope === "all" || (t.recurrence_index ?? 0) > (task.recurrence_index ?? 0))
+  );
+};
+
+route("POST", "/tasks", ({ body, user }) => {
+  if (!body?.name || !body?.assignee_id || !body?.project_id) {
+    return fail(400, "Name, assignee and project are required");
+  }
+  if (!findProject(Number(body.project_id))) return fail(400, "Project not found");
+  if (!findUser(Number(body.assignee_id))) return fail(400, "Assignee not found");
+  if (body.parent_task_id) {
+    const parent = db.tasks.find((t) => t.id === Number(body.parent_task_id));
+    if (!parent) return fail(400, "Parent task not found");
+    if (parent.parent_task_id) return fail(400, "Subtasks cannot have subtasks");
+    if (parent.project_id !== Number(body.project_id)) {
+      return fail(400, "Subtasks must be in the same project as their parent");
+    }
+  }
+  if (body.recurrence) {
+    if (body.parent_task_id) return fail(400, "Subtasks cannot repeat");
+    const error = validateRecurrence(body.recurrence, body.due_date?.slice(0, 10) || "");
+    if (error) return fail(400, error);
+    const response = createRecurringTask(body);
+    const { ids } = response.body as { ids: number[] };
+    ids.forEach((id) => publish("task", "created", id, user));
+    notifyAssigned(db.tasks.find((t) => t.id === ids[0])!, user);
+    return response;
+  }
+  const task: MockTask = {
+    status: "todo",
+    actual_hours: 0,
+    ...body,
+    id: nextId(),
+    created_at: now(),
+    updated_at: now(),
+  };
+  db.tasks.push(task);
+  trackScope(task);
+  publish("task", "created", task.id, user, { data: enrichTask(task) });
+  notifyAssigned(task, user);
+  return created({ id: task.id, message: "Task created successfully" });
+});
+
+route("PUT", "/tasks/:id", ({ params, query, body, user }) => {
+  const task = db.tasks.find((t) => t.id === Number(params.id));
+  if (!task) return fail(404, "Task not found");
+  if (body?.rank !== undefined && !Number.isFinite(body.rank)) {
+    return fail(400, "Rank must be a number");
+  }
+  if (body?.start_date || body?.due_date) {
+    const start = (body.start_date ?? task.start_date)?.slice(0, 10);
+    const due = (body.due_date ?? task.due_date)?.slice(0, 10);
+    if (start && due && start > due) return fail(400, "The start date can't be after the due date");
+  }
+  if (body?.due_date && body.due_date.slice(0, 10) !== task.due_date?.slice(0, 10)) {
+    const error = dueDateError(body.due_date.slice(0, 10));
+    if (error) return fail(400, error);
+  }
+  const workflow = workflowOf(task.project_id);
+  const statusChange = !body?.workflow_state && body?.status && body.status !== task.status;
+  if (body?.workflow_state || statusChange) {
+    // Board moves follow the project workflow's transitions and rules, and
+    // so does a plain status change, which lands in the first state of
+    // that category
+    const from = stateOf(task, workflow);
+    const to = statusChange
+      ? workflow.states.find((state) => state.category === body.status)
+      : workflow.states.find((state) => state.key === body.workflow_state);
+    if (!to) return fail(400, statusChange ? "Unknown status" : "Unknown workflow state");
+    if (!canTransition(workflow, from.key, to.key)) {
+      return fail(409, `Tasks can't move from ${from.name} to ${to.name}`);
+    }
+    const missing =
+      from.key === to.key ? [] : missingRequirements(requirementsFor(workflow, from.key, to.key), body);
+    if (missing.length) {
+      return fail(
+        400,
+        `Moving to ${to.name} requires ${missing.map((r) => REQUIREMENT_LABELS[r]).join(" and ")}`
+      );
+    }
+    body.status = to.category;
+    if (statusChange) body.workflow_state = null;
+  }
+  // Hours given when completing log whatever isn't logged yet as an entry
+  // for today; actual hours stay the logged total
+  if (body?.actual_hours !== undefined) {
+    const logged = loggedHoursOf(task.id);
+    const extra = roundHours(Number(body.actual_hours) - logged);
+    if (extra < 0) return fail(400, `${logged}h is already logged on this task`);
+    if (extra > 0) {
+      if (isLocked(user!.id, localToday())) return lockedError(user!.id, localToday());
+      logTime(task, user!, localToday(), extra, "Logged when completing the task");
+    }
+    body.actual_hours = loggedHoursOf(task.id);
+  }
+  const wasCompleted = task.status === "completed";
+  const wasBlocked = task.status === "blocked";
+  const previousAssignee = task.assignee_id;
+  Object.assign(task, body, { id: task.id, updated_at: now() });
+  const seriesChanges = SERIES_FIELDS.filter((field) => body?.[field] !== undefined);
+  const others = seriesChanges.length ? seriesTargets(task, query.get("scope")) : [];
+  others.forEach((t) => {
+    seriesChanges.forEach((field) => {
+      (t as any)[field] = body[field];
+    });
+    t.updated_at = now();
+  });
+  const unblocked =
+    !wasCompleted && task.status === "completed" ? notifyUnblocked(task, user!) : [];
+  if (task.assignee_id !== previousAssignee) notifyAssigned(task, user);
+  if (wasBlocked && task.status !== "blocked" && task.dependent_user_id) {
+    notify(task.dependent_user_id, "task_unblocked", user, `${user?.username} unblocked "${task.name}"`, {
+      task_id: task.id,
+      project_id: task.project_id,
+    });
+    task.dependent_user_id = null;
+  }
+  const changes = Object.keys(body || {});
+  [task, ...others].forEach((t) => {
+    trackScope(t);
+    publish("task", "updated", t.id, user, { changes, data: enrichTask(t) });
+  });
+  if (body?.actual_hours !== undefined) checkBudgetAlerts(task.project_id, user);
+  return ok({
+    message: others.length
+      ? `Updated ${others.length + 1} tasks in the series`
+      : "Task updated successfully",
+    unblocked_tasks: unblocked,
+    updated_ids: [task.id, ...others.map((t) => t.id)],
+  });
+});
+
+route("DELETE", "/tasks/:id", ({ params, user }) => {
+  const id = Number(params.id);
+  if (!db.tasks.some((t) => t.id === id)) return fail(404, "Task not found");
+  // Subtasks are deleted with their parent
+  const ids = [id, ...db.tasks.filter((t) => t.parent_task_id === id).map((t) => t.id)];
+  db.tasks.filter((t) => ids.includes(t.id)).forEach((t) => trackScope(t, true));
+  db.tasks = db.tasks.filter((t) => !ids.includes(t.id));
+  db.dailyUpdates = db.dailyUpdates.filter((u) => !ids.includes(u.task_id));
+  db.taskAttachments = db.taskAttachments.filter((a) => !ids.includes(a.task_id));
+  db.checklistItems = db.checklistItems.filter((item) => !ids.includes(item.task_id));
+  db.timeEntries = db.timeEntries.filter((entry) => !ids.includes(entry.task_id));
+  db.timers.forEach((timer, userId) => {
+    if (ids.includes(timer.task_id)) db.timers.delete(userId);
+  });
+  db.tasks.forEach((t) => {
+    if (t.blocked_by_ids?.some((blockerId) => ids.includes(blockerId))) {
+      t.blocked_by_ids = t.blocked_by_ids.filter((blockerId) => !ids.includes(blockerId));
+    }
+  });
+  ids.forEach((taskId) => publish("task", "deleted", taskId, user));
+  return ok({ message: "Task deleted successfully" });
+});
+
+route("GET", "/tasks/:id/subtasks", ({ params }) => {
+  const taskId = Number(params.id);
+  if (!db.tasks.some((t) => t.id === taskId)) return fail(404, "Task not found");
+  return ok(db.tasks.filter((t) => t.parent_task_id === taskId).map(enrichTask));
+});
+
+route("GET", "/tasks/:id/checklist", ({ params }) => {
+  const taskId = Number(params.id);
+  if (!db.tasks.some((t) => t.id === taskId)) return fail(404, "Task not found");
+  return ok(db.checklistItems.filter((item) => item.task_id === taskId));
+});
+
+route("POST", "/tasks/:id/checklist", ({ params, body }) => {
+  const taskId = Number(params.id);
+  if (!db.tasks.some((t) => t.id === taskId)) return fail(404, "Task not found");
+  if (!body?.text?.trim()) return fail(400, "Checklist item text is required");
+  const item = {
+    id: nextId(),
+    task_id: taskId,
+    text: body.text.trim(),
+    done: false,
+    created_at: now(),
+  };
+  db.checklistItems.push(item);
+  return created(item);
+});
+
+route("PUT", "/tasks/:id/checklist/:itemId", ({ params, body }) => {
+  const item = db.checklistItems.find(
+    (i) => i.id === Number(params.itemId) && i.task_id === Number(params.id)
+  );
+  if (!item) return fail(404, "Checklist item not found");
+  if (body?.text !== undefined) {
+    if (!String(body.text).trim()) return fail(400, "Checklist item text is required");
+    item.text = String(body.text).trim();
+  }
+  if (body?.done !== undefined) item.done = Boolean(body.done);
+  return ok(item);
+});
+
+route("DELETE", "/tasks/:id/checklist/:itemId", ({ params }) => {
+  const id = Number(params.itemId);
+  if (!db.checklistItems.some((i) => i.id === id)) return fail(404, "Checklist item not found");
+  db.checklistItems = db.checklistItems.filter((i) => i.id !== id);
+  return ok({ message: "Checklist item deleted successfully" });
+});
+
+const toDependency = (task: MockTask) => ({
+  id: task.id,
+  name: task.name,
+  status: task.status,
+  assignee_name: findUser(task.assignee_id)?.username,
+});
+
+const dependenciesOf = (taskId: number) => {
+  const task = db.tasks.find((t) => t.id === taskId);
+  return {
+    blocked_by: db.tasks
+      .filter((t) => task?.blocked_by_ids?.includes(t.id))
+      .map(toDependency),
+    blocks: db.tasks
+      .filter((t) => t.blocked_by_ids?.includes(taskId))
+      .map(toDependency),
+  };
+};
+
+// True if `taskId` is reachable from `fromId` by following blocked-by links
+const dependsOn = (fromId: number, taskId: number, seen = new Set<number>()): boolean => {
+  if (fromId === taskId) return true;
+  if (seen.has(fromId)) return false;
+  seen.add(fromId);
+  const from = db.tasks.find((t) => t.id === fromId);
+  return (from?.blocked_by_ids || []).some((id) => dependsOn(id, taskId, seen));
+};
+
+// Posts a comment mentioning the assignee on each task whose blockers are
+// now all complete, and notifies them, the way the backend does
+const notifyUnblocked = (completed: MockTask, user: MockUser) => {
+  const unblocked = db.tasks.filter(
+    (t) =>
+      t.status !== "completed" &&
+      t.blocked_by_ids?.includes(completed.id) &&
+      t.blocked_by_ids.every(
+        (id) => db.tasks.find((blocker) => blocker.id === id)?.status === "completed"
+      )
+  );
+  unblocked.forEach((t) => {
+    const assignee = findUser(t.assignee_id);
+    db.dailyUpdates.push({
+      id: nextId(),
+      task_id: t.id,
+      user_id: user.id,
+      comment: `${assignee ? `@${assignee.username} ` : ""}All blockers are complete (last: **${completed.name}**). This task is ready to start.`,
+      parent_id: null,
+      mentions: assignee ? [assignee.id] : [],
+      edited_at: null,
+      created_at: now(),
+      updated_at: now(),
+    });
+    notify(t.assignee_id, "task_unblocked", user, `"${t.name}" is ready to start: all its blockers are complete`, {
+      task_id: t.id,
+      project_id: t.project_id,
+    });
+  });
+  return unblocked.map(toDependency);
+};
+
+route("GET", "/tasks/:id/dependencies", ({ params }) => {
+  const taskId = Number(params.id);
+  if (!db.tasks.some((t) => t.id === taskId)) return fail(404, "Task not found");
+  return ok(dependenciesOf(taskId));
+});
+
+route("PUT", "/tasks/:id/dependencies", ({ params, body, user }) => {
+  const task = db.tasks.find((t) => t.id === Number(params.id));
+  if (!task) return fail(404, "Task not found");
+  const blockerIds: number[] = Array.from(
+    new Set<number>((Array.isArray(body?.blocked_by) ? body.blocked_by : []).map(Number))
+  );
+  const missing = blockerIds.find((id) => !db.tasks.some((t) => t.id === id));
+  if (missing) return fail(400, `Task ${missing} not found`, { field: "blocked_by" });
+  const cyclic = blockerIds.find((id) => dependsOn(id, task.id));
+  if (cyclic) {
+    const blocker = db.tasks.find((t) => t.id === cyclic);
+    return fail(
+      409,
+      cyclic === task.id
+        ? "A task cannot block itself"
+        : `"${blocker?.name}" already depends on this task`,
+      { type: "dependency_cycle", field: "blocked_by" }
+    );
+  }
+  task.blocked_by_ids = blockerIds;
+  task.updated_at = now();
+  publish("task", "updated", task.id, user, {
+    changes: ["blocked_by_ids"],
+    data: enrichTask(task),
+  });
+  return ok(dependenciesOf(task.id));
+});
+
+const withAuthor = (update: DailyUpdate) => {
+  const user = findUser(update.user_id);
+  return { ...update, username: user?.username, user_name: user?.username, email: user?.email };
+};
+
+const mentionIds = (value: unknown) =>
+  Array.isArray(value) ? value.map(Number).filter((id) => findUser(id)) : [];
+
+route("GET", "/tasks/:id/daily-updates", ({ params }) =>
+  ok(
+    db.dailyUpdates
+      .filter((u) => u.task_id === Number(params.id))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map(withAuthor)
+  ));
+
+route("POST", "/tasks/:id/daily-updates", ({ params, body, user }) => {
+  const taskId = Number(params.id);
+  const task = db.tasks.find((t) => t.id === taskId);
+  if (!task) return fail(404, "Task not found");
+  if (!body?.comment?.trim()) return fail(400, "Comment is required");
+
+  // Replies to replies are attached to the top-level update
+  let parentId: number | null = null;
+  if (body.parent_id) {
+    const parent = db.dailyUpdates.find(
+      (u) => u.id === Number(body.parent_id) && u.task_id === taskId
+    );
+    if (!parent) return fail(404, "Update not found");
+    parentId = parent.parent_id || parent.id;
+  }
+
+  const update: DailyUpdate = {
+    id: nextId(),
+    task_id: taskId,
+    user_id: Number(body.user_id),
+    comment: body.comment,
+    parent_id: parentId,
+    mentions: mentionIds(body.mentions),
+    edited_at: null,
+    created_at: now(),
+    updated_at: now(),
+  };
+  db.dailyUpdates.push(update);
+  publish("daily_update", "created", update.id, user, { task_id: taskId, data: withAuthor(update) });
+  notify(task.assignee_id, "daily_update", user, `${user?.username} commented on "${task.name}"`, {
+    task_id: taskId,
+    project_id: task.project_id,
+  });
+  return created(withAuthor(update));
+});
+
+route("PUT", "/tasks/:id/daily-updates/:updateId", ({ params, body, user }) => {
+  const update = db.dailyUpdates.find((u) => u.id === Number(params.updateId));
+  if (!update) return fail(404, "Update not found");
+  if (update.user_id !== user?.id) {
+    return fail(403, "You can only edit your own comments");
+  }
+  if (!body?.comment?.trim()) return fail(400, "Comment is required");
+  update.comment = body.comment;
+  update.mentions = mentionIds(body.mentions);
+  update.edited_at = now();
+  update.updated_at = now();
+  publish("daily_update", "updated", update.id, user, {
+    task_id: update.task_id,
+    data: withAuthor(update),
+  });
+  return ok(withAuthor(update));
+});
+
+route("DELETE", "/tasks/:id/daily-updates/:updateId", ({ params, user }) => {
+  const id = Number(params.updateId);
+  if (!db.dailyUpdates.some((u) => u.id === id)) return fail(404, "Update not found");
+  publish("daily_update", "deleted", id, user, { task_id: Number(params.id) });
+  // Replies go with the update they belong to
+  db.dailyUpdates = db.dailyUpdates.filter((u) => u.id !== id && u.parent_id !== id);
+  return ok({ message: "Daily update deleted successfully" });
+});
+
+// Mirrors the backend's upload limit
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+const withUploader = (attachment: TaskAttachment) => ({
+  ...attachment,
+  uploaded_by_name: findUser(attachment.uploaded_by)?.username,
+});
+
+const attachmentsOf = (taskId: number) =>
+  db.taskAttachments
+    .filter((a) => a.task_id === taskId)
+    .sort((a, b) => b.uploaded_at.localeCompare(a.uploaded_at))
+    .map(withUploader);
+
+route("GET", "/tasks/:id/attachments", ({ params }) => {
+  const taskId = Number(params.id);
+  if (!db.tasks.some((t) => t.id === taskId)) return fail(404, "Task not found");
+  return ok(attachmentsOf(taskId));
+});
+
+route("POST", "/tasks/:id/attachments", ({ params, body, user }) => {
+  const taskId = Number(params.id);
+  if (!db.tasks.some((t) => t.id === taskId)) return fail(404, "Task not found");
+  const file = body instanceof FormData ? body.get("file") : null;
+  if (!(file instanceof File)) return fail(400, "A file is required");
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return fail(413, `${file.name} is larger than 25 MB`);
+  }
+
+  const attachment: TaskAttachment = {
+    id: nextId(),
+    task_id: taskId,
+    kind: "file",
+    file_name: file.name,
+    mime_type: file.type || "application/octet-stream",
+    size: file.size,
+    // Object URLs keep previews and downloads working for the session
+    url:
+      typeof URL.createObjectURL === "function"
+        ? URL.createObjectURL(file)
+        : `/mock-uploads/${encodeURIComponent(file.name)}`,
+    uploaded_by: user!.id,
+    uploaded_at: now(),
+  };
+  db.taskAttachments.push(attachment);
+  return created(withUploader(attachment));
+});
+
+route("POST", "/tasks/:id/attachments/links", ({ params, body, user }) => {
+  const taskId = Number(params.id);
+  if (!db.tasks.some((t) => t.id === taskId)) return fail(404, "Task not found");
+  const urls: string[] = Array.isArray(body?.urls) ? body.urls : [];
+  if (urls.length === 0) return fail(400, "At least one link is required");
+  const invalid = urls.find((url) => !/^https?:\/\/\S+$/i.test(url));
+  if (invalid) return fail(400, `Not a valid link: ${invalid}`, { field: "urls" });
+
+  const attachments = urls.map((url): TaskAttachment => ({
+    id: nextId(),
+    task_id: taskId,
+    kind: "link",
+    file_name: url,
+    url,
+    uploaded_by: user!.id,
+    uploaded_at: now(),
+  }));
+  db.taskAttachments.push(...attachments);
+  return created(attachments.map(withUploader));
+});
+
+route("DELETE", "/tasks/:id/attachments/:attachmentId", ({ params, user }) => {
+  const attachment = db.taskAttachments.find(
+    (a) => a.id === Number(params.attachmentId) && a.task_id === Number(params.id)
+  );
+  if (!attachment) return fail(404, "Attachment not found");
+  if (user?.role === "employee" && attachment.uploaded_by !== user.id) {
+    return fail(403, "You can only delete attachments you uploaded");
+  }
+  db.taskAttachments = db.taskAttachments.filter((a) => a.id !== attachment.id);
+  return ok({ message: "Attachment deleted successfully" });
+});
+
+// --- Dashboard ------------------------------------------------------------
+
+route("GET", "/dashboard/projects", (req) => {
+  const ids = projectsOfUser(req);
+  return ok(
+    db.projects
+      .filter((p) => ids.includes(p.id))
+      .map(({ id, name, status }) => ({ id, name, status }))
+  );
+});
+
+route("GET", "/dashboard/employees", (req) => {
+  const projectIds = csvIds(req.query.get("projectId"));
+  const scope = projectIds.length ? projectIds : projectsOfUser(req);
+  const role = req.query.get("userRole");
+  const restrict = projectIds.length > 0 || role === "manager" || role === "team_lead";
+  const members = teamUserIds(scope);
+  return ok(
+    db.users
+      .filter((u) => u.role !== "super_admin" && (!restrict || members.has(u.id)))
+      .map(toEmployee)
+  );
+});
+
+route("GET", "/dashboard/task-status", (req) => {
+  const { tasks } = dashboardScope(req, {
+    projectId: req.query.get("projectId"),
+    employeeId: req.query.get("employeeId"),
+    startDate: req.query.get("startDate"),
+    endDate: req.query.get("endDate"),
+  });
+  const { todo, in_progress, completed, blocked } = taskCounts(tasks);
+  return ok({ todo, in_progress, completed, blocked });
+});
+
+route("GET", "/dashboard/data", (req) => {
+  const { tasks, totalAvailable } = dashboardScope(req, {
+    projectId: req.query.get("projectId"),
+    employeeId: req.query.get("employeeId"),
+    startDate: req.query.get("startDate"),
+    endDate: req.query.get("endDate"),
+  });
+  const weekly = weeklyMetrics(tasks, totalAvailable);
+  const planned = tasks.reduce((sum, t) => sum + Number(t.planned_hours), 0);
+  const actual = tasks.reduce((sum, t) => sum + Number(t.actual_hours || 0), 0);
+  return ok({
+    utilizationData: weekly,
+    productivityData: weekly,
+    availabilityData: weekly,
+    overallMetrics: {
+      productivity: planned ? round1((actual / planned) * 100) : 0,
+      utilization: totalAvailable ? round1((planned / totalAvailable) * 100) : 0,
+      totalTasks: tasks.length,
+      completedTasks: tasks.filter((t) => t.status === "completed").length,
+      totalPlannedHours: planned,
+      totalAvailableHours: totalAvailable,
+    },
+  });
+});
+
+route("POST", "/dashboard/newData", (req) => {
+  const { tasks, totalAvailable } = dashboardScope(req, req.body || {});
+  const weekly = weeklyMetrics(tasks, totalAvailable);
+  const planned = tasks.reduce((sum, t) => sum + Number(t.planned_hours), 0);
+  const actual = tasks.reduce((sum, t) => sum + Number(t.actual_hours || 0), 0);
+  return ok({
+    tasks: tasks.map((t) => {
+      const user = findUser(t.assignee_id);
+      return {
+        ...t,
+        username: user?.username,
+        available_hours_per_week: user?.available_hours_per_week,
+        week: t.due_date ? isoWeek(t.due_date) : undefined,
+      };
+    }),
+    taskStats: taskCounts(tasks),
+    final: {
+      productivity: planned ? round1((actual / planned) * 100) : 0,
+      utilization: totalAvailable ? round1((planned / totalAvailable) * 100) : 0,
+      available_hours: totalAvailable - planned,
+    },
+    productivityData: weekly,
+    utilizationData: weekly,
+    availabilityData: weekly,
+  });
+});
+
+route("GET", "/dashboard/tasks-timeline", (req) => {
+  const startDate = req.query.get("startDate") || new Date().toISOString().slice(0, 10);
+  const endDate = req.query.get("endDate") || addDays(startDate, 11);
+  const ids = visibleProjectIds(Number(req.query.get("userId")), req.query.get("role"));
+  const projectIds = csvIds(req.query.get("projectId"));
+  const employeeIds = csvIds(req.query.get("employeeId"));
+
+  const tasks = db.tasks.filter(
+    (t) =>
+      ids.includes(t.project_id) &&
+      (projectIds.length === 0 || projectIds.includes(t.project_id)) &&
+      (employeeIds.length === 0 || employeeIds.includes(t.assignee_id))
+  );
+  const toTimelineItem = (t: MockTask) => ({
+    id: t.id,
+    title: t.name,
+    assignee: findUser(t.assignee_id)?.username,
+    status: t.status,
+    statusColor: statusColor(t.status),
+    estimated: t.planned_hours,
+    logged: t.actual_hours,
+    planned_hours: t.planned_hours,
+    actual_hours: t.actual_hours,
+    due_date: t.due_date || null,
+  });
+  const thisWeekEnd = addDays(startDate, 6);
+  return ok({
+    thisWeek: tasks.filter((t) => inRange(t.due_date, startDate, thisWeekEnd)).map(toTimelineItem),
+    nextWeek: tasks.filter((t) => inRange(t.due_date, addDays(startDate, 7), endDate)).map(toTimelineItem),
+  });
+});
+
+// --- Project assignments --------------------------------------------------
+
+route("GET", "/project-assignments", () => ok(db.assignments.map(toAssignment)));
+
+route("GET", "/project-assignments/user/:id", ({ params }) =>
+  ok(
+    db.assignments
+      .filter((a) => a.assigned_to_user_id === Number(params.id))
+      .map(toAssignment)
+  ));
+
+route("GET", "/project-assignments/managers-teamleads", () =>
+  ok(
+    db.users
+      .filter((u) => u.role === "manager" || u.role === "team_lead")
+      .map(({ id, username, email, role }) => ({ id, username, email, role }))
+  ));
+
+route("POST", "/project-assignments", ({ body, user }) => {
+  const projectId = Number(body?.project_id);
+  const userId = Number(body?.assigned_to_user_id);
+  if (!findProject(projectId) || !findUser(userId)) {
+    return fail(400, "Project or user not found");
+  }
+  if (db.assignments.some((a) => a.project_id === projectId && a.assigned_to_user_id === userId)) {
+    return fail(409, "Project is already assigned to this user");
+  }
+  const assignment = {
+    id: nextId(),
+    project_id: projectId,
+    assigned_to_user_id: userId,
+    assigned_by_user_id: body.assigned_by_user_id,
+    assigned_at: now(),
+  };
+  db.assignments.push(assignment);
+  notifyProjectAssignment(userId, projectId, user, true);
+  return created(toAssignment(assignment));
+});
+
+route("DELETE", "/project-assignments/project/:projectId/user/:userId", ({ params, user }) => {
+  const projectId = Number(params.projectId);
+  const userId = Number(params.userId);
+  const before = db.assignments.length;
+  db.assignments = db.assignments.filter(
+    (a) => !(a.project_id === projectId && a.assigned_to_user_id === userId)
+  );
+  if (db.assignments.length < before) notifyProjectAssignment(userId, projectId, user, false);
+  return ok({ message: "Project unassigned successfully" });
+});
+
+route("DELETE", "/project-assignments/:id", ({ params, user }) => {
+  const id = Number(params.id);
+  const assignment = db.assignments.find((a) => a.id === id);
+  if (!assignment) return fail(404, "Assignment not found");
+  db.assignments = db.assignments.filter((a) => a.id !== id);
+  notifyProjectAssignment(assignment.assigned_to_user_id, assignment.project_id, user, false);
+  return ok({ message: "Project unassigned successfully" });
+});
+
+route("PUT", "/project-assignments/:id", ({ params, body, user }) => {
+  const assignment = db.assignments.find((a) => a.id === Number(params.id));
+  if (!assignment) return fail(404, "Assignment not found");
+  const previousUserId = assignment.assigned_to_user_id;
+  if (body?.assigned_to_user_id !== undefined) {
+    assignment.assigned_to_user_id = Number(body.assigned_to_user_id);
+  }
+  if (assignment.assigned_to_user_id !== previousUserId) {
+    notifyProjectAssignment(previousUserId, assignment.project_id, user, false);
+    notifyProjectAssignment(assignment.assigned_to_user_id, assignment.project_id, user, true);
+  }
+  if (body?.assigned_by_user_id !== undefined) {
+    assignment.assigned_by_user_id = Number(body.assigned_by_user_id);
+  }
+  return ok(toAssignment(assignment));
+});
+
+// --- Notifications --------------------------------------------------------
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  task_assigned: true,
+  task_unblocked: true,
+  daily_update: true,
+  project_assignment: true,
+  budget_alert: true,
+};
+
+const preferencesOf = (userId: number): NotificationPreferences => ({
+  ...DEFAULT_PREFERENCES,
+  ...db.notificationPreferences.get(userId),
+});
+
+// Notifies a user of someone else's change, unless they turned that type off,
+// and pushes the notification to their open connections
+const notify = (
+  userId: number | null | undefined,
+  type: NotificationType,
+  actor: MockUser | null,
+  message: string,
+  links: Pick<AppNotification, "task_id" | "project_id"> = {}
+) => {
+  if (!userId || !actor || userId === actor.id || !findUser(userId)) return;
+  if (!preferencesOf(userId)[type]) return;
+  const notification: AppNotification = {
+    id: nextId(),
+    user_id: userId,
+    type,
+    message,
+    ...links,
+    actor_id: actor.id,
+    read: false,
+    created_at: now(),
+  };
+  db.notifications.push(notification);
+  publish("notification", "created", notification.id, actor, { data: notification }, userId);
+};
+
+const notifyAssigned = (task: MockTask, actor: MockUser | null) =>
+  notify(task.assignee_id, "task_assigned", actor, `${actor?.username} assigned you "${task.name}"`, {
+    task_id: task.id,
+    project_id: task.project_id,
+  });
+
+const notifyProjectAssignment = (
+  userId: number,
+  projectId: number,
+  actor: MockUser | null,
+  assigned: boolean
+) => {
+  const name = findProject(projectId)?.name;
+  notify(
+    userId,
+    "project_assignment",
+    actor,
+    assigned
+      ? `${actor?.username} assigned you to the project "${name}"`
+      : `${actor?.username} removed you from the project "${name}"`,
+    { project_id: projectId }
+  );
+};
+
+const withActor = (notification: AppNotification) => ({
+  ...notification,
+  actor_name: notification.actor_id ? findUser(notification.actor_id)?.username : undefined,
+});
+
+route("GET", "/notifications", ({ user }) =>
+  ok(
+    db.notifications
+      .filter((n) => n.user_id === user?.id)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id)
+      .map(withActor)
+  ));
+
+route("PUT", "/notifications/read-all", ({ user }) => {
+  db.notifications.forEach((n) => {
+    if (n.user_id === user?.id) n.read = true;
+  });
+  return ok({ message: "All notifications marked as read" });
+});
+
+route("PUT", "/notifications/:id/read", ({ params, user }) => {
+  const notification = db.notifications.find(
+    (n) => n.id === Number(params.id) && n.user_id === user?.id
+  );
+  if (!notification) return fail(404, "Notification not found");
+  notification.read = true;
+  return ok(withActor(notification));
+});
+
+route("GET", "/notifications/preferences", ({ user }) => ok(preferencesOf(user!.id)));
+
+route("PUT", "/notifications/preferences", ({ body, user }) => {
+  const changes: Partial<NotificationPreferences> = {};
+  (Object.keys(DEFAULT_PREFERENCES) as NotificationType[]).forEach((type) => {
+    if (typeof body?.[type] === "boolean") changes[type] = body[type];
+  });
+  db.notificationPreferences.set(user!.id, { ...db.notificationPreferences.get(user!.id), ...changes });
+  return ok(preferencesOf(user!.id));
+});
+
+// --- Email digests --------------------------------------------------------
+
+const DIGEST_SECTIONS: DigestSection[] = ["overdue", "blocked", "due_this_week", "due_next_week"];
+
+const DEFAULT_DIGEST_SETTINGS: DigestSettings = {
+  frequency: "off",
+  weekday: 1,
+  sections: DIGEST_SECTIONS,
+};
+
+const withEditor = (template: MockDigestTemplate) => ({
+  ...template,
+  updated_by_name: template.updated_by ? findUser(template.updated_by)?.username : undefined,
+});
+
+route("GET", "/digests/settings", ({ user }) =>
+  ok(db.digestSettings.get(user!.id) || DEFAULT_DIGEST_SETTINGS));
+
+route("PUT", "/digests/settings", ({ body, user }) => {
+  if (!["off", "daily", "weekly"].includes(body?.frequency)) {
+    return fail(400, "Frequency must be off, daily or weekly", { field: "frequency" });
+  }
+  const weekday = Number(body.weekday ?? 1);
+  if (!Number.isInteger(weekday) || weekday < 1 || weekday > 5) {
+    return fail(400, "Weekly digests go out Monday to Friday", { field: "weekday" });
+  }
+  const sections = DIGEST_SECTIONS.filter((section) => body.sections?.includes(section));
+  if (body.frequency !== "off" && sections.length === 0) {
+    return fail(400, "Choose at least one section", { field: "sections" });
+  }
+  const settings: DigestSettings = { frequency: body.frequency, weekday, sections };
+  db.digestSettings.set(user!.id, settings);
+  return ok(settings);
+});
+
+route("GET", "/digests/templates", () => ok(db.digestTemplates.map(withEditor)));
+
+route("PUT", "/digests/templates/:frequency", ({ params, body, user }) => {
+  if (user?.role !== "super_admin") return fail(403, "Only admins can edit digest templates");
+  const template = db.digestTemplates.find((t) => t.frequency === params.frequency);
+  if (!template) return fail(404, "Template not found");
+  if (!body?.subject?.trim()) return fail(400, "Subject is required", { field: "subject" });
+  if (!/\{\{\s*sections\s*\}\}/.test(body?.body || "")) {
+    return fail(400, "The body must include {{sections}}", { field: "body" });
+  }
+  Object.assign(template, {
+    subject: body.subject.trim(),
+    body: body.body,
+    updated_at: now(),
+    updated_by: user.id,
+  });
+  return ok(withEditor(template));
+});
+
+// --- Time tracking --------------------------------------------------------
+
+const isDay = (value: unknown): value is string =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const timesheetOf = (userId: number, weekStart: string) =>
+  db.timesheets.find((t) => t.user_id === userId && t.week_start === weekStart);
+
+// Entries of a submitted or approved week can't change
+const isLocked = (userId: number, day: string) => {
+  const status = timesheetOf(userId, weekStartOf(day))?.status;
+  return status === "submitted" || status === "approved";
+};
+
+const lockedError = (userId: number, day: string) => {
+  const weekStart = weekStartOf(day);
+  return fail(409, `The timesheet for the week of ${weekStart} is ${timesheetOf(userId, weekStart)?.status}`);
+};
+
+const loggedHoursOf = (taskId: number) =>
+  roundHours(
+    db.timeEntries
+      .filter((entry) => entry.task_id === taskId)
+      .reduce((sum, entry) => sum + entry.hours, 0)
+  );
+
+const logTime = (task: MockTask, user: MockUser, date: string, hours: number, note?: string) => {
+  const entry: TimeEntry = {
+    id: nextId(),
+    task_id: task.id,
+    user_id: user.id,
+    date,
+    hours: roundHours(hours),
+    ...(note && { note }),
+    created_at: now(),
+  };
+  db.timeEntries.push(entry);
+  return entry;
+};
+
+// Brings the task's actual hours in line with its entries and tells open
+// boards
+const syncActualHours = (task: MockTask, actor: MockUser | null) => {
+  task.actual_hours = loggedHoursOf(task.id);
+  task.updated_at = now();
+  publish("task", "updated", task.id, actor, { changes: ["actual_hours"], data: enrichTask(task) });
+  checkBudgetAlerts(task.project_id, actor);
+};
+
+const withTask = (entry: TimeEntry) => {
+  const task = db.tasks.find((t) => t.id === entry.task_id);
+  return {
+    ...entry,
+    task_name: task?.name,
+    project_id: task?.project_id,
+    project_name: task ? findProject(task.project_id)?.name : undefined,
+    user_name: findUser(entry.user_id)?.username,
+    locked: isLocked(entry.user_id, entry.date),
+  };
+};
+
+const timerOf = (userId: number) => {
+  const timer = db.timers.get(userId);
+  return timer
+    ? { ...timer, task_name: db.tasks.find((t) => t.id === timer.task_id)?.name }
+    : null;
+};
+
+// Stops the user's timer and logs the time on its task, on the day it was
+// started. Runs under a minute aren't logged.
+const stopTimer = (user: MockUser): TimeEntry | null => {
+  const timer = db.timers.get(user.id);
+  db.timers.delete(user.id);
+  const task = timer && db.tasks.find((t) => t.id === timer.task_id);
+  if (!timer || !task) return null;
+  const hours = elapsedHours(timer.started_at);
+  if (hours < 1 / 60) return null;
+  const entry = logTime(task, user, toDateString(new Date(timer.started_at)), hours);
+  syncActualHours(task, user);
+  return entry;
+};
+
+route("GET", "/time/timer", ({ user }) => ok(timerOf(user!.id)));
+
+// Starting a timer stops (and logs) the one already running
+route("POST", "/time/timer", ({ body, user }) => {
+  const task = db.tasks.find((t) => t.id === Number(body?.task_id));
+  if (!task) return fail(404, "Task not found");
+  if (task.status === "completed") return fail(409, "Completed tasks can't be timed");
+  if (db.timers.get(user!.id)?.task_id === task.id) {
+    return ok({ timer: timerOf(user!.id), stopped: null });
+  }
+  if (isLocked(user!.id, localToday())) return lockedError(user!.id, localToday());
+  const stopped = stopTimer(user!);
+  db.timers.set(user!.id, { task_id: task.id, started_at: now() });
+  return created({ timer: timerOf(user!.id), stopped: stopped && withTask(stopped) });
+});
+
+route("POST", "/time/timer/stop", ({ user }) => {
+  if (!db.timers.has(user!.id)) return fail(409, "No timer is running");
+  const entry = stopTimer(user!);
+  return ok({
+    entry: entry && withTask(entry),
+    message: entry ? `Logged ${entry.hours}h` : "Timers under a minute aren't logged",
+  });
+});
+
+route("GET", "/tasks/:id/time-entries", ({ params }) => {
+  const taskId = Number(params.id);
+  if (!db.tasks.some((t) => t.id === taskId)) return fail(404, "Task not found");
+  return ok(
+    db.timeEntries
+      .filter((entry) => entry.task_id === taskId)
+      .sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id)
+      .map(withTask)
+  );
+});
+
+route("POST", "/tasks/:id/time-entries", ({ params, body, user }) => {
+  const task = db.tasks.find((t) => t.id === Number(params.id));
+  if (!task) return fail(404, "Task not found");
+  const hours = Number(body?.hours);
+  if (!(hours > 0 && hours <= 24)) {
+    return fail(400, "Hours must be more than 0 and at most 24", { field: "hours" });
+  }
+  if (!isDay(body?.date)) return fail(400, "Date is required", { field: "date" });
+  if (body.date > localToday()) {
+    return fail(400, "Time can't be logged in the future", { field: "date" });
+  }
+  if (isLocked(user!.id, body.date)) return lockedError(user!.id, body.date);
+  const entry = logTime(task, user!, body.date, hours, body.note?.trim());
+  syncActualHours(task, user);
+  return created(withTask(entry));
+});
+
+route("DELETE", "/time/entries/:id", ({ params, user }) => {
+  const entry = db.timeEntries.find((e) => e.id === Number(params.id));
+  if (!entry) return fail(404, "Time entry not found");
+  if (entry.user_id !== user?.id) return fail(403, "You can only delete your own time entries");
+  if (isLocked(entry.user_id, entry.date)) return lockedError(entry.user_id, entry.date);
+  db.timeEntries = db.timeEntries.filter((e) => e.id !== entry.id);
+  const task = db.tasks.find((t) => t.id === entry.task_id);
+  if (task) syncActualHours(task, user);
+  return ok({ message: "Time entry deleted" });
+});
+
+// Team leads and managers review the people on their projects' teams,
+// super admins everyone; nobody reviews their own
+const canReviewTimesheet = (reviewer: MockUser, userId: number) =>
+  reviewer.id !== userId &&
+  (reviewer.role === "super_admin" ||
+    ((reviewer.role === "manager" || reviewer.role === "team_lead") &&
+      teamUserIds(visibleProjectIds(reviewer.id, reviewer.role)).has(userId)));
+
+const toTimesheet = (userId: number, weekStart: string) => {
+  const days = weekDays(weekStart);
+  const entries = db.timeEntries
+    .filter((entry) => entry.user_id === userId && days.includes(entry.date))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+  const sheet = timesheetOf(userId, weekStart);
+  return {
+    user_id: userId,
+    user_name: findUser(userId)?.username,
+    week_start: weekStart,
+    status: sheet?.status || "open",
+    entries: entries.map(withTask),
+    total_hours: roundHours(entries.reduce((sum, entry) => sum + entry.hours, 0)),
+    submitted_at: sheet?.submitted_at || null,
+    reviewed_by_name: sheet?.reviewed_by ? findUser(sheet.reviewed_by)?.username : undefined,
+    reviewed_at: sheet?.reviewed_at || null,
+    review_note: sheet?.review_note || null,
+  };
+};
+
+// Logged and planned hours per person, project and week, costed at each
+// person's rate, with the same project/employee/date filters as the
+// dashboard. Employees only get their
+// own hours; managers and team leads those on their projects.
+route("GET", "/timesheets/export", ({ query, user }) => {
+  const isEmployee = user!.role === "employee";
+  const visible = isEmployee ? db.projects.map((p) => p.id) : visibleProjectIds(user!.id, user!.role);
+  const projectFilter = csvIds(query.get("projectId"));
+  const projectIds = projectFilter.length ? projectFilter.filter((id) => visible.includes(id)) : visible;
+  const employeeIds = isEmployee ? [user!.id] : csvIds(query.get("employeeId"));
+  const startDate = query.get("startDate");
+  const endDate = query.get("endDate");
+  const inScope = (projectId: number, userId: number, day?: string) =>
+    projectIds.includes(projectId) &&
+    (employeeIds.length === 0 || employeeIds.includes(userId)) &&
+    inRange(day, startDate, endDate);
+
+  const rows = new Map<string, TimesheetExportRow>();
+  const rowOf = (userId: number, projectId: number, day: string) => {
+    const weekStart = weekStartOf(day);
+    const key = `${weekStart}:${userId}:${projectId}`;
+    if (!rows.has(key)) {
+      const person = findUser(userId);
+      const project = findProject(projectId);
+      rows.set(key, {
+        week_start: weekStart,
+        user_id: userId,
+        user_name: person?.username || `User #${userId}`,
+        user_email: person?.email || "",
+        project_id: projectId,
+        project_name: project?.name || `Project #${projectId}`,
+        logged_hours: 0,
+        planned_hours: 0,
+        hourly_rate: costRateOf(userId).rate,
+        cost: 0,
+        status: timesheetOf(userId, weekStart)?.status || "open",
+      });
+    }
+    return rows.get(key)!;
+  };
+
+  db.timeEntries.forEach((entry) => {
+    const task = db.tasks.find((t) => t.id === entry.task_id);
+    if (task && inScope(task.project_id, entry.user_id, entry.date)) {
+      rowOf(entry.user_id, task.project_id, entry.date).logged_hours += entry.hours;
+    }
+  });
+  db.tasks.forEach((task) => {
+    if (task.planned_hours && task.due_date && inScope(task.project_id, task.assignee_id, task.due_date)) {
+      rowOf(task.assignee_id, task.project_id, task.due_date.slice(0, 10)).planned_hours += task.planned_hours;
+    }
+  });
+
+  return ok(
+    Array.from(rows.values())
+      .map((row) => ({
+        ...row,
+        logged_hours: roundHours(row.logged_hours),
+        planned_hours: roundHours(row.planned_hours),
+        cost: toMoney(row.logged_hours * row.hourly_rate),
+      }))
+      .sort(
+        (a, b) =>
+          a.week_start.localeCompare(b.week_start) ||
+          a.user_name.localeCompare(b.user_name) ||
+          a.project_name.localeCompare(b.project_name)
+      )
+  );
+});
+
+route("GET", "/timesheets/pending", ({ user }) =>
+  ok(
+    db.timesheets
+      .filter((t) => t.status === "submitted" && canReviewTimesheet(user!, t.user_id))
+      .sort((a, b) => a.week_start.localeCompare(b.week_start) || a.user_id - b.user_id)
+      .map((t) => toTimesheet(t.user_id, t.week_start))
+  ));
+
+route("GET", "/timesheets/:userId/:week", ({ params, user }) => {
+  const userId = Number(params.userId);
+  if (!findUser(userId)) return fail(404, "User not found");
+  if (!isDay(params.week)) return fail(400, "Week must be a date");
+  if (userId !== user!.id && !canReviewTimesheet(user!, userId)) {
+    return fail(403, "You can't view this timesheet");
+  }
+  return ok(toTimesheet(userId, weekStartOf(params.week)));
+});
+
+route("POST", "/timesheets/:userId/:week/submit", ({ params, user }) => {
+  const userId = Number(params.userId);
+  if (userId !== user!.id) return fail(403, "You can only submit your own timesheet");
+  if (!isDay(params.week)) return fail(400, "Week must be a date");
+  const weekStart = weekStartOf(params.week);
+  const current = toTimesheet(userId, weekStart);
+  if (current.status === "submitted" || current.status === "approved") {
+    return fail(409, `This timesheet is already ${current.status}`);
+  }
+  if (current.entries.length === 0) return fail(400, "Log some time before submitting");
+  const timer = db.timers.get(userId);
+  if (timer && weekStartOf(toDateString(new Date(timer.started_at))) === weekStart) {
+    return fail(409, "Stop your timer before submitting");
+  }
+  const sheet = timesheetOf(userId, weekStart);
+  const fields = {
+    status: "submitted" as const,
+    submitted_at: now(),
+    reviewed_by: null,
+    reviewed_at: null,
+    review_note: null,
+  };
+  if (sheet) Object.assign(sheet, fields);
+  else db.timesheets.push({ user_id: userId, week_start: weekStart, ...fields });
+  return ok(toTimesheet(userId, weekStart));
+});
+
+route("POST", "/timesheets/:userId/:week/review", ({ params, body, user }) => {
+  const userId = Number(params.userId);
+  if (!canReviewTimesheet(user!, userId)) {
+    return fail(403, "Only team leads and managers of this person's projects can review their timesheet");
+  }
+  if (!isDay(params.week)) return fail(400, "Week must be a date");
+  if (body?.decision !== "approved" && body?.decision !== "rejected") {
+    return fail(400, "Decision must be approved or rejected");
+  }
+  const weekStart = weekStartOf(params.week);
+  const sheet = timesheetOf(userId, weekStart);
+  if (sheet?.status !== "submitted") return fail(409, "Only submitted timesheets can be reviewed");
+  if (body.decision === "rejected" && !body.note?.trim()) {
+    return fail(400, "Say what needs to change", { field: "note" });
+  }
+  Object.assign(sheet, {
+    status: body.decision,
+    reviewed_by: user!.id,
+    reviewed_at: now(),
+    review_note: body.decision === "rejected" ? body.note.trim() : null,
+  });
+  return ok(toTimesheet(userId, weekStart));
+});
+
+// --- Project financials ---------------------------------------------------
+
+const BUDGET_THRESHOLDS = [80, 100] as const;
+
+const toMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// A person's own cost rate, else their role's
+const costRateOf = (userId: number) => {
+  const own = db.costRates.users[userId];
+  if (own !== undefined) return { rate: own, source: "user" as const };
+  const role = findUser(userId)?.role;
+  return { rate: role ? db.costRates.roles[role] : 0, source: "role" as const };
+};
+
+const shareOf = (used: number, total?: number) =>
+  total ? Math.round((used / total) * 10000) / 10000 : null;
+
+const budgetAlertMessage = (name: string, metric: BudgetAlert["metric"], threshold: number) => {
+  if (metric === "budget") {
+    return threshold >= 100 ? `"${name}" is over budget` : `"${name}" has used ${threshold}% of its budget`;
+  }
+  return threshold >= 100
+    ? `"${name}" has used all of its estimated hours`
+    : `"${name}" has used ${threshold}% of its estimated hours`;
+};
+
+const financialsOf = (project: MockProject): ProjectFinancials => {
+  const tasks = db.tasks.filter((t) => t.project_id === project.id);
+  const taskIds = new Set(tasks.map((t) => t.id));
+  const hoursByUser = new Map<number, number>();
+  db.timeEntries.forEach((entry) => {
+    if (taskIds.has(entry.task_id)) {
+      hoursByUser.set(entry.user_id, (hoursByUser.get(entry.user_id) || 0) + entry.hours);
+    }
+  });
+  // The team is listed even before logging time, so rates can be checked
+  const userIds = new Set([...Array.from(teamUserIds([project.id])), ...Array.from(hoursByUser.keys())]);
+  const people = Array.from(userIds)
+    .map((userId) => {
+      const person = findUser(userId);
+      const { rate, source } = costRateOf(userId);
+      const hours = hoursByUser.get(userId) || 0;
+      return {
+        user_id: userId,
+        user_name: person?.username || `User #${userId}`,
+        role: person?.role || "employee",
+        rate,
+        rate_source: source,
+        hours: roundHours(hours),
+        cost: toMoney(hours * rate),
+      };
+    })
+    .sort((a, b) => b.cost - a.cost || a.user_name.localeCompare(b.user_name));
+
+  // Open tasks are forecast to take their planned hours, at their assignee's rate
+  const remaining = tasks
+    .filter((t) => t.status !== "completed")
+    .map((t) => ({
+      hours: Math.max((t.planned_hours || 0) - loggedHoursOf(t.id), 0),
+      rate: costRateOf(t.assignee_id).rate,
+    }));
+  const remainingHours = remaining.reduce((sum, r) => sum + r.hours, 0);
+  const remainingCost = remaining.reduce((sum, r) => sum + r.hours * r.rate, 0);
+
+  const loggedHours = people.reduce((sum, p) => sum + p.hours, 0);
+  const cost = people.reduce((sum, p) => sum + p.cost, 0);
+  const forecastCost = cost + remainingCost;
+  const budget = project.budget || null;
+  const used = {
+    budget: shareOf(cost, project.budget),
+    hours: shareOf(loggedHours, project.estimated_hours),
+  };
+  const alerts: BudgetAlert[] = [];
+  (["budget", "hours"] as const).forEach((metric) => {
+    const threshold = [...BUDGET_THRESHOLDS].reverse().find((t) => (used[metric] ?? 0) * 100 >= t);
+    if (threshold) {
+      alerts.push({ metric, threshold, message: budgetAlertMessage(project.name, metric, threshold) });
+    }
+  });
+
+  return {
+    project_id: project.id,
+    budget,
+    estimated_hours: project.estimated_hours || null,
+    logged_hours: roundHours(loggedHours),
+    cost: toMoney(cost),
+    remaining_budget: budget === null ? null : toMoney(budget - cost),
+    remaining_hours: roundHours(remainingHours),
+    forecast_hours: roundHours(loggedHours + remainingHours),
+    forecast_cost: toMoney(forecastCost),
+    forecast_overrun: budget === null ? null : toMoney(Math.max(forecastCost - budget, 0)),
+    budget_used: used.budget,
+    hours_used: used.hours,
+    alerts,
+    people,
+  };
+};
+
+// Managers and team leads assigned to the project, or the super admins
+// when nobody is
+const budgetAlertRecipients = (projectId: number) => {
+  const assigned = db.assignments
+    .filter((a) => a.project_id === projectId)
+    .map((a) => a.assigned_to_user_id);
+  return assigned.length ? assigned : db.users.filter((u) => u.role === "super_admin").map((u) => u.id);
+};
+
+// Notifies once when a project goes past a threshold; dropping back below it
+// (a bigger budget, say) re-arms the alert
+const checkBudgetAlerts = (projectId: number, actor: MockUser | null) => {
+  const project = findProject(projectId);
+  if (!project) return;
+  const { alerts, budget_used, hours_used } = financialsOf(project);
+  const used = { budget: budget_used, hours: hours_used };
+  (["budget", "hours"] as const).forEach((metric) => {
+    const crossed: number[] = [];
+    BUDGET_THRESHOLDS.forEach((threshold) => {
+      const past = (used[metric] ?? 0) * 100 >= threshold;
+      const index = db.budgetAlerts.findIndex(
+        (a) => a.project_id === projectId && a.metric === metric && a.threshold === threshold
+      );
+      if (past && index === -1) {
+        db.budgetAlerts.push({ project_id: projectId, metric, threshold });
+        crossed.push(threshold);
+      } else if (!past && index !== -1) {
+        db.budgetAlerts.splice(index, 1);
+      }
+    });
+    // Jumping past both thresholds at once sends only the higher one
+    const alert = alerts.find((a) => a.metric === metric);
+    if (alert && crossed.includes(alert.threshold)) {
+      budgetAlertRecipients(projectId).forEach((userId) =>
+        notify(userId, "budget_alert", actor, alert.message, { project_id: projectId })
+      );
+    }
+  });
+};
+
+const canSeeFinancials = (user: MockUser, projectId: number) =>
+  user.role === "super_admin" ||
+  ((user.role === "manager" || user.role === "team_lead") &&
+    visibleProjectIds(user.id, user.role).includes(projectId));
+
+route("GET", "/projects/:id/financials", ({ params, user }) => {
+  const project = findProject(Number(params.id));
+  if (!project) return fail(404, "Project not found");
+  if (!canSeeFinancials(user!, project.id)) {
+    return fail(403, "Only the project's managers and team leads can see its financials");
+  }
+  return ok(financialsOf(project));
+});
+
+route("GET", "/cost-rates", ({ user }) =>
+  user!.role === "employee" ? fail(403, "You can't view cost rates") : ok(db.costRates));
+
+// Updates the rates given. `users` replaces the per-person rates, so people
+// left out of it go back to their role's rate.
+route("PUT", "/cost-rates", ({ body, user }) => {
+  if (user!.role !== "super_admin") return fail(403, "Only super admins can change cost rates");
+  const isRate = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0;
+  const roles = { ...db.costRates.roles };
+  for (const role of Object.keys(roles) as (keyof typeof roles)[]) {
+    const rate = body?.roles?.[role];
+    if (rate === undefined) continue;
+    if (!isRate(rate)) return fail(400, "Rates must be zero or more", { field: "roles" });
+    roles[role] = rate;
+  }
+  const users: Record<number, number> = {};
+  for (const [id, rate] of Object.entries(body?.users ?? db.costRates.users)) {
+    if (!findUser(Number(id))) return fail(400, `User ${id} not found`, { field: "users" });
+    if (!isRate(rate)) return fail(400, "Rates must be zero or more", { field: "users" });
+    users[Number(id)] = rate as number;
+  }
+  db.costRates = { roles, users };
+  db.projects.forEach((project) => checkBudgetAlerts(project.id, user));
+  return ok(db.costRates);
+});
+
+// --- Project burn charts --------------------------------------------------
+
+// Records a task's estimate, state and project when any changed since its
+// last event, so a project's scope can be replayed for any past day
+const trackScope = (task: MockTask, removed = false) => {
+  const event: MockScopeEvent = {
+    task_id: task.id,
+    task_name: task.name,
+    project_id: task.project_id,
+    at: now(),
+    planned_hours: Number(task.planned_hours) || 0,
+    completed: task.status === "completed",
+    ...(removed && { removed }),
+  };
+  const last = [...db.scopeEvents].reverse().find((e) => e.task_id === task.id);
+  if (
+    last &&
+    last.project_id === event.project_id &&
+    last.planned_hours === event.planned_hours &&
+    last.completed === event.completed &&
+    !!last.removed === removed
+  ) {
+    return;
+  }
+  db.scopeEvents.push(event);
+};
+
+const dayOf = (at: string) => toDateString(new Date(at));
+
+const inProject = (event: MockScopeEvent | undefined, projectId: number) =>
+  !!event && event.project_id === projectId && !event.removed;
+
+const burnDataOf = (project: MockProject): ProjectBurnData => {
+  const events = [...db.scopeEvents].sort((a, b) => a.at.localeCompare(b.at));
+  const taskIds = new Set(events.filter((e) => e.project_id === project.id).map((e) => e.task_id));
+  const history = events.filter((e) => taskIds.has(e.task_id));
+  const today = localToday();
+  const start =
+    project.start_date?.slice(0, 10) || (history.length ? dayOf(history[0].at) : today);
+  const end = project.end_date?.slice(0, 10) || null;
+  const lastDay = end && end > today ? end : today;
+
+  // Replays the events up to each day; tasks keep their latest event
+  const latest = new Map<number, MockScopeEvent>();
+  let next = 0;
+  const totalsUpTo = (day: string) => {
+    while (next < history.length && dayOf(history[next].at) <= day) {
+      latest.set(history[next].task_id, history[next]);
+      next++;
+    }
+    let scope = 0;
+    let completed = 0;
+    latest.forEach((event) => {
+      if (!inProject(event, project.id)) return;
+      scope += event.planned_hours;
+      if (event.completed) completed += event.planned_hours;
+    });
+    return { scope: roundHours(scope), completed: roundHours(completed) };
+  };
+
+  const days: BurnDay[] = [];
+  let baseline = 0;
+  const span = end ? (Date.parse(end) - Date.parse(start)) / 86400000 : 0;
+  for (let day = start; day <= lastDay; day = addDays(day, 1)) {
+    const totals = day <= today ? totalsUpTo(day) : null;
+    if (day === start) baseline = totals?.scope ?? 0;
+    // Straight from the scope on the first day to nothing left on the last
+    const elapsed = (Date.parse(day) - Date.parse(start)) / 86400000;
+    const ideal =
+      end && day <= end ? roundHours(span > 0 ? baseline * (1 - elapsed / span) : 0) : null;
+    days.push({
+      date: day,
+      scope: totals?.scope ?? null,
+      completed: totals?.completed ?? null,
+      remaining: totals ? roundHours(totals.scope - totals.completed) : null,
+      ideal,
+    });
+  }
+
+  // What was added, re-estimated or removed once the project was under way
+  const previous = new Map<number, MockScopeEvent>();
+  const scopeChanges: ScopeChange[] = [];
+  history.forEach((event) => {
+    const before = previous.get(event.task_id);
+    previous.set(event.task_id, event);
+    const date = dayOf(event.at);
+    if (date <= start) return;
+    const was = inProject(before, project.id);
+    const is = inProject(event, project.id);
+    const change = { date, task_id: event.task_id, task_name: event.task_name };
+    if (!was && is) {
+      scopeChanges.push({ ...change, kind: "added", from_hours: null, to_hours: event.planned_hours });
+    } else if (was && !is) {
+      scopeChanges.push({ ...change, kind: "removed", from_hours: before!.planned_hours, to_hours: null });
+    } else if (was && is && before!.planned_hours !== event.planned_hours) {
+      scopeChanges.push({
+        ...change,
+        kind: "re-estimated",
+        from_hours: before!.planned_hours,
+        to_hours: event.planned_hours,
+      });
+    }
+  });
+
+  return {
+    project_id: project.id,
+    project_name: project.name,
+    start_date: start,
+    end_date: end,
+    days,
+    scope_changes: scopeChanges,
+  };
+};
+
+route("GET", "/projects/:id/burndown", ({ params, user }) => {
+  const project = findProject(Number(params.id));
+  if (!project) return fail(404, "Project not found");
+  if (!visibleProjectIds(user!.id, user!.role).includes(project.id)) {
+    return fail(403, "You don't have access to this project");
+  }
+  return ok(burnDataOf(project));
+});
+
+// --- Transport ------------------------------------------------------------
+
+// Minimal Response implementation; httpClient only reads ok/status/text()
+const toResponse = ({ status, body }: MockResponse): Response =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    text: async () => (body === undefined ? "" : JSON.stringify(body)),
+    json: async () => body,
+  } as unknown as Response);
+
+const delay = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    });
+  });
+
+// Reports an upload in a few steps over the configured latency
+const simulateUpload = async (
+  body: FormData,
+  onUploadProgress: UploadProgressHandler,
+  signal?: AbortSignal | null
+) => {
+  let total = 0;
+  body.forEach((value) => {
+    total += typeof value === "string" ? value.length : value.size;
+  });
+  const steps = 4;
+  for (let step = 1; step <= steps; step++) {
+    if (latencyMs > 0) await delay(latencyMs / steps, signal);
+    onUploadProgress(Math.round((total * step) / steps), total);
+  }
+};
+
+// Drop-in replacement for fetch, resolving paths relative to the API base URL
+export const createMockFetch = (apiBaseUrl: string) => async (
+  input: string,
+  init: RequestInit = {},
+  onUploadProgress?: UploadProgressHandler
+): Promise<Response> => {
+  if (init.body instanceof FormData && onUploadProgress) {
+    await simulateUpload(init.body, onUploadProgress, init.signal);
+  }
+  if (latencyMs > 0) await delay(latencyMs, init.signal);
+  if (init.signal?.aborted) throw new DOMException("Aborted", "AbortError");
+
+  const origin = typeof window !== "undefined" ? window.location.origin : "http://localhost";
+  const url = new URL(input, origin);
+  const basePath = new URL(apiBaseUrl, origin).pathname.replace(/\/+$/, "");
+  const path = url.pathname.startsWith(basePath)
+    ? url.pathname.slice(basePath.length) || "/"
+    : url.pathname;
+  const method = (init.method || "GET").toUpperCase();
+
+  for (const candidate of routes) {
+    if (candidate.method !== method) continue;
+    const match = candidate.pattern.exec(path);
+    if (!match) continue;
+
+    const headers = new Headers(init.headers);
+    const user = authenticate(headers.get("Authorization"));
+    if (!candidate.isPublic && !user) {
+      return toResponse(fail(401, "Unauthorized"));
+    }
+
+    const params: Record<string, string> = {};
+    candidate.keys.forEach((key, index) => {
+      params[key] = decodeURIComponent(match[index + 1]);
+    });
+
+    try {
+      return toResponse(
+        candidate.handler({
+          method,
+          params,
+          query: url.searchParams,
+          body:
+            typeof init.body === "string"
+              ? JSON.parse(init.body)
+              : init.body instanceof FormData
+              ? init.body
+              : undefined,
+          user,
+        })
+      );
+    } catch (error: any) {
+      console.error(`Mock handler failed for ${method} ${path}:`, error);
+      return toResponse(fail(500, error?.message || "Mock server error"));
+    }
+  }
+
+  return toResponse(fail(404, `No mock route for ${method} ${path}`));
+};
@@ -1,22 +1,129 @@
-import { Project, TeamMember, Task, DailyUpdate } from "../types";
-
-// Centralized backend API URL - automatically detects environment
-// If running locally (localhost or 127.0.0.1), use localhost backend
-// Otherwise, use production server URL
-const getApiBaseUrl = () => {
-  // Check if running in browser (client-side)
-  if (typeof window !== 'undefined') {
-    const hostname = window.location.hostname;
-    // If running on localhost or 127.0.0.1, use local backend
-    if (hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '') {
-      return 'http://localhost:5005/api';
+import {
+  Project,
+  TeamMember,
+  Task,
+  DailyUpdate,
+  TaskAttachment,
+  TaskDependencies,
+  TaskDependency,
+  ChecklistItem,
+  RecurrenceRule,
+  RecurrenceScope,
+  ProjectWorkflow,
+  RealtimeEvent,
+  AppNotification,
+  NotificationPreferences,
+  DigestSettings,
+  DigestTemplate,
+  ActiveTimer,
+  TimeEntry,
+  Timesheet,
+  TimesheetExportRow,
+  CostRates,
+  ProjectBurnData,
+  ProjectFinancials,
+} from "../types";
+import { SessionTokens, SessionUser } from "./session";
+import { http, RequestConfig, RequestOptions, UploadProgressHandler } from "./httpClient";
+import { queryCache, getQueryKey } from "./queryCache";
+
+export { API_BASE_URL, ApiError, isAbortError } from "./httpClient";
+export type { RequestOptions } from "./httpClient";
+
+export interface LoginResponse extends SessionTokens {
+  user: SessionUser;
+}
+
+// Cached GET through the shared query cache: identical in-flight requests are
+// de-duplicated and fresh results are served from memory. The caller's signal
+// only detaches that caller; the shared request keeps running for the others.
+const cachedGet = <T>(path: string, config: RequestConfig = {}): Promise<T> => {
+  const { signal, ...rest } = config;
+  return queryCache.fetch(
+    getQueryKey(path, config.query),
+    () => http.get<T>(path, rest),
+    { signal }
+  );
+};
+
+// Runs a mutation, then invalidates the cached reads it affects so that
+// subscribed views (Tasks, Dashboard, ...) refetch
+const mutate = async <T>(request: Promise<T>, invalidates: string[]): Promise<T> => {
+  const result = await request;
+  queryCache.invalidate(invalidates);
+  return result;
+};
+
+// Cached reads affected by each kind of mutation
+const PROJECT_READS = ["/projects", "/dashboard", "/users", "/project-assignments"];
+const PROJECT_TEAM_READS = ["/projects", "/dashboard", "/team", "/users"];
+const TASK_READS = ["/tasks", "/users", "/dashboard", "/projects"];
+const USER_READS = ["/users", "/team", "/dashboard", "/projects"];
+const ASSIGNMENT_READS = ["/project-assignments", "/projects", "/dashboard", "/users"];
+// Logged time is the tasks' actual hours
+const TIME_READS = ["/time", "/timesheets", ...TASK_READS];
+// Rates price every project's logged time and the timesheet export
+const COST_RATE_READS = ["/cost-rates", "/projects", "/timesheets"];
+
+// Cached lists of tasks, e.g. "/tasks?userId=1", "/tasks/project/2" or
+// "/users/3/projects/2/tasks", and of projects
+const TASK_LIST = /^(\/tasks(\/(project|assignee)\/\d+)?|\/users\/\d+(\/projects\/\d+)?\/tasks)(\?|$)/;
+const PROJECT_LIST = /^(\/projects|\/dashboard\/projects|\/users\/\d+\/projects)(\?|$)/;
+
+// Replaces (or drops, for null) the record with the given id in cached lists
+const patchLists = (list: RegExp, id: number, record: object | null) =>
+  queryCache.update(
+    (key) => list.test(key),
+    (data) => {
+      if (!Array.isArray(data) || !data.some((item) => item?.id === id)) return data;
+      return record
+        ? data.map((item) => (item?.id === id ? { ...item, ...record } : item))
+        : data.filter((item) => item?.id !== id);
     }
+  );
+
+// Applies a change pushed by the server (see realtime.ts). Updated and
+// deleted tasks and projects are patched in cached lists; everything else,
+// including new records and tasks moved to another assignee or project,
+// whose lists can't be told, is invalidated like the matching mutation.
+export const applyRealtimeEvent = (event: RealtimeEvent) => {
+  const { resource, action, id, data } = event;
+  switch (resource) {
+    case "task":
+      if (
+        action === "created" ||
+        event.changes?.some((field) => field === "assignee_id" || field === "project_id")
+      ) {
+        queryCache.invalidate(TASK_READS);
+        return;
+      }
+      patchLists(TASK_LIST, id, action === "deleted" ? null : data);
+      queryCache.invalidate([`/tasks/${id}`, "/dashboard", "/projects"]);
+      return;
+    case "project":
+      if (action === "created") {
+        queryCache.invalidate(PROJECT_READS);
+        return;
+      }
+      patchLists(PROJECT_LIST, id, action === "deleted" ? null : data);
+      queryCache.invalidate([`/projects/${id}`, "/dashboard", "/project-assignments"]);
+      return;
+    case "team":
+      queryCache.invalidate(PROJECT_TEAM_READS);
+      return;
+    case "daily_update":
+      queryCache.invalidate([`/tasks/${event.task_id}/daily-updates`]);
+      return;
+    case "notification":
+      queryCache.invalidate(["/notifications"]);
+      return;
   }
-  // For Docker/production/remote server, use production URL
-  return 'http://72.61.240.130:5005/api';
 };
 
-export const API_BASE_URL = getApiBaseUrl();
+// Drops every cached read that live updates keep current, for when events
+// may have been missed
+export const invalidateRealtimeReads = () =>
+  queryCache.invalidate([...TASK_READS, ...PROJECT_READS, ...PROJECT_TEAM_READS, "/notifications"]);
 
 export interface CreateProjectData {
   name: string;
@@ -43,9 +150,23 @@ export interface CreateTaskData {
     | "review"
     | "meeting"
     | "other";
+  start_date?: string;
   due_date?: string;
-  attachments?: string;
   status?: "todo" | "in_progress" | "completed" | "blocked";
+  // Creates a subtask; it must be in the parent's project
+  parent_task_id?: number;
+  // Creates one task per occurrence, the first due on due_date
+  recurrence?: RecurrenceRule;
+  // The workload warning the creator confirmed, kept on the task
+  workload_warning_level?: "none" | "high" | "critical";
+  workload_warnings?: string;
+  utilization_percentage?: number;
+  allocation_utilization?: number;
+  weeks_until_due?: number;
+  current_task_count?: number;
+  total_workload_hours?: number;
+  available_hours?: number;
+  allocated_hours?: number;
 }
 
 export interface UpdateTaskData {
@@ -65,314 +186,340 @@ export interface UpdateTaskData {
     | "review"
     | "meeting"
     | "other";
+  start_date?: string;
   due_date?: string;
-  attachments?: string;
   work_description?: string;
   productivity_rating?: number;
+  // Moves the task to a workflow state, checked against the project's
+  // transitions and rules; the status follows the state's category
+  workflow_state?: string;
+  // Manual position among the board's cards
+  rank?: number;
+  // Who a blocked task is waiting for
+  dependent_user_id?: number | null;
 }
 
 // Project API functions
 export const projectAPI = {
   // Get all projects (optionally filtered by userId/userRole for managers/team leads)
-  getAll: async (userId?: number, userRole?: string): Promise<Project[]> => {
-    const params = new URLSearchParams();
-    if (userId) params.append("userId", String(userId));
-    if (userRole) params.append("userRole", userRole);
-    
-    const url = `${API_BASE_URL}/projects${params.toString() ? `?${params.toString()}` : ''}`;
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error("Failed to fetch projects");
-    }
-    return response.json();
-  },
+  getAll: (userId?: number, userRole?: string, options?: RequestOptions): Promise<Project[]> =>
+    cachedGet("/projects", {
+      ...options,
+      query: { userId, userRole },
+      errorMessage: "Failed to fetch projects",
+    }),
 
   // Create new project
-  create: async (
+  create: (
     projectData: CreateProjectData
-  ): Promise<{ id: number; message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/projects`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(projectData),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to create project");
-    }
-
-    return response.json();
-  },
+  ): Promise<{ id: number; message: string }> =>
+    mutate(
+      http.post("/projects", projectData, {
+        errorMessage: "Failed to create project",
+      }),
+      PROJECT_READS
+    ),
 
   // Update project
-  update: async (
+  update: (
     id: number,
     projectData: Partial<CreateProjectData>
-  ): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/projects/${id}`, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(projectData),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to update project");
-    }
-
-    return response.json();
-  },
+  ): Promise<{ message: string }> =>
+    mutate(
+      http.put(`/projects/${id}`, projectData, {
+        errorMessage: "Failed to update project",
+      }),
+      PROJECT_READS
+    ),
 
   // Delete project
-  delete: async (id: number): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/projects/${id}`, {
-      method: "DELETE",
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to delete project");
-    }
+  delete: (id: number): Promise<{ message: string }> =>
+    mutate(
+      http.delete(`/projects/${id}`, {
+        errorMessage: "Failed to delete project",
+      }),
+      PROJECT_READS
+    ),
+
+  // Board columns, transitions and transition rules of a project
+  getWorkflow: (projectId: number, options?: RequestOptions): Promise<ProjectWorkflow> =>
+    cachedGet(`/projects/${projectId}/workflow`, {
+      ...options,
+      errorMessage: "Failed to fetch project workflow",
+    }),
+
+  // Tasks in removed columns move to the first column of their category
+  updateWorkflow: (
+    projectId: number,
+    workflow: Pick<ProjectWorkflow, "states" | "rules">
+  ): Promise<{ message: string; workflow: ProjectWorkflow }> =>
+    mutate(
+      http.put(`/projects/${projectId}/workflow`, workflow, {
+        errorMessage: "Failed to update project workflow",
+      }),
+      [`/projects/${projectId}/workflow`, "/tasks", "/dashboard"]
+    ),
+
+  // Cost so far, forecast and budget alerts; managers and team leads only
+  getFinancials: (projectId: number, options?: RequestOptions): Promise<ProjectFinancials> =>
+    cachedGet(`/projects/${projectId}/financials`, {
+      ...options,
+      errorMessage: "Failed to fetch project financials",
+    }),
+
+  // Daily scope, completed and remaining planned hours for the burn charts
+  getBurnData: (projectId: number, options?: RequestOptions): Promise<ProjectBurnData> =>
+    cachedGet(`/projects/${projectId}/burndown`, {
+      ...options,
+      errorMessage: "Failed to fetch project progress",
+    }),
+};
 
-    return response.json();
-  },
+// Hourly cost rates by role and person; only super admins change them
+export const costRatesAPI = {
+  get: (options?: RequestOptions): Promise<CostRates> =>
+    cachedGet("/cost-rates", {
+      ...options,
+      errorMessage: "Failed to fetch cost rates",
+    }),
+
+  update: (rates: Partial<CostRates>): Promise<CostRates> =>
+    mutate(
+      http.put("/cost-rates", rates, {
+        errorMessage: "Failed to update cost rates",
+      }),
+      COST_RATE_READS
+    ),
 };
 
 // Team API functions
 export const teamAPI = {
   // Get all team members
-  getAll: async (): Promise<TeamMember[]> => {
-    const response = await fetch(`${API_BASE_URL}/team`);
-    if (!response.ok) {
-      throw new Error("Failed to fetch team members");
-    }
-    return response.json();
-  },
+  getAll: (options?: RequestOptions): Promise<TeamMember[]> =>
+    cachedGet("/team", {
+      ...options,
+      errorMessage: "Failed to fetch team members",
+    }),
 };
 
 // Project Team API functions
 export const projectTeamAPI = {
   // Get team members for a specific project
-  getProjectTeam: async (projectId: number, userId?: number, userRole?: string): Promise<any[]> => {
-    const params = new URLSearchParams();
-    if (userId) params.append("userId", String(userId));
-    if (userRole) params.append("userRole", userRole);
-    
-    const url = `${API_BASE_URL}/projects/${projectId}/team${params.toString() ? `?${params.toString()}` : ''}`;
-    const response = await fetch(url);
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to fetch project team members");
-    }
-    return response.json();
-  },
+  getProjectTeam: (
+    projectId: number,
+    userId?: number,
+    userRole?: string,
+    options?: RequestOptions
+  ): Promise<any[]> =>
+    cachedGet(`/projects/${projectId}/team`, {
+      ...options,
+      query: { userId, userRole },
+      errorMessage: "Failed to fetch project team members",
+    }),
 
   // Get available team members for a project
-  getAvailableTeam: async (projectId: number, userId?: number, userRole?: string): Promise<any[]> => {
-    const params = new URLSearchParams();
-    if (userId) params.append("userId", String(userId));
-    if (userRole) params.append("userRole", userRole);
-    
-    const url = `${API_BASE_URL}/projects/${projectId}/available-team${params.toString() ? `?${params.toString()}` : ''}`;
-    const response = await fetch(url);
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to fetch available team members");
-    }
-    return response.json();
-  },
+  getAvailableTeam: (
+    projectId: number,
+    userId?: number,
+    userRole?: string,
+    options?: RequestOptions
+  ): Promise<any[]> =>
+    cachedGet(`/projects/${projectId}/available-team`, {
+      ...options,
+      query: { userId, userRole },
+      errorMessage: "Failed to fetch available team members",
+    }),
 
   // Add team member to project
-  addTeamMember: async (
+  addTeamMember: (
     projectId: number,
     userId: number,
     allocatedHoursPerWeek: number,
     username?: string,
     role?: string
-  ): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/projects/${projectId}/team`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        user_id: userId,
-        allocated_hours_per_week: allocatedHoursPerWeek,
-        username: username,
-        role: role,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to add team member to project");
-    }
-
-    return response.json();
-  },
+  ): Promise<{ message: string }> =>
+    mutate(
+      http.post(
+        `/projects/${projectId}/team`,
+        {
+          user_id: userId,
+          allocated_hours_per_week: allocatedHoursPerWeek,
+          username: username,
+          role: role,
+        },
+        { errorMessage: "Failed to add team member to project" }
+      ),
+      PROJECT_TEAM_READS
+    ),
 
   // Remove team member from project
-  removeTeamMember: async (
+  removeTeamMember: (
     projectId: number,
     teamMemberId: number
-  ): Promise<{ message: string }> => {
-    const response = await fetch(
-      `${API_BASE_URL}/projects/${projectId}/team/${teamMemberId}`,
-      {
-        method: "DELETE",
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(
-        error.message || "Failed to remove team member from project"
-      );
-    }
-
-    return response.json();
-  },
+  ): Promise<{ message: string }> =>
+    mutate(
+      http.delete(`/projects/${projectId}/team/${teamMemberId}`, {
+        errorMessage: "Failed to remove team member from project",
+      }),
+      PROJECT_TEAM_READS
+    ),
 
   // Update team member hours
-  updateTeamMember: async (
+  updateTeamMember: (
     projectId: number,
     userId: number,
     allocatedHoursPerWeek: number
-  ): Promise<{ message: string }> => {
-    const response = await fetch(
-      `${API_BASE_URL}/projects/${projectId}/team/${userId}`,
-      {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          allocated_hours_per_week: allocatedHoursPerWeek,
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to update team member hours");
-    }
-
-    return response.json();
-  },
+  ): Promise<{ message: string }> =>
+    mutate(
+      http.put(
+        `/projects/${projectId}/team/${userId}`,
+        { allocated_hours_per_week: allocatedHoursPerWeek },
+        { errorMessage: "Failed to update team member hours" }
+      ),
+      PROJECT_TEAM_READS
+    ),
 };
 
 // Task API functions
 export const taskAPI = {
   // Get all tasks (optionally filtered by userId/userRole for managers/team leads)
-  getAll: async (userId?: number, userRole?: string): Promise<Task[]> => {
-    const params = new URLSearchParams();
-    if (userId) params.append("userId", String(userId));
-    if (userRole) params.append("userRole", userRole);
-    
-    const url = `${API_BASE_URL}/tasks${params.toString() ? `?${params.toString()}` : ''}`;
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error("Failed to fetch tasks");
-    }
-    return response.json();
-  },
+  getAll: (userId?: number, userRole?: string, options?: RequestOptions): Promise<Task[]> =>
+    cachedGet("/tasks", {
+      ...options,
+      query: { userId, userRole },
+      errorMessage: "Failed to fetch tasks",
+    }),
 
   // Get tasks by project
-  getByProject: async (projectId: number): Promise<Task[]> => {
-    const response = await fetch(`${API_BASE_URL}/tasks/project/${projectId}`);
-    if (!response.ok) {
-      throw new Error("Failed to fetch project tasks");
-    }
-    return response.json();
-  },
+  getByProject: (projectId: number, options?: RequestOptions): Promise<Task[]> =>
+    cachedGet(`/tasks/project/${projectId}`, {
+      ...options,
+      errorMessage: "Failed to fetch project tasks",
+    }),
 
   // Get tasks by assignee
-  getByAssignee: async (assigneeId: number): Promise<Task[]> => {
-    const response = await fetch(
-      `${API_BASE_URL}/tasks/assignee/${assigneeId}`
-    );
-    if (!response.ok) {
-      throw new Error("Failed to fetch assignee tasks");
-    }
-    return response.json();
-  },
+  getByAssignee: (assigneeId: number, options?: RequestOptions): Promise<Task[]> =>
+    cachedGet(`/tasks/assignee/${assigneeId}`, {
+      ...options,
+      errorMessage: "Failed to fetch assignee tasks",
+    }),
 
   // Get task by ID
-  getById: async (taskId: number): Promise<Task> => {
-    const response = await fetch(`${API_BASE_URL}/tasks/${taskId}`);
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to fetch task details");
-    }
-    return response.json();
-  },
-
-  // Create new task
-  create: async (
+  getById: (taskId: number, options?: RequestOptions): Promise<Task> =>
+    cachedGet(`/tasks/${taskId}`, {
+      ...options,
+      errorMessage: "Failed to fetch task details",
+    }),
+
+  // Create new task. Recurring tasks return the ids of every occurrence,
+  // `id` being the first.
+  create: (
     taskData: CreateTaskData
-  ): Promise<{ id: number; message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/tasks`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(taskData),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to create task");
-    }
-
-    return response.json();
-  },
-
-  // Update task
-  update: async (
+  ): Promise<{ id: number; ids?: number[]; message: string }> =>
+    mutate(
+      http.post("/tasks", taskData, {
+        errorMessage: "Failed to create task",
+      }),
+      TASK_READS
+    ),
+
+  // Update task. Completing a task reports the tasks whose blockers are now
+  // all complete; their assignees are notified by the backend. For an
+  // occurrence of a recurring task, `scope` also applies the change to the
+  // following occurrences or to the whole series.
+  update: (
     id: number,
-    taskData: UpdateTaskData
-  ): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/tasks/${id}`, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(taskData),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to update task");
-    }
-
-    return response.json();
-  },
+    taskData: UpdateTaskData,
+    options: { scope?: RecurrenceScope } = {}
+  ): Promise<{ message: string; unblocked_tasks?: TaskDependency[]; updated_ids?: number[] }> =>
+    mutate(
+      http.put(`/tasks/${id}`, taskData, {
+        query: { scope: options.scope },
+        errorMessage: "Failed to update task",
+      }),
+      TASK_READS
+    ),
 
   // Delete task
-  delete: async (id: number): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/tasks/${id}`, {
-      method: "DELETE",
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to delete task");
-    }
+  delete: (id: number): Promise<{ message: string }> =>
+    mutate(
+      http.delete(`/tasks/${id}`, {
+        errorMessage: "Failed to delete task",
+      }),
+      TASK_READS
+    ),
+
+  // Get the subtasks of a task
+  getSubtasks: (taskId: number, options?: RequestOptions): Promise<Task[]> =>
+    cachedGet(`/tasks/${taskId}/subtasks`, {
+      ...options,
+      errorMessage: "Failed to fetch subtasks",
+    }),
+
+  // Get a task's checklist
+  getChecklist: (taskId: number, options?: RequestOptions): Promise<ChecklistItem[]> =>
+    cachedGet(`/tasks/${taskId}/checklist`, {
+      ...options,
+      errorMessage: "Failed to fetch checklist",
+    }),
+
+  // Checklist changes update the progress shown in task lists
+  addChecklistItem: (taskId: number, text: string): Promise<ChecklistItem> =>
+    mutate(
+      http.post(`/tasks/${taskId}/checklist`, { text }, {
+        errorMessage: "Failed to add checklist item",
+      }),
+      ["/tasks"]
+    ),
 
-    return response.json();
-  },
+  updateChecklistItem: (
+    taskId: number,
+    itemId: number,
+    data: { text?: string; done?: boolean }
+  ): Promise<ChecklistItem> =>
+    mutate(
+      http.put(`/tasks/${taskId}/checklist/${itemId}`, data, {
+        errorMessage: "Failed to update checklist item",
+      }),
+      ["/tasks"]
+    ),
+
+  deleteChecklistItem: (taskId: number, itemId: number): Promise<{ message: string }> =>
+    mutate(
+      http.delete(`/tasks/${taskId}/checklist/${itemId}`, {
+        errorMessage: "Failed to delete checklist item",
+      }),
+      ["/tasks"]
+    ),
+
+  // Get the tasks blocking this one and the tasks it blocks
+  getDependencies: (taskId: number, options?: RequestOptions): Promise<TaskDependencies> =>
+    cachedGet(`/tasks/${taskId}/dependencies`, {
+      ...options,
+      errorMessage: "Failed to fetch task dependencies",
+    }),
+
+  // Replace the tasks blocking this one. Rejected with type
+  // "dependency_cycle" if a blocker already depends on this task.
+  setBlockers: (taskId: number, blockerIds: number[]): Promise<TaskDependencies> =>
+    mutate(
+      http.put(`/tasks/${taskId}/dependencies`, { blocked_by: blockerIds }, {
+        errorMessage: "Failed to update task dependencies",
+      }),
+      TASK_READS
+    ),
 
   // Validate workload before creating task
-  validateWorkload: async (data: {
+  validateWorkload: (data: {
     assignee_id: number;
     project_id: number;
     planned_hours: number;
     due_date: string;
+    // Counts the hours of every occurrence
+    recurrence?: RecurrenceRule;
+    // An existing task being rescheduled; its current hours aren't counted
+    // twice
+    task_id?: number;
   }): Promise<{
     isValid: boolean;
     warningLevel: "none" | "high" | "critical";
@@ -387,399 +534,578 @@ export const taskAPI = {
       allocationUtilization: number;
       weeksUntilDue: number;
       currentTaskCount: number;
+      // Part of currentHours that comes from subtasks
+      subtaskHours?: number;
+      // Number of occurrences included in newTaskHours
+      occurrences?: number;
     };
-  }> => {
-    const response = await fetch(`${API_BASE_URL}/tasks/validate-workload`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to validate workload");
-    }
-
-    return response.json();
-  },
+  }> =>
+    http.post("/tasks/validate-workload", data, {
+      errorMessage: "Failed to validate workload",
+    }),
 
   // Get daily updates for a task
-  getDailyUpdates: async (taskId: number): Promise<DailyUpdate[]> => {
-    const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/daily-updates`);
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to fetch daily updates");
-    }
-    return response.json();
-  },
+  getDailyUpdates: (taskId: number, options?: RequestOptions): Promise<DailyUpdate[]> =>
+    cachedGet(`/tasks/${taskId}/daily-updates`, {
+      ...options,
+      errorMessage: "Failed to fetch daily updates",
+    }),
 
   // Create a daily update for a task
-  createDailyUpdate: async (
+  createDailyUpdate: (
     taskId: number,
-    data: { user_id: number; comment: string }
-  ): Promise<DailyUpdate> => {
-    const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/daily-updates`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to create daily update");
+    data: {
+      user_id: number;
+      comment: string;
+      parent_id?: number | null;
+      mentions?: number[];
     }
+  ): Promise<DailyUpdate> =>
+    mutate(
+      http.post(`/tasks/${taskId}/daily-updates`, data, {
+        errorMessage: "Failed to create daily update",
+      }),
+      [`/tasks/${taskId}/daily-updates`]
+    ),
 
-    return response.json();
-  },
+  // Edit a daily update (authors can only edit their own)
+  updateDailyUpdate: (
+    taskId: number,
+    updateId: number,
+    data: { comment: string; mentions?: number[] }
+  ): Promise<DailyUpdate> =>
+    mutate(
+      http.put(`/tasks/${taskId}/daily-updates/${updateId}`, data, {
+        errorMessage: "Failed to update daily update",
+      }),
+      [`/tasks/${taskId}/daily-updates`]
+    ),
 
   // Delete a daily update
-  deleteDailyUpdate: async (
+  deleteDailyUpdate: (
     taskId: number,
     updateId: number
-  ): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/daily-updates/${updateId}`, {
-      method: "DELETE",
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to delete daily update");
-    }
-
-    return response.json();
+  ): Promise<{ message: string }> =>
+    mutate(
+      http.delete(`/tasks/${taskId}/daily-updates/${updateId}`, {
+        errorMessage: "Failed to delete daily update",
+      }),
+      [`/tasks/${taskId}/daily-updates`]
+    ),
+
+  // Get files and links attached to a task
+  getAttachments: (taskId: number, options?: RequestOptions): Promise<TaskAttachment[]> =>
+    cachedGet(`/tasks/${taskId}/attachments`, {
+      ...options,
+      errorMessage: "Failed to fetch attachments",
+    }),
+
+  // Upload one file (multipart field "file"); one request per file so each
+  // can report its own progress
+  uploadAttachment: (
+    taskId: number,
+    file: File,
+    options: RequestOptions & { onUploadProgress?: UploadProgressHandler } = {}
+  ): Promise<TaskAttachment> => {
+    const formData = new FormData();
+    formData.append("file", file);
+    return mutate(
+      http.post(`/tasks/${taskId}/attachments`, formData, {
+        ...options,
+        // Large files on slow connections need longer than the default
+        timeoutMs: options.timeoutMs ?? 10 * 60 * 1000,
+        errorMessage: `Failed to upload ${file.name}`,
+      }),
+      [`/tasks/${taskId}`]
+    );
   },
+
+  // Attach links (e.g. PRs and documents) to a task
+  addAttachmentLinks: (taskId: number, urls: string[]): Promise<TaskAttachment[]> =>
+    mutate(
+      http.post(`/tasks/${taskId}/attachments/links`, { urls }, {
+        errorMessage: "Failed to attach links",
+      }),
+      [`/tasks/${taskId}`]
+    ),
+
+  // Delete an attachment
+  deleteAttachment: (
+    taskId: number,
+    attachmentId: number
+  ): Promise<{ message: string }> =>
+    mutate(
+      http.delete(`/tasks/${taskId}/attachments/${attachmentId}`, {
+        errorMessage: "Failed to delete attachment",
+      }),
+      [`/tasks/${taskId}`]
+    ),
 };
 
 // Auth API functions
 export const authAPI = {
-  // Login - email only
-  login: async (
-    email: string,
-    password: string
-  ): Promise<{ id: number; username: string; role: string }> => {
-    const response = await fetch(`${API_BASE_URL}/auth/login`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ email, password }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Login failed");
-    }
-
-    return response.json();
-  },
+  // Login - email only; returns access/refresh tokens for the session
+  login: (email: string, password: string): Promise<LoginResponse> =>
+    http.post("/auth/login", { email, password }, {
+      auth: false,
+      errorMessage: "Login failed",
+    }),
+  // Exchange a refresh token for a new token pair
+  refresh: (refreshToken: string): Promise<SessionTokens> =>
+    http.post("/auth/refresh", { refreshToken }, {
+      auth: false,
+      errorMessage: "Session expired",
+    }),
+  // Revoke the refresh token on the server
+  logout: (refreshToken: string): Promise<void> =>
+    http.post("/auth/logout", { refreshToken }, {
+      auth: false,
+      errorMessage: "Failed to log out",
+    }),
   // Start forgot password - generates random password and sends via email
-  startReset: async (identifier: string): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/auth/forgot/start`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      // Send as both email and username to support either input
-      body: JSON.stringify({ email: identifier, username: identifier }),
-    });
-    const body = await response.json();
-    if (!response.ok) {
-      throw new Error(body.message || "Failed to reset password");
-    }
-    return body;
-  },
+  startReset: (identifier: string): Promise<{ message: string }> =>
+    // Send as both email and username to support either input
+    http.post("/auth/forgot/start", { email: identifier, username: identifier }, {
+      auth: false,
+      errorMessage: "Failed to reset password",
+    }),
   // Verify OTP
-  verifyOtp: async (
-    username: string,
-    otp: string
-  ): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/auth/forgot/verify`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ username, otp }),
-    });
-    const body = await response.json();
-    if (!response.ok) {
-      throw new Error(body.message || "Invalid OTP");
-    }
-    return body;
-  },
+  verifyOtp: (username: string, otp: string): Promise<{ message: string }> =>
+    http.post("/auth/forgot/verify", { username, otp }, {
+      auth: false,
+      errorMessage: "Invalid OTP",
+    }),
   // Reset password
-  resetPassword: async (
+  resetPassword: (
     username: string,
     otp: string,
     newPassword: string
-  ): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/auth/forgot/reset`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ username, otp, newPassword }),
-    });
-    const body = await response.json();
-    if (!response.ok) {
-      throw new Error(body.message || "Failed to reset password");
-    }
-    return body;
-  },
+  ): Promise<{ message: string }> =>
+    http.post("/auth/forgot/reset", { username, otp, newPassword }, {
+      auth: false,
+      errorMessage: "Failed to reset password",
+    }),
 
   // Change password with current password verification
-  changePassword: async (
+  changePassword: (
     userId: number,
     currentPassword: string,
     newPassword: string
-  ): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/auth/change-password`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ userId, currentPassword, newPassword }),
-    });
-    const body = await response.json();
-    if (!response.ok) {
-      throw new Error(body.message || 'Failed to change password');
-    }
-    return body;
-  },
+  ): Promise<{ message: string }> =>
+    http.post("/auth/change-password", { userId, currentPassword, newPassword }, {
+      errorMessage: "Failed to change password",
+    }),
 };
 
+export interface UserPayload {
+  username: string;
+  email: string;
+  role: string;
+  password?: string;
+  available_hours_per_week?: number;
+}
+
 // User-specific API functions
 export const userAPI = {
+  // List users (managers/team leads only see users on their projects)
+  getAll: (userId?: number, userRole?: string, options?: RequestOptions): Promise<any[]> =>
+    cachedGet("/users", {
+      ...options,
+      query: { userId, userRole },
+      errorMessage: "Failed to fetch users",
+    }),
+  // Create a user account
+  create: (data: UserPayload): Promise<{ id: number; message: string }> =>
+    mutate(
+      http.post("/users", data, {
+        errorMessage: "Failed to create user",
+      }),
+      USER_READS
+    ),
   // Update current user's profile
-  update: async (
+  update: (
     id: number,
-    data: { username: string; email: string; role: string; available_hours_per_week?: number }
-  ): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/users/${id}`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(data),
-    });
-    const body = await response.json();
-    if (!response.ok) {
-      throw new Error(body.message || 'Failed to update profile');
-    }
-    return body;
-  },
+    data: UserPayload
+  ): Promise<{ message: string }> =>
+    mutate(
+      http.put(`/users/${id}`, data, {
+        errorMessage: "Failed to update profile",
+      }),
+      USER_READS
+    ),
+  // Delete a user account
+  delete: (id: number): Promise<{ message: string }> =>
+    mutate(
+      http.delete(`/users/${id}`, {
+        errorMessage: "Failed to delete user",
+      }),
+      USER_READS
+    ),
   // Get projects assigned to a specific user
-  getUserProjects: async (userId: number): Promise<Project[]> => {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/projects`);
-    if (!response.ok) {
-      throw new Error("Failed to fetch user projects");
-    }
-    return response.json();
-  },
+  getUserProjects: (userId: number, options?: RequestOptions): Promise<Project[]> =>
+    cachedGet(`/users/${userId}/projects`, {
+      ...options,
+      errorMessage: "Failed to fetch user projects",
+    }),
 
   // Get project details for a specific user
-  getUserProjectDetails: async (
+  getUserProjectDetails: (
     userId: number,
-    projectId: number
-  ): Promise<any> => {
-    const response = await fetch(
-      `${API_BASE_URL}/users/${userId}/projects/${projectId}`
-    );
-    if (!response.ok) {
-      throw new Error("Failed to fetch project details");
-    }
-    return response.json();
-  },
+    projectId: number,
+    options?: RequestOptions
+  ): Promise<any> =>
+    cachedGet(`/users/${userId}/projects/${projectId}`, {
+      ...options,
+      errorMessage: "Failed to fetch project details",
+    }),
 
   // Get tasks assigned to a specific user
-  getUserTasks: async (userId: number): Promise<Task[]> => {
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/tasks`);
-    if (!response.ok) {
-      throw new Error("Failed to fetch user tasks");
-    }
-    return response.json();
-  },
+  getUserTasks: (userId: number, options?: RequestOptions): Promise<Task[]> =>
+    cachedGet(`/users/${userId}/tasks`, {
+      ...options,
+      errorMessage: "Failed to fetch user tasks",
+    }),
 
   // Get tasks for a specific project assigned to a specific user
-  getUserProjectTasks: async (
+  getUserProjectTasks: (
     userId: number,
-    projectId: number
-  ): Promise<Task[]> => {
-    const response = await fetch(
-      `${API_BASE_URL}/users/${userId}/projects/${projectId}/tasks`
-    );
-    if (!response.ok) {
-      throw new Error("Failed to fetch project tasks");
-    }
-    return response.json();
-  },
+    projectId: number,
+    options?: RequestOptions
+  ): Promise<Task[]> =>
+    cachedGet(`/users/${userId}/projects/${projectId}/tasks`, {
+      ...options,
+      errorMessage: "Failed to fetch project tasks",
+    }),
 };
 
+export interface DashboardQuery {
+  projectId?: string;
+  employeeId?: string;
+  startDate?: string;
+  endDate?: string;
+  userId?: number;
+  userRole?: string;
+}
+
 // Dashboard API
 export const dashboardAPI = {
-  getDashboardData: async (filters?: {
-    projectId?: string;
-    employeeId?: string;
-    startDate?: string;
-    endDate?: string;
-    userId?: number;
-    userRole?: string;
-  }) => {
-    const params = new URLSearchParams();
-    if (filters?.projectId) params.append("projectId", filters.projectId);
-    if (filters?.employeeId) params.append("employeeId", filters.employeeId);
-    if (filters?.startDate) params.append("startDate", filters.startDate);
-    if (filters?.endDate) params.append("endDate", filters.endDate);
-    if (filters?.userId) params.append("userId", String(filters.userId));
-    if (filters?.userRole) params.append("userRole", filters.userRole);
-
-    const response = await fetch(`${API_BASE_URL}/dashboard/data?${params}`);
-    if (!response.ok) throw new Error("Failed to fetch dashboard data");
-    return response.json();
-  },
-
-  getProjects: async (userId?: number, userRole?: string) => {
-    const params = new URLSearchParams();
-    if (userId) params.append("userId", String(userId));
-    if (userRole) params.append("userRole", userRole);
-    
-    const url = `${API_BASE_URL}/dashboard/projects${params.toString() ? `?${params.toString()}` : ''}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error("Failed to fetch projects");
-    return response.json();
-  },
-
-  getEmployees: async (projectId?: string, userId?: number, userRole?: string) => {
-    const params = new URLSearchParams();
-    if (projectId) params.append("projectId", projectId);
-    if (userId) params.append("userId", userId.toString());
-    if (userRole) params.append("userRole", userRole);
-    
-    const url = `${API_BASE_URL}/dashboard/employees${params.toString() ? `?${params.toString()}` : ''}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error("Failed to fetch employees");
-    return response.json();
-  },
-
-  getTaskStatus: async (filters?: {
-    projectId?: string;
-    employeeId?: string;
-    startDate?: string;
-    endDate?: string;
-    userId?: number;
-    userRole?: string;
-  }) => {
-    const queryParams = new URLSearchParams();
-
-    if (filters?.projectId) queryParams.append("projectId", filters.projectId);
-    if (filters?.employeeId)
-      queryParams.append("employeeId", filters.employeeId);
-    if (filters?.startDate) queryParams.append("startDate", filters.startDate);
-    if (filters?.endDate) queryParams.append("endDate", filters.endDate);
-    if (filters?.userId) queryParams.append("userId", String(filters.userId));
-    if (filters?.userRole) queryParams.append("userRole", filters.userRole);
-
-    const url = `${API_BASE_URL}/dashboard/task-status?${queryParams.toString()}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error("Failed to fetch task status data");
-    return response.json();
-  },
-
-  getTasksTimeline: async (params: {
-    role: string;
-    userId: number;
-    projectId?: string;
-    employeeId?: string;
-    startDate?: string;
-    endDate?: string;
-  }) => {
-    const query = new URLSearchParams();
-    query.append("role", params.role);
-    query.append("userId", String(params.userId));
-    if (params.projectId) query.append("projectId", params.projectId);
-    if (params.employeeId) query.append("employeeId", params.employeeId);
-    if (params.startDate) query.append("startDate", params.startDate);
-    if (params.endDate) query.append("endDate", params.endDate);
-    const response = await fetch(
-      `${API_BASE_URL}/dashboard/tasks-timeline?${query.toString()}`
-    );
-    if (!response.ok) throw new Error("Failed to fetch tasks timeline");
-    return response.json() as Promise<{ thisWeek: any[]; nextWeek: any[] }>;
-  },
+  getDashboardData: (filters?: DashboardQuery, options?: RequestOptions) =>
+    cachedGet<any>("/dashboard/data", {
+      ...options,
+      query: { ...filters },
+      errorMessage: "Failed to fetch dashboard data",
+    }),
+
+  // Aggregated task stats, charts and availability for the selected filters
+  getTaskStats: (
+    payload: {
+      projectId?: string;
+      employeeId?: string;
+      startDate: string;
+      endDate: string;
+    },
+    options?: RequestOptions
+  ) =>
+    http.post<any>("/dashboard/newData", payload, {
+      ...options,
+      errorMessage: "Failed to fetch task stats",
+    }),
+
+  getProjects: (userId?: number, userRole?: string, options?: RequestOptions) =>
+    cachedGet<any[]>("/dashboard/projects", {
+      ...options,
+      query: { userId, userRole },
+      errorMessage: "Failed to fetch projects",
+    }),
+
+  getEmployees: (
+    projectId?: string,
+    userId?: number,
+    userRole?: string,
+    options?: RequestOptions
+  ) =>
+    cachedGet<any[]>("/dashboard/employees", {
+      ...options,
+      query: { projectId, userId, userRole },
+      errorMessage: "Failed to fetch employees",
+    }),
+
+  getTaskStatus: (filters?: DashboardQuery, options?: RequestOptions) =>
+    cachedGet<any>("/dashboard/task-status", {
+      ...options,
+      query: { ...filters },
+      errorMessage: "Failed to fetch task status data",
+    }),
+
+  getTasksTimeline: (
+    params: {
+      role: string;
+      userId: number;
+      projectId?: string;
+      employeeId?: string;
+      startDate?: string;
+      endDate?: string;
+    },
+    options?: RequestOptions
+  ) =>
+    cachedGet<{ thisWeek: any[]; nextWeek: any[] }>("/dashboard/tasks-timeline", {
+      ...options,
+      query: { ...params },
+      errorMessage: "Failed to fetch tasks timeline",
+    }),
 };
 
 // Project Assignments API
 export const projectAssignmentsAPI = {
   // Get all project assignments
-  getAll: async (): Promise<any[]> => { 
-    const response = await fetch(`${API_BASE_URL}/project-assignments`);
-    if (!response.ok) throw new Error("Failed to fetch project assignments");
-    return response.json();
-  },
+  getAll: (options?: RequestOptions): Promise<any[]> =>
+    cachedGet("/project-assignments", {
+      ...options,
+      errorMessage: "Failed to fetch project assignments",
+    }),
 
   // Get projects assigned to a user
-  getByUser: async (userId: number): Promise<any[]> => {
-    const response = await fetch(`${API_BASE_URL}/project-assignments/user/${userId}`);
-    if (!response.ok) throw new Error("Failed to fetch user assignments");
-    return response.json();
-  },
+  getByUser: (userId: number, options?: RequestOptions): Promise<any[]> =>
+    cachedGet(`/project-assignments/user/${userId}`, {
+      ...options,
+      errorMessage: "Failed to fetch user assignments",
+    }),
 
   // Get available managers and team leads
-  getManagersTeamLeads: async (): Promise<any[]> => {
-    const response = await fetch(`${API_BASE_URL}/project-assignments/managers-teamleads`);
-    if (!response.ok) throw new Error("Failed to fetch managers/team leads");
-    return response.json();
-  },
+  getManagersTeamLeads: (options?: RequestOptions): Promise<any[]> =>
+    cachedGet("/project-assignments/managers-teamleads", {
+      ...options,
+      errorMessage: "Failed to fetch managers/team leads",
+    }),
 
   // Assign a project
-  assign: async (data: {
+  assign: (data: {
     project_id: number;
     assigned_to_user_id: number;
     assigned_by_user_id?: number;
-  }): Promise<any> => {
-    const response = await fetch(`${API_BASE_URL}/project-assignments`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(data),
-    });
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to assign project");
-    }
-    return response.json();
-  },
+  }): Promise<any> =>
+    mutate(
+      http.post("/project-assignments", data, {
+        errorMessage: "Failed to assign project",
+      }),
+      ASSIGNMENT_READS
+    ),
 
   // Unassign a project
-  unassign: async (assignmentId: number): Promise<void> => {
-    const response = await fetch(`${API_BASE_URL}/project-assignments/${assignmentId}`, {
-      method: "DELETE",
-    });
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to unassign project");
-    }
-  },
+  unassign: (assignmentId: number): Promise<void> =>
+    mutate(
+      http.delete(`/project-assignments/${assignmentId}`, {
+        errorMessage: "Failed to unassign project",
+      }),
+      ASSIGNMENT_READS
+    ),
 
   // Unassign by project and user
-  unassignByProjectUser: async (projectId: number, userId: number): Promise<void> => {
-    const response = await fetch(`${API_BASE_URL}/project-assignments/project/${projectId}/user/${userId}`, {
-      method: "DELETE",
-    });
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to unassign project");
-    }
-  },
+  unassignByProjectUser: (projectId: number, userId: number): Promise<void> =>
+    mutate(
+      http.delete(`/project-assignments/project/${projectId}/user/${userId}`, {
+        errorMessage: "Failed to unassign project",
+      }),
+      ASSIGNMENT_READS
+    ),
 
   // Update a project assignment
-  update: async (assignmentId: number, data: {
+  update: (assignmentId: number, data: {
     assigned_to_user_id?: number;
     assigned_by_user_id?: number;
-  }): Promise<any> => {
-    const response = await fetch(`${API_BASE_URL}/project-assignments/${assignmentId}`, {
-      method: "PUT",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(data),
-    });
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to update project assignment");
-    }
-    return response.json();
-  },
+  }): Promise<any> =>
+    mutate(
+      http.put(`/project-assignments/${assignmentId}`, data, {
+        errorMessage: "Failed to update project assignment",
+      }),
+      ASSIGNMENT_READS
+    ),
+};
+
+// Notifications API (always for the signed-in user)
+export const notificationAPI = {
+  // Newest first
+  getAll: (options?: RequestOptions): Promise<AppNotification[]> =>
+    cachedGet("/notifications", {
+      ...options,
+      errorMessage: "Failed to fetch notifications",
+    }),
+
+  markRead: (id: number): Promise<AppNotification> =>
+    mutate(
+      http.put(`/notifications/${id}/read`, undefined, {
+        errorMessage: "Failed to mark notification as read",
+      }),
+      ["/notifications"]
+    ),
+
+  markAllRead: (): Promise<{ message: string }> =>
+    mutate(
+      http.put("/notifications/read-all", undefined, {
+        errorMessage: "Failed to mark notifications as read",
+      }),
+      ["/notifications"]
+    ),
+
+  getPreferences: (options?: RequestOptions): Promise<NotificationPreferences> =>
+    cachedGet("/notifications/preferences", {
+      ...options,
+      errorMessage: "Failed to fetch notification preferences",
+    }),
+
+  // Only the types given change
+  updatePreferences: (
+    preferences: Partial<NotificationPreferences>
+  ): Promise<NotificationPreferences> =>
+    mutate(
+      http.put("/notifications/preferences", preferences, {
+        errorMessage: "Failed to save notification preferences",
+      }),
+      ["/notifications/preferences"]
+    ),
+};
+
+// Email digests API
+export const digestAPI = {
+  // The signed-in user's digest settings; frequency "off" until they opt in
+  getSettings: (options?: RequestOptions): Promise<DigestSettings> =>
+    cachedGet("/digests/settings", {
+      ...options,
+      errorMessage: "Failed to fetch digest settings",
+    }),
+
+  updateSettings: (settings: DigestSettings): Promise<DigestSettings> =>
+    mutate(
+      http.put("/digests/settings", settings, {
+        errorMessage: "Failed to save digest settings",
+      }),
+      ["/digests/settings"]
+    ),
+
+  // One template per frequency
+  getTemplates: (options?: RequestOptions): Promise<DigestTemplate[]> =>
+    cachedGet("/digests/templates", {
+      ...options,
+      errorMessage: "Failed to fetch digest templates",
+    }),
+
+  // Super admins only
+  updateTemplate: (
+    frequency: DigestTemplate["frequency"],
+    data: Pick<DigestTemplate, "subject" | "body">
+  ): Promise<DigestTemplate> =>
+    mutate(
+      http.put(`/digests/templates/${frequency}`, data, {
+        errorMessage: "Failed to save digest template",
+      }),
+      ["/digests/templates"]
+    ),
+};
+
+// Time tracking API; timers and new entries are the signed-in user's
+export const timeAPI = {
+  // Null when no timer is running
+  getTimer: (options?: RequestOptions): Promise<ActiveTimer | null> =>
+    cachedGet("/time/timer", {
+      ...options,
+      errorMessage: "Failed to fetch timer",
+    }),
+
+  // Stops and logs the timer already running, if any
+  startTimer: (
+    taskId: number
+  ): Promise<{ timer: ActiveTimer; stopped: TimeEntry | null }> =>
+    mutate(
+      http.post("/time/timer", { task_id: taskId }, {
+        errorMessage: "Failed to start timer",
+      }),
+      TIME_READS
+    ),
+
+  // Runs under a minute aren't logged and return no entry
+  stopTimer: (): Promise<{ entry: TimeEntry | null; message: string }> =>
+    mutate(
+      http.post("/time/timer/stop", undefined, {
+        errorMessage: "Failed to stop timer",
+      }),
+      TIME_READS
+    ),
+
+  // Newest first
+  getEntries: (taskId: number, options?: RequestOptions): Promise<TimeEntry[]> =>
+    cachedGet(`/tasks/${taskId}/time-entries`, {
+      ...options,
+      errorMessage: "Failed to fetch time entries",
+    }),
+
+  logTime: (
+    taskId: number,
+    data: { date: string; hours: number; note?: string }
+  ): Promise<TimeEntry> =>
+    mutate(
+      http.post(`/tasks/${taskId}/time-entries`, data, {
+        errorMessage: "Failed to log time",
+      }),
+      TIME_READS
+    ),
+
+  deleteEntry: (entryId: number): Promise<{ message: string }> =>
+    mutate(
+      http.delete(`/time/entries/${entryId}`, {
+        errorMessage: "Failed to delete time entry",
+      }),
+      TIME_READS
+    ),
+};
+
+// Weekly timesheets, identified by user and any day of the week
+export const timesheetAPI = {
+  get: (userId: number, week: string, options?: RequestOptions): Promise<Timesheet> =>
+    cachedGet(`/timesheets/${userId}/${week}`, {
+      ...options,
+      errorMessage: "Failed to fetch timesheet",
+    }),
+
+  // Submitted timesheets the signed-in user can review
+  getPending: (options?: RequestOptions): Promise<Timesheet[]> =>
+    cachedGet("/timesheets/pending", {
+      ...options,
+      errorMessage: "Failed to fetch timesheets awaiting approval",
+    }),
+
+  // Locks the week's entries until it is reviewed
+  submit: (userId: number, week: string): Promise<Timesheet> =>
+    mutate(
+      http.post(`/timesheets/${userId}/${week}/submit`, undefined, {
+        errorMessage: "Failed to submit timesheet",
+      }),
+      TIME_READS
+    ),
+
+  // Hours per person, project and week for payroll and billing. Ids are
+  // comma-separated, as for the dashboard.
+  getExport: (
+    filters: { projectId?: string; employeeId?: string; startDate?: string; endDate?: string },
+    options?: RequestOptions
+  ): Promise<TimesheetExportRow[]> =>
+    cachedGet("/timesheets/export", {
+      ...options,
+      query: { ...filters },
+      errorMessage: "Failed to fetch timesheet export",
+    }),
+
+  // Rejecting needs a note and unlocks the entries again
+  review: (
+    userId: number,
+    week: string,
+    data: { decision: "approved" | "rejected"; note?: string }
+  ): Promise<Timesheet> =>
+    mutate(
+      http.post(`/timesheets/${userId}/${week}/review`, data, {
+        errorMessage: "Failed to review timesheet",
+      }),
+      TIME_READS
+    ),
 };
 
 export default {
@@ -791,4 +1117,9 @@ export default {
   taskAPI,
   dashboardAPI,
   projectAssignmentsAPI,
+  notificationAPI,
+  digestAPI,
+  timeAPI,
+  timesheetAPI,
+  costRatesAPI,
 };
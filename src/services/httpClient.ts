@@ -0,0 +1,295 @@
+import {
+  SessionTokens,
+  getAccessToken,
+  getRefreshToken,
+  isTokenExpired,
+  saveSession,
+  clearSession,
+  notifySessionExpired,
+} from "./session";
+import { runtimeConfig } from "../config";
+
+// Centralized backend API URL, resolved at runtime (see config.ts)
+export const API_BASE_URL = runtimeConfig.apiBaseUrl;
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_DELAY_MS = 300;
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+// Single error type for every API failure. `type` and `field` mirror what the
+// backend sends for validation errors (e.g. duplicate_email on /users).
+export class ApiError extends Error {
+  status: number;
+  type?: string;
+  field?: string;
+  data?: any;
+
+  constructor(
+    message: string,
+    status: number,
+    details: { type?: string; field?: string; data?: any } = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.type = details.type;
+    this.field = details.field;
+    this.data = details.data;
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof ApiError && error.type === "aborted";
+
+export interface RequestOptions {
+  // Cancels the request, e.g. when the calling component unmounts
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Only applied to GET requests
+  retries?: number;
+}
+
+type QueryValue = string | number | undefined | null;
+
+export type UploadProgressHandler = (loaded: number, total: number) => void;
+
+export interface RequestConfig extends RequestOptions {
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+  // Endpoints such as login/refresh are called without a bearer token
+  auth?: boolean;
+  // Message used when the server does not send one
+  errorMessage?: string;
+  // Reports bytes sent for FormData uploads
+  onUploadProgress?: UploadProgressHandler;
+}
+
+const buildUrl = (path: string, query?: Record<string, QueryValue>) => {
+  const params = new URLSearchParams();
+  if (query) {
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== "") {
+        params.append(key, String(value));
+      }
+    });
+  }
+  const queryString = params.toString();
+  return `${API_BASE_URL}${path}${queryString ? `?${queryString}` : ""}`;
+};
+
+const parseBody = async (response: Response): Promise<any> => {
+  const text = await response.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+// Everything goes through the transport so the mock backend (or a test) can
+// stand in for the network. The mock is loaded lazily to keep it out of
+// regular bundles.
+export type Transport = (
+  url: string,
+  init: RequestInit,
+  onUploadProgress?: UploadProgressHandler
+) => Promise<Response>;
+
+// fetch can't report upload progress, so uploads that want it use XHR
+const sendWithProgress = (
+  url: string,
+  init: RequestInit,
+  onUploadProgress: UploadProgressHandler
+) =>
+  new Promise<Response>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method || "GET", url);
+    new Headers(init.headers).forEach((value, key) => xhr.setRequestHeader(key, value));
+    xhr.upload.onprogress = (event) => onUploadProgress(event.loaded, event.total);
+    xhr.onload = () => resolve(new Response(xhr.responseText, { status: xhr.status }));
+    xhr.onerror = () => reject(new TypeError("Network error"));
+    xhr.onabort = () => reject(new DOMException("Aborted", "AbortError"));
+    init.signal?.addEventListener("abort", () => xhr.abort());
+    xhr.send(init.body as XMLHttpRequestBodyInit);
+  });
+
+const networkTransport: Transport = (url, init, onUploadProgress) =>
+  onUploadProgress ? sendWithProgress(url, init, onUploadProgress) : fetch(url, init);
+
+const mockTransport: Transport = async (url, init, onUploadProgress) => {
+  const { createMockFetch } = await import("../mocks/server");
+  return createMockFetch(API_BASE_URL)(url, init, onUploadProgress);
+};
+
+let transport: Transport = runtimeConfig.mockApi ? mockTransport : networkTransport;
+
+export const setTransport = (next: Transport | null) => {
+  transport = next || networkTransport;
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Shared in-flight refresh so concurrent 401s trigger a single refresh call
+let refreshPromise: Promise<string | null> | null = null;
+
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = getRefreshToken();
+      if (!refreshToken) return null;
+      try {
+        const tokens = await request<SessionTokens>("POST", "/auth/refresh", {
+          body: { refreshToken },
+          auth: false,
+          errorMessage: "Session expired",
+        });
+        saveSession(tokens);
+        return tokens.accessToken;
+      } catch {
+        return null;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+const expireSession = () => {
+  clearSession();
+  notifySessionExpired();
+};
+
+type SendOptions = RequestOptions & { onUploadProgress?: UploadProgressHandler };
+
+// Runs one fetch with the timeout and caller signal combined. Network
+// failures, timeouts and aborts are converted to ApiError with status 0.
+const send = async (
+  url: string,
+  init: RequestInit,
+  token: string | null,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, onUploadProgress }: SendOptions
+): Promise<Response> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  if (signal) {
+    if (signal.aborted) controller.abort();
+    signal.addEventListener("abort", onAbort);
+  }
+
+  const headers = new Headers(init.headers);
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+
+  try {
+    return await transport(
+      url,
+      { ...init, headers, signal: controller.signal },
+      onUploadProgress
+    );
+  } catch (error: any) {
+    if (timedOut) {
+      throw new ApiError("Request timed out", 0, { type: "timeout" });
+    }
+    if (controller.signal.aborted) {
+      throw new ApiError("Request aborted", 0, { type: "aborted" });
+    }
+    throw new ApiError(error?.message || "Network error", 0, { type: "network" });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+// Sends the bearer token, refreshes it when expired or rejected, and ends the
+// session if the refresh fails
+const sendWithAuth = async (
+  url: string,
+  init: RequestInit,
+  options: SendOptions
+): Promise<Response> => {
+  let token = getAccessToken();
+  if (token && isTokenExpired(token)) {
+    token = await refreshAccessToken();
+  }
+
+  let response = await send(url, init, token, options);
+  if (response.status === 401) {
+    const refreshed = await refreshAccessToken();
+    if (refreshed) {
+      response = await send(url, init, refreshed, options);
+    }
+    if (response.status === 401) {
+      expireSession();
+    }
+  }
+  return response;
+};
+
+export async function request<T>(
+  method: "GET" | "POST" | "PUT" | "DELETE",
+  path: string,
+  config: RequestConfig = {}
+): Promise<T> {
+  const { query, body, auth = true, errorMessage = "Request failed", ...options } = config;
+  const url = buildUrl(path, query);
+  const init: RequestInit = { method };
+  if (body instanceof FormData) {
+    // The browser sets the multipart boundary header itself
+    init.body = body;
+  } else if (body !== undefined) {
+    init.headers = { "Content-Type": "application/json" };
+    init.body = JSON.stringify(body);
+  }
+
+  // Only idempotent reads are retried
+  const maxRetries = method === "GET" ? options.retries ?? DEFAULT_GET_RETRIES : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = auth
+        ? await sendWithAuth(url, init, options)
+        : await send(url, init, null, options);
+      const data = await parseBody(response);
+
+      if (!response.ok) {
+        const error = new ApiError(
+          data?.message || data?.error || errorMessage,
+          response.status,
+          { type: data?.type, field: data?.field, data }
+        );
+        if (attempt < maxRetries && RETRYABLE_STATUSES.includes(response.status)) {
+          await delay(RETRY_DELAY_MS * (attempt + 1));
+          continue;
+        }
+        throw error;
+      }
+      return data as T;
+    } catch (error) {
+      const retryable =
+        error instanceof ApiError &&
+        error.status === 0 &&
+        error.type !== "aborted";
+      if (attempt < maxRetries && retryable) {
+        await delay(RETRY_DELAY_MS * (attempt + 1));
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+export const http = {
+  get: <T>(path: string, config?: RequestConfig) => request<T>("GET", path, config),
+  post: <T>(path: string, body?: unknown, config?: RequestConfig) =>
+    request<T>("POST", path, { ...config, body }),
+  put: <T>(path: string, body?: unknown, config?: RequestConfig) =>
+    request<T>("PUT", path, { ...config, body }),
+  delete: <T>(path: string, config?: RequestConfig) => request<T>("DELETE", path, config),
+};
@@ -0,0 +1,173 @@
+// Shared query cache for GET requests
+// - Entries are keyed by endpoint + params (e.g. "/tasks?userId=3&userRole=manager")
+// - Identical requests that are already in flight share one network call
+// - Fresh entries are served from memory; stale entries are served immediately
+//   and revalidated in the background (stale-while-revalidate)
+// - Mutations invalidate entries by path prefix, and subscribed views refetch
+// - Changes pushed by the server patch entries in place
+
+import { ApiError } from "./httpClient";
+
+export const DEFAULT_STALE_TIME_MS = 30000;
+
+interface CacheEntry {
+  data?: unknown;
+  hasData: boolean;
+  updatedAt: number;
+  promise?: Promise<unknown>;
+}
+
+type CacheListener = (key: string) => void;
+
+interface Subscription {
+  prefixes: string[];
+  listener: CacheListener;
+}
+
+const entries = new Map<string, CacheEntry>();
+const subscriptions = new Set<Subscription>();
+
+export const getQueryKey = (
+  path: string,
+  query?: Record<string, string | number | undefined | null>
+) => {
+  const params = new URLSearchParams();
+  if (query) {
+    Object.keys(query)
+      .sort()
+      .forEach((key) => {
+        const value = query[key];
+        if (value !== undefined && value !== null && value !== "") {
+          params.append(key, String(value));
+        }
+      });
+  }
+  const queryString = params.toString();
+  return queryString ? `${path}?${queryString}` : path;
+};
+
+// "/tasks" matches "/tasks", "/tasks?userId=1" and "/tasks/5/daily-updates"
+// but not "/tasks-timeline"
+const matchesPrefix = (key: string, prefix: string) =>
+  key === prefix ||
+  key.startsWith(`${prefix}/`) ||
+  key.startsWith(`${prefix}?`);
+
+const notify = (key: string) => {
+  subscriptions.forEach(({ prefixes, listener }) => {
+    if (prefixes.some((prefix) => matchesPrefix(key, prefix))) {
+      listener(key);
+    }
+  });
+};
+
+const runFetch = <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+  const entry = entries.get(key) || { hasData: false, updatedAt: 0 };
+  const promise = fetcher()
+    .then((data) => {
+      // Skip the write if the entry was invalidated while this was in flight
+      if (entries.get(key)?.promise === promise) {
+        entries.set(key, { data, hasData: true, updatedAt: Date.now() });
+      }
+      return data;
+    })
+    .catch((error) => {
+      const current = entries.get(key);
+      if (current?.promise === promise) {
+        entries.set(key, { ...current, promise: undefined });
+      }
+      throw error;
+    });
+  entries.set(key, { ...entry, promise });
+  return promise;
+};
+
+// Rejects when the caller's signal aborts without cancelling the shared request
+const withSignal = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    return Promise.reject(new ApiError("Request aborted", 0, { type: "aborted" }));
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () =>
+      reject(new ApiError("Request aborted", 0, { type: "aborted" }));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+};
+
+export const queryCache = {
+  fetch: <T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    options: { staleTime?: number; signal?: AbortSignal } = {}
+  ): Promise<T> => {
+    const { staleTime = DEFAULT_STALE_TIME_MS, signal } = options;
+    const entry = entries.get(key);
+
+    if (entry?.hasData) {
+      const isStale = Date.now() - entry.updatedAt > staleTime;
+      if (isStale && !entry.promise) {
+        // Serve the cached value now; subscribers are told when fresh data lands
+        runFetch(key, fetcher)
+          .then(() => notify(key))
+          .catch((error) => console.error(`Background refresh failed for ${key}:`, error));
+      }
+      return Promise.resolve(entry.data as T);
+    }
+
+    if (entry?.promise) {
+      return withSignal(entry.promise as Promise<T>, signal);
+    }
+
+    return withSignal(runFetch(key, fetcher), signal);
+  },
+
+  // Drops cached data under the given path prefixes and notifies subscribers
+  invalidate: (prefixes: string[]) => {
+    const invalidated: string[] = [];
+    entries.forEach((_, key) => {
+      if (prefixes.some((prefix) => matchesPrefix(key, prefix))) {
+        invalidated.push(key);
+      }
+    });
+    invalidated.forEach((key) => entries.delete(key));
+
+    // Notify once per subscriber, even if nothing for it was cached yet
+    subscriptions.forEach(({ prefixes: watched, listener }) => {
+      if (watched.some((w) => prefixes.some((p) => matchesPrefix(w, p) || matchesPrefix(p, w)))) {
+        listener(prefixes[0]);
+      }
+    });
+  },
+
+  // Rewrites cached data in place, e.g. for a change pushed by the server.
+  // Subscribers of the entries that changed are notified and read the
+  // patched data from memory.
+  update: (matches: (key: string) => boolean, updater: (data: unknown) => unknown) => {
+    const changed: string[] = [];
+    entries.forEach((entry, key) => {
+      if (!entry.hasData || !matches(key)) return;
+      const data = updater(entry.data);
+      if (data === entry.data) return;
+      entries.set(key, { ...entry, data, updatedAt: Date.now() });
+      changed.push(key);
+    });
+    changed.forEach(notify);
+  },
+
+  subscribe: (prefixes: string[], listener: CacheListener) => {
+    const subscription = { prefixes, listener };
+    subscriptions.add(subscription);
+    return () => {
+      subscriptions.delete(subscription);
+    };
+  },
+
+  // Used on logout so another user never sees cached data
+  clear: () => {
+    entries.clear();
+  },
+};
@@ -0,0 +1,224 @@
+// Live updates from the server
+// The backend streams every task, project, team and daily-update change, and
+// the signed-in user's new notifications, as server-sent events on
+// GET /events, opened with a single-use ticket from POST /events/ticket.
+// Changes are applied to the query cache (see
+// applyRealtimeEvent in api.ts), so subscribed views update without a
+// refresh, and changes made by other people are kept for a minute so views
+// can show who just touched a task.
+
+import { RealtimeEvent } from "../types";
+import { applyRealtimeEvent, invalidateRealtimeReads } from "./api";
+import { API_BASE_URL, http } from "./httpClient";
+import { getAccessToken } from "./session";
+import { runtimeConfig } from "../config";
+
+export type RealtimeStatus = "offline" | "connecting" | "live";
+
+export interface ChannelHandlers {
+  onOpen: () => void;
+  onEvent: (event: RealtimeEvent) => void;
+  // The connection dropped or was refused; the caller reconnects
+  onError: () => void;
+}
+
+// Opens one connection with a stream ticket and returns a function that
+// closes it. The mock backend (or a test) can stand in for the server, as
+// with the HTTP transport.
+export type RealtimeChannel = (ticket: string, handlers: ChannelHandlers) => () => void;
+
+// EventSource can't send an Authorization header, so a ticket goes in the
+// URL instead of the access token, which would end up in access logs
+const eventSourceChannel: RealtimeChannel = (ticket, { onOpen, onEvent, onError }) => {
+  const source = new EventSource(`${API_BASE_URL}/events?ticket=${encodeURIComponent(ticket)}`);
+  source.onopen = onOpen;
+  source.onmessage = (message) => {
+    try {
+      onEvent(JSON.parse(message.data));
+    } catch (error) {
+      console.error("Ignoring malformed realtime event:", error);
+    }
+  };
+  // EventSource would retry with the same, already used, ticket
+  source.onerror = () => {
+    source.close();
+    onError();
+  };
+  return () => source.close();
+};
+
+const mockChannel: RealtimeChannel = (ticket, handlers) => {
+  let close: (() => void) | null = null;
+  let closed = false;
+  import("../mocks/server").then(({ mockRealtimeChannel }) => {
+    if (!closed) close = mockRealtimeChannel(ticket, handlers);
+  });
+  return () => {
+    closed = true;
+    close?.();
+  };
+};
+
+let channel: RealtimeChannel = runtimeConfig.mockApi ? mockChannel : eventSourceChannel;
+
+export const setRealtimeChannel = (next: RealtimeChannel | null) => {
+  channel = next || eventSourceChannel;
+};
+
+const RECONNECT_DELAYS_MS = [1000, 5000, 15000, 30000];
+const ACTIVITY_TTL_MS = 60000;
+
+// A recent change to a task by someone else
+export interface TaskActivity {
+  actor: string;
+  summary: string;
+  at: string;
+}
+
+type EventListener = (event: RealtimeEvent) => void;
+type ChangeListener = () => void;
+
+const eventListeners = new Set<EventListener>();
+const changeListeners = new Set<ChangeListener>();
+let status: RealtimeStatus = "offline";
+let activity = new Map<number, TaskActivity>();
+const activityTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+const emitChange = () => changeListeners.forEach((listener) => listener());
+
+const setStatus = (next: RealtimeStatus) => {
+  if (status === next) return;
+  status = next;
+  emitChange();
+};
+
+// "moved", "reassigned", ... as shown next to a task
+export const describeChange = (event: RealtimeEvent): string => {
+  if (event.resource === "daily_update") return "commented on this task";
+  if (event.action === "created") return "created this task";
+  if (event.action === "deleted") return "deleted this task";
+  const changes = event.changes || [];
+  if (changes.includes("workflow_state") || changes.includes("status")) return "moved this task";
+  if (changes.includes("assignee_id")) return "reassigned this task";
+  return "edited this task";
+};
+
+const recordActivity = (event: RealtimeEvent) => {
+  if (event.resource !== "task" && event.resource !== "daily_update") return;
+  const taskId = event.resource === "daily_update" ? event.task_id : event.id;
+  if (!taskId) return;
+  activity = new Map(activity).set(taskId, {
+    actor: event.actor.username,
+    summary: describeChange(event),
+    at: event.at,
+  });
+  clearTimeout(activityTimers.get(taskId));
+  activityTimers.set(
+    taskId,
+    setTimeout(() => {
+      activityTimers.delete(taskId);
+      activity = new Map(activity);
+      activity.delete(taskId);
+      emitChange();
+    }, ACTIVITY_TTL_MS)
+  );
+  emitChange();
+};
+
+const clearActivity = () => {
+  activityTimers.forEach((timer) => clearTimeout(timer));
+  activityTimers.clear();
+  activity = new Map();
+};
+
+export const realtime = {
+  // Connects for the signed-in user and keeps reconnecting until the returned
+  // function is called. Cached data is updated before listeners hear about
+  // an event.
+  connect: (userId: number) => {
+    let close: (() => void) | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let stopped = false;
+    // Set once the stream drops, until it's open again
+    let dropped = false;
+
+    const reconnect = () => {
+      setStatus("connecting");
+      const wait = RECONNECT_DELAYS_MS[Math.min(attempt, RECONNECT_DELAYS_MS.length - 1)];
+      attempt++;
+      retryTimer = setTimeout(open, wait);
+    };
+
+    const open = async () => {
+      if (!getAccessToken()) {
+        setStatus("offline");
+        return;
+      }
+      setStatus("connecting");
+      // Requested like any other call, so an expired access token is
+      // refreshed first and a failed refresh ends the session
+      let ticket: string;
+      try {
+        ({ ticket } = await http.post<{ ticket: string }>("/events/ticket", undefined, {
+          errorMessage: "Failed to connect to live updates",
+        }));
+      } catch {
+        if (stopped) return;
+        if (getAccessToken()) reconnect();
+        else setStatus("offline");
+        return;
+      }
+      if (stopped) return;
+      close = channel(ticket, {
+        onOpen: () => {
+          attempt = 0;
+          // Events sent while the stream was down are lost
+          if (dropped) invalidateRealtimeReads();
+          dropped = false;
+          setStatus("live");
+        },
+        onEvent: (event) => {
+          applyRealtimeEvent(event);
+          if (event.actor.id !== userId) recordActivity(event);
+          eventListeners.forEach((listener) => listener(event));
+        },
+        onError: () => {
+          close = null;
+          dropped = true;
+          if (!stopped) reconnect();
+        },
+      });
+    };
+
+    open();
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      close?.();
+      clearActivity();
+      setStatus("offline");
+    };
+  },
+
+  // Every event, including the current user's own changes
+  subscribe: (listener: EventListener) => {
+    eventListeners.add(listener);
+    return () => {
+      eventListeners.delete(listener);
+    };
+  },
+
+  // Connection status and task activity changes
+  onChange: (listener: ChangeListener) => {
+    changeListeners.add(listener);
+    return () => {
+      changeListeners.delete(listener);
+    };
+  },
+
+  getStatus: () => status,
+
+  // Tasks other people changed in the last minute, by task id
+  getActivity: (): ReadonlyMap<number, TaskActivity> => activity,
+};
@@ -0,0 +1,104 @@
+// Session storage for token-based authentication.
+// The access token is the single source of truth for who the user is and
+// which role they have; nothing else in localStorage is trusted for auth.
+
+export type UserRole = "super_admin" | "manager" | "team_lead" | "employee";
+
+export interface SessionUser {
+  id: number;
+  username: string;
+  email?: string;
+  role: UserRole;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+interface TokenClaims {
+  sub?: string | number;
+  id?: number;
+  username?: string;
+  email?: string;
+  role?: string;
+  exp?: number;
+}
+
+const ACCESS_TOKEN_KEY = "accessToken";
+const REFRESH_TOKEN_KEY = "refreshToken";
+const VALID_ROLES: UserRole[] = ["super_admin", "manager", "team_lead", "employee"];
+
+// Treat tokens as expired slightly early so requests don't race the expiry
+const EXPIRY_SKEW_SECONDS = 30;
+
+// Decode the JWT payload. Signature verification happens on the server for
+// every request; a tampered token is rejected with 401 and ends the session.
+export const decodeToken = (token: string): TokenClaims | null => {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  try {
+    const base64 = parts[1].replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+    const json = decodeURIComponent(
+      atob(padded)
+        .split("")
+        .map((c) => "%" + c.charCodeAt(0).toString(16).padStart(2, "0"))
+        .join("")
+    );
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpired = (token: string): boolean => {
+  const claims = decodeToken(token);
+  if (!claims) return true;
+  if (!claims.exp) return false;
+  return claims.exp - EXPIRY_SKEW_SECONDS <= Date.now() / 1000;
+};
+
+// Build the user from token claims; returns null for malformed tokens
+export const getUserFromToken = (token: string): SessionUser | null => {
+  const claims = decodeToken(token);
+  if (!claims) return null;
+  const id = Number(claims.id ?? claims.sub);
+  const role = claims.role as UserRole;
+  if (!id || !claims.username || !VALID_ROLES.includes(role)) return null;
+  return { id, username: claims.username, email: claims.email, role };
+};
+
+export const getAccessToken = (): string | null =>
+  localStorage.getItem(ACCESS_TOKEN_KEY);
+
+export const getRefreshToken = (): string | null =>
+  localStorage.getItem(REFRESH_TOKEN_KEY);
+
+export const saveSession = (tokens: SessionTokens) => {
+  localStorage.setItem(ACCESS_TOKEN_KEY, tokens.accessToken);
+  localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  // Legacy keys from before token auth
+  localStorage.removeItem("user");
+  localStorage.removeItem("isAuthenticated");
+};
+
+// Session expiry notifications (401 that could not be recovered by a refresh)
+type SessionExpiredListener = () => void;
+const expiredListeners = new Set<SessionExpiredListener>();
+
+export const onSessionExpired = (listener: SessionExpiredListener) => {
+  expiredListeners.add(listener);
+  return () => {
+    expiredListeners.delete(listener);
+  };
+};
+
+export const notifySessionExpired = () => {
+  expiredListeners.forEach((listener) => listener());
+};
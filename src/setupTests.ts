@@ -3,3 +3,28 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+import { TextEncoder, TextDecoder } from 'util';
+import { API_BASE_URL, setTransport } from './services/httpClient';
+import { queryCache } from './services/queryCache';
+import { setRealtimeChannel } from './services/realtime';
+import {
+  createMockFetch,
+  mockRealtimeChannel,
+  resetMockDatabase,
+  setMockLatency,
+} from './mocks/server';
+
+// react-router needs these and jsdom doesn't provide them
+Object.assign(global, { TextEncoder, TextDecoder });
+
+// Tests never hit the network: every API call is answered by the mock
+// backend, reseeded before each test
+setMockLatency(0);
+setTransport(createMockFetch(API_BASE_URL));
+setRealtimeChannel(mockRealtimeChannel);
+
+beforeEach(() => {
+  resetMockDatabase();
+  queryCache.clear();
+  localStorage.clear();
+});
@@ -0,0 +1,46 @@
+import { API_BASE_URL, authAPI } from './services/api';
+import { saveSession } from './services/session';
+import { MOCK_PASSWORD } from './mocks/data';
+import { createMockFetch } from './mocks/server';
+
+// Logs in against the mock backend and stores the session, so components
+// under test make authenticated requests. Returns the user for `user` props.
+export const signIn = async (email: string) => {
+  const response = await authAPI.login(email, MOCK_PASSWORD);
+  saveSession(response);
+  return response.user;
+};
+
+// Sends one request to the mock backend as another user, leaving the
+// signed-in session alone, e.g. to make a colleague's change
+export const requestAs = async (
+  email: string,
+  method: 'POST' | 'PUT' | 'DELETE',
+  path: string,
+  body?: unknown
+) => {
+  const send = createMockFetch(API_BASE_URL);
+  const login = await send(`${API_BASE_URL}/auth/login`, {
+    method: 'POST',
+    body: JSON.stringify({ email, password: MOCK_PASSWORD }),
+  });
+  const { accessToken } = await login.json();
+  const response = await send(`${API_BASE_URL}${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${accessToken}` },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return response.json();
+};
+
+// Local YYYY-MM-DD for today plus an offset, moved forward off weekends
+export const weekdayFromToday = (offsetDays: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + offsetDays);
+  while (date.getDay() === 0 || date.getDay() === 6) {
+    date.setDate(date.getDate() + 1);
+  }
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
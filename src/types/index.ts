@@ -50,8 +50,32 @@ export interface Task {
   planned_hours: number;
   actual_hours: number;
   task_type: 'development' | 'testing' | 'design' | 'documentation' | 'review' | 'meeting' | 'other';
+  // First day of work; the timeline starts tasks without one on the day
+  // they were created
+  start_date?: string;
   due_date?: string;
-  attachments?: string;
+  // Included by GET /tasks/:id; lists load them separately
+  attachments?: TaskAttachment[];
+  // Tasks that must be completed before this one can start
+  blocked_by_ids?: number[];
+  // Set on subtasks; subtasks can't have subtasks of their own
+  parent_task_id?: number | null;
+  parent_task_name?: string;
+  // Subtask and checklist progress, included by task reads
+  rollup?: TaskRollup;
+  // Key of the project workflow state (board column) the task is in. The
+  // status is always that state's category; unset means the first state of
+  // the status's category.
+  workflow_state?: string | null;
+  // Set on occurrences of a recurring task; all occurrences share the id
+  recurrence_id?: number | null;
+  // 0-based position of this occurrence in its series
+  recurrence_index?: number;
+  recurrence?: RecurrenceRule | null;
+  // Manual position on the board; lower ranks come first
+  rank?: number;
+  // Who a blocked task is waiting for; they're notified when it's unblocked
+  dependent_user_id?: number | null;
   work_description?: string;
   productivity_rating?: number;
   created_at?: string;
@@ -68,6 +92,68 @@ export interface Task {
   allocated_hours?: number;
 }
 
+// A file uploaded to a task, or a link attached to it (e.g. when completing)
+export interface TaskAttachment {
+  id: number;
+  task_id: number;
+  kind: 'file' | 'link';
+  // Original file name; the URL itself for links
+  file_name: string;
+  mime_type?: string;
+  // Bytes; not set for links
+  size?: number;
+  // Where the file is served from, used for previews and downloads
+  url: string;
+  uploaded_by: number;
+  uploaded_by_name?: string;
+  uploaded_at: string;
+}
+
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  // Every N days/weeks/months
+  interval: number;
+  // Weekly only: days of the week (1 = Monday ... 5 = Friday)
+  weekdays?: number[];
+  // Ends on this date (YYYY-MM-DD) or after this many occurrences
+  until?: string;
+  count?: number;
+}
+
+// Which occurrences of a recurring task an edit applies to
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+export interface TaskRollup {
+  subtask_count: number;
+  completed_subtasks: number;
+  checklist_total: number;
+  checklist_done: number;
+  // The task's own hours plus its subtasks'
+  planned_hours: number;
+  actual_hours: number;
+}
+
+export interface ChecklistItem {
+  id: number;
+  task_id: number;
+  text: string;
+  done: boolean;
+  created_at: string;
+}
+
+// One side of a blocked-by relationship, as listed on the other task
+export interface TaskDependency {
+  id: number;
+  name: string;
+  status: Task['status'];
+  assignee_name?: string;
+}
+
+export interface TaskDependencies {
+  blocked_by: TaskDependency[];
+  blocks: TaskDependency[];
+}
+
 export interface Metrics {
   total_available_hours: number;
   total_planned_hours: number;
@@ -108,15 +194,267 @@ export interface DashboardData {
   };
 }
 
+// A project team member that can be @mentioned in task comments
+export interface MentionableUser {
+  id: number;
+  username: string;
+}
+
 // Daily Task Update interface
 export interface DailyUpdate {
   id: number;
   task_id: number;
   user_id: number;
+  // Markdown; may contain @username mentions
   comment: string;
+  // Set on replies; replies always point at a top-level update
+  parent_id?: number | null;
+  // User ids mentioned in the comment
+  mentions?: number[];
+  // Set when the author edits the comment
+  edited_at?: string | null;
   created_at: string;
   updated_at: string;
   username?: string;
   email?: string;
   user_name?: string;
-}
\ No newline at end of file
+}
+
+// Statuses double as workflow categories: every workflow state maps to one,
+// and metrics group by them
+export type WorkflowCategory = Task['status'];
+
+// Fields a transition asks for before a task can move
+export type TransitionRequirement = 'reason' | 'comment' | 'actual_hours';
+
+export interface WorkflowState {
+  key: string;
+  name: string;
+  category: WorkflowCategory;
+  // States a task may move to from here; all states when unset
+  transitions?: string[];
+  // Work-in-progress limit; the board warns past it but doesn't refuse moves
+  wip_limit?: number;
+}
+
+export interface WorkflowRule {
+  // Applies to moves into `to`, from `from` only when set
+  to: string;
+  from?: string;
+  requires: TransitionRequirement[];
+}
+
+// Ordered board columns of a project
+export interface ProjectWorkflow {
+  project_id: number;
+  states: WorkflowState[];
+  rules: WorkflowRule[];
+}
+
+// A change pushed by the server's event stream, made by any signed-in user
+export type RealtimeResource = 'task' | 'project' | 'team' | 'daily_update' | 'notification';
+
+export interface RealtimeEvent {
+  resource: RealtimeResource;
+  action: 'created' | 'updated' | 'deleted';
+  // The task, project, daily update or notification; team changes carry the
+  // project's id
+  id: number;
+  // Task a daily update belongs to
+  task_id?: number;
+  // Fields an update changed
+  changes?: string[];
+  // The record after the change, unless it was deleted
+  data?: any;
+  actor: { id: number; username: string };
+  at: string;
+}
+
+export type NotificationType =
+  | 'task_assigned'
+  | 'task_unblocked'
+  | 'daily_update'
+  | 'project_assignment'
+  | 'budget_alert';
+
+// Something that happened that concerns one user. Notifications are created
+// by the server and pushed only to their recipient.
+export interface AppNotification {
+  id: number;
+  user_id: number;
+  type: NotificationType;
+  message: string;
+  // What the notification links to
+  task_id?: number | null;
+  project_id?: number | null;
+  actor_id?: number | null;
+  actor_name?: string;
+  read: boolean;
+  created_at: string;
+}
+
+// Which types a user is notified about; every type is on unless turned off
+export type NotificationPreferences = Record<NotificationType, boolean>;
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+// Groups of the signed-in user's open tasks an email digest can list
+export type DigestSection = 'overdue' | 'blocked' | 'due_this_week' | 'due_next_week';
+
+export interface DigestSettings {
+  frequency: DigestFrequency;
+  // Day weekly digests go out (1 = Monday ... 5 = Friday)
+  weekday: number;
+  sections: DigestSection[];
+}
+
+// Email template for one digest frequency, edited by admins. The subject
+// and body take {{placeholders}} (see utils/digest.ts); the body is markdown.
+export interface DigestTemplate {
+  frequency: Exclude<DigestFrequency, 'off'>;
+  subject: string;
+  body: string;
+  updated_at?: string;
+  updated_by_name?: string;
+}
+
+// Time someone spent on a task. A task's actual_hours is the sum of its
+// entries.
+export interface TimeEntry {
+  id: number;
+  task_id: number;
+  user_id: number;
+  // Day the work was done (YYYY-MM-DD)
+  date: string;
+  hours: number;
+  note?: string;
+  created_at: string;
+  task_name?: string;
+  project_id?: number;
+  project_name?: string;
+  user_name?: string;
+  // Set while the week's timesheet is submitted or approved
+  locked?: boolean;
+}
+
+// The signed-in user's running timer; stopping it logs an entry
+export interface ActiveTimer {
+  task_id: number;
+  task_name?: string;
+  started_at: string;
+}
+
+// Submitted timesheets are locked until a reviewer approves or rejects them;
+// rejected ones can be changed and submitted again
+export type TimesheetStatus = 'open' | 'submitted' | 'approved' | 'rejected';
+
+// One user's time entries for a Monday-to-Sunday week
+export interface Timesheet {
+  user_id: number;
+  user_name?: string;
+  // Monday of the week (YYYY-MM-DD)
+  week_start: string;
+  status: TimesheetStatus;
+  entries: TimeEntry[];
+  total_hours: number;
+  submitted_at?: string | null;
+  reviewed_by_name?: string;
+  reviewed_at?: string | null;
+  // Why a timesheet was rejected
+  review_note?: string | null;
+}
+
+// Hourly cost of people's time in ₹, by role, with per-person rates that
+// override their role's
+export interface CostRates {
+  roles: Record<'super_admin' | 'manager' | 'team_lead' | 'employee', number>;
+  // By user id
+  users: Record<number, number>;
+}
+
+export type BudgetMetric = 'budget' | 'hours';
+
+// A project past 80% or 100% of its budget or estimated hours
+export interface BudgetAlert {
+  metric: BudgetMetric;
+  threshold: 80 | 100;
+  message: string;
+}
+
+// What a project has cost so far and is on course to cost. Budget figures
+// are null for projects without a budget (hours: without estimated hours).
+export interface ProjectFinancials {
+  project_id: number;
+  budget: number | null;
+  estimated_hours: number | null;
+  logged_hours: number;
+  // Logged hours at each person's cost rate
+  cost: number;
+  remaining_budget: number | null;
+  // Planned hours of open tasks not logged yet
+  remaining_hours: number;
+  forecast_hours: number;
+  forecast_cost: number;
+  // Forecast cost beyond the budget, 0 when within it
+  forecast_overrun: number | null;
+  // Shares used, 1 = all of it
+  budget_used: number | null;
+  hours_used: number | null;
+  alerts: BudgetAlert[];
+  people: {
+    user_id: number;
+    user_name: string;
+    role: string;
+    rate: number;
+    // Whether the person has their own rate or their role's applies
+    rate_source: 'user' | 'role';
+    hours: number;
+    cost: number;
+  }[];
+}
+
+// Planned hours of a project's tasks at the end of a day. Days after today
+// only have the ideal line, which is null without an end date.
+export interface BurnDay {
+  date: string;
+  scope: number | null;
+  completed: number | null;
+  remaining: number | null;
+  ideal: number | null;
+}
+
+// A task added to, re-estimated in or removed from a project after it started
+export interface ScopeChange {
+  date: string;
+  task_id: number;
+  task_name: string;
+  kind: 'added' | 're-estimated' | 'removed';
+  from_hours: number | null;
+  to_hours: number | null;
+}
+
+export interface ProjectBurnData {
+  project_id: number;
+  project_name: string;
+  start_date: string;
+  end_date: string | null;
+  days: BurnDay[];
+  scope_changes: ScopeChange[];
+}
+
+// One person's hours on one project in one week, for payroll and billing
+export interface TimesheetExportRow {
+  week_start: string;
+  user_id: number;
+  user_name: string;
+  user_email: string;
+  project_id: number;
+  project_name: string;
+  logged_hours: number;
+  // Planned hours of their tasks on the project due that week
+  planned_hours: number;
+  // The person's cost rate (see CostRates)
+  hourly_rate: number;
+  cost: number;
+  status: TimesheetStatus;
+}
@@ -0,0 +1,26 @@
+import { BurnDay, ScopeChange } from '../types';
+
+// Points on scope-change days stand out on both burn charts
+export const SCOPE_CHANGE_COLOR = '#d97706';
+
+export const describeScopeChange = (change: ScopeChange) => {
+  if (change.kind === 'added') return `Added "${change.task_name}" (+${change.to_hours}h)`;
+  if (change.kind === 'removed') return `Removed "${change.task_name}" (-${change.from_hours}h)`;
+  return `Re-estimated "${change.task_name}" from ${change.from_hours}h to ${change.to_hours}h`;
+};
+
+export const scopeChangesByDay = (changes: ScopeChange[]) => {
+  const byDay = new Map<string, ScopeChange[]>();
+  changes.forEach((change) => {
+    byDay.set(change.date, [...(byDay.get(change.date) || []), change]);
+  });
+  return byDay;
+};
+
+// Point radius and color per day: only scope changes get a marker
+export const scopeChangePoints = (days: BurnDay[], byDay: Map<string, ScopeChange[]>) => ({
+  pointRadius: days.map((day) => (byDay.has(day.date) ? 5 : 0)),
+  pointHoverRadius: days.map((day) => (byDay.has(day.date) ? 7 : 4)),
+  pointBackgroundColor: SCOPE_CHANGE_COLOR,
+  pointBorderColor: '#fff',
+});
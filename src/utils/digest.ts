@@ -0,0 +1,122 @@
+import { DigestSection, DigestTemplate, Task } from '../types';
+
+// Email digests of a user's open tasks. The backend sends them with the
+// admin-edited templates; the settings page and the template editor render
+// the same digest here as a preview.
+
+export const DIGEST_SECTIONS: { value: DigestSection; label: string }[] = [
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'blocked', label: 'Blocked' },
+  { value: 'due_this_week', label: 'Due this week' },
+  { value: 'due_next_week', label: 'Due next week' },
+];
+
+export const DIGEST_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: 'name', description: "Recipient's name" },
+  { key: 'date', description: 'Date the digest is sent' },
+  { key: 'period', description: '"today" or "this week"' },
+  { key: 'task_count', description: 'Number of tasks listed' },
+  { key: 'sections', description: 'The task lists, one per chosen section' },
+];
+
+export const WEEKDAY_OPTIONS = [
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+];
+
+// Dates are compared as local YYYY-MM-DD strings
+const formatDate = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// Calendar weeks run Monday to Sunday, as on the dashboard
+const sundayOf = (date: Date) => addDays(date, date.getDay() === 0 ? 0 : 7 - date.getDay());
+
+// Open tasks by section. A task is listed once, in the first section it fits:
+// blocked, then overdue, then due this week, then due next week.
+export const buildDigest = (tasks: Task[], today = new Date()): Record<DigestSection, Task[]> => {
+  const todayStr = formatDate(today);
+  const thisSunday = formatDate(sundayOf(today));
+  const nextSunday = formatDate(addDays(sundayOf(today), 7));
+  const digest: Record<DigestSection, Task[]> = {
+    overdue: [],
+    blocked: [],
+    due_this_week: [],
+    due_next_week: [],
+  };
+  tasks.forEach((task) => {
+    if (task.status === 'completed') return;
+    const due = task.due_date?.slice(0, 10);
+    if (task.status === 'blocked') digest.blocked.push(task);
+    else if (due && due < todayStr) digest.overdue.push(task);
+    else if (due && due <= thisSunday) digest.due_this_week.push(task);
+    else if (due && due <= nextSunday) digest.due_next_week.push(task);
+  });
+  Object.values(digest).forEach((list) =>
+    list.sort((a, b) => (a.due_date || '').localeCompare(b.due_date || '') || a.id - b.id)
+  );
+  return digest;
+};
+
+const formatDue = (value: string) =>
+  new Date(`${value.slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const taskLine = (task: Task) => {
+  const details = [task.project_name, task.due_date && `due ${formatDue(task.due_date)}`]
+    .filter(Boolean)
+    .join(', ');
+  return `- **${task.name}**${details ? ` (${details})` : ''}`;
+};
+
+export interface RenderedDigest {
+  subject: string;
+  // Markdown, as rendered by MarkdownText
+  body: string;
+  taskCount: number;
+}
+
+// Fills in a template's placeholders. Unknown placeholders are left as typed,
+// so a typo shows up in the preview.
+export const renderDigest = (
+  template: Pick<DigestTemplate, 'frequency' | 'subject' | 'body'>,
+  recipient: string,
+  tasks: Task[],
+  sections: DigestSection[],
+  today = new Date()
+): RenderedDigest => {
+  const digest = buildDigest(tasks, today);
+  const chosen = DIGEST_SECTIONS.filter(({ value }) => sections.includes(value));
+  const taskCount = chosen.reduce((sum, { value }) => sum + digest[value].length, 0);
+  const sectionText = chosen
+    .map(({ value, label }) =>
+      digest[value].length
+        ? `**${label} (${digest[value].length})**\n${digest[value].map(taskLine).join('\n')}`
+        : `**${label}**\nNothing here.`
+    )
+    .join('\n\n');
+  const values: Record<string, string> = {
+    name: recipient,
+    date: today.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' }),
+    period: template.frequency === 'daily' ? 'today' : 'this week',
+    task_count: String(taskCount),
+    sections: sectionText || 'No sections are selected.',
+  };
+  const fill = (text: string) =>
+    text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => values[key] ?? match);
+  return { subject: fill(template.subject), body: fill(template.body), taskCount };
+};
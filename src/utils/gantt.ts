@@ -0,0 +1,91 @@
+import { Task } from '../types';
+import { addDays, localToday, toDateString } from './timesheet';
+
+export type GanttZoom = 'day' | 'week' | 'month';
+
+// Width of one day on the timeline, in pixels
+export const DAY_WIDTHS: Record<GanttZoom, number> = {
+  day: 32,
+  week: 14,
+  month: 5,
+};
+
+export const ZOOM_OPTIONS: { value: GanttZoom; label: string }[] = [
+  { value: 'day', label: 'Days' },
+  { value: 'week', label: 'Weeks' },
+  { value: 'month', label: 'Months' },
+];
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to.slice(0, 10)) - Date.parse(from.slice(0, 10))) / 86400000);
+
+// First and last day of a task's bar: its start date, or the day it was
+// created, up to its due date. Tasks without a due date have no bar.
+export const taskSpanOf = (task: Task) => {
+  if (!task.due_date) return null;
+  const due = task.due_date.slice(0, 10);
+  const start =
+    task.start_date?.slice(0, 10) || (task.created_at ? toDateString(new Date(task.created_at)) : due);
+  return { start: start > due ? due : start, end: due };
+};
+
+const isWeekend = (day: string) => [0, 6].includes(new Date(`${day}T00:00:00Z`).getUTCDay());
+
+// The task forms' rules for a new due date; the mock backend applies them too
+export const dueDateError = (day: string): string | null => {
+  if (isWeekend(day)) return 'Due date cannot be on a weekend (Saturday or Sunday)';
+  if (day < localToday()) return 'Due date cannot be in the past';
+  return null;
+};
+
+// Moves a bar by whole days. Moving shifts both ends; resizing only moves
+// the due date, never to before the start. A shift that would put the due
+// date on a weekend carries on to the next weekday in the same direction.
+export const shiftSpan = (
+  span: { start: string; end: string },
+  days: number,
+  mode: 'move' | 'resize'
+) => {
+  let shift = days;
+  while (shift !== 0 && isWeekend(addDays(span.end, shift))) shift += Math.sign(shift);
+  if (mode === 'move') return { start: addDays(span.start, shift), end: addDays(span.end, shift) };
+  const end = addDays(span.end, shift);
+  return { start: span.start, end: end < span.start ? span.start : end };
+};
+
+// Days shown: every span and today, with a few days either side
+export const timelineRange = (spans: { start: string; end: string }[], padding = 3) => {
+  const today = localToday();
+  const days = [today, ...spans.flatMap((span) => [span.start, span.end])].sort();
+  const start = addDays(days[0], -padding);
+  const end = addDays(days[days.length - 1], padding);
+  return { start, end, length: daysBetween(start, end) + 1 };
+};
+
+// Header cells: months on top, then days, Mondays or nothing below them
+export const timelineHeader = (range: { start: string; length: number }, zoom: GanttZoom) => {
+  const months: { key: string; label: string; offset: number; days: number }[] = [];
+  const ticks: { key: string; label: string; offset: number; days: number }[] = [];
+  for (let offset = 0; offset < range.length; offset++) {
+    const day = addDays(range.start, offset);
+    const month = day.slice(0, 7);
+    const last = months[months.length - 1];
+    if (last?.key === month) {
+      last.days++;
+    } else {
+      const date = new Date(`${day}T00:00:00Z`);
+      months.push({
+        key: month,
+        label: date.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' }),
+        offset,
+        days: 1,
+      });
+    }
+    if (zoom === 'day') {
+      ticks.push({ key: day, label: String(Number(day.slice(8))), offset, days: 1 });
+    } else if (zoom === 'week' && new Date(`${day}T00:00:00Z`).getUTCDay() === 1) {
+      ticks.push({ key: day, label: String(Number(day.slice(8))), offset, days: 7 });
+    }
+  }
+  return { months, ticks };
+};
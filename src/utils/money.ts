@@ -0,0 +1,4 @@
+// Budgets, rates and costs are in Indian rupees
+const RUPEES = new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' });
+
+export const formatMoney = (amount: number) => RUPEES.format(amount);
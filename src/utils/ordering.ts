@@ -0,0 +1,48 @@
+import { Task } from '../types';
+
+// Manual ranking of Kanban cards. A rank is a single number per task, so it
+// stays put when the task moves to another column or lane.
+
+export type TaskSort = 'rank' | 'priority' | 'due_date';
+
+export const SORT_OPTIONS: { value: TaskSort; label: string }[] = [
+  { value: 'rank', label: 'Rank' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'due_date', label: 'Due date' },
+];
+
+// Gap between neighbouring ranks; dropping between two cards takes the midpoint
+export const RANK_STEP = 1024;
+
+// Tasks that were never ranked keep their creation order, after ranked ones
+// placed at the same spot
+export const rankOf = (task: Pick<Task, 'id' | 'rank'>) => task.rank ?? task.id * RANK_STEP;
+
+export const rankBetween = (before?: number, after?: number) => {
+  if (before !== undefined && after !== undefined) return (before + after) / 2;
+  if (before !== undefined) return before + RANK_STEP;
+  if (after !== undefined) return after - RANK_STEP;
+  return RANK_STEP;
+};
+
+const byRank = (a: Task, b: Task) => rankOf(a) - rankOf(b) || a.id - b.id;
+
+// Priority and due date sorts fall back to rank, so equal cards keep the
+// team's order
+export const sortTasks = (tasks: Task[], sort: TaskSort): Task[] => {
+  const sorted = [...tasks];
+  if (sort === 'priority') {
+    return sorted.sort((a, b) => a.priority.localeCompare(b.priority) || byRank(a, b));
+  }
+  if (sort === 'due_date') {
+    return sorted.sort((a, b) => {
+      if (a.due_date !== b.due_date) {
+        if (!a.due_date) return 1;
+        if (!b.due_date) return -1;
+        return a.due_date.localeCompare(b.due_date);
+      }
+      return byRank(a, b);
+    });
+  }
+  return sorted.sort(byRank);
+};
@@ -0,0 +1,121 @@
+import { RecurrenceRule } from '../types';
+
+// Shared by the task form (previewing occurrences) and the mock backend
+// (generating them), so both agree on the dates.
+
+// Upper bound on occurrences generated for one rule
+export const MAX_OCCURRENCES = 100;
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Dates are handled as UTC midnights so DST changes never shift a day
+const parseDate = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next;
+};
+
+const isWeekend = (date: Date) => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+
+// Same day-of-month N months later, clamped to the month's last day and
+// moved off weekends the way due dates are (Saturday -> Friday, Sunday -> Monday)
+const monthlyDate = (start: Date, monthsAhead: number) => {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + monthsAhead;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const date = new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay)));
+  if (date.getUTCDay() === 6) return addDays(date, -1);
+  if (date.getUTCDay() === 0) return addDays(date, 1);
+  return date;
+};
+
+export const validateRecurrence = (rule: RecurrenceRule, firstDate: string): string | null => {
+  if (!firstDate) return 'Set a due date for the first occurrence';
+  if (isWeekend(parseDate(firstDate))) return "The first occurrence can't be on a weekend";
+  if (!rule.interval || rule.interval < 1) return 'Repeat interval must be at least 1';
+  if (rule.frequency === 'weekly' && !rule.weekdays?.length) {
+    return 'Choose at least one weekday';
+  }
+  if (!rule.until && !rule.count) return 'Choose when the recurrence ends';
+  if (rule.count !== undefined && rule.count < 1) return 'Occurrences must be at least 1';
+  if (rule.until && rule.until < firstDate) return 'End date must be after the first occurrence';
+  return null;
+};
+
+// Due dates (YYYY-MM-DD) of every occurrence, starting at `firstDate`.
+// Daily recurrences skip weekends.
+export const expandRecurrence = (rule: RecurrenceRule, firstDate: string): string[] => {
+  const start = parseDate(firstDate);
+  const until = rule.until ? parseDate(rule.until) : null;
+  const limit = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const interval = Math.max(1, rule.interval || 1);
+  const dates: string[] = [];
+  const push = (date: Date) => {
+    if (until && date > until) return false;
+    if (dates.length >= limit) return false;
+    dates.push(formatDate(date));
+    return true;
+  };
+
+  if (rule.frequency === 'daily') {
+    // Every `interval` weekdays, counting on from the first weekday
+    let date = start;
+    while (isWeekend(date)) date = addDays(date, 1);
+    while (push(date)) {
+      for (let weekdays = 0; weekdays < interval; ) {
+        date = addDays(date, 1);
+        if (!isWeekend(date)) weekdays++;
+      }
+    }
+  } else if (rule.frequency === 'weekly') {
+    const weekdays = Array.from(new Set(rule.weekdays || [])).sort();
+    // Monday of the first occurrence's week
+    const monday = addDays(start, -((start.getUTCDay() + 6) % 7));
+    let done = false;
+    for (let week = 0; !done && week < MAX_OCCURRENCES * interval; week += interval) {
+      for (const weekday of weekdays) {
+        const date = addDays(monday, week * 7 + ((weekday + 6) % 7));
+        if (date < start) continue;
+        if (!push(date)) {
+          done = true;
+          break;
+        }
+      }
+    }
+  } else {
+    for (let months = 0; ; months += interval) {
+      if (!push(monthlyDate(start, months))) break;
+    }
+  }
+
+  return dates;
+};
+
+// Human-readable summary, e.g. "Weekly on Mon, Wed, 10 times"
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const every =
+    rule.interval > 1
+      ? `Every ${rule.interval} ${rule.frequency === 'daily' ? 'weekdays' : rule.frequency === 'weekly' ? 'weeks' : 'months'}`
+      : rule.frequency === 'daily'
+      ? 'Every weekday'
+      : rule.frequency === 'weekly'
+      ? 'Weekly'
+      : 'Monthly';
+  const days =
+    rule.frequency === 'weekly' && rule.weekdays?.length
+      ? ` on ${[...rule.weekdays].sort().map((d) => WEEKDAY_NAMES[d]).join(', ')}`
+      : '';
+  const end = rule.until
+    ? ` until ${rule.until}`
+    : rule.count
+    ? `, ${rule.count} time${rule.count === 1 ? '' : 's'}`
+    : '';
+  return `${every}${days}${end}`;
+};
@@ -0,0 +1,40 @@
+// Matching for the command palette. Lower scores rank higher; null means
+// no match.
+
+const normalize = (value: string) => value.toLowerCase().trim();
+
+// Exact match, then prefix, then the start of any word, then anywhere
+export const matchScore = (query: string, text?: string | null): number | null => {
+  const q = normalize(query);
+  const t = normalize(text || '');
+  if (!q || !t) return null;
+  if (t === q) return 0;
+  if (t.startsWith(q)) return 1;
+  if (t.split(/[\s\-_/.@]+/).some((word) => word.startsWith(q))) return 2;
+  if (t.includes(q)) return 3;
+  return null;
+};
+
+// Best score over a record's fields; matches on the first (main) field win
+// over equally good matches on the others
+export const bestScore = (query: string, fields: (string | null | undefined)[]): number | null =>
+  fields.reduce<number | null>((best, field, index) => {
+    const score = matchScore(query, field);
+    if (score === null) return best;
+    const weighted = index === 0 ? score : score + 0.5;
+    return best === null || weighted < best ? weighted : best;
+  }, null);
+
+// Records matching the query, best first, at most `limit`
+export const searchRecords = <T>(
+  records: T[],
+  query: string,
+  fieldsOf: (record: T) => (string | null | undefined)[],
+  limit: number
+): T[] =>
+  records
+    .map((record) => ({ record, score: bestScore(query, fieldsOf(record)) }))
+    .filter((entry): entry is { record: T; score: number } => entry.score !== null)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map(({ record }) => record);
@@ -0,0 +1,60 @@
+import { Task } from '../types';
+
+// Horizontal groupings of the Kanban board. Moving a card to another lane
+// changes the field the lanes group by.
+
+export type SwimlaneGrouping = 'none' | 'assignee' | 'project' | 'priority';
+
+export interface Swimlane {
+  key: string;
+  label: string;
+}
+
+export const SWIMLANE_OPTIONS: { value: SwimlaneGrouping; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'assignee', label: 'Assignee' },
+  { value: 'project', label: 'Project' },
+  { value: 'priority', label: 'Priority' },
+];
+
+const PRIORITY_LANES: Swimlane[] = [
+  { key: 'p1', label: 'P1 - Critical' },
+  { key: 'p2', label: 'P2 - High' },
+  { key: 'p3', label: 'P3 - Medium' },
+  { key: 'p4', label: 'P4 - Low' },
+];
+
+export const laneKeyOf = (task: Task, grouping: SwimlaneGrouping): string => {
+  switch (grouping) {
+    case 'assignee':
+      return String(task.assignee_id);
+    case 'project':
+      return String(task.project_id);
+    case 'priority':
+      return task.priority;
+    default:
+      return '';
+  }
+};
+
+// Lanes for the tasks on the board. Every priority gets a lane so cards can
+// be dropped into an empty one; assignees and projects only appear when they
+// have tasks.
+export const swimlanesOf = (tasks: Task[], grouping: SwimlaneGrouping): Swimlane[] => {
+  if (grouping === 'none') return [{ key: '', label: '' }];
+  if (grouping === 'priority') return PRIORITY_LANES;
+  const lanes = new Map<string, string>();
+  tasks.forEach((task) => {
+    const key = laneKeyOf(task, grouping);
+    if (!lanes.has(key)) {
+      lanes.set(
+        key,
+        (grouping === 'assignee' ? task.assignee_name : task.project_name) ||
+          (grouping === 'assignee' ? 'Unassigned' : `Project ${task.project_id}`)
+      );
+    }
+  });
+  return Array.from(lanes, ([key, label]) => ({ key, label })).sort((a, b) =>
+    a.label.localeCompare(b.label)
+  );
+};
@@ -0,0 +1,24 @@
+// Per-user dark theme. The choice is kept in localStorage and applied as
+// data-theme="dark" on <html> and <body>; changes are announced with a
+// "dark-theme-changed" window event so open views can follow.
+
+const storageKey = (userId: number) => `dark-theme-${userId}`;
+
+export const isDarkThemeSaved = (userId: number) =>
+  localStorage.getItem(storageKey(userId)) === 'true';
+
+export const applyDarkTheme = (isDark: boolean) => {
+  if (isDark) {
+    document.documentElement.setAttribute('data-theme', 'dark');
+    document.body.setAttribute('data-theme', 'dark');
+  } else {
+    document.documentElement.removeAttribute('data-theme');
+    document.body.removeAttribute('data-theme');
+  }
+};
+
+export const setDarkTheme = (userId: number, enabled: boolean) => {
+  localStorage.setItem(storageKey(userId), String(enabled));
+  applyDarkTheme(enabled);
+  window.dispatchEvent(new CustomEvent('dark-theme-changed', { detail: { userId, enabled } }));
+};
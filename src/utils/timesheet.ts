@@ -0,0 +1,64 @@
+import { TimesheetStatus } from '../types';
+
+// Shared by the timer, the timesheet page and the mock backend. Weeks run
+// Monday to Sunday; days are YYYY-MM-DD strings in local time.
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  open: 'Not submitted',
+  submitted: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Changes requested',
+};
+
+// Entries and timers are kept to the minute or so
+export const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+export const toDateString = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const localToday = () => toDateString(new Date());
+
+// Day arithmetic on UTC midnights so DST changes never shift a day
+const parseDay = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+export const addDays = (day: string, days: number) => {
+  const date = parseDay(day);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+// Monday of the week a day falls in
+export const weekStartOf = (day: string) => {
+  const weekday = parseDay(day).getUTCDay();
+  return addDays(day, weekday === 0 ? -6 : 1 - weekday);
+};
+
+export const weekDays = (weekStart: string) =>
+  Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+
+// Hours a timer started at `startedAt` has run
+export const elapsedHours = (startedAt: string, until = Date.now()) =>
+  Math.max(0, (until - Date.parse(startedAt)) / 3600000);
+
+// "1:05:09" for a running timer
+export const formatElapsed = (hours: number) => {
+  const seconds = Math.floor(hours * 3600);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+};
+
+// "Mon, Oct 12"
+export const formatDay = (day: string) =>
+  parseDay(day).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
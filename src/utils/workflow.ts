@@ -0,0 +1,113 @@
+import {
+  ProjectWorkflow,
+  Task,
+  TransitionRequirement,
+  WorkflowCategory,
+  WorkflowState,
+} from '../types';
+
+// Workflow helpers shared by the board, the workflow editor and the mock
+// backend, so a move the board offers is one the backend accepts.
+
+export const WORKFLOW_CATEGORIES: { value: WorkflowCategory; label: string }[] = [
+  { value: 'todo', label: 'To Do' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'blocked', label: 'Blocked' },
+  { value: 'completed', label: 'Completed' },
+];
+
+export const REQUIREMENT_LABELS: Record<TransitionRequirement, string> = {
+  reason: 'a reason',
+  comment: 'a comment',
+  actual_hours: 'actual hours',
+};
+
+// Projects without a workflow of their own use the four statuses, with the
+// same prompts the board has always shown for blocking and completing
+export const defaultWorkflow = (projectId: number): ProjectWorkflow => ({
+  project_id: projectId,
+  states: WORKFLOW_CATEGORIES.map(({ value, label }) => ({
+    key: value,
+    name: label,
+    category: value,
+  })),
+  rules: [
+    { to: 'blocked', requires: ['reason'] },
+    { to: 'completed', requires: ['actual_hours'] },
+  ],
+});
+
+// The state a task is in; tasks that never moved on a custom board sit in
+// the first state of their status's category
+export const stateOf = (
+  task: Pick<Task, 'status' | 'workflow_state'>,
+  workflow: ProjectWorkflow
+): WorkflowState => {
+  const current = workflow.states.find((state) => state.key === task.workflow_state);
+  if (current && current.category === task.status) return current;
+  return (
+    workflow.states.find((state) => state.category === task.status) || workflow.states[0]
+  );
+};
+
+export const canTransition = (workflow: ProjectWorkflow, from: string, to: string) => {
+  if (from === to) return true;
+  const state = workflow.states.find((s) => s.key === from);
+  return !state?.transitions || state.transitions.includes(to);
+};
+
+export const requirementsFor = (
+  workflow: ProjectWorkflow,
+  from: string,
+  to: string
+): TransitionRequirement[] => {
+  const requires = workflow.rules
+    .filter((rule) => rule.to === to && (!rule.from || rule.from === from))
+    .flatMap((rule) => rule.requires);
+  return Array.from(new Set(requires));
+};
+
+// Requirements an update payload leaves unmet. Reasons and comments are
+// both stored as the task's work description.
+export const missingRequirements = (
+  requires: TransitionRequirement[],
+  data: { work_description?: string; actual_hours?: number }
+): TransitionRequirement[] =>
+  requires.filter((requirement) =>
+    requirement === 'actual_hours'
+      ? !(Number(data.actual_hours) > 0)
+      : !data.work_description?.trim()
+  );
+
+export const validateWorkflow = (workflow: Pick<ProjectWorkflow, 'states' | 'rules'>) => {
+  const keys = workflow.states.map((state) => state.key);
+  const names = workflow.states.map((state) => state.name.trim().toLowerCase());
+  if (names.some((name) => !name)) return 'Every column needs a name';
+  if (new Set(names).size !== names.length || new Set(keys).size !== keys.length) {
+    return 'Column names must be unique';
+  }
+  const missing = WORKFLOW_CATEGORIES.find(
+    ({ value }) => !workflow.states.some((state) => state.category === value)
+  );
+  if (missing) return `Add at least one column in the ${missing.label} category`;
+  const badLimit = workflow.states.find(
+    (state) =>
+      state.wip_limit !== undefined && !(Number.isInteger(state.wip_limit) && state.wip_limit > 0)
+  );
+  if (badLimit) return `WIP limit of ${badLimit.name} must be a whole number above zero`;
+  const unknown = workflow.states.some((state) =>
+    state.transitions?.some((key) => !keys.includes(key))
+  );
+  if (unknown || workflow.rules.some((rule) => !keys.includes(rule.to))) {
+    return 'Transitions and rules must refer to existing columns';
+  }
+  return null;
+};
+
+// Stable key for a new column, e.g. "Ready for QA" -> "ready_for_qa"
+export const stateKey = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');